@@ -0,0 +1,76 @@
+import {
+  CollectionName,
+  DATA_DIR,
+  DEFAULT_SQLITE_PATH,
+  JsonStorage,
+  SqliteStorage,
+  StorageRecord
+} from '@/lib/storage';
+
+/**
+ * One-shot import of the JSON data files into the SQLite database
+ *
+ * Usage: npm run db:import-json [-- --force]
+ * Collections that already contain records in SQLite are skipped unless --force is given,
+ * in which case their records are replaced. The whole import runs in one transaction.
+ */
+
+const COLLECTIONS: CollectionName[] = [
+  'users',
+  'contracts',
+  'shareLinks',
+  'contractRevisions',
+  'signingCertificates',
+  'vendorBranding',
+  'templates',
+  'payments',
+  'invoices',
+  'amendments',
+  'searchIndex'
+];
+
+async function main(): Promise<void> {
+  const force = process.argv.includes('--force');
+  const databasePath = process.env.SQLITE_DATABASE_PATH || DEFAULT_SQLITE_PATH;
+  const source = new JsonStorage(DATA_DIR);
+  const target = new SqliteStorage(databasePath);
+
+  try {
+    const pending = COLLECTIONS.filter(collection => {
+      if (force || target.isEmpty(collection)) {
+        return true;
+      }
+      console.log(`Skipping ${collection}: SQLite already has records (use --force to replace)`);
+      return false;
+    });
+
+    const snapshot = await source.transaction(async tx => {
+      const data = new Map<CollectionName, StorageRecord[]>();
+      for (const collection of pending) {
+        data.set(collection, await tx.list(collection));
+      }
+      return data;
+    });
+
+    await target.transaction(async tx => {
+      for (const [collection, records] of Array.from(snapshot)) {
+        for (const existing of await tx.list(collection)) {
+          await tx.remove(collection, existing.id);
+        }
+        for (const record of records) {
+          await tx.insert(collection, record);
+        }
+        console.log(`Imported ${records.length} ${collection} records`);
+      }
+    });
+
+    console.log(`Import complete: ${databasePath}`);
+  } finally {
+    target.close();
+  }
+}
+
+main().catch(error => {
+  console.error('JSON import failed:', error);
+  process.exit(1);
+});
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { hashPassword, isPasswordHash } from '@/lib/password';
+import { getStorage, StorageRecord } from '@/lib/storage';
+
+/**
+ * One-off migration that replaces plaintext passwords in the user store with scrypt hashes
+ *
+ * Usage: npm run migrate:passwords
+ * Users that already have a passwordHash are left untouched, so the script is safe to re-run.
+ * Runs against the backend selected by STORAGE_BACKEND.
+ */
+
+type LegacyUser = StorageRecord & { password?: string; passwordHash?: string };
+
+async function main(): Promise<void> {
+  const { migratedCount, totalCount } = await getStorage().transaction(async tx => {
+    const users = await tx.list<LegacyUser>('users');
+    let migrated = 0;
+
+    for (const user of users) {
+      const { password, ...rest } = user;
+
+      if (password === undefined) {
+        continue;
+      }
+
+      await tx.update('users', {
+        ...rest,
+        passwordHash: isPasswordHash(password) ? password : await hashPassword(password)
+      });
+      migrated++;
+    }
+
+    return { migratedCount: migrated, totalCount: users.length };
+  });
+
+  console.log(`Migrated ${migratedCount} of ${totalCount} users to hashed passwords`);
+}
+
+main().catch(error => {
+  console.error('Password migration failed:', error);
+  process.exit(1);
+});
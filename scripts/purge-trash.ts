@@ -0,0 +1,25 @@
+import { DataService } from '@/lib/data-service';
+import { getTrashRetentionDays } from '@/lib/trash';
+
+/**
+ * Retention job that permanently deletes contracts left in the trash for longer than the retention period
+ *
+ * Usage: npm run trash:purge
+ * The retention period is TRASH_RETENTION_DAYS (30 days by default). Schedule the script daily, e.g. from cron;
+ * it is safe to re-run. Runs against the backend selected by STORAGE_BACKEND.
+ */
+
+async function main(): Promise<void> {
+  const retentionDays = getTrashRetentionDays();
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - retentionDays);
+
+  const purgedCount = await DataService.purgeDeletedContracts(cutoff);
+
+  console.log(`Purged ${purgedCount} contracts deleted more than ${retentionDays} days ago`);
+}
+
+main().catch(error => {
+  console.error('Trash purge failed:', error);
+  process.exit(1);
+});
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { AIContentRequest, AIContentResponse, validateAIRequest, generateFallbackContent, getVendorPrompt } from '@/lib/ai-service';
+import { AIContentRequest, AIContentResponse, validateAIRequest, generateFallbackContent, getPaymentTermsText, getVendorPrompt } from '@/lib/ai-service';
+import { formatCurrency, formatDate } from '@/lib/utils';
 
 /**
  * OpenRouter API configuration
@@ -31,7 +32,7 @@ ${vendorPrompt}
 IMPORTANT: Use these EXACT details in the contract (do not use placeholders):
 - Vendor Business Name: ${request.vendorName}
 - Client Name: ${request.clientName}
-- Event Date: ${new Date(request.eventDate).toLocaleDateString('en-US', { 
+- Event Date: ${formatDate(request.eventDate, request, { 
     weekday: 'long', 
     year: 'numeric', 
     month: 'long', 
@@ -39,19 +40,21 @@ IMPORTANT: Use these EXACT details in the contract (do not use placeholders):
   })}
 - Event Venue: ${request.eventVenue}
 - Service Package: ${request.servicePackage}
-- Total Amount: ${request.amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}
+- Total Amount: ${formatCurrency(request.amount, request)}
+- Contract Date: ${formatDate(new Date(), request)}
 
 Requirements:
 1. Use the EXACT names, dates, venues, and amounts provided above
 2. Create a professional contract title that reflects the service type
 3. Include comprehensive terms and conditions appropriate for the service
-4. Add payment terms with a typical 50% deposit structure
+4. Use exactly this payment schedule in the payment terms: ${getPaymentTermsText(request)}
 5. Include cancellation, rescheduling, and force majeure clauses
 6. Add liability and insurance considerations
 7. Include service-specific details based on the package description
 8. Make it legally sound and professional
 9. Format it clearly with proper sections and headings
 10. Do NOT include signature lines or signature sections at the end
+11. Do NOT leave bracketed placeholders such as [DATE] or [Client Name]; contracts containing them cannot be sent or signed
 
 Generate a complete, ready-to-use contract that incorporates all these specific details without any placeholder text or signature sections.`;
 
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import { DataService } from '@/lib/data-service';
+import { createSessionToken } from '@/lib/session';
+import { SESSION_SETTINGS } from '@/lib/constants';
 import { User, LoginCredentials, ApiResponse } from '@/types';
 
 /**
- * Handles user authentication by validating credentials against predefined test accounts
+ * Handles user authentication by validating credentials against the user store
  * @param request - The incoming HTTP request containing login credentials
  * @returns JSON response with authentication result
  */
@@ -21,36 +22,23 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       );
     }
 
-    // Load users from JSON file
-    const usersPath = join(process.cwd(), 'src/data/users.json');
-    const usersData = readFileSync(usersPath, 'utf8');
-    const users = JSON.parse(usersData);
+    // Verify credentials against the hashed user store
+    const sessionUser = await DataService.authenticateUser(email, password);
 
-    // Find user by email and validate password
-    const user = users.find((u: any) => u.email === email && u.password === password);
-
-    if (!user) {
+    if (!sessionUser) {
       return NextResponse.json(
         { success: false, error: 'Invalid email or password' },
         { status: 401 }
       );
     }
 
-    // Create user session data (exclude password)
-    const sessionUser: User = {
-      id: user.id,
-      email: user.email,
-      vendorType: user.vendorType,
-      name: user.name
-    };
-
-    // Set session cookie
+    // Set signed session cookie
     const cookieStore = cookies();
-    cookieStore.set('session', JSON.stringify(sessionUser), {
+    cookieStore.set(SESSION_SETTINGS.COOKIE_NAME, await createSessionToken(sessionUser), {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
       sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 7 // 7 days
+      maxAge: SESSION_SETTINGS.MAX_AGE_SECONDS
     });
 
     return NextResponse.json({
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
+import { SESSION_SETTINGS } from '@/lib/constants';
 import { ApiResponse } from '@/types';
 
 /**
@@ -10,7 +11,7 @@ export async function POST(): Promise<NextResponse<ApiResponse>> {
   try {
     // Clear session cookie
     const cookieStore = cookies();
-    cookieStore.delete('session');
+    cookieStore.delete(SESSION_SETTINGS.COOKIE_NAME);
 
     return NextResponse.json({
       success: true,
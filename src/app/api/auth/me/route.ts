@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
+import { verifySessionToken } from '@/lib/session';
+import { SESSION_SETTINGS } from '@/lib/constants';
 import { User, ApiResponse } from '@/types';
 
 /**
@@ -9,7 +11,7 @@ import { User, ApiResponse } from '@/types';
 export async function GET(): Promise<NextResponse<ApiResponse<User>>> {
   try {
     const cookieStore = cookies();
-    const sessionCookie = cookieStore.get('session');
+    const sessionCookie = cookieStore.get(SESSION_SETTINGS.COOKIE_NAME);
 
     if (!sessionCookie) {
       return NextResponse.json(
@@ -18,7 +20,14 @@ export async function GET(): Promise<NextResponse<ApiResponse<User>>> {
       );
     }
 
-    const user: User = JSON.parse(sessionCookie.value);
+    const user = await verifySessionToken(sessionCookie.value);
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid session' },
+        { status: 401 }
+      );
+    }
 
     return NextResponse.json({
       success: true,
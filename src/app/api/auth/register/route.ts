@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { DataService } from '@/lib/data-service';
+import { createSessionToken } from '@/lib/session';
+import { SESSION_SETTINGS } from '@/lib/constants';
+import { validateRegistrationForm } from '@/lib/validation';
+import { User, RegistrationData, ApiResponse } from '@/types';
+
+/**
+ * Handles vendor self-registration and signs the new vendor in
+ * @param request - The incoming HTTP request containing registration details
+ * @returns JSON response with the created user
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<User>>> {
+  try {
+    const body: Partial<Record<keyof RegistrationData, unknown>> = await request.json();
+    const { name = '', email = '', password = '' } = body;
+
+    // The body is JSON, so the text fields may hold any type
+    if (typeof name !== 'string' || typeof email !== 'string' || typeof password !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'Name, email and password must be text' },
+        { status: 400 }
+      );
+    }
+
+    const registration: RegistrationData = {
+      name,
+      email,
+      password,
+      vendorType: body.vendorType as RegistrationData['vendorType']
+    };
+
+    // Validate registration details
+    const validation = validateRegistrationForm(registration);
+
+    if (!validation.isValid) {
+      const firstError =
+        validation.name.error ||
+        validation.email.error ||
+        validation.password.error ||
+        validation.vendorType.error;
+
+      return NextResponse.json(
+        { success: false, error: firstError || 'Validation failed' },
+        { status: 400 }
+      );
+    }
+
+    // Create the account, rejecting duplicate emails
+    const user = await DataService.createUser(registration);
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'An account with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    // Set signed session cookie
+    const cookieStore = cookies();
+    cookieStore.set(SESSION_SETTINGS.COOKIE_NAME, await createSessionToken(user), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: SESSION_SETTINGS.MAX_AGE_SECONDS
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: user
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Registration error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { BRANDING_SETTINGS } from '@/lib/constants';
+import { validateBrandingForm } from '@/lib/validation';
+import { ApiResponse, BrandingSettings, VendorBranding } from '@/types';
+
+/**
+ * GET /api/branding
+ * Retrieves the document branding of the authenticated vendor
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<VendorBranding | null>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const branding = await DataService.getVendorBranding(session.id);
+
+    return NextResponse.json({
+      success: true,
+      data: branding
+    });
+  } catch (error) {
+    console.error('Error fetching branding:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch branding' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/branding
+ * Saves the document branding of the authenticated vendor
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse<ApiResponse<VendorBranding>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const body: Partial<BrandingSettings> = await request.json();
+    const settings: BrandingSettings = {
+      businessName: typeof body.businessName === 'string' ? body.businessName.trim() : '',
+      logo: typeof body.logo === 'string' && body.logo ? body.logo : undefined,
+      accentColor: typeof body.accentColor === 'string' ? body.accentColor : BRANDING_SETTINGS.DEFAULT_ACCENT_COLOR,
+      fontFamily: body.fontFamily as BrandingSettings['fontFamily'],
+      locale: typeof body.locale === 'string' && body.locale ? body.locale : undefined,
+      businessAddress: typeof body.businessAddress === 'string' ? body.businessAddress.trim() : '',
+      footerText: typeof body.footerText === 'string' ? body.footerText.trim() : ''
+    };
+
+    // Validate branding settings
+    const validation = validateBrandingForm(settings);
+
+    if (!validation.isValid) {
+      const firstError =
+        validation.businessName.error ||
+        validation.logo.error ||
+        validation.accentColor.error ||
+        validation.fontFamily.error ||
+        validation.locale.error ||
+        validation.businessAddress.error ||
+        validation.footerText.error;
+
+      return NextResponse.json(
+        { success: false, error: firstError || 'Validation failed' },
+        { status: 400 }
+      );
+    }
+
+    const branding = await DataService.saveVendorBranding(session.id, settings);
+
+    return NextResponse.json({
+      success: true,
+      data: branding
+    });
+  } catch (error) {
+    console.error('Error saving branding:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save branding' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { getOutdatedClauseUsages } from '@/lib/clause-library';
+import { ApiResponse, OutdatedClauseUsage } from '@/types';
+
+/**
+ * GET /api/clauses/outdated
+ * Lists the authenticated vendor's contracts that use an older version of a library clause
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<OutdatedClauseUsage[]>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contracts = await DataService.getContractsByVendor(session.id);
+
+    return NextResponse.json({
+      success: true,
+      data: getOutdatedClauseUsages(contracts)
+    });
+  } catch (error) {
+    console.error('Error building outdated clause report:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build outdated clause report' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
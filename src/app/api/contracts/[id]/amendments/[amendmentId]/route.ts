@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { isAmendable } from '@/lib/contract-lifecycle';
+import { getEffectiveAmount, isAmendmentEditable } from '@/lib/amendments';
+import { renderMergeFields } from '@/lib/merge-fields';
+import { AmendmentValidationResult, validateAmendmentData } from '@/lib/validation';
+import { getFormatContext } from '@/lib/utils';
+import { ApiResponse, ContractAmendment, ContractAmendmentInput, ValidationErrorResponse } from '@/types';
+
+/**
+ * PUT /api/contracts/[id]/amendments/[amendmentId]
+ * Updates a draft amendment
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; amendmentId: string } }
+): Promise<NextResponse<ApiResponse<ContractAmendment> | ValidationErrorResponse<AmendmentValidationResult['errors']>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contract = await DataService.getContract(params.id);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const amendment = await DataService.getAmendment(params.amendmentId);
+
+    if (!amendment || amendment.contractId !== contract.id) {
+      return NextResponse.json(
+        { success: false, error: 'Amendment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!isAmendable(contract.status)) {
+      return NextResponse.json(
+        { success: false, error: 'Only signed contracts can be amended' },
+        { status: 400 }
+      );
+    }
+
+    // Only drafts can be edited; once sent, signers must see the text they were sent
+    if (!isAmendmentEditable(amendment)) {
+      return NextResponse.json(
+        { success: false, error: 'Only draft amendments can be edited' },
+        { status: 400 }
+      );
+    }
+
+    // Parse request body (only validate provided fields)
+    const body = await request.json();
+    const { title, content, amountDelta } = body;
+
+    const updateData: Partial<ContractAmendmentInput> = {};
+    if (title !== undefined) updateData.title = title;
+    if (content !== undefined) updateData.content = content;
+    if (amountDelta !== undefined) updateData.amountDelta = typeof amountDelta === 'number' ? amountDelta : parseFloat(amountDelta);
+
+    const amendments = await DataService.getContractAmendments(contract.id);
+    const branding = await DataService.getVendorBranding(session.id);
+    const validation = validateAmendmentData(
+      updateData,
+      getEffectiveAmount(contract, amendments),
+      getFormatContext(contract, branding)
+    );
+
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          data: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    // Fill in merge fields from the contract details
+    if (updateData.content !== undefined) {
+      updateData.content = renderMergeFields(updateData.content, {
+        ...contract,
+        locale: branding?.locale,
+        vendorName: session.name
+      }).content;
+    }
+
+    const updatedAmendment = await DataService.updateAmendment(amendment.id, updateData);
+
+    return NextResponse.json({
+      success: true,
+      data: updatedAmendment
+    });
+  } catch (error) {
+    console.error('Error updating amendment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update amendment' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/contracts/[id]/amendments/[amendmentId]
+ * Deletes a draft amendment that was never sent
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; amendmentId: string } }
+): Promise<NextResponse<ApiResponse<void>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contract = await DataService.getContract(params.id);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const amendment = await DataService.getAmendment(params.amendmentId);
+
+    if (!amendment || amendment.contractId !== contract.id) {
+      return NextResponse.json(
+        { success: false, error: 'Amendment not found' },
+        { status: 404 }
+      );
+    }
+
+    // Amendments that went out for signature stay on record
+    if (!isAmendmentEditable(amendment)) {
+      return NextResponse.json(
+        { success: false, error: 'Only draft amendments can be deleted' },
+        { status: 400 }
+      );
+    }
+
+    await DataService.deleteAmendment(amendment.id);
+
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Error deleting amendment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete amendment' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
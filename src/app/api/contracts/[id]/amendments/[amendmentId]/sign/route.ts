@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { buildSigningAudit } from '@/lib/signing-audit';
+import { isAmendable } from '@/lib/contract-lifecycle';
+import { validatePlaceholders } from '@/lib/validation';
+import { SignatureData, SigningCertificate, ApiResponse } from '@/types';
+
+/**
+ * POST /api/contracts/[id]/amendments/[amendmentId]/sign
+ * Signs an amendment on behalf of the authenticated vendor
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; amendmentId: string } }
+): Promise<NextResponse<ApiResponse<SigningCertificate>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contract = await DataService.getContract(params.id);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const amendment = await DataService.getAmendment(params.amendmentId);
+
+    if (!amendment || amendment.contractId !== contract.id) {
+      return NextResponse.json(
+        { success: false, error: 'Amendment not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!isAmendable(contract.status)) {
+      return NextResponse.json(
+        { success: false, error: 'Only signed contracts can be amended' },
+        { status: 400 }
+      );
+    }
+
+    // Amendments cannot go out or be signed with placeholders left in them
+    const placeholdersResult = validatePlaceholders(amendment.content);
+    if (!placeholdersResult.isValid) {
+      return NextResponse.json(
+        { success: false, error: placeholdersResult.error },
+        { status: 400 }
+      );
+    }
+
+    const vendorSigner = amendment.signers.find(signer => signer.role === 'vendor');
+
+    if (!vendorSigner) {
+      return NextResponse.json(
+        { success: false, error: 'You are not a signer of this amendment' },
+        { status: 400 }
+      );
+    }
+
+    if (vendorSigner.signature) {
+      return NextResponse.json(
+        { success: false, error: 'You have already signed this amendment' },
+        { status: 400 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { type, data } = body;
+    const signedAt = new Date().toISOString();
+
+    // Validate signature data
+    if (!type || !data) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid signature data' },
+        { status: 400 }
+      );
+    }
+
+    if (!['drawn', 'typed'].includes(type)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid signature type' },
+        { status: 400 }
+      );
+    }
+
+    // Capture signing evidence; consent to sign electronically is mandatory
+    const audit = buildSigningAudit(request, body, signedAt);
+
+    if (!audit) {
+      return NextResponse.json(
+        { success: false, error: 'Consent to sign electronically is required' },
+        { status: 400 }
+      );
+    }
+
+    // Create signature data
+    const signatureData: SignatureData = {
+      type,
+      data,
+      timestamp: signedAt,
+      signedBy: {
+        role: 'vendor',
+        name: session.name,
+        email: session.email
+      }
+    };
+
+    // Save the signature, advance the amendment status and issue the signing certificate; the amount change
+    // is checked while saving, against the amendments executed and payments received by then
+    const certificate = await DataService.saveAmendmentSignature(amendment.id, vendorSigner, signatureData, audit);
+
+    if (!certificate) {
+      return NextResponse.json(
+        { success: false, error: 'This amendment would leave the contract worth nothing or less than has already been paid' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: certificate
+    });
+  } catch (error) {
+    console.error('Error signing amendment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to sign amendment' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { isAmendable } from '@/lib/contract-lifecycle';
+import { getEffectiveAmount } from '@/lib/amendments';
+import { renderMergeFields } from '@/lib/merge-fields';
+import { AmendmentValidationResult, validateAmendmentData } from '@/lib/validation';
+import { getFormatContext } from '@/lib/utils';
+import { ApiResponse, ContractAmendment, ContractAmendmentInput, ValidationErrorResponse } from '@/types';
+
+/**
+ * GET /api/contracts/[id]/amendments
+ * Gets the amendments of a contract, executed or not, by number
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ApiResponse<ContractAmendment[]>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contract = await DataService.getContract(params.id);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const amendments = await DataService.getContractAmendments(contract.id);
+
+    return NextResponse.json({
+      success: true,
+      data: amendments
+    });
+  } catch (error) {
+    console.error('Error fetching amendments:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch amendments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/contracts/[id]/amendments
+ * Drafts an amendment to a signed contract
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ApiResponse<ContractAmendment> | ValidationErrorResponse<AmendmentValidationResult['errors']>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contract = await DataService.getContract(params.id);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    // Drafts are edited directly, and closed contracts are no longer changed
+    if (!isAmendable(contract.status)) {
+      return NextResponse.json(
+        { success: false, error: 'Only signed contracts can be amended' },
+        { status: 400 }
+      );
+    }
+
+    // Parse request body; an amendment may change the terms without changing the amount
+    const body = await request.json();
+    const { title, content, amountDelta } = body;
+    const delta = amountDelta ?? 0;
+
+    const amendmentData: ContractAmendmentInput = {
+      title: title ?? '',
+      content: content ?? '',
+      amountDelta: typeof delta === 'number' ? delta : parseFloat(delta)
+    };
+
+    const amendments = await DataService.getContractAmendments(contract.id);
+    const branding = await DataService.getVendorBranding(session.id);
+    const validation = validateAmendmentData(
+      amendmentData,
+      getEffectiveAmount(contract, amendments),
+      getFormatContext(contract, branding)
+    );
+
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          data: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    // Fill in merge fields from the contract details
+    amendmentData.content = renderMergeFields(amendmentData.content, {
+      ...contract,
+      locale: branding?.locale,
+      vendorName: session.name
+    }).content;
+
+    const amendment = await DataService.createAmendment(contract, amendmentData);
+
+    return NextResponse.json({
+      success: true,
+      data: amendment
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating amendment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create amendment' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { generateInvoicePDF, getAttachmentDisposition, getInvoicePDFFileName } from '@/lib/pdf-utils';
+
+/**
+ * GET /api/contracts/[id]/invoices/[invoiceId]/pdf
+ * Renders the invoice PDF on the server and returns it as a file download
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; invoiceId: string } }
+): Promise<NextResponse> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contract = await DataService.getContract(params.id);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const invoice = await DataService.getInvoice(params.invoiceId);
+
+    if (!invoice || invoice.contractId !== contract.id) {
+      return NextResponse.json(
+        { success: false, error: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    const branding = await DataService.getVendorBranding(contract.vendorId);
+    const pdf = await generateInvoicePDF(invoice, contract, branding);
+
+    return new NextResponse(pdf, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': getAttachmentDisposition(getInvoicePDFFileName(invoice)),
+        'Content-Length': String(pdf.byteLength),
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate PDF' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { canChangeInvoiceStatus } from '@/lib/invoices';
+import { ApiResponse, Invoice } from '@/types';
+
+/**
+ * PATCH /api/contracts/[id]/invoices/[invoiceId]
+ * Marks an issued invoice as paid or void
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; invoiceId: string } }
+): Promise<NextResponse<ApiResponse<Invoice>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contract = await DataService.getContract(params.id);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const invoice = await DataService.getInvoice(params.invoiceId);
+
+    if (!invoice || invoice.contractId !== contract.id) {
+      return NextResponse.json(
+        { success: false, error: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { status } = body;
+
+    if (status !== 'paid' && status !== 'void') {
+      return NextResponse.json(
+        { success: false, error: 'Status must be paid or void' },
+        { status: 400 }
+      );
+    }
+
+    if (!canChangeInvoiceStatus(invoice, status)) {
+      return NextResponse.json(
+        { success: false, error: `Invoice ${invoice.number} is already ${invoice.status}` },
+        { status: 400 }
+      );
+    }
+
+    const updatedInvoice = await DataService.updateInvoiceStatus(invoice.id, status);
+
+    return NextResponse.json({
+      success: true,
+      data: updatedInvoice
+    });
+  } catch (error) {
+    console.error('Error updating invoice:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update invoice' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { isExecuted } from '@/lib/contract-lifecycle';
+import { ApiResponse, Invoice } from '@/types';
+
+/**
+ * GET /api/contracts/[id]/invoices
+ * Lists the invoices issued for a contract, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ApiResponse<Invoice[]>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contract = await DataService.getContract(params.id);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const invoices = await DataService.getContractInvoices(contract.id);
+
+    return NextResponse.json({
+      success: true,
+      data: invoices
+    });
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch invoices' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/contracts/[id]/invoices
+ * Issues a numbered invoice for one scheduled payment of a signed contract
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ApiResponse<Invoice>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contract = await DataService.getContract(params.id);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    // Payment terms only bind the client once every party has signed
+    if (!isExecuted(contract.status)) {
+      return NextResponse.json(
+        { success: false, error: 'Invoices can only be issued for signed contracts' },
+        { status: 400 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { scheduleIndex } = body;
+
+    // The payment is looked up, and checked for an existing invoice, while issuing,
+    // so another request cannot invoice it in the meantime
+    const invoice = await DataService.createInvoice(contract, scheduleIndex);
+
+    if (!invoice) {
+      return NextResponse.json(
+        { success: false, error: 'This payment does not exist or has already been invoiced' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: invoice
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating invoice:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create invoice' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { buildPaymentLedger } from '@/lib/payment-ledger';
+import { ApiResponse, PaymentLedger } from '@/types';
+
+/**
+ * DELETE /api/contracts/[id]/payments/[paymentId]
+ * Deletes a payment recorded by mistake and returns the updated ledger
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; paymentId: string } }
+): Promise<NextResponse<ApiResponse<PaymentLedger>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contract = await DataService.getContract(params.id);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const payment = await DataService.getPayment(params.paymentId);
+
+    if (!payment || payment.contractId !== contract.id) {
+      return NextResponse.json(
+        { success: false, error: 'Payment not found' },
+        { status: 404 }
+      );
+    }
+
+    await DataService.deletePayment(payment.id);
+    const payments = await DataService.getContractPayments(contract.id);
+    const amendments = await DataService.getContractAmendments(contract.id);
+
+    return NextResponse.json({
+      success: true,
+      data: buildPaymentLedger(contract, payments, amendments)
+    });
+  } catch (error) {
+    console.error('Error deleting payment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete payment' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { isExecuted } from '@/lib/contract-lifecycle';
+import { buildPaymentLedger } from '@/lib/payment-ledger';
+import { PaymentValidationResult, validatePaymentData } from '@/lib/validation';
+import { getFormatContext } from '@/lib/utils';
+import { ApiResponse, ContractPaymentInput, PaymentLedger, ValidationErrorResponse } from '@/types';
+
+/**
+ * GET /api/contracts/[id]/payments
+ * Gets the payments received against a contract with its paid and outstanding balances
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ApiResponse<PaymentLedger>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contract = await DataService.getContract(params.id);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const payments = await DataService.getContractPayments(contract.id);
+    const amendments = await DataService.getContractAmendments(contract.id);
+
+    return NextResponse.json({
+      success: true,
+      data: buildPaymentLedger(contract, payments, amendments)
+    });
+  } catch (error) {
+    console.error('Error fetching payments:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch payments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/contracts/[id]/payments
+ * Records a payment received against a signed contract and returns the updated ledger
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ApiResponse<PaymentLedger> | ValidationErrorResponse<PaymentValidationResult['errors']>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contract = await DataService.getContract(params.id);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    // Nothing is owed until every party has signed
+    if (!isExecuted(contract.status)) {
+      return NextResponse.json(
+        { success: false, error: 'Payments can only be recorded against signed contracts' },
+        { status: 400 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { amount, method, receivedOn, note } = body;
+
+    const paymentData: ContractPaymentInput = {
+      amount: typeof amount === 'number' ? amount : parseFloat(amount),
+      method,
+      receivedOn,
+      note: typeof note === 'string' && note.trim() ? note.trim() : undefined
+    };
+
+    // Executed amendments change what the client still owes
+    const amendments = await DataService.getContractAmendments(contract.id);
+    const ledger = buildPaymentLedger(contract, await DataService.getContractPayments(contract.id), amendments);
+    const branding = await DataService.getVendorBranding(session.id);
+    const validation = validatePaymentData(paymentData, ledger.outstanding, getFormatContext(contract, branding));
+
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          data: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    // Checked again when recording, in case another payment was recorded in the meantime
+    const payment = await DataService.recordPayment(contract.id, paymentData);
+    const payments = await DataService.getContractPayments(contract.id);
+
+    if (!payment) {
+      const currentLedger = buildPaymentLedger(contract, payments, amendments);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          data: validatePaymentData(paymentData, currentLedger.outstanding, getFormatContext(contract, branding)).errors
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: buildPaymentLedger(contract, payments, amendments)
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error recording payment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to record payment' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
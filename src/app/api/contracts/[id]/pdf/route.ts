@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { generateContractPDF, getAttachmentDisposition, getContractPDFFileName } from '@/lib/pdf-utils';
+
+/**
+ * GET /api/contracts/[id]/pdf
+ * Renders the contract PDF on the server and returns it as a file download
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const vendorId = session.id;
+    const contractId = params.id;
+
+    const contract = await DataService.getContract(contractId);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== vendorId) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const branding = await DataService.getVendorBranding(contract.vendorId);
+    const pdf = await generateContractPDF(contract, branding);
+
+    return new NextResponse(pdf, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': getAttachmentDisposition(getContractPDFFileName(contract)),
+        'Content-Length': String(pdf.byteLength),
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error generating contract PDF:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate PDF' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { ApiResponse, Contract } from '@/types';
+
+/**
+ * POST /api/contracts/[id]/restore
+ * Takes a contract out of the trash and returns it to the status it had before it was deleted
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ApiResponse<Contract>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contract = await DataService.getContract(params.id);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    if (contract.status !== 'deleted') {
+      return NextResponse.json(
+        { success: false, error: 'Contract is not in the trash' },
+        { status: 400 }
+      );
+    }
+
+    const restoredContract = await DataService.restoreContract(contract.id);
+
+    return NextResponse.json({
+      success: true,
+      data: restoredContract
+    });
+  } catch (error) {
+    console.error('Error restoring contract:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to restore contract' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
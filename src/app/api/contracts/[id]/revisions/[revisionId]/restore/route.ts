@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { isEditable } from '@/lib/contract-lifecycle';
+import { ApiResponse, Contract } from '@/types';
+
+/**
+ * POST /api/contracts/[id]/revisions/[revisionId]/restore
+ * Restores an earlier revision as the current draft of the contract
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; revisionId: string } }
+): Promise<NextResponse<ApiResponse<Contract>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const vendorId = session.id;
+    const contractId = params.id;
+
+    // Fetch existing contract to verify ownership and status
+    const existingContract = await DataService.getContract(contractId);
+
+    if (!existingContract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (existingContract.vendorId !== vendorId) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    // Only drafts can be changed
+    if (!isEditable(existingContract.status)) {
+      return NextResponse.json(
+        { success: false, error: 'Only draft contracts can be restored' },
+        { status: 400 }
+      );
+    }
+
+    // Verify the revision belongs to this contract
+    const revisions = await DataService.getContractRevisions(contractId);
+    if (!revisions.some(revision => revision.id === params.revisionId)) {
+      return NextResponse.json(
+        { success: false, error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    const contract = await DataService.restoreContractRevision(contractId, params.revisionId, session);
+
+    return NextResponse.json({
+      success: true,
+      data: contract
+    });
+  } catch (error) {
+    console.error('Error restoring contract revision:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to restore revision' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { ApiResponse, ContractRevision } from '@/types';
+
+/**
+ * GET /api/contracts/[id]/revisions
+ * Lists the revision history of a contract, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ApiResponse<ContractRevision[]>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const vendorId = session.id;
+    const contractId = params.id;
+
+    // Fetch contract to verify ownership
+    const contract = await DataService.getContract(contractId);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== vendorId) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const revisions = await DataService.getContractRevisions(contractId);
+
+    return NextResponse.json({
+      success: true,
+      data: revisions
+    });
+  } catch (error) {
+    console.error('Error fetching contract revisions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch revisions' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
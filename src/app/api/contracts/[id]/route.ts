@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DataService } from '@/lib/data-service';
-import { validateContractData } from '@/lib/validation';
-import { Contract, ApiResponse, ValidationErrorResponse } from '@/types';
+import { getSessionUser } from '@/lib/session';
+import { canTransition, isEditable } from '@/lib/contract-lifecycle';
+import { buildContractSummary } from '@/lib/contract-query';
+import { renderMergeFields } from '@/lib/merge-fields';
+import { normalizePaymentSchedule } from '@/lib/payment-schedule';
+import { buildContractSigners } from '@/lib/signers';
+import { validateContractData, validatePaymentSchedule, validateSigners } from '@/lib/validation';
+import { getFormatContext } from '@/lib/utils';
+import { Contract, ContractSummary, ApiResponse, ValidationErrorResponse } from '@/types';
 
 /**
  * GET /api/contracts/[id]
@@ -12,16 +19,15 @@ export async function GET(
   { params }: { params: { id: string } }
 ): Promise<NextResponse<ApiResponse<Contract>>> {
   try {
-    // Get user from session cookie
-    const sessionCookie = request.cookies.get('session');
-    if (!sessionCookie) {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
       return NextResponse.json(
         { success: false, error: 'Not authenticated' },
         { status: 401 }
       );
     }
 
-    const session = JSON.parse(sessionCookie.value);
     const vendorId = session.id;
     const contractId = params.id;
 
@@ -65,16 +71,15 @@ export async function PUT(
   { params }: { params: { id: string } }
 ): Promise<NextResponse<ApiResponse<void> | ValidationErrorResponse>> {
   try {
-    // Get user from session cookie
-    const sessionCookie = request.cookies.get('session');
-    if (!sessionCookie) {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
       return NextResponse.json(
         { success: false, error: 'Not authenticated' },
         { status: 401 }
       );
     }
 
-    const session = JSON.parse(sessionCookie.value);
     const vendorId = session.id;
     const contractId = params.id;
 
@@ -96,17 +101,17 @@ export async function PUT(
       );
     }
 
-    // Prevent editing signed contracts
-    if (existingContract.status === 'signed') {
+    // Only drafts can be edited; once sent, signers must see the text they were sent
+    if (!isEditable(existingContract.status)) {
       return NextResponse.json(
-        { success: false, error: 'Cannot edit signed contracts' },
+        { success: false, error: 'Only draft contracts can be edited' },
         { status: 400 }
       );
     }
 
     // Parse request body
     const body = await request.json();
-    const { clientName, eventDate, eventVenue, servicePackage, amount, content } = body;
+    const { clientName, eventDate, eventVenue, servicePackage, amount, currency, content, signers, paymentSchedule } = body;
 
     // Validate contract data (only validate provided fields)
     const updateData: Partial<Contract> = {};
@@ -115,9 +120,39 @@ export async function PUT(
     if (eventVenue !== undefined) updateData.eventVenue = eventVenue;
     if (servicePackage !== undefined) updateData.servicePackage = servicePackage;
     if (amount !== undefined) updateData.amount = parseFloat(amount);
+    if (currency !== undefined) updateData.currency = currency;
     if (content !== undefined) updateData.content = content;
 
     const validation = validateContractData(updateData);
+    const branding = await DataService.getVendorBranding(vendorId);
+    const formatContext = getFormatContext({ ...existingContract, ...updateData }, branding);
+
+    if (signers !== undefined) {
+      const signersResult = validateSigners(signers);
+      if (signersResult.isValid) {
+        updateData.signers = buildContractSigners(signers, session);
+      } else {
+        validation.isValid = false;
+        validation.errors.signers = signersResult.error;
+      }
+    }
+
+    // The schedule must still add up when either it or the amount changes
+    const schedule = paymentSchedule ?? existingContract.paymentSchedule;
+    if (
+      schedule &&
+      (paymentSchedule !== undefined || updateData.amount !== undefined) &&
+      !validation.errors.amount &&
+      !validation.errors.currency
+    ) {
+      const scheduleResult = validatePaymentSchedule(schedule, updateData.amount ?? existingContract.amount, formatContext);
+      if (scheduleResult.isValid) {
+        updateData.paymentSchedule = normalizePaymentSchedule(schedule);
+      } else {
+        validation.isValid = false;
+        validation.errors.paymentSchedule = scheduleResult.error;
+      }
+    }
 
     if (!validation.isValid) {
       return NextResponse.json(
@@ -130,8 +165,18 @@ export async function PUT(
       );
     }
 
-    // Update contract
-    await DataService.updateContract(contractId, updateData);
+    // Fill in merge fields from the updated contract details
+    if (updateData.content !== undefined) {
+      updateData.content = renderMergeFields(updateData.content, {
+        ...existingContract,
+        ...updateData,
+        locale: branding?.locale,
+        vendorName: session.name
+      }).content;
+    }
+
+    // Update contract and record the change in its revision history
+    await DataService.updateContract(contractId, updateData, session);
 
     return NextResponse.json({
       success: true
@@ -148,22 +193,22 @@ export async function PUT(
 /**
  * DELETE /api/contracts/[id]
  * Deletes a specific contract for the authenticated user
+ * Returns the vendor's dashboard summary without the deleted contract
  */
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
-): Promise<NextResponse<ApiResponse<void>>> {
+): Promise<NextResponse<ApiResponse<ContractSummary>>> {
   try {
-    // Get user from session cookie
-    const sessionCookie = request.cookies.get('session');
-    if (!sessionCookie) {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
       return NextResponse.json(
         { success: false, error: 'Not authenticated' },
         { status: 401 }
       );
     }
 
-    const session = JSON.parse(sessionCookie.value);
     const vendorId = session.id;
     const contractId = params.id;
 
@@ -185,11 +230,23 @@ export async function DELETE(
       );
     }
 
-    // Soft delete the contract
+    // Only contracts already in the trash cannot move there
+    if (!canTransition(existingContract.status, 'deleted')) {
+      return NextResponse.json(
+        { success: false, error: 'Contract is already in the trash' },
+        { status: 400 }
+      );
+    }
+
+    // Soft delete the contract; it stays in the trash until restored or purged
     await DataService.deleteContract(contractId);
 
+    const contracts = await DataService.getContractsByVendor(vendorId);
+    const amendments = await DataService.getAmendmentsForContracts(contracts.map(contract => contract.id));
+
     return NextResponse.json({
-      success: true
+      success: true,
+      data: buildContractSummary(contracts, amendments)
     });
   } catch (error) {
     console.error('Error deleting contract:', error);
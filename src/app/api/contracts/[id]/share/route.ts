@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { SHARE_LINK_SETTINGS } from '@/lib/constants';
+import { buildShareUrl } from '@/lib/share-link-utils';
+import { isOpenForSigning } from '@/lib/contract-lifecycle';
+import { getOutstandingSigners } from '@/lib/signers';
+import { validatePlaceholders } from '@/lib/validation';
+import { ApiResponse } from '@/types';
+
+/**
+ * POST /api/contracts/[id]/share
+ * Creates an expiring signing link for one client signer
+ * Signs the first outstanding client unless a signerId is given; sending a draft moves it to `sent`
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ApiResponse<{ url: string; expiresAt: string }>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const vendorId = session.id;
+    const contractId = params.id;
+
+    // Fetch existing contract to verify ownership and status
+    const existingContract = await DataService.getContract(contractId);
+
+    if (!existingContract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (existingContract.vendorId !== vendorId) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    // Only contracts still collecting signatures can be sent out
+    if (!isOpenForSigning(existingContract.status)) {
+      return NextResponse.json(
+        { success: false, error: 'Contract is not open for signing' },
+        { status: 400 }
+      );
+    }
+
+    // Contracts cannot go out or be signed with placeholders left in them
+    const placeholdersResult = validatePlaceholders(existingContract.content);
+    if (!placeholdersResult.isValid) {
+      return NextResponse.json(
+        { success: false, error: placeholdersResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Parse optional signer and expiry from request body
+    const body = await request.json().catch(() => ({}));
+
+    const signer = getOutstandingSigners(existingContract).find(candidate =>
+      candidate.role === 'client' && (!body.signerId || candidate.id === body.signerId)
+    );
+
+    if (!signer) {
+      return NextResponse.json(
+        { success: false, error: 'No client signer is waiting to sign' },
+        { status: 400 }
+      );
+    }
+
+    const expiresInDays = body.expiresInDays ?? SHARE_LINK_SETTINGS.DEFAULT_EXPIRY_DAYS;
+
+    if (
+      typeof expiresInDays !== 'number' ||
+      !Number.isInteger(expiresInDays) ||
+      expiresInDays < 1 ||
+      expiresInDays > SHARE_LINK_SETTINGS.MAX_EXPIRY_DAYS
+    ) {
+      return NextResponse.json(
+        { success: false, error: `Expiry must be between 1 and ${SHARE_LINK_SETTINGS.MAX_EXPIRY_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    // Create share link
+    const shareLink = await DataService.createShareLink(contractId, vendorId, signer.id, expiresInDays);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        url: buildShareUrl(shareLink.token, request.nextUrl.origin),
+        expiresAt: shareLink.expiresAt
+      }
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DataService } from '@/lib/data-service';
-import { SignatureData, ApiResponse } from '@/types';
+import { getSessionUser } from '@/lib/session';
+import { buildSigningAudit } from '@/lib/signing-audit';
+import { isOpenForSigning } from '@/lib/contract-lifecycle';
+import { getContractSigners, isSignersTurn } from '@/lib/signers';
+import { generateId } from '@/lib/utils';
+import { validatePlaceholders } from '@/lib/validation';
+import { ContractSigner, SignatureData, SigningCertificate, ApiResponse } from '@/types';
 
 /**
  * POST /api/contracts/[id]/sign
@@ -9,18 +15,17 @@ import { SignatureData, ApiResponse } from '@/types';
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
-): Promise<NextResponse<ApiResponse<void>>> {
+): Promise<NextResponse<ApiResponse<SigningCertificate>>> {
   try {
-    // Get user from session cookie
-    const sessionCookie = request.cookies.get('session');
-    if (!sessionCookie) {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
       return NextResponse.json(
         { success: false, error: 'Not authenticated' },
         { status: 401 }
       );
     }
 
-    const session = JSON.parse(sessionCookie.value);
     const vendorId = session.id;
     const contractId = params.id;
 
@@ -42,10 +47,43 @@ export async function POST(
       );
     }
 
-    // Check if contract is already signed
-    if (existingContract.status === 'signed') {
+    // Check if contract can still be signed
+    if (!isOpenForSigning(existingContract.status)) {
       return NextResponse.json(
-        { success: false, error: 'Contract is already signed' },
+        { success: false, error: 'Contract is not open for signing' },
+        { status: 400 }
+      );
+    }
+
+    // Contracts cannot go out or be signed with placeholders left in them
+    const placeholdersResult = validatePlaceholders(existingContract.content);
+    if (!placeholdersResult.isValid) {
+      return NextResponse.json(
+        { success: false, error: placeholdersResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Contracts created before multi-party signing get the vendor added as a signer
+    const vendorSigner: ContractSigner = getContractSigners(existingContract)
+      .find(signer => signer.role === 'vendor') || {
+        id: generateId('signer'),
+        role: 'vendor',
+        name: session.name,
+        email: session.email
+      };
+
+    if (vendorSigner.signature) {
+      return NextResponse.json(
+        { success: false, error: 'You have already signed this contract' },
+        { status: 400 }
+      );
+    }
+
+    // The vendor countersigns last, so clients never sign a contract that is already countersigned
+    if (!isSignersTurn(getContractSigners(existingContract), vendorSigner)) {
+      return NextResponse.json(
+        { success: false, error: 'Every client must sign before you countersign' },
         { status: 400 }
       );
     }
@@ -53,6 +91,7 @@ export async function POST(
     // Parse request body
     const body = await request.json();
     const { type, data } = body;
+    const signedAt = new Date().toISOString();
 
     // Validate signature data
     if (!type || !data) {
@@ -69,18 +108,34 @@ export async function POST(
       );
     }
 
+    // Capture signing evidence; consent to sign electronically is mandatory
+    const audit = buildSigningAudit(request, body, signedAt);
+
+    if (!audit) {
+      return NextResponse.json(
+        { success: false, error: 'Consent to sign electronically is required' },
+        { status: 400 }
+      );
+    }
+
     // Create signature data
     const signatureData: SignatureData = {
       type,
       data,
-      timestamp: new Date().toISOString()
+      timestamp: signedAt,
+      signedBy: {
+        role: 'vendor',
+        name: session.name,
+        email: session.email
+      }
     };
 
-    // Save signature and update contract status
-    await DataService.saveSignature(contractId, signatureData);
+    // Save the countersignature, advance the contract status and issue the signing certificate
+    const certificate = await DataService.saveSignature(contractId, vendorSigner, signatureData, audit);
 
     return NextResponse.json({
-      success: true
+      success: true,
+      data: certificate
     });
   } catch (error) {
     console.error('Error signing contract:', error);
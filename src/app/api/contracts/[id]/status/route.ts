@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { getTransitionError, isManualStatus } from '@/lib/contract-lifecycle';
+import { MANUAL_CONTRACT_STATUSES } from '@/lib/constants';
+import { ApiResponse, Contract } from '@/types';
+
+/**
+ * POST /api/contracts/[id]/status
+ * Cancels, completes or expires a contract, if its lifecycle allows the change
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ApiResponse<Contract>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contract = await DataService.getContract(params.id);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { status } = body;
+
+    // Other statuses follow from sending, viewing, signing and deleting the contract
+    if (!isManualStatus(status)) {
+      return NextResponse.json(
+        { success: false, error: `Status must be one of: ${MANUAL_CONTRACT_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const transitionError = getTransitionError(contract, status);
+    if (transitionError) {
+      return NextResponse.json(
+        { success: false, error: transitionError },
+        { status: 400 }
+      );
+    }
+
+    const updatedContract = await DataService.updateContractStatus(contract.id, status);
+
+    return NextResponse.json({
+      success: true,
+      data: updatedContract
+    });
+  } catch (error) {
+    console.error('Error updating contract status:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update contract status' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
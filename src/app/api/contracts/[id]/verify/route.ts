@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { ApiResponse, ContractVerification } from '@/types';
+
+/**
+ * GET /api/contracts/[id]/verify
+ * Re-hashes the stored contract and reports whether it changed after it was signed
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ApiResponse<ContractVerification>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const vendorId = session.id;
+    const contractId = params.id;
+
+    // Fetch contract to verify ownership
+    const contract = await DataService.getContract(contractId);
+
+    if (!contract) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify contract belongs to the authenticated vendor
+    if (contract.vendorId !== vendorId) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const verification = await DataService.verifyContract(contractId);
+
+    if (!verification) {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: verification
+    });
+  } catch (error) {
+    console.error('Error verifying contract:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to verify contract' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
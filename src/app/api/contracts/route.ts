@@ -1,32 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { DataService } from '@/lib/data-service';
-import { validateNewContract } from '@/lib/validation';
-import { Contract, ApiResponse, ValidationErrorResponse } from '@/types';
+import { getSessionUser } from '@/lib/session';
+import { renderMergeFields } from '@/lib/merge-fields';
+import { buildDefaultPaymentSchedule, normalizePaymentSchedule } from '@/lib/payment-schedule';
+import { buildContractSigners } from '@/lib/signers';
+import { validateNewContract, validatePaymentSchedule, validateSigners } from '@/lib/validation';
+import { getLocaleCurrency } from '@/lib/utils';
+import { parseContractQuery, queryContracts } from '@/lib/contract-query';
+import { ContractPage, ApiResponse, ValidationErrorResponse } from '@/types';
 
 /**
  * GET /api/contracts
- * Retrieves all contracts for the authenticated user
+ * Lists one page of the authenticated user's contracts
+ * Query parameters: status, q (searches client, venue, package and contract text), eventDateFrom,
+ * eventDateTo, amountMin, amountMax, sort, order, limit and the cursor returned with the previous page.
  */
-export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<Contract[]>>> {
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<ContractPage>>> {
   try {
-    // Get user from session cookie
-    const sessionCookie = request.cookies.get('session');
-    if (!sessionCookie) {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
       return NextResponse.json(
         { success: false, error: 'Not authenticated' },
         { status: 401 }
       );
     }
 
-    const session = JSON.parse(sessionCookie.value);
-    const vendorId = session.id;
+    const { query, error } = parseContractQuery(request.nextUrl.searchParams);
+    if (!query) {
+      return NextResponse.json(
+        { success: false, error },
+        { status: 400 }
+      );
+    }
 
     // Fetch contracts for the vendor
-    const contracts = await DataService.getContractsByVendor(vendorId);
+    const contracts = await DataService.getContractsByVendor(session.id);
+    const amendments = await DataService.getAmendmentsForContracts(contracts.map(contract => contract.id));
 
     return NextResponse.json({
       success: true,
-      data: contracts
+      data: queryContracts(contracts, query, amendments)
     });
   } catch (error) {
     console.error('Error fetching contracts:', error);
@@ -43,21 +57,27 @@ export async function GET(request: NextRequest): Promise<NextResponse<ApiRespons
  */
 export async function POST(request: NextRequest): Promise<NextResponse<ApiResponse<{ id: string }> | ValidationErrorResponse>> {
   try {
-    // Get user from session cookie
-    const sessionCookie = request.cookies.get('session');
-    if (!sessionCookie) {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
       return NextResponse.json(
         { success: false, error: 'Not authenticated' },
         { status: 401 }
       );
     }
 
-    const session = JSON.parse(sessionCookie.value);
     const vendorId = session.id;
 
     // Parse request body
     const body = await request.json();
-    const { clientName, eventDate, eventVenue, servicePackage, amount, content } = body;
+    const { clientName, eventDate, eventVenue, servicePackage, amount, content, signers, paymentSchedule } = body;
+
+    // Contracts are written in the vendor's locale and, unless another currency is chosen, billed in its currency
+    const branding = await DataService.getVendorBranding(vendorId);
+    const formatContext = {
+      locale: branding?.locale,
+      currency: body.currency ?? getLocaleCurrency(branding?.locale)
+    };
 
     // Validate contract data
     const validation = validateNewContract({
@@ -66,9 +86,26 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       eventVenue,
       servicePackage,
       amount,
+      currency: formatContext.currency,
       content
     });
 
+    const signersResult = validateSigners(signers);
+    if (!signersResult.isValid) {
+      validation.isValid = false;
+      validation.errors.signers = signersResult.error;
+    }
+
+    // Contracts created without a schedule get the standard deposit and final balance
+    const schedule = paymentSchedule ?? buildDefaultPaymentSchedule(parseFloat(amount), eventDate);
+    if (!validation.errors.amount && !validation.errors.currency) {
+      const scheduleResult = validatePaymentSchedule(schedule, parseFloat(amount), formatContext);
+      if (!scheduleResult.isValid) {
+        validation.isValid = false;
+        validation.errors.paymentSchedule = scheduleResult.error;
+      }
+    }
+
     if (!validation.isValid) {
       return NextResponse.json(
         { 
@@ -88,8 +125,21 @@ export async function POST(request: NextRequest): Promise<NextResponse<ApiRespon
       eventVenue,
       servicePackage,
       amount: parseFloat(amount),
-      content,
-      status: 'draft'
+      currency: formatContext.currency,
+      paymentSchedule: normalizePaymentSchedule(schedule),
+      // Fill in merge fields; any left unresolved are flagged before the contract can be sent
+      content: renderMergeFields(content, {
+        clientName,
+        eventDate,
+        eventVenue,
+        servicePackage,
+        amount,
+        ...formatContext,
+        paymentSchedule: schedule,
+        vendorName: session.name
+      }).content,
+      status: 'draft',
+      signers: buildContractSigners(signers, session)
     });
 
     return NextResponse.json({
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { getTrashRetentionDays } from '@/lib/trash';
+import { ApiResponse, ContractTrash } from '@/types';
+
+/**
+ * GET /api/contracts/trash
+ * Lists the authenticated user's deleted contracts and how long they are kept before being purged
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<ContractTrash>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contracts = await DataService.getDeletedContractsByVendor(session.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        contracts,
+        retentionDays: getTrashRetentionDays()
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch trash' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
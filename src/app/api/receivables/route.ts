@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { buildReceivablesSummary } from '@/lib/payment-ledger';
+import { ApiResponse, ReceivablesSummary } from '@/types';
+
+/**
+ * GET /api/receivables
+ * Summarizes what the authenticated vendor is still owed on signed contracts and which installments are overdue
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<ReceivablesSummary>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const contracts = await DataService.getContractsByVendor(session.id);
+    const contractIds = contracts.map(contract => contract.id);
+    const payments = await DataService.getPaymentsForContracts(contractIds);
+    const amendments = await DataService.getAmendmentsForContracts(contractIds);
+
+    return NextResponse.json({
+      success: true,
+      data: buildReceivablesSummary(contracts, payments, amendments)
+    });
+  } catch (error) {
+    console.error('Error building receivables summary:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to build receivables summary' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
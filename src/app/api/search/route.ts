@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { CONTRACT_LIST_SETTINGS, SEARCH_SETTINGS } from '@/lib/constants';
+import { ApiResponse, ContractSearchResult } from '@/types';
+
+/**
+ * GET /api/search
+ * Searches the authenticated user's contracts by client, venue, package and contract text
+ * Query parameters: q (words to find; each also matches longer words it starts) and limit.
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<ContractSearchResult[]>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const query = (params.get('q') || '').trim();
+    const limitParam = params.get('limit');
+    const limit = limitParam ? Number(limitParam) : SEARCH_SETTINGS.MAX_RESULTS;
+
+    if (query.length > CONTRACT_LIST_SETTINGS.MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Search must be ${CONTRACT_LIST_SETTINGS.MAX_QUERY_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > SEARCH_SETTINGS.MAX_RESULTS) {
+      return NextResponse.json(
+        { success: false, error: `Limit must be a whole number from 1 to ${SEARCH_SETTINGS.MAX_RESULTS}` },
+        { status: 400 }
+      );
+    }
+
+    const results = await DataService.searchContracts(session.id, query, limit);
+
+    return NextResponse.json({
+      success: true,
+      data: results
+    });
+  } catch (error) {
+    console.error('Error searching contracts:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to search contracts' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { isShareLinkExpired } from '@/lib/share-link-utils';
+import { getShareLinkSigner } from '@/lib/signers';
+import { ApiResponse, SharedContractView } from '@/types';
+
+/**
+ * GET /api/share/[token]
+ * Retrieves the contract, or the amendment to it, behind a share link for the public client signing page
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+): Promise<NextResponse<ApiResponse<SharedContractView>>> {
+  try {
+    const shareLink = await DataService.getShareLinkByToken(params.token);
+
+    if (!shareLink) {
+      return NextResponse.json(
+        { success: false, error: 'Signing link not found' },
+        { status: 404 }
+      );
+    }
+
+    if (isShareLinkExpired(shareLink)) {
+      return NextResponse.json(
+        { success: false, error: 'This signing link has expired' },
+        { status: 410 }
+      );
+    }
+
+    // Fetch the shared contract
+    const contract = await DataService.getContract(shareLink.contractId);
+
+    if (!contract || contract.status === 'deleted') {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Cancelled and expired contracts can no longer be opened by clients
+    if (contract.status === 'cancelled' || contract.status === 'expired') {
+      return NextResponse.json(
+        { success: false, error: contract.status === 'cancelled' ? 'This contract has been cancelled' : 'This contract has expired' },
+        { status: 410 }
+      );
+    }
+
+    // Links to an amendment show it alongside the contract it amends
+    const amendment = shareLink.amendmentId ? await DataService.getAmendment(shareLink.amendmentId) : null;
+
+    if (shareLink.amendmentId && !amendment) {
+      return NextResponse.json(
+        { success: false, error: 'Amendment not found' },
+        { status: 404 }
+      );
+    }
+
+    // Record the client's first view for the signing certificate and mark the contract as viewed
+    if (!shareLink.usedAt) {
+      await DataService.markShareLinkViewed(shareLink.id);
+    }
+
+    const vendor = await DataService.getUserById(shareLink.vendorId);
+    const branding = await DataService.getVendorBranding(shareLink.vendorId);
+
+    // Links issued before multi-party signing are not tied to a signer
+    const signer = (amendment
+      ? amendment.signers.find(candidate => candidate.id === shareLink.signerId)
+      : getShareLinkSigner(contract, shareLink.signerId)) || {
+      id: '',
+      role: 'client' as const,
+      name: contract.clientName,
+      email: ''
+    };
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        contract,
+        vendorName: vendor?.name || 'Your vendor',
+        signer,
+        branding,
+        expiresAt: shareLink.expiresAt,
+        ...(amendment ? { amendment } : {})
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching shared contract:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch contract' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { isShareLinkExpired } from '@/lib/share-link-utils';
+import { validateEmail, validatePlaceholders, validateRequired } from '@/lib/validation';
+import { buildSigningAudit } from '@/lib/signing-audit';
+import { isAmendable, isOpenForSigning } from '@/lib/contract-lifecycle';
+import { getShareLinkSigner } from '@/lib/signers';
+import { SignatureData, SigningCertificate, ApiResponse } from '@/types';
+
+/**
+ * POST /api/share/[token]/sign
+ * Signs a shared contract, or the amendment to it, on behalf of the client who received the link
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+): Promise<NextResponse<ApiResponse<SigningCertificate>>> {
+  try {
+    const shareLink = await DataService.getShareLinkByToken(params.token);
+
+    if (!shareLink) {
+      return NextResponse.json(
+        { success: false, error: 'Signing link not found' },
+        { status: 404 }
+      );
+    }
+
+    if (isShareLinkExpired(shareLink)) {
+      return NextResponse.json(
+        { success: false, error: 'This signing link has expired' },
+        { status: 410 }
+      );
+    }
+
+    if (shareLink.usedAt) {
+      return NextResponse.json(
+        { success: false, error: 'This signing link has already been used' },
+        { status: 400 }
+      );
+    }
+
+    // Fetch the shared contract to verify status
+    const existingContract = await DataService.getContract(shareLink.contractId);
+
+    if (!existingContract || existingContract.status === 'deleted') {
+      return NextResponse.json(
+        { success: false, error: 'Contract not found' },
+        { status: 404 }
+      );
+    }
+
+    // Links to an amendment sign the amendment; the contract it amends stays signed
+    const amendment = shareLink.amendmentId ? await DataService.getAmendment(shareLink.amendmentId) : null;
+
+    if (shareLink.amendmentId && !amendment) {
+      return NextResponse.json(
+        { success: false, error: 'Amendment not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check if the contract, or its amendment, can still be signed
+    if (amendment ? !isAmendable(existingContract.status) : !isOpenForSigning(existingContract.status)) {
+      return NextResponse.json(
+        { success: false, error: amendment ? 'Contract can no longer be amended' : 'Contract is not open for signing' },
+        { status: 400 }
+      );
+    }
+
+    // Contracts cannot go out or be signed with placeholders left in them
+    const placeholdersResult = validatePlaceholders(amendment ? amendment.content : existingContract.content);
+    if (!placeholdersResult.isValid) {
+      return NextResponse.json(
+        { success: false, error: placeholdersResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Check the signer this link was issued to is still waiting to sign; links issued before multi-party
+    // signing go to the first client who has not signed, and contracts without a signer list adopt the client
+    const signer = amendment
+      ? amendment.signers.find(candidate => candidate.id === shareLink.signerId)
+      : getShareLinkSigner(existingContract, shareLink.signerId);
+    if (!signer && (amendment || existingContract.signers || shareLink.signerId)) {
+      return NextResponse.json(
+        { success: false, error: `There is no one left to sign this ${amendment ? 'amendment' : 'contract'} through this link` },
+        { status: 400 }
+      );
+    }
+
+    if (signer?.signature) {
+      return NextResponse.json(
+        { success: false, error: `You have already signed this ${amendment ? 'amendment' : 'contract'}` },
+        { status: 400 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { type, data, signerName, signerEmail } = body;
+    const signedAt = new Date().toISOString();
+
+    // Validate signature data
+    if (!type || !data) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid signature data' },
+        { status: 400 }
+      );
+    }
+
+    if (!['drawn', 'typed'].includes(type)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid signature type' },
+        { status: 400 }
+      );
+    }
+
+    // Validate signer identity
+    const nameResult = validateRequired(signerName || '', 'Signer name');
+    const emailResult = validateEmail(signerEmail || '');
+
+    if (!nameResult.isValid || !emailResult.isValid) {
+      return NextResponse.json(
+        { success: false, error: nameResult.error || emailResult.error },
+        { status: 400 }
+      );
+    }
+
+    // Capture signing evidence; consent to sign electronically is mandatory
+    const audit = buildSigningAudit(request, body, signedAt, shareLink.viewedAt);
+
+    if (!audit) {
+      return NextResponse.json(
+        { success: false, error: 'Consent to sign electronically is required' },
+        { status: 400 }
+      );
+    }
+
+    // Create signature data recording the client's identity
+    const signatureData: SignatureData = {
+      type,
+      data,
+      timestamp: signedAt,
+      signedBy: {
+        role: 'client',
+        name: signerName.trim(),
+        email: signerEmail.trim()
+      }
+    };
+
+    // Save signature, issue the signing certificate and retire the link
+    const certificate = await DataService.saveClientSignature(shareLink.id, signatureData, audit);
+
+    // Amendments are rejected when the contract can no longer take their amount change
+    if (!certificate) {
+      return NextResponse.json(
+        { success: false, error: 'This amendment would leave the contract worth nothing or less than has already been paid' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: certificate
+    });
+  } catch (error) {
+    console.error('Error signing shared contract:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to sign contract' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
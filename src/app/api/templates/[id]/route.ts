@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { TemplateValidationResult, validateTemplateData } from '@/lib/validation';
+import { ApiResponse, ContractTemplate, ContractTemplateInput, ValidationErrorResponse } from '@/types';
+
+/**
+ * GET /api/templates/[id]
+ * Retrieves a specific contract template for the authenticated vendor
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ApiResponse<ContractTemplate>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const template = await DataService.getTemplate(params.id);
+
+    if (!template) {
+      return NextResponse.json(
+        { success: false, error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify template belongs to the authenticated vendor
+    if (template.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: template
+    });
+  } catch (error) {
+    console.error('Error fetching template:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch template' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/templates/[id]
+ * Updates a specific contract template for the authenticated vendor
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ApiResponse<ContractTemplate> | ValidationErrorResponse<TemplateValidationResult['errors']>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const existingTemplate = await DataService.getTemplate(params.id);
+
+    if (!existingTemplate) {
+      return NextResponse.json(
+        { success: false, error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify template belongs to the authenticated vendor
+    if (existingTemplate.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { name, description, servicePackage, amount, content } = body;
+
+    // Validate template data (only validate provided fields)
+    const updateData: Partial<ContractTemplateInput> = {};
+    if (name !== undefined) updateData.name = String(name).trim();
+    if (description !== undefined) updateData.description = String(description).trim();
+    if (servicePackage !== undefined) updateData.servicePackage = String(servicePackage).trim();
+    if (content !== undefined) updateData.content = String(content);
+    // An empty amount removes the template's standard price
+    if (amount !== undefined) updateData.amount = amount === null || amount === '' ? undefined : parseFloat(amount);
+
+    const validation = validateTemplateData(updateData);
+
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          data: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const template = await DataService.updateTemplate(params.id, updateData);
+
+    return NextResponse.json({
+      success: true,
+      data: template
+    });
+  } catch (error) {
+    console.error('Error updating template:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update template' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/templates/[id]
+ * Deletes a specific contract template for the authenticated vendor
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse<ApiResponse<void>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const existingTemplate = await DataService.getTemplate(params.id);
+
+    if (!existingTemplate) {
+      return NextResponse.json(
+        { success: false, error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify template belongs to the authenticated vendor
+    if (existingTemplate.vendorId !== session.id) {
+      return NextResponse.json(
+        { success: false, error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    await DataService.deleteTemplate(params.id);
+
+    return NextResponse.json({
+      success: true
+    });
+  } catch (error) {
+    console.error('Error deleting template:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete template' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DataService } from '@/lib/data-service';
+import { getSessionUser } from '@/lib/session';
+import { TemplateValidationResult, validateTemplateData } from '@/lib/validation';
+import { ApiResponse, ContractTemplate, ContractTemplateInput, ValidationErrorResponse } from '@/types';
+
+/**
+ * GET /api/templates
+ * Retrieves all contract templates of the authenticated vendor
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ApiResponse<ContractTemplate[]>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const templates = await DataService.getTemplatesByVendor(session.id);
+
+    return NextResponse.json({
+      success: true,
+      data: templates
+    });
+  } catch (error) {
+    console.error('Error fetching templates:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch templates' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/templates
+ * Creates a new contract template for the authenticated vendor
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<ContractTemplate> | ValidationErrorResponse<TemplateValidationResult['errors']>>> {
+  try {
+    // Get user from signed session cookie
+    const session = await getSessionUser(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    // Parse request body
+    const body = await request.json();
+    const { name, description, servicePackage, amount, content } = body;
+
+    const templateData: ContractTemplateInput = {
+      name: typeof name === 'string' ? name.trim() : '',
+      description: typeof description === 'string' ? description.trim() : '',
+      servicePackage: typeof servicePackage === 'string' ? servicePackage.trim() : '',
+      amount: amount === undefined || amount === null || amount === '' ? undefined : parseFloat(amount),
+      content: typeof content === 'string' ? content : ''
+    };
+
+    // Validate template data
+    const validation = validateTemplateData(templateData);
+
+    if (!validation.isValid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          data: validation.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const template = await DataService.createTemplate(session.id, templateData);
+
+    return NextResponse.json({
+      success: true,
+      data: template
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating template:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create template' },
+      { status: 500 }
+    );
+  }
+}
\ No newline at end of file
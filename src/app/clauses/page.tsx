@@ -0,0 +1,169 @@
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { AlertTriangle, BookOpen, CheckCircle } from 'lucide-react';
+import { AuthGuard } from '@/components/auth/auth-guard';
+import { MainLayout } from '@/components/layout/main-layout';
+import { LoadingState } from '@/components/ui/loading-state';
+import { ContractStatusIndicator } from '@/components/ui/status-indicator';
+import { useAuthStore } from '@/stores/auth-store';
+import { useClauseStore } from '@/stores/clause-store';
+import { useBrandingStore } from '@/stores/branding-store';
+import { formatDate, SHORT_DATE } from '@/lib/utils';
+import {
+  CLAUSE_CATEGORY_LABELS,
+  getClausesForVendorType,
+  getCurrentClauseVersion
+} from '@/lib/clause-library';
+
+/**
+ * Clause library page - the standard clauses offered to the vendor and the contracts using outdated versions
+ */
+function ClausesContent() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const { outdatedUsages, fetchOutdatedUsages, isLoading, error } = useClauseStore();
+  const { branding, fetchBranding } = useBrandingStore();
+  const locale = branding?.locale;
+  const [isInitialLoading, setIsInitialLoading] = React.useState(true);
+
+  const clauses = user ? getClausesForVendorType(user.vendorType) : [];
+
+  React.useEffect(() => {
+    const loadReport = async () => {
+      try {
+        await fetchOutdatedUsages();
+      } finally {
+        setIsInitialLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [fetchOutdatedUsages]);
+
+  React.useEffect(() => {
+    fetchBranding();
+  }, [fetchBranding]);
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Clause Library</h1>
+          <p className="text-muted-foreground">
+            Standard clauses you can insert from the contract editor toolbar.
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800">{error}</p>
+          </div>
+        )}
+
+        {/* Outdated Clause Report */}
+        <section className="bg-white border border-gray-200 rounded-lg p-5 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Contracts Using Outdated Clauses</h2>
+
+          {isInitialLoading || isLoading ? (
+            <div className="flex justify-center py-6">
+              <LoadingState message="Checking contracts..." />
+            </div>
+          ) : outdatedUsages.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-green-700">
+              <CheckCircle className="w-4 h-4" />
+              Every inserted clause is on its current version.
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {outdatedUsages.map(usage => (
+                <li key={`${usage.contractId}-${usage.clauseId}`}>
+                  <button
+                    type="button"
+                    onClick={() => router.push(`/contracts/${usage.contractId}`)}
+                    className="w-full flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 py-3 text-left hover:bg-gray-50 rounded"
+                  >
+                    <div className="flex items-start gap-3">
+                      <AlertTriangle className="w-4 h-4 text-amber-600 flex-shrink-0 mt-0.5" />
+                      <div>
+                        <p className="font-medium text-gray-900">{usage.clientName}</p>
+                        <p className="text-sm text-gray-600">
+                          {usage.clauseName}: version {usage.usedVersion} of {usage.currentVersion}
+                        </p>
+                      </div>
+                    </div>
+                    <ContractStatusIndicator status={usage.contractStatus} size="sm" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* Library */}
+        {clauses.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center border border-dashed rounded-lg">
+            <BookOpen className="w-12 h-12 text-muted-foreground mb-4" />
+            <h2 className="text-xl font-semibold mb-2">No clauses for your vendor type</h2>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {clauses.map((clause, index) => {
+              const current = getCurrentClauseVersion(clause);
+              const earlierVersions = clause.versions.slice(0, -1).reverse();
+
+              return (
+                <motion.div
+                  key={clause.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  className="bg-white border border-gray-200 rounded-lg p-5 flex flex-col gap-3"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <h3 className="font-semibold text-gray-900">{clause.name}</h3>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {CLAUSE_CATEGORY_LABELS[clause.category]}
+                      </p>
+                    </div>
+                    <span className="px-2 py-1 text-xs bg-blue-50 text-blue-700 rounded flex-shrink-0">
+                      Version {current.version}
+                    </span>
+                  </div>
+
+                  <div className="space-y-2 text-sm text-gray-700">
+                    {current.paragraphs.map((paragraph, paragraphIndex) => (
+                      <p key={paragraphIndex}>{paragraph}</p>
+                    ))}
+                  </div>
+
+                  <ul className="text-xs text-gray-500 space-y-1 border-t border-gray-100 pt-3">
+                    <li>
+                      Version {current.version}, {formatDate(current.publishedAt, { locale }, SHORT_DATE)}: {current.changeNote}
+                    </li>
+                    {earlierVersions.map(version => (
+                      <li key={version.version}>
+                        Version {version.version}, {formatDate(version.publishedAt, { locale }, SHORT_DATE)}: {version.changeNote}
+                      </li>
+                    ))}
+                  </ul>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
+
+export default function ClausesPage() {
+  return (
+    <AuthGuard>
+      <ClausesContent />
+    </AuthGuard>
+  );
+}
\ No newline at end of file
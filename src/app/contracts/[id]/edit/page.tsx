@@ -5,7 +5,9 @@ import { useParams, useRouter } from 'next/navigation';
 import { AuthGuard } from '@/components/auth/auth-guard';
 import { MainLayout } from '@/components/layout/main-layout';
 import { ContractEditForm } from '@/components/contracts/contract-edit-form';
+import { RevisionHistoryPanel } from '@/components/contracts/revision-history-panel';
 import { useContractStore } from '@/stores/contract-store';
+import { useBrandingStore } from '@/stores/branding-store';
 import { LoadingState } from '@/components/ui/loading-state';
 import { Contract } from '@/types';
 import { AlertTriangle } from 'lucide-react';
@@ -18,39 +20,43 @@ function EditContractContent() {
   const params = useParams();
   const router = useRouter();
   const contractId = params.id as string;
-  const { contracts, fetchContracts, isLoading } = useContractStore();
+  const { currentContract, fetchContract } = useContractStore();
+  const { branding, fetchBranding } = useBrandingStore();
   
   const [contract, setContract] = React.useState<Contract | null>(null);
   const [isInitialLoading, setIsInitialLoading] = React.useState(true);
+  const [formKey, setFormKey] = React.useState(0);
 
   React.useEffect(() => {
     const loadContract = async () => {
       try {
-        await fetchContracts();
+        await fetchContract(contractId);
       } finally {
         setIsInitialLoading(false);
       }
     };
     
     loadContract();
-  }, [fetchContracts]);
+  }, [fetchContract, contractId]);
 
   React.useEffect(() => {
-    if (contracts.length > 0) {
-      const foundContract = contracts.find(c => c.id === contractId);
-      setContract(foundContract || null);
+    fetchBranding();
+  }, [fetchBranding]);
+
+  React.useEffect(() => {
+    if (currentContract?.id === contractId) {
+      setContract(currentContract);
     }
-  }, [contracts, contractId]);
+  }, [currentContract, contractId]);
 
-  // Redirect signed contracts to view page
+  // Only drafts can be edited; contracts out for signature are shown on the view page
   React.useEffect(() => {
-    if (contract && contract.status === 'signed') {
+    if (contract && contract.status !== 'draft' && contract.status !== 'deleted') {
       router.replace(`/contracts/${contractId}`);
     }
   }, [contract, router, contractId]);
 
-  const handleFormSubmit = async (updatedContractId: string) => {
-    await fetchContracts();
+  const handleFormSubmit = (updatedContractId: string) => {
     router.push(`/contracts/${updatedContractId}`);
   };
 
@@ -66,7 +72,7 @@ function EditContractContent() {
     router.push('/dashboard');
   };
 
-  if (isInitialLoading || isLoading) {
+  if (isInitialLoading) {
     return (
       <MainLayout>
         <div className="flex justify-center py-12">
@@ -94,8 +100,8 @@ function EditContractContent() {
     );
   }
 
-  // Contract is signed - show redirecting message
-  if (contract && contract.status === 'signed') {
+  // Contract is out for signature or signed - show redirecting message
+  if (contract.status !== 'draft' && contract.status !== 'deleted') {
     return (
       <MainLayout>
         <div className="flex justify-center py-12">
@@ -134,12 +140,20 @@ function EditContractContent() {
           </p>
         </div>
 
+        {/* Remounted after a restore so the form picks up the restored revision */}
         <ContractEditForm
+          key={formKey}
           contract={contract}
           onSubmit={handleFormSubmit}
           onCancel={handleFormCancel}
           onSigningComplete={handleSigningComplete}
         />
+
+        <RevisionHistoryPanel
+          contract={contract}
+          onRestored={() => setFormKey(key => key + 1)}
+          locale={branding?.locale}
+        />
       </div>
     </MainLayout>
   );
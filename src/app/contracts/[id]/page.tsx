@@ -4,10 +4,21 @@ import React from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { AuthGuard } from '@/components/auth/auth-guard';
 import { MainLayout } from '@/components/layout/main-layout';
-import { ContractViewer } from '@/components/contracts';
+import {
+  AmendmentPanel,
+  ContractSigningWorkflow,
+  ContractStatusActions,
+  ContractViewer,
+  InvoicePanel,
+  PaymentLedgerPanel,
+  ShareLinkModal,
+  SigningCertificatePanel
+} from '@/components/contracts';
 import { useContractStore } from '@/stores/contract-store';
+import { useBrandingStore } from '@/stores/branding-store';
 import { LoadingState } from '@/components/ui/loading-state';
-import { Contract } from '@/types';
+import { isEditable, isExecuted } from '@/lib/contract-lifecycle';
+import { Contract, ContractAmendment, SignatureData, SigningConsent } from '@/types';
 
 /**
  * Contract View page - view a specific contract
@@ -16,20 +27,27 @@ function ContractViewContent() {
   const params = useParams();
   const router = useRouter();
   const contractId = params.id as string;
-  const { contracts, fetchContracts, isLoading } = useContractStore();
+  const { currentContract, fetchContract, signContract, isContractLoading } = useContractStore();
+  const { branding, fetchBranding } = useBrandingStore();
   
   const [contract, setContract] = React.useState<Contract | null>(null);
+  const [isShareModalOpen, setIsShareModalOpen] = React.useState(false);
+  const [isSigning, setIsSigning] = React.useState(false);
+  const [amendments, setAmendments] = React.useState<ContractAmendment[]>([]);
 
   React.useEffect(() => {
-    fetchContracts();
-  }, [fetchContracts]);
+    fetchContract(contractId);
+  }, [fetchContract, contractId]);
 
   React.useEffect(() => {
-    if (contracts.length > 0) {
-      const foundContract = contracts.find(c => c.id === contractId);
-      setContract(foundContract || null);
+    fetchBranding();
+  }, [fetchBranding]);
+
+  React.useEffect(() => {
+    if (currentContract?.id === contractId) {
+      setContract(currentContract);
     }
-  }, [contracts, contractId]);
+  }, [currentContract, contractId]);
 
   const handleBack = () => {
     router.push('/dashboard');
@@ -37,16 +55,30 @@ function ContractViewContent() {
 
   const handleEdit = () => {
     // Only allow editing of draft contracts
-    if (contract && contract.status === 'draft') {
+    if (contract && isEditable(contract.status)) {
       router.push(`/contracts/${contractId}/edit`);
     }
   };
 
   const handleSign = () => {
-    router.push(`/contracts/${contractId}/sign`);
+    setIsSigning(true);
+  };
+
+  /**
+   * Applies the vendor's countersignature
+   */
+  const handleSignatureConfirm = async (signature: SignatureData, consent: SigningConsent) => {
+    const success = await signContract(contractId, signature, consent);
+    if (!success) {
+      throw new Error(useContractStore.getState().error || 'Failed to sign contract');
+    }
   };
 
-  if (isLoading || !contract) {
+  const handleShare = () => {
+    setIsShareModalOpen(true);
+  };
+
+  if (!contract) {
     return (
       <MainLayout>
         <div className="flex justify-center py-12">
@@ -56,6 +88,20 @@ function ContractViewContent() {
     );
   }
 
+  if (isSigning) {
+    return (
+      <MainLayout>
+        <ContractSigningWorkflow
+          contract={contract}
+          loading={isContractLoading}
+          onSignatureConfirm={handleSignatureConfirm}
+          onCancel={() => setIsSigning(false)}
+          onComplete={() => setIsSigning(false)}
+        />
+      </MainLayout>
+    );
+  }
+
   return (
     <MainLayout>
       <ContractViewer
@@ -63,6 +109,45 @@ function ContractViewContent() {
         onBack={handleBack}
         onEdit={handleEdit}
         onSign={handleSign}
+        onShare={handleShare}
+        branding={branding}
+      />
+
+      <ContractStatusActions contract={contract} className="max-w-4xl mx-auto mt-4 justify-end" />
+
+      {isExecuted(contract.status) && (
+        <>
+          <AmendmentPanel
+            contract={contract}
+            branding={branding}
+            onAmendmentsChange={setAmendments}
+            className="max-w-4xl mx-auto mt-6"
+          />
+          <PaymentLedgerPanel
+            contract={contract}
+            branding={branding}
+            amendments={amendments}
+            className="max-w-4xl mx-auto mt-6"
+          />
+          <InvoicePanel
+            contract={contract}
+            branding={branding}
+            amendments={amendments}
+            className="max-w-4xl mx-auto mt-6"
+          />
+          <SigningCertificatePanel
+            contract={contract}
+            locale={branding?.locale}
+            className="max-w-4xl mx-auto mt-6"
+          />
+        </>
+      )}
+
+      <ShareLinkModal
+        isOpen={isShareModalOpen}
+        onClose={() => setIsShareModalOpen(false)}
+        contract={contract}
+        locale={branding?.locale}
       />
     </MainLayout>
   );
@@ -5,17 +5,21 @@ import { useRouter } from "next/navigation";
 import { AuthGuard } from "@/components/auth/auth-guard";
 import { MainLayout } from "@/components/layout/main-layout";
 import { ContractForm } from "@/components/contracts";
-import { useContractStore } from "@/stores/contract-store";
+import { useBrandingStore } from "@/stores/branding-store";
 
 /**
  * New Contract page - create a new contract
  */
 function NewContractContent() {
   const router = useRouter();
-  const { fetchContracts } = useContractStore();
+  const { fetchBranding } = useBrandingStore();
 
-  const handleFormSubmit = async (contractId: string) => {
-    await fetchContracts();
+  // The vendor's locale decides the currency new contracts start in
+  React.useEffect(() => {
+    fetchBranding();
+  }, [fetchBranding]);
+
+  const handleFormSubmit = (contractId: string) => {
     router.push(`/contracts/${contractId}`);
   };
 
@@ -9,27 +9,40 @@ import {
   CheckCircle,
   Clock,
   Calendar,
-  DollarSign,
+  Banknote,
   MapPin,
   Eye,
   Edit,
   Download,
   Trash2,
-  Search,
   Filter,
+  Wallet,
+  AlertTriangle,
 } from "lucide-react";
 import { AuthGuard } from "@/components/auth/auth-guard";
 import { MainLayout } from "@/components/layout/main-layout";
 import { useContractStore } from "@/stores/contract-store";
+import { useBrandingStore } from "@/stores/branding-store";
+import { usePaymentStore } from "@/stores/payment-store";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Select } from "@/components/ui/select";
 import { ContractStatusIndicator } from "@/components/ui/status-indicator";
 import { DeleteConfirmationDialog } from "@/components/ui/delete-confirmation-dialog";
+import {
+  ContractListFilters,
+  ContractListPager,
+  ContractSearchResults,
+} from "@/components/contracts";
 import { downloadContractPDF } from "@/lib/pdf-utils";
+import { CONTRACT_LIST_SETTINGS } from "@/lib/constants";
 import { motion, AnimatePresence } from "framer-motion";
 import { Contract } from "@/types";
-import { cn } from "@/lib/utils";
+import {
+  cn,
+  formatCurrency,
+  formatCurrencyTotals,
+  formatDate,
+  SHORT_DATE,
+} from "@/lib/utils";
 
 /**
  * Dashboard page component - shows statistics and contract list
@@ -39,15 +52,15 @@ function DashboardContent() {
   const router = useRouter();
   const {
     contracts,
+    summary,
     fetchContracts,
     deleteContract,
     isLoading,
-    statusFilter,
     searchQuery,
-    setStatusFilter,
-    setSearchQuery,
-    getFilteredContracts,
+    hasActiveFilters,
   } = useContractStore();
+  const { branding, fetchBranding } = useBrandingStore();
+  const { receivables, fetchReceivables } = usePaymentStore();
 
   const [contractToDelete, setContractToDelete] =
     React.useState<Contract | null>(null);
@@ -58,37 +71,30 @@ function DashboardContent() {
     fetchContracts();
   }, [fetchContracts]);
 
-  const filteredContracts = getFilteredContracts();
-
-  // Calculate statistics
-  const totalContracts = contracts.length;
-  const signedContracts = contracts.filter((c) => c.status === "signed").length;
-  const draftContracts = contracts.filter((c) => c.status === "draft").length;
-  const totalValue = contracts
-    .filter((c) => c.status === "signed")
-    .reduce((sum, c) => sum + c.amount, 0);
-
-  const statusOptions = [
-    { value: "all", label: "All Status" },
-    { value: "draft", label: "Draft" },
-    { value: "signed", label: "Signed" },
-  ];
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-      minimumFractionDigits: 0,
-    }).format(amount);
-  };
+  React.useEffect(() => {
+    fetchBranding();
+  }, [fetchBranding]);
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-      year: "numeric",
-    });
-  };
+  // Refresh receivables whenever the contract summary changes, e.g. after a contract is signed or deleted.
+  // Every list fetch brings a new summary object, so compare its contents rather than the object itself.
+  const summaryKey = summary ? JSON.stringify(summary) : null;
+
+  React.useEffect(() => {
+    if (summaryKey) {
+      fetchReceivables();
+    }
+  }, [summaryKey, fetchReceivables]);
+
+  // Statistics cover all contracts, whatever the list filters; the server counts them
+  const totalContracts = summary?.count ?? 0;
+  const signedContracts = (summary?.statusCounts.signed ?? 0) + (summary?.statusCounts.completed ?? 0);
+  const draftContracts = summary?.statusCounts.draft ?? 0;
+  // Signed contracts can be in different currencies, so the value is totalled per currency
+  const totalValue = summary?.signedValue ?? [];
+  const overdueCount = receivables?.overdueInstallments.length ?? 0;
+  const isFiltered = hasActiveFilters();
+
+  const locale = branding?.locale;
 
   const handleViewContract = (contract: Contract) => {
     router.push(`/contracts/${contract.id}`);
@@ -140,19 +146,20 @@ function DashboardContent() {
   const handleDownloadPDF = async (contract: Contract, e: React.MouseEvent) => {
     e.stopPropagation();
     try {
-      await downloadContractPDF(contract);
+      await downloadContractPDF(contract, branding);
     } catch (error) {
       console.error("Failed to download PDF:", error);
     }
   };
 
-  if (isLoading) {
+  // The skeleton only stands in for the first load, so the filters stay put while the list is refreshed
+  if (isLoading && !summary) {
     return (
       <MainLayout>
         <div className="space-y-6">
           {/* Stats skeleton */}
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-            {Array.from({ length: 4 }).map((_, i) => (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {Array.from({ length: 6 }).map((_, i) => (
               <div
                 key={i}
                 className="border rounded-lg p-6 space-y-2 animate-pulse"
@@ -187,7 +194,7 @@ function DashboardContent() {
     <MainLayout>
       <div className="space-y-6">
         {/* Statistics Cards */}
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -238,12 +245,67 @@ function DashboardContent() {
             className="border rounded-lg p-6"
           >
             <div className="flex items-center space-x-2">
-              <DollarSign className="h-4 w-4 text-green-600" />
+              <Banknote className="h-4 w-4 text-green-600" />
               <p className="text-sm font-medium text-muted-foreground">
                 Total Value
               </p>
             </div>
-            <p className="text-2xl font-bold">{formatCurrency(totalValue)}</p>
+            <p className="text-2xl font-bold">
+              {formatCurrencyTotals(totalValue, { locale }, { minimumFractionDigits: 0 })}
+            </p>
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.5 }}
+            className="border rounded-lg p-6"
+          >
+            <div className="flex items-center space-x-2">
+              <Wallet className="h-4 w-4 text-blue-600" />
+              <p className="text-sm font-medium text-muted-foreground">
+                Outstanding Receivables
+              </p>
+            </div>
+            <p className="text-2xl font-bold">
+              {formatCurrencyTotals(receivables?.outstanding ?? [], { locale }, { minimumFractionDigits: 0 })}
+            </p>
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.6 }}
+            className="border rounded-lg p-6"
+          >
+            <div className="flex items-center space-x-2">
+              <AlertTriangle
+                className={cn(
+                  "h-4 w-4",
+                  overdueCount > 0 ? "text-red-600" : "text-muted-foreground"
+                )}
+              />
+              <p className="text-sm font-medium text-muted-foreground">
+                Overdue Installments
+              </p>
+            </div>
+            <p className="text-2xl font-bold">
+              {formatCurrencyTotals(receivables?.overdue ?? [], { locale }, { minimumFractionDigits: 0 })}
+            </p>
+            {overdueCount > 0 && receivables && (
+              <button
+                type="button"
+                onClick={() =>
+                  router.push(
+                    `/contracts/${receivables.overdueInstallments[0].contractId}`
+                  )
+                }
+                className="text-sm text-red-700 hover:underline text-left"
+              >
+                {overdueCount} overdue, oldest from{" "}
+                {receivables.overdueInstallments[0].clientName}
+              </button>
+            )}
           </motion.div>
         </div>
 
@@ -254,30 +316,18 @@ function DashboardContent() {
           </div>
 
           {/* Filters */}
-          <div className="flex flex-col sm:flex-row gap-4">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-              <Input
-                placeholder="Search contracts..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10"
-              />
-            </div>
+          <ContractListFilters />
 
-            <Select
-              options={statusOptions}
-              value={statusFilter}
-              onChange={(value) =>
-                setStatusFilter(value as "all" | "draft" | "signed")
-              }
-              className="w-full sm:w-48"
-            />
-          </div>
+          {/* Full-text matches for the search box */}
+          <ContractSearchResults
+            query={searchQuery}
+            onSelect={(contractId) => router.push(`/contracts/${contractId}`)}
+            locale={locale}
+          />
 
           {/* Contract List */}
           <AnimatePresence>
-            {filteredContracts.length === 0 ? (
+            {contracts.length === 0 ? (
               <motion.div
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
@@ -288,20 +338,23 @@ function DashboardContent() {
                   No contracts found
                 </h3>
                 <p className="text-muted-foreground mb-6">
-                  {searchQuery || statusFilter !== "all"
+                  {isFiltered
                     ? "Try adjusting your search or filters"
                     : "Get started by creating your first contract"}
                 </p>
               </motion.div>
             ) : (
               <div className="space-y-4">
-                {filteredContracts.map((contract, index) => (
+                {contracts.map((contract, index) => (
                   <motion.div
                     key={contract.id}
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
                     exit={{ opacity: 0, y: -20 }}
-                    transition={{ delay: index * 0.05 }}
+                    transition={{
+                      delay:
+                        (index % CONTRACT_LIST_SETTINGS.DEFAULT_PAGE_SIZE) * 0.05,
+                    }}
                     className="group border rounded-lg p-6 hover:shadow-md transition-all duration-200 cursor-pointer"
                     onClick={() => handleViewContract(contract)}
                   >
@@ -371,7 +424,7 @@ function DashboardContent() {
                     <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm text-muted-foreground">
                       <div className="flex items-center gap-2">
                         <Calendar className="w-4 h-4" />
-                        <span>{formatDate(contract.eventDate)}</span>
+                        <span>{formatDate(contract.eventDate, { locale }, SHORT_DATE)}</span>
                       </div>
 
                       <div className="flex items-center gap-2">
@@ -380,9 +433,13 @@ function DashboardContent() {
                       </div>
 
                       <div className="flex items-center gap-2">
-                        <DollarSign className="w-4 h-4" />
+                        <Banknote className="w-4 h-4" />
                         <span className="font-medium text-foreground">
-                          {formatCurrency(contract.amount)}
+                          {formatCurrency(
+                            contract.amount,
+                            { locale, currency: contract.currency },
+                            { minimumFractionDigits: 0 }
+                          )}
                         </span>
                       </div>
                     </div>
@@ -396,6 +453,9 @@ function DashboardContent() {
               </div>
             )}
           </AnimatePresence>
+
+          {/* Paging */}
+          <ContractListPager />
         </div>
 
         {/* Delete Confirmation Dialog */}
@@ -405,6 +465,7 @@ function DashboardContent() {
           onConfirm={handleConfirmDelete}
           contract={contractToDelete}
           loading={isDeleting}
+          locale={locale}
         />
       </div>
     </MainLayout>
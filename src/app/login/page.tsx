@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
 import { Mail, Lock, Heart } from 'lucide-react';
@@ -165,6 +166,12 @@ export default function LoginPage() {
             </Button>
           </form>
 
+          <p className="mt-6 text-center text-sm text-gray-600">
+            New vendor?{' '}
+            <Link href="/signup" className="font-medium text-blue-600 hover:text-blue-700">
+              Create an account
+            </Link>
+          </p>
 
         </motion.div>
       </motion.div>
@@ -0,0 +1,66 @@
+'use client';
+
+import React from 'react';
+import { AuthGuard } from '@/components/auth/auth-guard';
+import { MainLayout } from '@/components/layout/main-layout';
+import { BrandingSettingsForm } from '@/components/settings';
+import { LoadingState } from '@/components/ui/loading-state';
+import { useAuthStore } from '@/stores/auth-store';
+import { useBrandingStore } from '@/stores/branding-store';
+
+/**
+ * Settings page - document branding for the vendor's contract PDFs
+ */
+function SettingsContent() {
+  const { user } = useAuthStore();
+  const { branding, fetchBranding, saveBranding, isLoading, error } = useBrandingStore();
+  const [isInitialLoading, setIsInitialLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    const loadBranding = async () => {
+      try {
+        await fetchBranding();
+      } finally {
+        setIsInitialLoading(false);
+      }
+    };
+
+    loadBranding();
+  }, [fetchBranding]);
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Branding</h1>
+          <p className="text-muted-foreground">
+            Your logo, colours and business details appear on every contract PDF you and your clients download,
+            and your locale sets how amounts and dates are written.
+          </p>
+        </div>
+
+        {isInitialLoading ? (
+          <div className="flex justify-center py-12">
+            <LoadingState size="lg" message="Loading branding..." />
+          </div>
+        ) : (
+          <BrandingSettingsForm
+            branding={branding}
+            defaultBusinessName={user?.name || ''}
+            onSave={saveBranding}
+            loading={isLoading}
+            error={error}
+          />
+        )}
+      </div>
+    </MainLayout>
+  );
+}
+
+export default function SettingsPage() {
+  return (
+    <AuthGuard>
+      <SettingsContent />
+    </AuthGuard>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,247 @@
+'use client';
+
+import React from 'react';
+import { useParams } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { AlertTriangle, CheckCircle, Mail, PenTool, User } from 'lucide-react';
+import { ContractViewer, SignatureModal } from '@/components/contracts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { LoadingState } from '@/components/ui/loading-state';
+import { API_ENDPOINTS } from '@/lib/constants';
+import { isExecuted } from '@/lib/contract-lifecycle';
+import { formatAmountDelta } from '@/lib/amendments';
+import { getFormatContext } from '@/lib/utils';
+import { validateEmail, validateRequired } from '@/lib/validation';
+import { ApiResponse, SharedContractView, SignatureData } from '@/types';
+
+/**
+ * Public client signing page reached through a vendor-generated share link
+ * Renders the contract, or the amendment to it, read-only and lets the client sign without an account
+ */
+export default function ClientSigningPage() {
+  const params = useParams();
+  const token = params.token as string;
+
+  const [sharedContract, setSharedContract] = React.useState<SharedContractView | null>(null);
+  const [loadError, setLoadError] = React.useState<string | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [signer, setSigner] = React.useState({ name: '', email: '' });
+  const [signerErrors, setSignerErrors] = React.useState({ name: '', email: '' });
+  const [isSignatureModalOpen, setIsSignatureModalOpen] = React.useState(false);
+  const [isSigning, setIsSigning] = React.useState(false);
+  const [signError, setSignError] = React.useState<string | null>(null);
+  const [viewedAt, setViewedAt] = React.useState<string | null>(null);
+
+  /**
+   * Loads the shared contract for the token in the URL
+   */
+  const loadContract = React.useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`${API_ENDPOINTS.SHARE}/${token}`);
+      const result: ApiResponse<SharedContractView> = await response.json();
+
+      if (result.success && result.data) {
+        const sharedSigner = result.data.signer;
+        setSharedContract(result.data);
+        // Prefill the details the vendor entered for this signer
+        setSigner(prev => ({
+          name: prev.name || sharedSigner.name,
+          email: prev.email || sharedSigner.email
+        }));
+        setLoadError(null);
+        setViewedAt(prev => prev || new Date().toISOString());
+      } else {
+        setLoadError(result.error || 'This signing link is not valid');
+      }
+    } catch (error) {
+      setLoadError('Network error. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  React.useEffect(() => {
+    loadContract();
+  }, [loadContract]);
+
+  /**
+   * Validates the signer details before opening the signature modal
+   */
+  const handleStartSigning = () => {
+    const nameResult = validateRequired(signer.name, 'Full name');
+    const emailResult = validateEmail(signer.email);
+
+    setSignerErrors({
+      name: nameResult.error || '',
+      email: emailResult.error || ''
+    });
+
+    if (nameResult.isValid && emailResult.isValid) {
+      setSignError(null);
+      setIsSignatureModalOpen(true);
+    }
+  };
+
+  /**
+   * Submits the client's signature through the share link
+   */
+  const handleSignatureConfirm = async (signature: SignatureData, consentedAt: string) => {
+    setIsSigning(true);
+    try {
+      const response = await fetch(`${API_ENDPOINTS.SHARE}/${token}/sign`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          type: signature.type,
+          data: signature.data,
+          signerName: signer.name,
+          signerEmail: signer.email,
+          viewedAt,
+          consentedAt
+        })
+      });
+
+      const result: ApiResponse = await response.json();
+
+      if (result.success) {
+        setIsSignatureModalOpen(false);
+        await loadContract();
+      } else {
+        setSignError(result.error || 'Failed to sign contract');
+        setIsSignatureModalOpen(false);
+      }
+    } catch (error) {
+      setSignError('Network error. Please try again.');
+      setIsSignatureModalOpen(false);
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  if (isLoading && !sharedContract) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingState size="lg" message="Loading contract..." />
+      </div>
+    );
+  }
+
+  if (loadError || !sharedContract) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center p-4 text-center">
+        <AlertTriangle className="w-12 h-12 text-gray-400 mb-4" />
+        <h1 className="text-xl font-semibold text-gray-900 mb-2">Unable to Open Contract</h1>
+        <p className="text-gray-600">{loadError}</p>
+      </div>
+    );
+  }
+
+  const { contract, amendment, vendorName } = sharedContract;
+  const formatContext = getFormatContext(contract, sharedContract.branding);
+  const isFullyExecuted = amendment ? amendment.status === 'signed' : isExecuted(contract.status);
+  const isSigned = Boolean(sharedContract.signer.signature) || isFullyExecuted;
+  const documentName = amendment ? 'amendment' : 'contract';
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-4xl mx-auto mb-6">
+        <p className="text-sm text-gray-600">
+          {amendment
+            ? `${vendorName} has sent you an amendment to your signed contract to review and sign. The contract it amends is shown below it.`
+            : `${vendorName} has sent you a contract to review and sign.`}
+        </p>
+      </div>
+
+      {amendment && (
+        <div className="max-w-4xl mx-auto mb-6 bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Amendment {amendment.number}: {amendment.title}
+            </h2>
+            <p className="text-sm text-gray-600">
+              Amount change: {formatAmountDelta(amendment.amountDelta, formatContext)}
+            </p>
+          </div>
+          <div
+            className="prose prose-sm max-w-none text-gray-900"
+            dangerouslySetInnerHTML={{ __html: amendment.content }}
+          />
+        </div>
+      )}
+
+      <ContractViewer contract={contract} branding={sharedContract.branding} />
+
+      <div className="max-w-4xl mx-auto mt-6">
+        {isSigned ? (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-center gap-3"
+          >
+            <CheckCircle className="w-5 h-5 text-green-600" />
+            <p className="text-green-800">
+              {isFullyExecuted
+                ? `This ${documentName} is fully executed. ${vendorName} has been notified and keeps a copy on file.`
+                : `Your signature has been recorded. The ${documentName} becomes binding once the remaining parties have signed.`}
+            </p>
+          </motion.div>
+        ) : (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="bg-white border border-gray-200 rounded-lg p-6 space-y-4"
+          >
+            <h2 className="text-lg font-semibold text-gray-900">Sign as Client</h2>
+
+            {signError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-red-800 text-sm">{signError}</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Full Name"
+                value={signer.name}
+                onChange={(e) => setSigner(prev => ({ ...prev, name: e.target.value }))}
+                error={signerErrors.name}
+                leftIcon={<User className="w-4 h-4" />}
+                placeholder="Enter your full name"
+              />
+
+              <Input
+                label="Email Address"
+                type="email"
+                value={signer.email}
+                onChange={(e) => setSigner(prev => ({ ...prev, email: e.target.value }))}
+                error={signerErrors.email}
+                leftIcon={<Mail className="w-4 h-4" />}
+                placeholder="Enter your email"
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={handleStartSigning}
+                leftIcon={<PenTool className="w-4 h-4" />}
+              >
+                {amendment ? 'Sign Amendment' : 'Sign Contract'}
+              </Button>
+            </div>
+          </motion.div>
+        )}
+      </div>
+
+      <SignatureModal
+        isOpen={isSignatureModalOpen}
+        onClose={() => setIsSignatureModalOpen(false)}
+        onConfirm={handleSignatureConfirm}
+        loading={isSigning}
+      />
+    </div>
+  );
+}
\ No newline at end of file
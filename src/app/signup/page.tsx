@@ -0,0 +1,216 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Mail, Lock, Heart, Briefcase } from 'lucide-react';
+import { useAuthStore } from '@/stores/auth-store';
+import { validateRegistrationForm } from '@/lib/validation';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { RegistrationData } from '@/types';
+
+/**
+ * Vendor type options for the registration form
+ */
+const vendorTypeOptions = [
+  { value: 'photographer', label: 'Photographer' },
+  { value: 'caterer', label: 'Caterer' },
+  { value: 'florist', label: 'Florist' }
+];
+
+type RegistrationField = keyof RegistrationData;
+
+/**
+ * Signup page component for vendor self-registration
+ * Collects business details and signs the new vendor in on success
+ */
+export default function SignupPage() {
+  const router = useRouter();
+  const { register, isLoading, error, clearError, isAuthenticated } = useAuthStore();
+
+  const [formData, setFormData] = useState<RegistrationData>({
+    name: '',
+    email: '',
+    password: '',
+    vendorType: '' as RegistrationData['vendorType']
+  });
+
+  const [fieldErrors, setFieldErrors] = useState<Record<RegistrationField, string>>({
+    name: '',
+    email: '',
+    password: '',
+    vendorType: ''
+  });
+
+  // Redirect if already authenticated
+  useEffect(() => {
+    if (isAuthenticated) {
+      router.push('/dashboard');
+    }
+  }, [isAuthenticated, router]);
+
+  // Clear errors when user starts typing
+  useEffect(() => {
+    if (error) {
+      clearError();
+    }
+  }, [formData, clearError, error]);
+
+  /**
+   * Updates a form field and clears its error
+   */
+  const updateField = (field: RegistrationField, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+
+    if (fieldErrors[field]) {
+      setFieldErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  /**
+   * Handles form submission with validation
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Validate form
+    const validation = validateRegistrationForm(formData);
+
+    if (!validation.isValid) {
+      setFieldErrors({
+        name: validation.name.error || '',
+        email: validation.email.error || '',
+        password: validation.password.error || '',
+        vendorType: validation.vendorType.error || ''
+      });
+      return;
+    }
+
+    // Clear field errors
+    setFieldErrors({ name: '', email: '', password: '', vendorType: '' });
+
+    // Attempt registration
+    const success = await register(formData);
+
+    if (success) {
+      router.push('/dashboard');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="w-full max-w-md"
+      >
+        {/* Header */}
+        <div className="text-center mb-8">
+          <motion.div
+            initial={{ scale: 0 }}
+            animate={{ scale: 1 }}
+            transition={{ delay: 0.2, type: 'spring', stiffness: 200 }}
+            className="inline-flex items-center justify-center w-16 h-16 bg-blue-600 rounded-full mb-4"
+          >
+            <Heart className="w-8 h-8 text-white" />
+          </motion.div>
+
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Create Your Vendor Account
+          </h1>
+          <p className="text-gray-600">
+            Start building contracts for your clients
+          </p>
+        </div>
+
+        {/* Signup Form */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.3 }}
+          className="bg-white rounded-xl shadow-lg p-8"
+        >
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Global Error Message */}
+            {error && (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="bg-red-50 border border-red-200 rounded-lg p-4"
+              >
+                <p className="text-red-800 text-sm">{error}</p>
+              </motion.div>
+            )}
+
+            {/* Business Name Field */}
+            <Input
+              label="Business Name"
+              placeholder="e.g., Sarah Johnson Photography"
+              value={formData.name}
+              onChange={(e) => updateField('name', e.target.value)}
+              error={fieldErrors.name}
+              leftIcon={<Briefcase className="w-4 h-4" />}
+              disabled={isLoading}
+            />
+
+            {/* Vendor Type Field */}
+            <Select
+              label="Vendor Type"
+              options={vendorTypeOptions}
+              value={formData.vendorType}
+              onChange={(value) => updateField('vendorType', value)}
+              placeholder="Select your service"
+              error={fieldErrors.vendorType}
+              disabled={isLoading}
+            />
+
+            {/* Email Field */}
+            <Input
+              label="Email Address"
+              type="email"
+              placeholder="Enter your email"
+              value={formData.email}
+              onChange={(e) => updateField('email', e.target.value)}
+              error={fieldErrors.email}
+              leftIcon={<Mail className="w-4 h-4" />}
+              disabled={isLoading}
+            />
+
+            {/* Password Field */}
+            <Input
+              label="Password"
+              type="password"
+              placeholder="At least 6 characters"
+              value={formData.password}
+              onChange={(e) => updateField('password', e.target.value)}
+              error={fieldErrors.password}
+              leftIcon={<Lock className="w-4 h-4" />}
+              disabled={isLoading}
+            />
+
+            {/* Submit Button */}
+            <Button
+              type="submit"
+              className="w-full"
+              loading={isLoading}
+              disabled={isLoading}
+            >
+              Create Account
+            </Button>
+          </form>
+
+          <p className="mt-6 text-center text-sm text-gray-600">
+            Already have an account?{' '}
+            <Link href="/login" className="font-medium text-blue-600 hover:text-blue-700">
+              Sign in
+            </Link>
+          </p>
+        </motion.div>
+      </motion.div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,86 @@
+'use client';
+
+import React from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { AlertTriangle } from 'lucide-react';
+import { AuthGuard } from '@/components/auth/auth-guard';
+import { MainLayout } from '@/components/layout/main-layout';
+import { TemplateForm } from '@/components/templates';
+import { Button } from '@/components/ui/button';
+import { LoadingState } from '@/components/ui/loading-state';
+import { useTemplateStore } from '@/stores/template-store';
+
+/**
+ * Edit Template page - edit an existing contract template
+ */
+function EditTemplateContent() {
+  const params = useParams();
+  const router = useRouter();
+  const templateId = params.id as string;
+  const { templates, fetchTemplates } = useTemplateStore();
+  const [isInitialLoading, setIsInitialLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        await fetchTemplates();
+      } finally {
+        setIsInitialLoading(false);
+      }
+    };
+
+    loadTemplates();
+  }, [fetchTemplates]);
+
+  const template = templates.find(t => t.id === templateId) || null;
+
+  const handleBackToTemplates = () => {
+    router.push('/templates');
+  };
+
+  if (isInitialLoading) {
+    return (
+      <MainLayout>
+        <div className="flex justify-center py-12">
+          <LoadingState size="lg" message="Loading template..." />
+        </div>
+      </MainLayout>
+    );
+  }
+
+  // Template not found
+  if (!template) {
+    return (
+      <MainLayout>
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <AlertTriangle className="w-12 h-12 text-muted-foreground mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Template Not Found</h2>
+          <p className="text-muted-foreground mb-6">
+            The template you&apos;re looking for doesn&apos;t exist or has been deleted.
+          </p>
+          <Button onClick={handleBackToTemplates}>
+            Back to Templates
+          </Button>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <TemplateForm
+        template={template}
+        onSubmit={handleBackToTemplates}
+        onCancel={handleBackToTemplates}
+      />
+    </MainLayout>
+  );
+}
+
+export default function EditTemplatePage() {
+  return (
+    <AuthGuard>
+      <EditTemplateContent />
+    </AuthGuard>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { AuthGuard } from '@/components/auth/auth-guard';
+import { MainLayout } from '@/components/layout/main-layout';
+import { TemplateForm } from '@/components/templates';
+
+/**
+ * New Template page - create a reusable contract template
+ */
+function NewTemplateContent() {
+  const router = useRouter();
+
+  const handleFormSubmit = () => {
+    router.push('/templates');
+  };
+
+  const handleFormCancel = () => {
+    router.push('/templates');
+  };
+
+  return (
+    <MainLayout>
+      <TemplateForm
+        template={null}
+        onSubmit={handleFormSubmit}
+        onCancel={handleFormCancel}
+      />
+    </MainLayout>
+  );
+}
+
+export default function NewTemplatePage() {
+  return (
+    <AuthGuard>
+      <NewTemplateContent />
+    </AuthGuard>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,186 @@
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Edit, FileText, Plus, Trash2 } from 'lucide-react';
+import { AuthGuard } from '@/components/auth/auth-guard';
+import { MainLayout } from '@/components/layout/main-layout';
+import { Button } from '@/components/ui/button';
+import { Modal } from '@/components/ui/modal';
+import { LoadingState } from '@/components/ui/loading-state';
+import { useTemplateStore } from '@/stores/template-store';
+import { useBrandingStore } from '@/stores/branding-store';
+import { formatCurrency, formatDate, getLocaleCurrency, SHORT_DATE } from '@/lib/utils';
+import { ContractTemplate } from '@/types';
+
+/**
+ * Templates page - the vendor's library of reusable contract templates
+ */
+function TemplatesContent() {
+  const router = useRouter();
+  const { templates, fetchTemplates, deleteTemplate, isLoading, error } = useTemplateStore();
+  const { branding, fetchBranding } = useBrandingStore();
+  // Template amounts are defaults for new contracts, which start in the currency of the vendor's locale
+  const formatContext = { locale: branding?.locale, currency: getLocaleCurrency(branding?.locale) };
+  const [isInitialLoading, setIsInitialLoading] = React.useState(true);
+  const [templateToDelete, setTemplateToDelete] = React.useState<ContractTemplate | null>(null);
+  const [isDeleting, setIsDeleting] = React.useState(false);
+
+  React.useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        await fetchTemplates();
+      } finally {
+        setIsInitialLoading(false);
+      }
+    };
+
+    loadTemplates();
+  }, [fetchTemplates]);
+
+  React.useEffect(() => {
+    fetchBranding();
+  }, [fetchBranding]);
+
+  const handleConfirmDelete = async () => {
+    if (!templateToDelete) return;
+
+    setIsDeleting(true);
+    try {
+      if (await deleteTemplate(templateToDelete.id)) {
+        setTemplateToDelete(null);
+      }
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Templates</h1>
+            <p className="text-muted-foreground">
+              Save your standard terms once and start new contracts from them.
+            </p>
+          </div>
+          <Button onClick={() => router.push('/templates/new')} leftIcon={<Plus className="w-4 h-4" />}>
+            New Template
+          </Button>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800">{error}</p>
+          </div>
+        )}
+
+        {isInitialLoading || (isLoading && templates.length === 0) ? (
+          <div className="flex justify-center py-12">
+            <LoadingState size="lg" message="Loading templates..." />
+          </div>
+        ) : templates.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center border border-dashed rounded-lg">
+            <FileText className="w-12 h-12 text-muted-foreground mb-4" />
+            <h2 className="text-xl font-semibold mb-2">No templates yet</h2>
+            <p className="text-muted-foreground mb-6">
+              Templates can use merge fields such as {'{{clientName}}'} and {'{{eventDate}}'}.
+            </p>
+            <Button onClick={() => router.push('/templates/new')} leftIcon={<Plus className="w-4 h-4" />}>
+              Create Your First Template
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {templates.map((template, index) => (
+              <motion.div
+                key={template.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className="bg-white border border-gray-200 rounded-lg p-5 flex flex-col gap-3"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <h3 className="font-semibold text-gray-900 truncate">{template.name}</h3>
+                    {template.description && (
+                      <p className="text-sm text-muted-foreground mt-1">{template.description}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => router.push(`/templates/${template.id}/edit`)}
+                      className="h-8 w-8 p-0"
+                      aria-label={`Edit ${template.name}`}
+                    >
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setTemplateToDelete(template)}
+                      className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                      aria-label={`Delete ${template.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                  {template.servicePackage && <span>{template.servicePackage}</span>}
+                  {template.amount !== undefined && <span>{formatCurrency(template.amount, formatContext, { minimumFractionDigits: 0 })}</span>}
+                  <span>Updated {formatDate(template.updatedAt, formatContext, SHORT_DATE)}</span>
+                </div>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Modal
+        isOpen={Boolean(templateToDelete)}
+        onClose={() => setTemplateToDelete(null)}
+        title="Delete Template"
+        size="sm"
+      >
+        <div className="space-y-6">
+          <p className="text-muted-foreground">
+            Delete &ldquo;{templateToDelete?.name}&rdquo;? Contracts already created from it are not affected.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Button
+              variant="outline"
+              onClick={() => setTemplateToDelete(null)}
+              disabled={isDeleting}
+              className="flex-1 order-2 sm:order-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleConfirmDelete}
+              loading={isDeleting}
+              leftIcon={!isDeleting ? <Trash2 className="w-4 h-4" /> : undefined}
+              className="flex-1 order-1 sm:order-2"
+            >
+              {isDeleting ? 'Deleting...' : 'Delete Template'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </MainLayout>
+  );
+}
+
+export default function TemplatesPage() {
+  return (
+    <AuthGuard>
+      <TemplatesContent />
+    </AuthGuard>
+  );
+}
\ No newline at end of file
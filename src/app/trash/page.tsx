@@ -0,0 +1,140 @@
+'use client';
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { AuthGuard } from '@/components/auth/auth-guard';
+import { MainLayout } from '@/components/layout/main-layout';
+import { Button } from '@/components/ui/button';
+import { LoadingState } from '@/components/ui/loading-state';
+import { ContractStatusIndicator } from '@/components/ui/status-indicator';
+import { useContractStore } from '@/stores/contract-store';
+import { useBrandingStore } from '@/stores/branding-store';
+import { formatCurrency, formatDate, getFormatContext, SHORT_DATE } from '@/lib/utils';
+import { getDeletedAt, getPurgeDate, getRestoredStatus } from '@/lib/trash';
+
+/**
+ * Trash page - deleted contracts that can be restored until they are permanently deleted
+ */
+function TrashContent() {
+  const { trash, fetchTrash, restoreContract, isLoading, error } = useContractStore();
+  const { branding, fetchBranding } = useBrandingStore();
+  const [isInitialLoading, setIsInitialLoading] = React.useState(true);
+  const [restoringId, setRestoringId] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const loadTrash = async () => {
+      try {
+        await fetchTrash();
+      } finally {
+        setIsInitialLoading(false);
+      }
+    };
+
+    loadTrash();
+  }, [fetchTrash]);
+
+  React.useEffect(() => {
+    fetchBranding();
+  }, [fetchBranding]);
+
+  const handleRestore = async (contractId: string) => {
+    setRestoringId(contractId);
+    try {
+      await restoreContract(contractId);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const contracts = trash?.contracts || [];
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Trash</h1>
+          <p className="text-muted-foreground">
+            {trash
+              ? `Deleted contracts are kept for ${trash.retentionDays} days before they are permanently deleted.`
+              : 'Deleted contracts are kept here until they are permanently deleted.'}
+          </p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800">{error}</p>
+          </div>
+        )}
+
+        {isInitialLoading || (isLoading && !trash) ? (
+          <div className="flex justify-center py-12">
+            <LoadingState size="lg" message="Loading trash..." />
+          </div>
+        ) : contracts.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center border border-dashed rounded-lg">
+            <Trash2 className="w-12 h-12 text-muted-foreground mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Trash is empty</h2>
+            <p className="text-muted-foreground">
+              Contracts you delete appear here and can be restored.
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {contracts.map((contract, index) => {
+              const formatContext = getFormatContext(contract, branding);
+
+              return (
+                <motion.div
+                  key={contract.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: index * 0.05 }}
+                  className="bg-white border border-gray-200 rounded-lg p-5 flex flex-col gap-3"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <h3 className="font-semibold text-gray-900 truncate">{contract.clientName}</h3>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {contract.servicePackage} &middot; {formatCurrency(contract.amount, formatContext)}
+                      </p>
+                    </div>
+                    <ContractStatusIndicator status={getRestoredStatus(contract)} size="sm" />
+                  </div>
+
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                    <span>Deleted {formatDate(getDeletedAt(contract), formatContext, SHORT_DATE)}</span>
+                    <span>
+                      Permanently deleted on {formatDate(getPurgeDate(contract, trash?.retentionDays || 0), formatContext, SHORT_DATE)}
+                    </span>
+                  </div>
+
+                  <div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(contract.id)}
+                      loading={restoringId === contract.id}
+                      disabled={restoringId !== null}
+                      leftIcon={restoringId !== contract.id ? <RotateCcw className="w-4 h-4" /> : undefined}
+                    >
+                      Restore
+                    </Button>
+                  </div>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
+
+export default function TrashPage() {
+  return (
+    <AuthGuard>
+      <TrashContent />
+    </AuthGuard>
+  );
+}
\ No newline at end of file
@@ -1,12 +1,13 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Sparkles, RefreshCw, AlertCircle, CheckCircle, Copy } from 'lucide-react';
+import { CurrencyCode, PaymentSchedule } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Modal } from '@/components/ui/modal';
 import { RichTextEditor } from '@/components/ui/rich-text-editor';
 import { generateAIContent, AIContentRequest, AIContentResponse } from '@/lib/ai-service';
 import { useAuthStore } from '@/stores/auth-store';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
 
 /**
  * Props for the AIAssistModal component
@@ -25,6 +26,12 @@ export interface AIAssistModalProps {
     eventVenue: string;
     servicePackage: string;
     amount: number;
+    /** Payment schedule entered on the form */
+    paymentSchedule?: PaymentSchedule;
+    /** Currency of the amount */
+    currency?: CurrencyCode;
+    /** Locale of the vendor, which amounts and dates are written in */
+    locale?: string;
   };
   /** Current contract content */
   currentContent?: string;
@@ -69,7 +76,10 @@ export const AIAssistModal: React.FC<AIAssistModalProps> = ({
         eventDate: contractData.eventDate,
         eventVenue: contractData.eventVenue,
         servicePackage: contractData.servicePackage,
-        amount: contractData.amount
+        amount: contractData.amount,
+        paymentSchedule: contractData.paymentSchedule,
+        currency: contractData.currency,
+        locale: contractData.locale
       };
 
       const response: AIContentResponse = await generateAIContent(request);
@@ -177,11 +187,11 @@ export const AIAssistModal: React.FC<AIAssistModalProps> = ({
               <h3 className="font-medium text-gray-900">Contract Details</h3>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm text-gray-600">
                 <div><span className="font-medium">Client:</span> {contractData.clientName}</div>
-                <div><span className="font-medium">Date:</span> {new Date(contractData.eventDate).toLocaleDateString()}</div>
+                <div><span className="font-medium">Date:</span> {formatDate(contractData.eventDate, contractData)}</div>
                 <div><span className="font-medium">Venue:</span> {contractData.eventVenue}</div>
                 <div><span className="font-medium">Package:</span> {contractData.servicePackage}</div>
                 <div className="sm:col-span-2">
-                  <span className="font-medium">Amount:</span> {contractData.amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })}
+                  <span className="font-medium">Amount:</span> {formatCurrency(contractData.amount, contractData)}
                 </div>
               </div>
             </div>
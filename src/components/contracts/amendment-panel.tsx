@@ -0,0 +1,521 @@
+import React from 'react';
+import { Check, Copy, FilePlus2, Link as LinkIcon, Pencil, PenTool, Trash2 } from 'lucide-react';
+import { Contract, ContractAmendment, ContractSigner, SignatureData, VendorBranding } from '@/types';
+import { useAmendmentStore } from '@/stores/amendment-store';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Modal } from '@/components/ui/modal';
+import { LoadingState } from '@/components/ui/loading-state';
+import { RichTextEditor } from '@/components/ui/rich-text-editor';
+import { ContractStatusIndicator } from '@/components/ui/status-indicator';
+import { SignatureModal } from './signature-modal';
+import { AMENDMENT_SETTINGS } from '@/lib/constants';
+import { isAmendable } from '@/lib/contract-lifecycle';
+import {
+  formatAmountDelta,
+  getEffectiveAmount,
+  getExecutedAmendments,
+  getOutstandingAmendmentSigners,
+  isAmendmentEditable
+} from '@/lib/amendments';
+import { getContractSigners } from '@/lib/signers';
+import { AmendmentValidationResult, validateAmendmentData } from '@/lib/validation';
+import { cn, formatCurrency, formatDate, getFormatContext } from '@/lib/utils';
+
+/**
+ * Props for the AmendmentPanel component
+ */
+export interface AmendmentPanelProps {
+  /** Signed contract whose amendments are shown */
+  contract: Contract;
+  /** Vendor settings whose locale amounts and dates are shown in */
+  branding?: VendorBranding | null;
+  /** Called with the amendments whenever they are loaded or changed */
+  onAmendmentsChange?: (amendments: ContractAmendment[]) => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Amendment details as entered on the form
+ */
+interface AmendmentFormData {
+  title: string;
+  amountDelta: string;
+  content: string;
+}
+
+/**
+ * Signing link generated for one client signer of an amendment
+ */
+interface SignerShareLink {
+  /** Client who signs through the link */
+  signer: ContractSigner;
+  /** Public signing URL */
+  url: string;
+  /** ISO timestamp when the link expires */
+  expiresAt: string;
+}
+
+const EMPTY_FORM: AmendmentFormData = { title: '', amountDelta: '', content: '' };
+
+/**
+ * Amendments of a signed contract
+ * Shows the base agreement followed by every executed amendment in order, with the effective total,
+ * and lets the vendor draft, sign and send out new amendments
+ */
+export const AmendmentPanel: React.FC<AmendmentPanelProps> = ({
+  contract,
+  branding,
+  onAmendmentsChange,
+  className
+}) => {
+  const {
+    fetchAmendments,
+    createAmendment,
+    updateAmendment,
+    deleteAmendment,
+    signAmendment,
+    createAmendmentShareLink,
+    isLoading: isSaving,
+    error
+  } = useAmendmentStore();
+  const formatContext = getFormatContext(contract, branding);
+  const [amendments, setAmendments] = React.useState<ContractAmendment[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  // Amendment being edited: null when the form is closed, 'new' for a new draft
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [formData, setFormData] = React.useState<AmendmentFormData>(EMPTY_FORM);
+  const [errors, setErrors] = React.useState<AmendmentValidationResult['errors']>({});
+  const [pendingDelete, setPendingDelete] = React.useState<ContractAmendment | null>(null);
+  const [signing, setSigning] = React.useState<{ amendment: ContractAmendment; viewedAt: string } | null>(null);
+  const [shareLinks, setShareLinks] = React.useState<{ amendmentId: string; links: SignerShareLink[] } | null>(null);
+  const [generatingLinksFor, setGeneratingLinksFor] = React.useState<string | null>(null);
+  const [copiedSignerId, setCopiedSignerId] = React.useState<string | null>(null);
+
+  /**
+   * Reloads the amendments of the contract
+   */
+  const loadAmendments = React.useCallback(async () => {
+    setAmendments(await fetchAmendments(contract.id));
+  }, [contract.id, fetchAmendments]);
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    const loadInitial = async () => {
+      setIsLoading(true);
+      const result = await fetchAmendments(contract.id);
+      if (cancelled) return;
+
+      setAmendments(result);
+      setIsLoading(false);
+    };
+
+    loadInitial();
+    return () => {
+      cancelled = true;
+    };
+  }, [contract.id, contract.updatedAt, fetchAmendments]);
+
+  React.useEffect(() => {
+    onAmendmentsChange?.(amendments);
+  }, [amendments, onAmendmentsChange]);
+
+  const executedAmendments = getExecutedAmendments(amendments);
+  const pendingAmendments = amendments.filter(amendment => amendment.status !== 'signed');
+  const effectiveAmount = getEffectiveAmount(contract, amendments);
+  const canAmend = isAmendable(contract.status);
+  // The base agreement took effect with the last of its signatures
+  const baseExecutedAt = getContractSigners(contract)
+    .map(signer => signer.signature?.timestamp || '')
+    .reduce((latest, timestamp) => timestamp > latest ? timestamp : latest, '');
+
+  /**
+   * Opens the form for a new draft, or for an existing one
+   */
+  const openForm = (amendment?: ContractAmendment) => {
+    setEditingId(amendment ? amendment.id : 'new');
+    setFormData(amendment
+      ? { title: amendment.title, amountDelta: amendment.amountDelta.toFixed(2), content: amendment.content }
+      : EMPTY_FORM);
+    setErrors({});
+  };
+
+  /**
+   * Handles input changes
+   */
+  const handleInputChange = (field: keyof AmendmentFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+
+    // Clear error when user starts typing
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  /**
+   * Saves the amendment entered on the form as a draft
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId) return;
+
+    const amendmentData = {
+      title: formData.title,
+      content: formData.content,
+      amountDelta: formData.amountDelta.trim() === '' ? 0 : parseFloat(formData.amountDelta)
+    };
+
+    const validation = validateAmendmentData(amendmentData, effectiveAmount, formatContext);
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    const saved = editingId === 'new'
+      ? await createAmendment(contract.id, amendmentData)
+      : await updateAmendment(contract.id, editingId, amendmentData);
+
+    if (saved) {
+      setEditingId(null);
+      await loadAmendments();
+    }
+  };
+
+  /**
+   * Deletes the draft awaiting confirmation
+   */
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+
+    const deleted = await deleteAmendment(contract.id, pendingDelete.id);
+    setPendingDelete(null);
+    if (deleted) {
+      await loadAmendments();
+    }
+  };
+
+  /**
+   * Applies the vendor's signature to the amendment being signed
+   */
+  const handleSignatureConfirm = async (signature: SignatureData, consentedAt: string) => {
+    if (!signing) return;
+
+    const signed = await signAmendment(contract.id, signing.amendment.id, signature, {
+      viewedAt: signing.viewedAt,
+      consentedAt
+    });
+    setSigning(null);
+    if (signed) {
+      await loadAmendments();
+    }
+  };
+
+  /**
+   * Generates a signing link for each client who has not signed an amendment yet
+   */
+  const handleGenerateLinks = async (amendment: ContractAmendment) => {
+    const clients = getOutstandingAmendmentSigners(amendment).filter(signer => signer.role === 'client');
+    setShareLinks(null);
+    setCopiedSignerId(null);
+    setGeneratingLinksFor(amendment.id);
+    try {
+      const links: SignerShareLink[] = [];
+      for (let i = 0; i < clients.length; i++) {
+        const link = await createAmendmentShareLink(contract.id, amendment.id, clients[i].id);
+        if (link) {
+          links.push({ signer: clients[i], ...link });
+        }
+      }
+      setShareLinks({ amendmentId: amendment.id, links });
+      // Sending a draft for signature moves it to `sent`
+      await loadAmendments();
+    } finally {
+      setGeneratingLinksFor(null);
+    }
+  };
+
+  /**
+   * Copies a signing link to the clipboard
+   */
+  const handleCopy = async (shareLink: SignerShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareLink.url);
+      setCopiedSignerId(shareLink.signer.id);
+    } catch (err) {
+      console.error('Failed to copy signing link:', err);
+    }
+  };
+
+  /**
+   * Renders the heading, amount change and text of an amendment
+   */
+  const renderAmendment = (amendment: ContractAmendment) => (
+    <div className="space-y-2">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="font-medium text-gray-900">
+            Amendment {amendment.number}: {amendment.title}
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {amendment.executedAt
+              ? `Executed ${formatDate(amendment.executedAt, formatContext)}`
+              : `Drafted ${formatDate(amendment.createdAt, formatContext)}`}
+            {' · '}
+            {formatAmountDelta(amendment.amountDelta, formatContext)}
+          </p>
+        </div>
+        <ContractStatusIndicator status={amendment.status} size="sm" />
+      </div>
+      <div
+        className="prose prose-sm max-w-none text-gray-900"
+        dangerouslySetInnerHTML={{ __html: amendment.content }}
+      />
+    </div>
+  );
+
+  return (
+    <div className={cn('bg-white border border-gray-200 rounded-lg p-6 space-y-6', className)}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <FilePlus2 className="w-5 h-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold text-gray-900">Amendments</h2>
+        </div>
+        {canAmend && editingId === null && (
+          <Button variant="outline" size="sm" onClick={() => openForm()} leftIcon={<FilePlus2 className="w-4 h-4" />}>
+            New Amendment
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingState message="Loading amendments..." />
+        </div>
+      ) : (
+        <>
+          {/* Base agreement and executed amendments, in order */}
+          <table className="w-full text-sm">
+            <tbody className="divide-y">
+              <tr>
+                <td className="py-2 text-gray-900">Base agreement</td>
+                <td className="py-2 text-gray-700">{baseExecutedAt && formatDate(baseExecutedAt, formatContext)}</td>
+                <td className="py-2 text-right text-gray-900">{formatCurrency(contract.amount, formatContext)}</td>
+              </tr>
+              {executedAmendments.map(amendment => (
+                <tr key={amendment.id}>
+                  <td className="py-2 text-gray-900">Amendment {amendment.number}: {amendment.title}</td>
+                  <td className="py-2 text-gray-700">{amendment.executedAt && formatDate(amendment.executedAt, formatContext)}</td>
+                  <td className="py-2 text-right text-gray-900">{formatAmountDelta(amendment.amountDelta, formatContext)}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="py-2 text-gray-900" colSpan={2}>Effective Total</td>
+                <td className="py-2 text-right text-gray-900">{formatCurrency(effectiveAmount, formatContext)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          {executedAmendments.length === 0 && pendingAmendments.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No amendments yet. Amend the contract to change its terms or amount after it was signed.
+            </p>
+          )}
+
+          {executedAmendments.length > 0 && (
+            <div className="space-y-4">
+              {executedAmendments.map(amendment => (
+                <div key={amendment.id} className="border rounded-lg p-4">
+                  {renderAmendment(amendment)}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Amendments still being drafted or signed */}
+          {pendingAmendments.length > 0 && (
+            <div className="space-y-4">
+              <h3 className="text-sm font-medium text-gray-900">Awaiting Signature</h3>
+              {pendingAmendments.map(amendment => {
+                const outstanding = getOutstandingAmendmentSigners(amendment);
+                const vendorSigner = outstanding.find(signer => signer.role === 'vendor');
+                const hasOutstandingClients = outstanding.some(signer => signer.role === 'client');
+
+                return (
+                  <div key={amendment.id} className="border rounded-lg p-4 space-y-4">
+                    {renderAmendment(amendment)}
+
+                    <ul className="text-sm text-gray-700 space-y-1">
+                      {amendment.signers.map(signer => (
+                        <li key={signer.id}>
+                          {signer.name} ({signer.role}) &middot;{' '}
+                          {signer.signature ? `Signed ${formatDate(signer.signature.timestamp, formatContext)}` : 'Not signed'}
+                        </li>
+                      ))}
+                    </ul>
+
+                    {canAmend && (
+                      <div className="flex flex-wrap gap-2">
+                        {isAmendmentEditable(amendment) && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openForm(amendment)}
+                              leftIcon={<Pencil className="w-4 h-4" />}
+                            >
+                              Edit
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setPendingDelete(amendment)}
+                              leftIcon={<Trash2 className="w-4 h-4" />}
+                            >
+                              Delete
+                            </Button>
+                          </>
+                        )}
+                        {vendorSigner && (
+                          <Button
+                            size="sm"
+                            onClick={() => setSigning({ amendment, viewedAt: new Date().toISOString() })}
+                            leftIcon={<PenTool className="w-4 h-4" />}
+                          >
+                            Sign
+                          </Button>
+                        )}
+                        {hasOutstandingClients && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleGenerateLinks(amendment)}
+                            loading={generatingLinksFor === amendment.id}
+                            disabled={generatingLinksFor !== null}
+                            leftIcon={generatingLinksFor !== amendment.id ? <LinkIcon className="w-4 h-4" /> : undefined}
+                          >
+                            Get Client Signing Links
+                          </Button>
+                        )}
+                      </div>
+                    )}
+
+                    {shareLinks?.amendmentId === amendment.id && shareLinks.links.map(shareLink => (
+                      <div key={shareLink.signer.id} className="space-y-1">
+                        <div className="flex gap-2 items-end">
+                          <div className="flex-1">
+                            <Input
+                              label={`${shareLink.signer.name} (${shareLink.signer.email})`}
+                              value={shareLink.url}
+                              readOnly
+                              leftIcon={<LinkIcon className="w-4 h-4" />}
+                              onFocus={(e) => e.target.select()}
+                            />
+                          </div>
+                          <Button
+                            variant="outline"
+                            onClick={() => handleCopy(shareLink)}
+                            leftIcon={copiedSignerId === shareLink.signer.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                          >
+                            {copiedSignerId === shareLink.signer.id ? 'Copied' : 'Copy'}
+                          </Button>
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          Expires on {formatDate(shareLink.expiresAt, formatContext)} and can only be used once.
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Draft form */}
+          {editingId !== null && (
+            <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+              <h3 className="text-sm font-medium text-gray-900">
+                {editingId === 'new' ? 'New Amendment' : 'Edit Amendment'}
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-2">
+                  <Input
+                    label="Title"
+                    value={formData.title}
+                    onChange={(e) => handleInputChange('title', e.target.value)}
+                    error={errors.title}
+                    maxLength={AMENDMENT_SETTINGS.MAX_TITLE_LENGTH}
+                    placeholder="e.g. Additional hour of coverage"
+                    required
+                  />
+                </div>
+                <Input
+                  label="Amount Change"
+                  type="number"
+                  step="0.01"
+                  value={formData.amountDelta}
+                  onChange={(e) => handleInputChange('amountDelta', e.target.value)}
+                  error={errors.amountDelta}
+                  placeholder="Negative to reduce the total"
+                />
+              </div>
+              <RichTextEditor
+                content={formData.content}
+                onChange={(content) => handleInputChange('content', content)}
+                placeholder="Describe what the amendment changes..."
+                error={errors.content}
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setEditingId(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" loading={isSaving}>
+                  Save Draft
+                </Button>
+              </div>
+            </form>
+          )}
+        </>
+      )}
+
+      <SignatureModal
+        isOpen={signing !== null}
+        onClose={() => setSigning(null)}
+        onConfirm={handleSignatureConfirm}
+        loading={isSaving}
+      />
+
+      {/* Delete confirmation */}
+      <Modal
+        isOpen={pendingDelete !== null}
+        onClose={() => setPendingDelete(null)}
+        title="Delete Amendment"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-gray-700">
+            Delete the draft of amendment {pendingDelete?.number}? It was never sent, so no one has signed it.
+          </p>
+          <div className="flex justify-end gap-2 pt-4 border-t border-gray-200">
+            <Button variant="outline" onClick={() => setPendingDelete(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleConfirmDelete}
+              loading={isSaving}
+              leftIcon={<Trash2 className="w-4 h-4" />}
+            >
+              Delete
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
\ No newline at end of file
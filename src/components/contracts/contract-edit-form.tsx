@@ -1,14 +1,29 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { Save, X, PenTool } from 'lucide-react';
-import { Contract, SignatureData } from '@/types';
+import { Contract, CurrencyCode, PaymentScheduleDraft, SignatureData, SignerDraft, SigningConsent } from '@/types';
 import { useContractStore } from '@/stores/contract-store';
 import { useAuthStore } from '@/stores/auth-store';
+import { useBrandingStore } from '@/stores/branding-store';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
 import { RichTextEditor } from '@/components/ui/rich-text-editor';
 import { AIAssistModal } from './ai-assist-modal';
+import { SignerListEditor } from './signer-list-editor';
+import { PaymentScheduleEditor } from './payment-schedule-editor';
+import { UnresolvedPlaceholderNotice } from './unresolved-placeholder-notice';
 import { ContractSigningWorkflow } from './contract-signing-workflow';
+import { renderMergeFields } from '@/lib/merge-fields';
+import { getClientSignerDrafts } from '@/lib/signers';
+import {
+  buildDefaultPaymentScheduleDraft,
+  fromPaymentScheduleDraft,
+  toPaymentScheduleDraft
+} from '@/lib/payment-schedule';
+import { validatePaymentSchedule, validateSigners } from '@/lib/validation';
+import { getClausesForVendorType } from '@/lib/clause-library';
+import { CURRENCIES, DEFAULT_CURRENCY } from '@/lib/constants';
 import { cn } from '@/lib/utils';
 
 /**
@@ -20,9 +35,12 @@ interface ContractFormData {
   eventVenue: string;
   servicePackage: string;
   amount: string;
+  currency: string;
   content: string;
 }
 
+const currencyOptions = CURRENCIES.map(currency => ({ value: currency, label: currency }));
+
 /**
  * Props for the ContractEditForm component
  */
@@ -50,8 +68,11 @@ export const ContractEditForm: React.FC<ContractEditFormProps> = ({
   onSigningComplete,
   className
 }) => {
-  const { updateContract, signContract, isLoading, isContractLoading, error } = useContractStore();
+  const { updateContract, fetchContract, signContract, isLoading, isContractLoading, error } = useContractStore();
   const { user } = useAuthStore();
+  // Library clauses offered in the editor's insert menu
+  const clauses = user ? getClausesForVendorType(user.vendorType) : [];
+  const { branding } = useBrandingStore();
   
   const [formData, setFormData] = React.useState<ContractFormData>({
     clientName: contract.clientName,
@@ -59,14 +80,30 @@ export const ContractEditForm: React.FC<ContractEditFormProps> = ({
     eventVenue: contract.eventVenue,
     servicePackage: contract.servicePackage,
     amount: contract.amount.toString(),
+    currency: contract.currency || DEFAULT_CURRENCY,
     content: contract.content
   });
 
   const [errors, setErrors] = React.useState<Partial<ContractFormData>>({});
+  const [signers, setSigners] = React.useState<SignerDraft[]>(() => getClientSignerDrafts(contract));
+  const [signersError, setSignersError] = React.useState<string | undefined>();
+  const [paymentSchedule, setPaymentSchedule] = React.useState<PaymentScheduleDraft>(() => contract.paymentSchedule
+    ? toPaymentScheduleDraft(contract.paymentSchedule)
+    : buildDefaultPaymentScheduleDraft(contract.amount.toString(), contract.eventDate));
+  const [paymentScheduleError, setPaymentScheduleError] = React.useState<string | undefined>();
+  // Until it is edited by hand, the schedule follows the amount and event date
+  const [isScheduleEdited, setIsScheduleEdited] = React.useState(Boolean(contract.paymentSchedule));
   const [isSubmitting, setIsSubmitting] = React.useState(false);
   const [showAIModal, setShowAIModal] = React.useState(false);
   const [showSigningWorkflow, setShowSigningWorkflow] = React.useState(false);
   const [updatedContract, setUpdatedContract] = React.useState<Contract>(contract);
+  const formatContext = { locale: branding?.locale, currency: formData.currency as CurrencyCode };
+
+  React.useEffect(() => {
+    if (!isScheduleEdited) {
+      setPaymentSchedule(buildDefaultPaymentScheduleDraft(formData.amount, formData.eventDate));
+    }
+  }, [formData.amount, formData.eventDate, isScheduleEdited]);
 
   /**
    * Validates the form data
@@ -111,8 +148,17 @@ export const ContractEditForm: React.FC<ContractEditFormProps> = ({
       newErrors.content = 'Contract content is required';
     }
 
+    const signersResult = validateSigners(signers);
+    setSignersError(signersResult.error);
+
+    // The schedule is checked against the amount, so only once the amount itself is valid
+    const scheduleError = newErrors.amount
+      ? undefined
+      : validatePaymentSchedule(fromPaymentScheduleDraft(paymentSchedule), parseFloat(formData.amount), formatContext).error;
+    setPaymentScheduleError(scheduleError);
+
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return Object.keys(newErrors).length === 0 && signersResult.isValid && !scheduleError;
   };
 
   /**
@@ -134,10 +180,12 @@ export const ContractEditForm: React.FC<ContractEditFormProps> = ({
         eventVenue: formData.eventVenue.trim(),
         servicePackage: formData.servicePackage.trim(),
         amount: parseFloat(formData.amount),
+        currency: formData.currency as CurrencyCode,
+        paymentSchedule: fromPaymentScheduleDraft(paymentSchedule),
         content: formData.content
       };
 
-      const success = await updateContract(contract.id, contractData);
+      const success = await updateContract(contract.id, { ...contractData, signers });
       if (success) {
         // Update the local contract state with new data
         setUpdatedContract({
@@ -160,6 +208,14 @@ export const ContractEditForm: React.FC<ContractEditFormProps> = ({
    */
   const handleInputChange = (field: keyof ContractFormData, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+
+    // Keep the first signer in step with the client name until it is edited separately
+    if (field === 'clientName') {
+      setSigners(prev => prev[0]?.name === formData.clientName
+        ? [{ ...prev[0], name: value }, ...prev.slice(1)]
+        : prev
+      );
+    }
     
     // Clear error when user starts typing
     if (errors[field]) {
@@ -211,17 +267,16 @@ export const ContractEditForm: React.FC<ContractEditFormProps> = ({
         eventVenue: formData.eventVenue.trim(),
         servicePackage: formData.servicePackage.trim(),
         amount: parseFloat(formData.amount),
+        currency: formData.currency as CurrencyCode,
+        paymentSchedule: fromPaymentScheduleDraft(paymentSchedule),
         content: formData.content
       };
 
-      const success = await updateContract(contract.id, contractData);
+      const success = await updateContract(contract.id, { ...contractData, signers });
       if (success) {
-        // Update the local contract state with new data
-        const newContract = {
-          ...contract,
-          ...contractData
-        };
-        setUpdatedContract(newContract);
+        // Use the saved contract so the workflow shows the server-built signer list
+        const newContract = await fetchContract(contract.id);
+        setUpdatedContract(newContract || { ...contract, ...contractData });
         setShowSigningWorkflow(true);
       } else {
         throw new Error('Failed to update contract');
@@ -236,8 +291,8 @@ export const ContractEditForm: React.FC<ContractEditFormProps> = ({
   /**
    * Handles signature confirmation
    */
-  const handleSignatureConfirm = async (signature: SignatureData) => {
-    await signContract(contract.id, signature);
+  const handleSignatureConfirm = async (signature: SignatureData, consent: SigningConsent) => {
+    await signContract(contract.id, signature, consent);
     setShowSigningWorkflow(false);
     onSigningComplete?.();
   };
@@ -348,22 +403,38 @@ export const ContractEditForm: React.FC<ContractEditFormProps> = ({
             />
           </div>
 
+          {/* Signing Parties */}
+          <div className="space-y-4">
+            <h2 className="text-lg font-semibold text-foreground">Signing Parties</h2>
+            <SignerListEditor
+              signers={signers}
+              onChange={(updated) => {
+                setSigners(updated);
+                setSignersError(undefined);
+              }}
+              vendorName={user?.name}
+              error={signersError}
+            />
+          </div>
+
           {/* Service Details */}
           <div className="space-y-4">
             <h2 className="text-lg font-semibold text-foreground">Service Details</h2>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <Input
-                label="Service Package"
-                value={formData.servicePackage}
-                onChange={(e) => handleInputChange('servicePackage', e.target.value)}
-                error={errors.servicePackage}
-                placeholder="Describe the service package"
-                required
-              />
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="md:col-span-2">
+                <Input
+                  label="Service Package"
+                  value={formData.servicePackage}
+                  onChange={(e) => handleInputChange('servicePackage', e.target.value)}
+                  error={errors.servicePackage}
+                  placeholder="Describe the service package"
+                  required
+                />
+              </div>
 
               <Input
-                label="Amount ($)"
+                label="Amount"
                 type="number"
                 step="0.01"
                 min="0"
@@ -373,9 +444,38 @@ export const ContractEditForm: React.FC<ContractEditFormProps> = ({
                 placeholder="0.00"
                 required
               />
+
+              <Select
+                label="Currency"
+                options={currencyOptions}
+                value={formData.currency}
+                onChange={(value) => handleInputChange('currency', value)}
+                error={errors.currency}
+              />
             </div>
           </div>
 
+          {/* Payment Schedule */}
+          <div className="space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">Payment Schedule</h2>
+            <PaymentScheduleEditor
+              schedule={paymentSchedule}
+              onChange={(updated) => {
+                setPaymentSchedule(updated);
+                setIsScheduleEdited(true);
+                setPaymentScheduleError(undefined);
+              }}
+              amount={parseFloat(formData.amount)}
+              formatContext={formatContext}
+              onReset={() => {
+                setIsScheduleEdited(false);
+                setPaymentSchedule(buildDefaultPaymentScheduleDraft(formData.amount, formData.eventDate));
+                setPaymentScheduleError(undefined);
+              }}
+              error={paymentScheduleError}
+            />
+          </div>
+
           {/* Contract Content */}
           <div className="space-y-4">
             <div className="flex items-center justify-between">
@@ -394,9 +494,19 @@ export const ContractEditForm: React.FC<ContractEditFormProps> = ({
             <RichTextEditor
               content={formData.content}
               onChange={(content) => handleInputChange('content', content)}
+              clauses={clauses}
               placeholder="Enter contract terms and conditions..."
               error={errors.content}
             />
+
+            {/* Placeholders that saving cannot fill in from the details above */}
+            <UnresolvedPlaceholderNotice
+              placeholders={renderMergeFields(formData.content, {
+                ...formData,
+                ...formatContext,
+                vendorName: user?.name
+              }).unresolved}
+            />
           </div>
         </div>
 
@@ -410,7 +520,9 @@ export const ContractEditForm: React.FC<ContractEditFormProps> = ({
             eventDate: formData.eventDate,
             eventVenue: formData.eventVenue,
             servicePackage: formData.servicePackage,
-            amount: parseFloat(formData.amount) || 0
+            amount: parseFloat(formData.amount) || 0,
+            paymentSchedule: fromPaymentScheduleDraft(paymentSchedule),
+            ...formatContext
           }}
           currentContent={formData.content}
         />
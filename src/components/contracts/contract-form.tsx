@@ -1,14 +1,31 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { Save, X, Sparkles } from 'lucide-react';
-import { Contract } from '@/types';
+import { Contract, ContractTemplate, CurrencyCode, PaymentScheduleDraft, SignerDraft } from '@/types';
 import { useContractStore } from '@/stores/contract-store';
 import { useAuthStore } from '@/stores/auth-store';
+import { useTemplateStore } from '@/stores/template-store';
+import { useBrandingStore } from '@/stores/branding-store';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
 import { RichTextEditor } from '@/components/ui/rich-text-editor';
 import { AIAssistModal } from './ai-assist-modal';
-import { cn } from '@/lib/utils';
+import { SignerListEditor } from './signer-list-editor';
+import { PaymentScheduleEditor } from './payment-schedule-editor';
+import { UnresolvedPlaceholderNotice } from './unresolved-placeholder-notice';
+import { TemplatePicker } from '@/components/templates';
+import { getClientSignerDrafts } from '@/lib/signers';
+import { renderMergeFields } from '@/lib/merge-fields';
+import {
+  buildDefaultPaymentScheduleDraft,
+  fromPaymentScheduleDraft,
+  toPaymentScheduleDraft
+} from '@/lib/payment-schedule';
+import { validatePaymentSchedule, validateSigners } from '@/lib/validation';
+import { getClausesForVendorType } from '@/lib/clause-library';
+import { CURRENCIES } from '@/lib/constants';
+import { cn, getLocaleCurrency } from '@/lib/utils';
 
 /**
  * Form data interface for contract creation/editing
@@ -19,9 +36,12 @@ interface ContractFormData {
   eventVenue: string;
   servicePackage: string;
   amount: string;
+  currency: string;
   content: string;
 }
 
+const currencyOptions = CURRENCIES.map(currency => ({ value: currency, label: currency }));
+
 /**
  * Props for the ContractForm component
  */
@@ -48,6 +68,11 @@ export const ContractForm: React.FC<ContractFormProps> = ({
 }) => {
   const { createContract, updateContract, isLoading, error } = useContractStore();
   const { user } = useAuthStore();
+  // Library clauses offered in the editor's insert menu
+  const clauses = user ? getClausesForVendorType(user.vendorType) : [];
+  const { templates, fetchTemplates } = useTemplateStore();
+  const { branding } = useBrandingStore();
+  const locale = branding?.locale;
   
   const [formData, setFormData] = React.useState<ContractFormData>({
     clientName: contract?.clientName || '',
@@ -55,14 +80,45 @@ export const ContractForm: React.FC<ContractFormProps> = ({
     eventVenue: contract?.eventVenue || '',
     servicePackage: contract?.servicePackage || '',
     amount: contract?.amount?.toString() || '',
+    currency: contract?.currency || getLocaleCurrency(locale),
     content: contract?.content || ''
   });
+  // Until it is chosen by hand, the currency of a new contract follows the vendor's locale
+  const [isCurrencyChosen, setIsCurrencyChosen] = React.useState(Boolean(contract));
 
   const [errors, setErrors] = React.useState<Partial<ContractFormData>>({});
+  const [signers, setSigners] = React.useState<SignerDraft[]>(() => getClientSignerDrafts(contract));
+  const [signersError, setSignersError] = React.useState<string | undefined>();
+  const [paymentSchedule, setPaymentSchedule] = React.useState<PaymentScheduleDraft>(() => contract?.paymentSchedule
+    ? toPaymentScheduleDraft(contract.paymentSchedule)
+    : buildDefaultPaymentScheduleDraft(contract?.amount?.toString() || '', contract?.eventDate || ''));
+  const [paymentScheduleError, setPaymentScheduleError] = React.useState<string | undefined>();
+  // Until it is edited by hand, the schedule follows the amount and event date
+  const [isScheduleEdited, setIsScheduleEdited] = React.useState(Boolean(contract?.paymentSchedule));
   const [isSubmitting, setIsSubmitting] = React.useState(false);
   const [showAIModal, setShowAIModal] = React.useState(false);
+  const [selectedTemplateId, setSelectedTemplateId] = React.useState('');
 
   const isEditing = Boolean(contract);
+  const formatContext = { locale, currency: formData.currency as CurrencyCode };
+
+  React.useEffect(() => {
+    if (!isEditing) {
+      fetchTemplates();
+    }
+  }, [isEditing, fetchTemplates]);
+
+  React.useEffect(() => {
+    if (!isCurrencyChosen) {
+      setFormData(prev => ({ ...prev, currency: getLocaleCurrency(locale) }));
+    }
+  }, [locale, isCurrencyChosen]);
+
+  React.useEffect(() => {
+    if (!isScheduleEdited) {
+      setPaymentSchedule(buildDefaultPaymentScheduleDraft(formData.amount, formData.eventDate));
+    }
+  }, [formData.amount, formData.eventDate, isScheduleEdited]);
 
   /**
    * Validates the form data
@@ -107,8 +163,17 @@ export const ContractForm: React.FC<ContractFormProps> = ({
       newErrors.content = 'Contract content is required';
     }
 
+    const signersResult = validateSigners(signers);
+    setSignersError(signersResult.error);
+
+    // The schedule is checked against the amount, so only once the amount itself is valid
+    const scheduleError = newErrors.amount
+      ? undefined
+      : validatePaymentSchedule(fromPaymentScheduleDraft(paymentSchedule), parseFloat(formData.amount), formatContext).error;
+    setPaymentScheduleError(scheduleError);
+
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return Object.keys(newErrors).length === 0 && signersResult.isValid && !scheduleError;
   };
 
   /**
@@ -130,7 +195,10 @@ export const ContractForm: React.FC<ContractFormProps> = ({
         eventVenue: formData.eventVenue.trim(),
         servicePackage: formData.servicePackage.trim(),
         amount: parseFloat(formData.amount),
-        content: formData.content
+        currency: formData.currency as CurrencyCode,
+        content: formData.content,
+        signers,
+        paymentSchedule: fromPaymentScheduleDraft(paymentSchedule)
       };
 
       let contractId: string;
@@ -164,6 +232,18 @@ export const ContractForm: React.FC<ContractFormProps> = ({
    */
   const handleInputChange = (field: keyof ContractFormData, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+
+    if (field === 'currency') {
+      setIsCurrencyChosen(true);
+    }
+
+    // Keep the first signer in step with the client name until it is edited separately
+    if (field === 'clientName') {
+      setSigners(prev => prev[0]?.name === formData.clientName
+        ? [{ ...prev[0], name: value }, ...prev.slice(1)]
+        : prev
+      );
+    }
     
     // Clear error when user starts typing
     if (errors[field]) {
@@ -171,6 +251,31 @@ export const ContractForm: React.FC<ContractFormProps> = ({
     }
   };
 
+  /**
+   * Starts the contract from a template, filling in merge fields from the details entered so far
+   * The template's service package and amount are used only where none has been entered.
+   */
+  const handleTemplateSelect = (template: ContractTemplate | null) => {
+    setSelectedTemplateId(template?.id || '');
+    if (!template) return;
+
+    const updatedData: ContractFormData = {
+      ...formData,
+      servicePackage: formData.servicePackage.trim() ? formData.servicePackage : template.servicePackage,
+      amount: formData.amount.trim() || template.amount === undefined ? formData.amount : template.amount.toString()
+    };
+    updatedData.content = renderMergeFields(template.content, {
+      ...updatedData,
+      currency: updatedData.currency as CurrencyCode,
+      locale,
+      paymentSchedule: isScheduleEdited ? fromPaymentScheduleDraft(paymentSchedule) : undefined,
+      vendorName: user?.name
+    }).content;
+
+    setFormData(updatedData);
+    setErrors(prev => ({ ...prev, servicePackage: undefined, amount: undefined, content: undefined }));
+  };
+
   /**
    * Handles AI assistance modal opening
    */
@@ -278,22 +383,38 @@ export const ContractForm: React.FC<ContractFormProps> = ({
             />
           </div>
 
+          {/* Signing Parties */}
+          <div className="space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">Signing Parties</h2>
+            <SignerListEditor
+              signers={signers}
+              onChange={(updated) => {
+                setSigners(updated);
+                setSignersError(undefined);
+              }}
+              vendorName={user?.name}
+              error={signersError}
+            />
+          </div>
+
           {/* Service Information */}
           <div className="space-y-4">
             <h2 className="text-lg font-semibold text-gray-900">Service Details</h2>
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <Input
-                label="Service Package"
-                value={formData.servicePackage}
-                onChange={(e) => handleInputChange('servicePackage', e.target.value)}
-                error={errors.servicePackage}
-                placeholder="e.g., Premium Wedding Photography"
-                required
-              />
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="md:col-span-2">
+                <Input
+                  label="Service Package"
+                  value={formData.servicePackage}
+                  onChange={(e) => handleInputChange('servicePackage', e.target.value)}
+                  error={errors.servicePackage}
+                  placeholder="e.g., Premium Wedding Photography"
+                  required
+                />
+              </div>
               
               <Input
-                label="Amount ($)"
+                label="Amount"
                 type="number"
                 min="0"
                 step="0.01"
@@ -303,9 +424,38 @@ export const ContractForm: React.FC<ContractFormProps> = ({
                 placeholder="0.00"
                 required
               />
+
+              <Select
+                label="Currency"
+                options={currencyOptions}
+                value={formData.currency}
+                onChange={(value) => handleInputChange('currency', value)}
+                error={errors.currency}
+              />
             </div>
           </div>
 
+          {/* Payment Schedule */}
+          <div className="space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">Payment Schedule</h2>
+            <PaymentScheduleEditor
+              schedule={paymentSchedule}
+              onChange={(updated) => {
+                setPaymentSchedule(updated);
+                setIsScheduleEdited(true);
+                setPaymentScheduleError(undefined);
+              }}
+              amount={parseFloat(formData.amount)}
+              formatContext={formatContext}
+              onReset={() => {
+                setIsScheduleEdited(false);
+                setPaymentSchedule(buildDefaultPaymentScheduleDraft(formData.amount, formData.eventDate));
+                setPaymentScheduleError(undefined);
+              }}
+              error={paymentScheduleError}
+            />
+          </div>
+
           {/* Contract Content */}
           <div className="space-y-4">
             <div className="flex items-center justify-between">
@@ -323,14 +473,32 @@ export const ContractForm: React.FC<ContractFormProps> = ({
                 AI Assist
               </Button>
             </div>
+
+            {!isEditing && templates.length > 0 && (
+              <TemplatePicker
+                templates={templates}
+                value={selectedTemplateId}
+                onSelect={handleTemplateSelect}
+              />
+            )}
             
             <RichTextEditor
               content={formData.content}
               onChange={(content) => handleInputChange('content', content)}
+              clauses={clauses}
               error={errors.content}
               placeholder="Enter contract terms and conditions..."
               minHeight="300px"
             />
+
+            {/* Placeholders that saving cannot fill in from the details above */}
+            <UnresolvedPlaceholderNotice
+              placeholders={renderMergeFields(formData.content, {
+                ...formData,
+                ...formatContext,
+                vendorName: user?.name
+              }).unresolved}
+            />
           </div>
         </div>
 
@@ -357,7 +525,9 @@ export const ContractForm: React.FC<ContractFormProps> = ({
           eventDate: formData.eventDate,
           eventVenue: formData.eventVenue,
           servicePackage: formData.servicePackage || 'Standard Package',
-          amount: parseFloat(formData.amount) || 0
+          amount: parseFloat(formData.amount) || 0,
+          paymentSchedule: fromPaymentScheduleDraft(paymentSchedule),
+          ...formatContext
         }}
         currentContent={formData.content}
       />
@@ -0,0 +1,152 @@
+import React from 'react';
+import { Search, X } from 'lucide-react';
+import { ContractSortKey } from '@/types';
+import { useContractStore, ContractSortOrder, ContractStatusFilter } from '@/stores/contract-store';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+/**
+ * Props for the ContractListFilters component
+ */
+export interface ContractListFiltersProps {
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Status filter options
+ */
+const STATUS_OPTIONS = [
+  { value: 'all', label: 'All Status' },
+  { value: 'draft', label: 'Draft' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'viewed', label: 'Viewed' },
+  { value: 'partially_signed', label: 'Partially Signed' },
+  { value: 'signed', label: 'Fully Executed' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'expired', label: 'Expired' }
+];
+
+/**
+ * Sort options, written as `field:direction`
+ */
+const SORT_OPTIONS = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'updatedAt:desc', label: 'Recently updated' },
+  { value: 'eventDate:asc', label: 'Event date (soonest)' },
+  { value: 'eventDate:desc', label: 'Event date (latest)' },
+  { value: 'amount:desc', label: 'Amount (highest)' },
+  { value: 'amount:asc', label: 'Amount (lowest)' },
+  { value: 'clientName:asc', label: 'Client (A-Z)' },
+  { value: 'clientName:desc', label: 'Client (Z-A)' }
+];
+
+/**
+ * Search, filter and sort controls for the contract list
+ * Changes are sent to the server, which returns the first page of matching contracts.
+ */
+export const ContractListFilters: React.FC<ContractListFiltersProps> = ({ className }) => {
+  const {
+    statusFilter,
+    searchQuery,
+    eventDateFrom,
+    eventDateTo,
+    amountMin,
+    amountMax,
+    sortKey,
+    sortOrder,
+    setStatusFilter,
+    setSearchQuery,
+    setEventDateRange,
+    setAmountRange,
+    setSort,
+    clearFilters,
+    hasActiveFilters
+  } = useContractStore();
+
+  /**
+   * Applies a sort option
+   */
+  const handleSortChange = (value: string) => {
+    const [key, order] = value.split(':');
+    setSort(key as ContractSortKey, order as ContractSortOrder);
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="flex-1">
+          <Input
+            placeholder="Search clients, venues and contract text..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            leftIcon={<Search className="w-4 h-4" />}
+          />
+        </div>
+
+        <Select
+          options={STATUS_OPTIONS}
+          value={statusFilter}
+          onChange={(value) => setStatusFilter(value as ContractStatusFilter)}
+          className="w-full sm:w-48"
+        />
+
+        <Select
+          options={SORT_OPTIONS}
+          value={`${sortKey}:${sortOrder}`}
+          onChange={handleSortChange}
+          className="w-full sm:w-52"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+        <Input
+          type="date"
+          label="Event from"
+          value={eventDateFrom}
+          max={eventDateTo || undefined}
+          onChange={(e) => setEventDateRange(e.target.value, eventDateTo)}
+        />
+        <Input
+          type="date"
+          label="Event to"
+          value={eventDateTo}
+          min={eventDateFrom || undefined}
+          onChange={(e) => setEventDateRange(eventDateFrom, e.target.value)}
+        />
+        <Input
+          type="number"
+          label="Min amount"
+          min="0"
+          step="0.01"
+          value={amountMin}
+          onChange={(e) => setAmountRange(e.target.value, amountMax)}
+        />
+        <Input
+          type="number"
+          label="Max amount"
+          min="0"
+          step="0.01"
+          value={amountMax}
+          onChange={(e) => setAmountRange(amountMin, e.target.value)}
+        />
+        <div className="col-span-2 md:col-span-1">
+          {hasActiveFilters() && (
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={clearFilters}
+              leftIcon={<X className="w-4 h-4" />}
+            >
+              Clear filters
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,41 @@
+import React from 'react';
+import { useContractStore } from '@/stores/contract-store';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+/**
+ * Props for the ContractListPager component
+ */
+export interface ContractListPagerProps {
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Count of contracts shown and a button loading the next page of the list
+ */
+export const ContractListPager: React.FC<ContractListPagerProps> = ({ className }) => {
+  const { contracts, totalMatches, nextCursor, isLoadingMore, fetchMoreContracts } = useContractStore();
+
+  if (contracts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn('flex flex-col items-center gap-3 pt-2', className)}>
+      <p className="text-sm text-muted-foreground">
+        Showing {contracts.length} of {totalMatches} contracts
+      </p>
+      {nextCursor && (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={fetchMoreContracts}
+          loading={isLoadingMore}
+        >
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
@@ -1,12 +1,11 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
-  Search, 
   Filter, 
   Plus, 
   Calendar, 
   MapPin, 
-  DollarSign,
+  Banknote,
   FileText,
   CheckCircle,
   Clock,
@@ -18,12 +17,14 @@ import {
 } from 'lucide-react';
 import { Contract } from '@/types';
 import { useContractStore } from '@/stores/contract-store';
+import { useBrandingStore } from '@/stores/branding-store';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Select } from '@/components/ui/select';
 import { ContractStatusIndicator } from '@/components/ui/status-indicator';
 import { downloadContractPDF } from '@/lib/pdf-utils';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency, formatDate, SHORT_DATE } from '@/lib/utils';
+import { CONTRACT_LIST_SETTINGS } from '@/lib/constants';
+import { ContractListFilters } from './contract-list-filters';
+import { ContractListPager } from './contract-list-pager';
 
 /**
  * Props for the ContractList component
@@ -53,50 +54,38 @@ export const ContractList: React.FC<ContractListProps> = ({
   className
 }) => {
   const {
+    contracts,
+    summary,
     isLoading,
     error,
-    statusFilter,
-    searchQuery,
-    setStatusFilter,
-    setSearchQuery,
-    getFilteredContracts,
+    fetchContracts,
+    hasActiveFilters,
     clearError
   } = useContractStore();
+  const { branding, fetchBranding } = useBrandingStore();
+  const locale = branding?.locale;
 
-  const contracts = getFilteredContracts();
+  React.useEffect(() => {
+    fetchBranding();
+  }, [fetchBranding]);
 
-  const statusOptions = [
-    { value: 'all', label: 'All Status' },
-    { value: 'draft', label: 'Draft' },
-    { value: 'signed', label: 'Signed' }
-  ];
+  React.useEffect(() => {
+    fetchContracts();
+  }, [fetchContracts]);
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric'
-    });
-  };
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0
-    }).format(amount);
-  };
+  const isFiltered = hasActiveFilters();
 
   const handleDownloadPDF = async (contract: Contract, e: React.MouseEvent) => {
     e.stopPropagation();
     try {
-      await downloadContractPDF(contract);
+      await downloadContractPDF(contract, branding);
     } catch (error) {
       console.error('Failed to download PDF:', error);
     }
   };
 
-  if (isLoading) {
+  // The skeleton only stands in for the first load, so the filters stay put while the list is refreshed
+  if (isLoading && !summary) {
     return (
       <div className={cn('space-y-6', className)}>
         {/* Header skeleton */}
@@ -155,24 +144,7 @@ export const ContractList: React.FC<ContractListProps> = ({
       </div>
 
       {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-          <Input
-            placeholder="Search contracts..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
-          />
-        </div>
-        
-        <Select
-          options={statusOptions}
-          value={statusFilter}
-          onChange={(value) => setStatusFilter(value as 'all' | 'draft' | 'signed')}
-          className="w-full sm:w-48"
-        />
-      </div>
+      <ContractListFilters />
 
       {/* Error Message */}
       {error && (
@@ -206,12 +178,12 @@ export const ContractList: React.FC<ContractListProps> = ({
               No contracts found
             </h3>
             <p className="text-muted-foreground mb-6">
-              {searchQuery || statusFilter !== 'all' 
+              {isFiltered
                 ? 'Try adjusting your search or filters'
                 : 'Get started by creating your first contract'
               }
             </p>
-            {!searchQuery && statusFilter === 'all' && (
+            {!isFiltered && (
               <Button onClick={onCreateContract}>
                 <Plus className="w-4 h-4 mr-2" />
                 Create Contract
@@ -226,7 +198,7 @@ export const ContractList: React.FC<ContractListProps> = ({
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, y: -20 }}
-                transition={{ delay: index * 0.05 }}
+                transition={{ delay: (index % CONTRACT_LIST_SETTINGS.DEFAULT_PAGE_SIZE) * 0.05 }}
                 className="group border rounded-lg p-6 hover:shadow-md transition-all duration-200 cursor-pointer"
                 onClick={() => onViewContract(contract)}
               >
@@ -296,7 +268,7 @@ export const ContractList: React.FC<ContractListProps> = ({
                 <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm text-muted-foreground">
                   <div className="flex items-center gap-2">
                     <Calendar className="w-4 h-4" />
-                    <span>{formatDate(contract.eventDate)}</span>
+                    <span>{formatDate(contract.eventDate, { locale }, SHORT_DATE)}</span>
                   </div>
                   
                   <div className="flex items-center gap-2">
@@ -305,8 +277,8 @@ export const ContractList: React.FC<ContractListProps> = ({
                   </div>
                   
                   <div className="flex items-center gap-2">
-                    <DollarSign className="w-4 h-4" />
-                    <span className="font-medium text-foreground">{formatCurrency(contract.amount)}</span>
+                    <Banknote className="w-4 h-4" />
+                    <span className="font-medium text-foreground">{formatCurrency(contract.amount, { locale, currency: contract.currency }, { minimumFractionDigits: 0 })}</span>
                   </div>
                 </div>
 
@@ -318,6 +290,9 @@ export const ContractList: React.FC<ContractListProps> = ({
           </div>
         )}
       </AnimatePresence>
+
+      {/* Paging */}
+      <ContractListPager />
     </div>
   );
 };
\ No newline at end of file
@@ -1,12 +1,11 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
-  Search, 
   Filter, 
   Plus, 
   Calendar, 
   MapPin, 
-  DollarSign,
+  Banknote,
   FileText,
   CheckCircle,
   Clock,
@@ -16,11 +15,13 @@ import {
 } from 'lucide-react';
 import { Contract } from '@/types';
 import { useContractStore } from '@/stores/contract-store';
+import { useBrandingStore } from '@/stores/branding-store';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Select } from '@/components/ui/select';
 import { ContractStatusIndicator } from '@/components/ui/status-indicator';
-import { cn } from '@/lib/utils';
+import { cn, formatCurrency, formatDate, SHORT_DATE } from '@/lib/utils';
+import { CONTRACT_LIST_SETTINGS } from '@/lib/constants';
+import { ContractListFilters } from './contract-list-filters';
+import { ContractListPager } from './contract-list-pager';
 
 /**
  * Props for the ContractList component
@@ -39,7 +40,7 @@ export interface ContractListProps {
 }
 
 /**
- * Contract list component with filtering, search, and animations
+ * Contract list component with server-side filtering, search, paging and animations
  * Features responsive design, mobile-first layout, and Framer Motion animations
  */
 export const ContractList: React.FC<ContractListProps> = ({
@@ -50,38 +51,25 @@ export const ContractList: React.FC<ContractListProps> = ({
   className
 }) => {
   const {
+    contracts,
     isLoading,
     error,
-    statusFilter,
-    searchQuery,
-    setStatusFilter,
-    setSearchQuery,
-    getFilteredContracts,
+    fetchContracts,
+    hasActiveFilters,
     clearError
   } = useContractStore();
+  const { branding, fetchBranding } = useBrandingStore();
+  const locale = branding?.locale;
 
-  const contracts = getFilteredContracts();
+  React.useEffect(() => {
+    fetchBranding();
+  }, [fetchBranding]);
 
-  const statusOptions = [
-    { value: 'all', label: 'All Contracts' },
-    { value: 'draft', label: 'Draft' },
-    { value: 'signed', label: 'Signed' }
-  ];
+  React.useEffect(() => {
+    fetchContracts();
+  }, [fetchContracts]);
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric'
-    });
-  };
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
-  };
+  const isFiltered = hasActiveFilters();
 
   const getStatusIcon = (status: Contract['status']) => {
     switch (status) {
@@ -124,25 +112,7 @@ export const ContractList: React.FC<ContractListProps> = ({
       </div>
 
       {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4">
-        <div className="flex-1">
-          <Input
-            placeholder="Search contracts..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            leftIcon={<Search className="w-4 h-4" />}
-          />
-        </div>
-        
-        <div className="w-full sm:w-48">
-          <Select
-            options={statusOptions}
-            value={statusFilter}
-            onChange={(value) => setStatusFilter(value as 'all' | 'draft' | 'signed')}
-            placeholder="Filter by status"
-          />
-        </div>
-      </div>
+      <ContractListFilters />
 
       {/* Error Message */}
       {error && (
@@ -188,12 +158,12 @@ export const ContractList: React.FC<ContractListProps> = ({
                 No contracts found
               </h3>
               <p className="text-gray-600 mb-6">
-                {searchQuery || statusFilter !== 'all' 
+                {isFiltered
                   ? 'Try adjusting your search or filters'
                   : 'Get started by creating your first contract'
                 }
               </p>
-              {!searchQuery && statusFilter === 'all' && (
+              {!isFiltered && (
                 <Button onClick={onCreateContract} leftIcon={<Plus className="w-4 h-4" />}>
                   Create Contract
                 </Button>
@@ -207,7 +177,7 @@ export const ContractList: React.FC<ContractListProps> = ({
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
                   exit={{ opacity: 0, y: -20 }}
-                  transition={{ delay: index * 0.1 }}
+                  transition={{ delay: (index % CONTRACT_LIST_SETTINGS.DEFAULT_PAGE_SIZE) * 0.1 }}
                   className="bg-white border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow"
                 >
                   <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
@@ -230,7 +200,7 @@ export const ContractList: React.FC<ContractListProps> = ({
                       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 text-sm text-gray-600">
                         <div className="flex items-center gap-2">
                           <Calendar className="w-4 h-4" />
-                          <span>{formatDate(contract.eventDate)}</span>
+                          <span>{formatDate(contract.eventDate, { locale }, SHORT_DATE)}</span>
                         </div>
                         
                         <div className="flex items-center gap-2">
@@ -239,8 +209,8 @@ export const ContractList: React.FC<ContractListProps> = ({
                         </div>
                         
                         <div className="flex items-center gap-2">
-                          <DollarSign className="w-4 h-4" />
-                          <span>{formatCurrency(contract.amount)}</span>
+                          <Banknote className="w-4 h-4" />
+                          <span>{formatCurrency(contract.amount, { locale, currency: contract.currency })}</span>
                         </div>
                       </div>
 
@@ -293,6 +263,9 @@ export const ContractList: React.FC<ContractListProps> = ({
           )}
         </AnimatePresence>
       )}
+
+      {/* Paging */}
+      {!isLoading && <ContractListPager />}
     </div>
   );
 };
\ No newline at end of file
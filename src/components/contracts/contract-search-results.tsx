@@ -0,0 +1,96 @@
+import React from 'react';
+import { FileSearch } from 'lucide-react';
+import { useSearchStore } from '@/stores/search-store';
+import { ContractStatusIndicator } from '@/components/ui/status-indicator';
+import { CONTRACT_LIST_SETTINGS } from '@/lib/constants';
+import { cn, formatDate, SHORT_DATE } from '@/lib/utils';
+
+/**
+ * Props for the ContractSearchResults component
+ */
+export interface ContractSearchResultsProps {
+  /** Search query as typed in the search box */
+  query: string;
+  /** Function called when a result is chosen */
+  onSelect: (contractId: string) => void;
+  /** Locale event dates are shown in */
+  locale?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Contracts whose text matches the search box, with the matching words highlighted
+ * Searches once typing pauses and shows nothing while the search box is empty.
+ */
+export const ContractSearchResults: React.FC<ContractSearchResultsProps> = ({
+  query,
+  onSelect,
+  locale,
+  className
+}) => {
+  const { results, isSearching, error, search, clear } = useSearchStore();
+  const trimmedQuery = query.trim();
+
+  React.useEffect(() => {
+    if (!trimmedQuery) {
+      clear();
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      search(trimmedQuery);
+    }, CONTRACT_LIST_SETTINGS.FILTER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [trimmedQuery, search, clear]);
+
+  if (!trimmedQuery || (results.length === 0 && !error)) {
+    return null;
+  }
+
+  return (
+    <div className={cn('border rounded-lg', isSearching && 'opacity-60', className)}>
+      <div className="flex items-center gap-2 px-4 py-2 border-b text-sm font-medium text-muted-foreground">
+        <FileSearch className="w-4 h-4" />
+        Matches in contract text
+      </div>
+
+      {error ? (
+        <p className="px-4 py-3 text-sm text-red-700">{error}</p>
+      ) : (
+        <ul className="divide-y">
+          {results.map(result => (
+            <li key={result.contractId}>
+              <button
+                type="button"
+                onClick={() => onSelect(result.contractId)}
+                className="w-full text-left px-4 py-3 hover:bg-muted/50 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <span className="font-medium text-foreground">{result.clientName}</span>
+                  <div className="flex items-center gap-3 shrink-0">
+                    <span className="text-xs text-muted-foreground">
+                      {formatDate(result.eventDate, { locale }, SHORT_DATE)}
+                    </span>
+                    <ContractStatusIndicator status={result.status} size="sm" />
+                  </div>
+                </div>
+                <p className="mt-1 text-sm text-muted-foreground">
+                  {result.snippet.map((part, index) =>
+                    part.highlighted ? (
+                      <mark key={index} className="bg-yellow-100 text-foreground rounded-sm px-0.5">
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <React.Fragment key={index}>{part.text}</React.Fragment>
+                    )
+                  )}
+                </p>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
@@ -10,15 +10,18 @@ import {
   User,
   Calendar,
   MapPin,
-  DollarSign
+  Banknote,
+  Users
 } from 'lucide-react';
-import { Contract, SignatureData } from '@/types';
+import { Contract, SignatureData, SigningConsent } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Modal } from '@/components/ui/modal';
 import { SignatureModal } from './signature-modal';
 import { SignatureDisplay } from './signature-display';
 import { LoadingState } from '@/components/ui/loading-state';
-import { cn } from '@/lib/utils';
+import { useBrandingStore } from '@/stores/branding-store';
+import { getContractSigners } from '@/lib/signers';
+import { cn, formatCurrency, formatDate, FULL_DATE, getFormatContext } from '@/lib/utils';
 
 /**
  * Contract signing workflow step
@@ -39,8 +42,8 @@ export interface ContractSigningWorkflowProps {
   contract: Contract;
   /** Whether the signing process is loading */
   loading?: boolean;
-  /** Function called when signature is confirmed */
-  onSignatureConfirm: (signature: SignatureData) => Promise<void>;
+  /** Function called when signature is confirmed, with the review and consent timestamps */
+  onSignatureConfirm: (signature: SignatureData, consent: SigningConsent) => Promise<void>;
   /** Function called when workflow is cancelled */
   onCancel: () => void;
   /** Function called when workflow is completed */
@@ -65,23 +68,15 @@ export const ContractSigningWorkflow: React.FC<ContractSigningWorkflowProps> = (
   const [isSignatureModalOpen, setIsSignatureModalOpen] = React.useState(false);
   const [isConfirmModalOpen, setIsConfirmModalOpen] = React.useState(false);
   const [pendingSignature, setPendingSignature] = React.useState<SignatureData | null>(null);
+  const [consentedAt, setConsentedAt] = React.useState<string | null>(null);
+  // The review step is shown as soon as the workflow opens
+  const [viewedAt] = React.useState(() => new Date().toISOString());
   const [error, setError] = React.useState<string | null>(null);
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  };
+  const { branding } = useBrandingStore();
+  const formatContext = getFormatContext(contract, branding);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
-  };
+  const signers = getContractSigners(contract);
 
   /**
    * Signing workflow steps
@@ -121,8 +116,9 @@ export const ContractSigningWorkflow: React.FC<ContractSigningWorkflowProps> = (
   /**
    * Handles signature creation
    */
-  const handleSignatureCreate = (signature: SignatureData) => {
+  const handleSignatureCreate = (signature: SignatureData, signatureConsentedAt: string) => {
     setPendingSignature(signature);
+    setConsentedAt(signatureConsentedAt);
     setIsSignatureModalOpen(false);
     setIsConfirmModalOpen(true);
   };
@@ -131,11 +127,11 @@ export const ContractSigningWorkflow: React.FC<ContractSigningWorkflowProps> = (
    * Handles signature confirmation
    */
   const handleConfirmSignature = async () => {
-    if (!pendingSignature) return;
+    if (!pendingSignature || !consentedAt) return;
 
     try {
       setError(null);
-      await onSignatureConfirm(pendingSignature);
+      await onSignatureConfirm(pendingSignature, { viewedAt, consentedAt });
       setCurrentStep(2);
       setIsConfirmModalOpen(false);
       
@@ -303,7 +299,7 @@ export const ContractSigningWorkflow: React.FC<ContractSigningWorkflowProps> = (
                   </div>
                   <div>
                     <p className="text-sm text-gray-600">Event Date</p>
-                    <p className="font-medium text-gray-900">{formatDate(contract.eventDate)}</p>
+                    <p className="font-medium text-gray-900">{formatDate(contract.eventDate, formatContext, FULL_DATE)}</p>
                   </div>
                 </div>
 
@@ -319,11 +315,11 @@ export const ContractSigningWorkflow: React.FC<ContractSigningWorkflowProps> = (
 
                 <div className="flex items-center gap-3">
                   <div className="p-2 bg-emerald-100 rounded-lg">
-                    <DollarSign className="w-4 h-4 text-emerald-600" />
+                    <Banknote className="w-4 h-4 text-emerald-600" />
                   </div>
                   <div>
                     <p className="text-sm text-gray-600">Total Amount</p>
-                    <p className="font-medium text-gray-900">{formatCurrency(contract.amount)}</p>
+                    <p className="font-medium text-gray-900">{formatCurrency(contract.amount, formatContext)}</p>
                   </div>
                 </div>
               </div>
@@ -334,6 +330,39 @@ export const ContractSigningWorkflow: React.FC<ContractSigningWorkflowProps> = (
               </div>
             </div>
 
+            {/* Signing Parties */}
+            {signers.length > 0 && (
+              <div className="bg-white border border-gray-200 rounded-lg p-6">
+                <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 mb-4">
+                  <Users className="w-5 h-5 text-gray-600" />
+                  Signing Parties
+                </h2>
+                <ul className="divide-y">
+                  {signers.map(signer => (
+                    <li key={signer.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+                      <div>
+                        <p className="font-medium text-gray-900">{signer.name}</p>
+                        <p className="text-gray-500">
+                          {signer.email} · {signer.role === 'vendor' ? 'Vendor' : 'Client'}
+                        </p>
+                      </div>
+                      {signer.signature ? (
+                        <span className="flex items-center gap-1 text-green-700">
+                          <CheckCircle className="w-4 h-4" />
+                          Signed
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1 text-gray-500">
+                          <Clock className="w-4 h-4" />
+                          Outstanding
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Contract Terms */}
             <div className="bg-white border border-gray-200 rounded-lg p-6">
               <h2 className="text-lg font-semibold text-gray-900 mb-4">Contract Terms</h2>
@@ -384,7 +413,7 @@ export const ContractSigningWorkflow: React.FC<ContractSigningWorkflowProps> = (
               Contract Signed Successfully!
             </h2>
             <p className="text-gray-600 mb-8">
-              Your contract with {contract.clientName} has been digitally signed and is now legally binding.
+              Your contract with {contract.clientName} is fully executed and now legally binding.
             </p>
 
             <div className="bg-green-50 border border-green-200 rounded-lg p-4 max-w-md mx-auto">
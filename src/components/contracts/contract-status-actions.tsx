@@ -0,0 +1,110 @@
+import React from 'react';
+import { Ban, CalendarX, CheckCheck } from 'lucide-react';
+import { Contract, ManualContractStatus } from '@/types';
+import { useContractStore } from '@/stores/contract-store';
+import { Button } from '@/components/ui/button';
+import { Modal } from '@/components/ui/modal';
+import { getManualTransitions } from '@/lib/contract-lifecycle';
+import { cn } from '@/lib/utils';
+
+/**
+ * Props for the ContractStatusActions component
+ */
+export interface ContractStatusActionsProps {
+  /** Contract whose status can be changed */
+  contract: Contract;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Button text, icon and confirmation message for each status the vendor can choose
+ */
+const STATUS_ACTIONS: Record<ManualContractStatus, { label: string; icon: React.ReactNode; confirmation: string }> = {
+  completed: {
+    label: 'Mark Completed',
+    icon: <CheckCheck className="w-4 h-4" />,
+    confirmation: 'Mark this contract as completed? The event has taken place and the contract is closed.'
+  },
+  expired: {
+    label: 'Mark Expired',
+    icon: <CalendarX className="w-4 h-4" />,
+    confirmation: 'Mark this contract as expired? Its event date has passed without every party signing, and signing links stop working.'
+  },
+  cancelled: {
+    label: 'Cancel Contract',
+    icon: <Ban className="w-4 h-4" />,
+    confirmation: 'Cancel this contract? It can no longer be signed or changed, and signing links stop working.'
+  }
+};
+
+/**
+ * Buttons moving a contract to the statuses its lifecycle currently allows by hand
+ * Renders nothing when no manual change is allowed.
+ */
+export const ContractStatusActions: React.FC<ContractStatusActionsProps> = ({
+  contract,
+  className
+}) => {
+  const { changeContractStatus, isContractLoading, error } = useContractStore();
+  const [pendingStatus, setPendingStatus] = React.useState<ManualContractStatus | null>(null);
+  const transitions = getManualTransitions(contract);
+
+  /**
+   * Applies the confirmed status change
+   */
+  const handleConfirm = async () => {
+    if (!pendingStatus) return;
+
+    if (await changeContractStatus(contract.id, pendingStatus)) {
+      setPendingStatus(null);
+    }
+  };
+
+  if (transitions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn('flex flex-wrap gap-2', className)}>
+      {transitions.map(status => (
+        <Button
+          key={status}
+          variant={status === 'cancelled' ? 'destructive' : 'outline'}
+          size="sm"
+          onClick={() => setPendingStatus(status)}
+          leftIcon={STATUS_ACTIONS[status].icon}
+        >
+          {STATUS_ACTIONS[status].label}
+        </Button>
+      ))}
+
+      <Modal
+        isOpen={pendingStatus !== null}
+        onClose={() => setPendingStatus(null)}
+        title={pendingStatus ? STATUS_ACTIONS[pendingStatus].label : ''}
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-gray-700">{pendingStatus && STATUS_ACTIONS[pendingStatus].confirmation}</p>
+          {error && (
+            <p className="text-sm text-red-700">{error}</p>
+          )}
+          <div className="flex justify-end gap-2 pt-4 border-t border-gray-200">
+            <Button variant="outline" onClick={() => setPendingStatus(null)}>
+              Back
+            </Button>
+            <Button
+              variant={pendingStatus === 'cancelled' ? 'destructive' : 'default'}
+              onClick={handleConfirm}
+              loading={isContractLoading}
+              leftIcon={pendingStatus ? STATUS_ACTIONS[pendingStatus].icon : undefined}
+            >
+              {pendingStatus ? STATUS_ACTIONS[pendingStatus].label : ''}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
\ No newline at end of file
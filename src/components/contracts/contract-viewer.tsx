@@ -4,21 +4,30 @@ import {
   ArrowLeft, 
   Calendar, 
   MapPin, 
-  DollarSign, 
+  Banknote, 
   User, 
   Package,
   FileText,
   CheckCircle,
   Edit,
   PenTool,
-  Download
+  Download,
+  FileDown,
+  Send,
+  Clock
 } from 'lucide-react';
-import { Contract } from '@/types';
+import { Contract, VendorBranding } from '@/types';
 import { Button } from '@/components/ui/button';
 import { SignatureDisplay } from './signature-display';
+import { UnresolvedPlaceholderNotice } from './unresolved-placeholder-notice';
 import { ContractStatusIndicator } from '@/components/ui/status-indicator';
 import { downloadContractPDF } from '@/lib/pdf-utils';
-import { cn } from '@/lib/utils';
+import { downloadContractDocx } from '@/lib/docx-utils';
+import { findUnresolvedPlaceholders } from '@/lib/merge-fields';
+import { getPaymentScheduleTotal, getScheduledPayments } from '@/lib/payment-schedule';
+import { isOpenForSigning } from '@/lib/contract-lifecycle';
+import { getContractSigners } from '@/lib/signers';
+import { cn, formatCurrency, formatDate, formatDateTime, FULL_DATE, getFormatContext } from '@/lib/utils';
 
 /**
  * Props for the ContractViewer component
@@ -26,12 +35,16 @@ import { cn } from '@/lib/utils';
 export interface ContractViewerProps {
   /** Contract to display */
   contract: Contract;
-  /** Function called when going back */
-  onBack: () => void;
+  /** Function called when going back (hides the back button when omitted) */
+  onBack?: () => void;
   /** Function called when editing contract (only for draft contracts) */
   onEdit?: () => void;
-  /** Function called when signing contract (only for draft contracts) */
+  /** Function called when the vendor signs (only while the vendor signature is outstanding) */
   onSign?: () => void;
+  /** Function called when sending the contract to the clients for signing (only while a client signature is outstanding) */
+  onShare?: () => void;
+  /** Vendor branding applied to the downloaded PDF */
+  branding?: VendorBranding | null;
   /** Additional CSS classes */
   className?: string;
 }
@@ -45,60 +58,59 @@ export const ContractViewer: React.FC<ContractViewerProps> = ({
   onBack,
   onEdit,
   onSign,
+  onShare,
+  branding,
   className
 }) => {
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  };
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
-  };
-
-  const formatTimestamp = (timestamp: string) => {
-    return new Date(timestamp).toLocaleString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
-  };
+  const formatContext = getFormatContext(contract, branding);
 
   const isDraft = contract.status === 'draft';
-  const isSigned = contract.status === 'signed';
+  const unresolvedPlaceholders = isOpenForSigning(contract.status) ? findUnresolvedPlaceholders(contract.content) : [];
+  // Contracts cannot be sent or signed until every placeholder is filled in
+  const isOpen = isOpenForSigning(contract.status) && unresolvedPlaceholders.length === 0;
+  const signers = getContractSigners(contract);
+  const hasOutstandingClients = signers.some(signer => signer.role === 'client' && !signer.signature);
+  // Contracts created before multi-party signing have no signer list until the vendor signs;
+  // the vendor countersigns once every client has signed
+  const isVendorOutstanding = !hasOutstandingClients &&
+    (signers.length === 0 || signers.some(signer => signer.role === 'vendor' && !signer.signature));
 
   /**
    * Handles PDF download
    */
   const handleDownloadPDF = async () => {
     try {
-      await downloadContractPDF(contract);
+      await downloadContractPDF(contract, branding);
     } catch (error) {
       console.error('Failed to download PDF:', error);
       // You could show a toast notification here
     }
   };
 
+  /**
+   * Handles Word document download
+   */
+  const handleDownloadDocx = async () => {
+    try {
+      await downloadContractDocx(contract, branding?.locale);
+    } catch (error) {
+      console.error('Failed to download Word document:', error);
+    }
+  };
+
   return (
     <div className={cn('max-w-4xl mx-auto', className)}>
       {/* Header */}
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
         <div className="flex items-center gap-4">
-          <Button
-            variant="ghost"
-            onClick={onBack}
-            leftIcon={<ArrowLeft className="w-4 h-4" />}
-            className="p-2"
-          />
+          {onBack && (
+            <Button
+              variant="ghost"
+              onClick={onBack}
+              leftIcon={<ArrowLeft className="w-4 h-4" />}
+              className="p-2"
+            />
+          )}
           
           <div>
             <h1 className="text-2xl font-bold text-gray-900">
@@ -114,7 +126,7 @@ export const ContractViewer: React.FC<ContractViewerProps> = ({
         </div>
 
         {/* Actions */}
-        <div className="flex gap-2">
+        <div className="flex flex-wrap gap-2">
           {/* Download PDF button - always available */}
           <Button
             variant="outline"
@@ -124,34 +136,52 @@ export const ContractViewer: React.FC<ContractViewerProps> = ({
             Download PDF
           </Button>
 
+          {/* Download DOCX button - editable copy for planners and lawyers */}
+          <Button
+            variant="outline"
+            onClick={handleDownloadDocx}
+            leftIcon={<FileDown className="w-4 h-4" />}
+          >
+            Download Word
+          </Button>
+
           {/* Draft-specific actions */}
-          {isDraft && (
-            <>
-              {onEdit && (
-                <Button
-                  variant="outline"
-                  onClick={onEdit}
-                  leftIcon={<Edit className="w-4 h-4" />}
-                >
-                  Edit
-                </Button>
-              )}
-              
-              {onSign && (
-                <Button
-                  onClick={onSign}
-                  leftIcon={<PenTool className="w-4 h-4" />}
-                >
-                  Sign Contract
-                </Button>
-              )}
-            </>
+          {isDraft && onEdit && (
+            <Button
+              variant="outline"
+              onClick={onEdit}
+              leftIcon={<Edit className="w-4 h-4" />}
+            >
+              Edit
+            </Button>
+          )}
+
+          {/* Signing actions - available until every party has signed */}
+          {isOpen && hasOutstandingClients && onShare && (
+            <Button
+              variant="outline"
+              onClick={onShare}
+              leftIcon={<Send className="w-4 h-4" />}
+            >
+              Send for Signature
+            </Button>
+          )}
+
+          {isOpen && isVendorOutstanding && onSign && (
+            <Button
+              onClick={onSign}
+              leftIcon={<PenTool className="w-4 h-4" />}
+            >
+              Sign Contract
+            </Button>
           )}
         </div>
       </div>
 
       {/* Contract Details */}
       <div className="space-y-6">
+        <UnresolvedPlaceholderNotice placeholders={unresolvedPlaceholders} />
+
         {/* Contract Information Card */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -177,7 +207,7 @@ export const ContractViewer: React.FC<ContractViewerProps> = ({
               </div>
               <div>
                 <p className="text-sm text-gray-600">Event Date</p>
-                <p className="font-medium text-gray-900">{formatDate(contract.eventDate)}</p>
+                <p className="font-medium text-gray-900">{formatDate(contract.eventDate, formatContext, FULL_DATE)}</p>
               </div>
             </div>
 
@@ -203,11 +233,11 @@ export const ContractViewer: React.FC<ContractViewerProps> = ({
 
             <div className="flex items-center gap-3">
               <div className="p-2 bg-emerald-100 rounded-lg">
-                <DollarSign className="w-4 h-4 text-emerald-600" />
+                <Banknote className="w-4 h-4 text-emerald-600" />
               </div>
               <div>
                 <p className="text-sm text-gray-600">Amount</p>
-                <p className="font-medium text-gray-900">{formatCurrency(contract.amount)}</p>
+                <p className="font-medium text-gray-900">{formatCurrency(contract.amount, formatContext)}</p>
               </div>
             </div>
 
@@ -217,12 +247,51 @@ export const ContractViewer: React.FC<ContractViewerProps> = ({
               </div>
               <div>
                 <p className="text-sm text-gray-600">Created</p>
-                <p className="font-medium text-gray-900">{formatTimestamp(contract.createdAt)}</p>
+                <p className="font-medium text-gray-900">{formatDateTime(contract.createdAt, formatContext)}</p>
               </div>
             </div>
           </div>
         </motion.div>
 
+        {/* Payment Schedule */}
+        {contract.paymentSchedule && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.05 }}
+            className="bg-white border border-gray-200 rounded-lg p-6"
+          >
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Payment Schedule</h2>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-gray-600">
+                    <th className="text-left font-medium py-2 pr-4">Payment</th>
+                    <th className="text-left font-medium py-2 pr-4">Due</th>
+                    <th className="text-right font-medium py-2">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {getScheduledPayments(contract.paymentSchedule).map((payment, index) => (
+                    <tr key={index} className="border-b border-gray-100">
+                      <td className="py-2 pr-4 text-gray-900">{payment.label}</td>
+                      <td className="py-2 pr-4 text-gray-700">{formatDate(payment.dueDate, formatContext, FULL_DATE)}</td>
+                      <td className="py-2 text-right text-gray-900">{formatCurrency(payment.amount, formatContext)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="font-semibold text-gray-900">
+                    <td className="pt-2 pr-4" colSpan={2}>Total</td>
+                    <td className="pt-2 text-right">{formatCurrency(getPaymentScheduleTotal(contract.paymentSchedule), formatContext)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          </motion.div>
+        )}
+
         {/* Contract Content */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -239,26 +308,43 @@ export const ContractViewer: React.FC<ContractViewerProps> = ({
         </motion.div>
 
         {/* Signature Section */}
-        {isSigned && contract.signature && (
+        {signers.length > 0 && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.2 }}
             className="bg-white border border-gray-200 rounded-lg p-6"
           >
-            <h2 className="text-lg font-semibold text-gray-900 mb-4">Digital Signature</h2>
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Signatures</h2>
             
-            <SignatureDisplay 
-              signature={contract.signature}
-              showTimestamp={true}
-              showStatus={true}
-              size="md"
-            />
+            <div className="space-y-6">
+              {signers.map(signer => (
+                <div key={signer.id}>
+                  <p className="text-sm text-gray-600 mb-2">
+                    {signer.role === 'vendor' ? 'Vendor' : 'Client'}: {signer.name}
+                  </p>
+                  {signer.signature ? (
+                    <SignatureDisplay 
+                      signature={signer.signature}
+                      locale={branding?.locale}
+                      showTimestamp={true}
+                      showStatus={true}
+                      size="md"
+                    />
+                  ) : (
+                    <div className="flex items-center gap-2 p-4 border border-dashed border-gray-300 rounded-lg text-gray-500">
+                      <Clock className="w-4 h-4" />
+                      <span className="text-sm">Awaiting signature</span>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
           </motion.div>
         )}
 
         {/* Draft Notice */}
-        {isDraft && (
+        {isDraft && onEdit && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -270,7 +356,7 @@ export const ContractViewer: React.FC<ContractViewerProps> = ({
               <span className="font-medium">Draft Contract</span>
             </div>
             <p className="text-yellow-700 mt-1">
-              This contract is still in draft status. You can edit the details or sign it to finalize.
+              This contract is still in draft status. You can edit the details or send it for signature.
             </p>
           </motion.div>
         )}
@@ -4,19 +4,45 @@
  */
 
 export { ContractList } from './contract-list';
+export { ContractListFilters } from './contract-list-filters';
+export { ContractListPager } from './contract-list-pager';
+export { ContractSearchResults } from './contract-search-results';
 export { ContractForm } from './contract-form';
 export { ContractViewer } from './contract-viewer';
+export { ContractStatusActions } from './contract-status-actions';
 export { AIAssistModal } from './ai-assist-modal';
 export { SignatureModal } from './signature-modal';
 export { SignatureDisplay } from './signature-display';
 export { ContractSigningWorkflow } from './contract-signing-workflow';
 export { ContractEditForm } from './contract-edit-form';
+export { ShareLinkModal } from './share-link-modal';
+export { RevisionHistoryPanel } from './revision-history-panel';
+export { SigningCertificatePanel } from './signing-certificate-panel';
+export { SignerListEditor } from './signer-list-editor';
+export { PaymentScheduleEditor } from './payment-schedule-editor';
+export { PaymentLedgerPanel } from './payment-ledger-panel';
+export { InvoicePanel } from './invoice-panel';
+export { AmendmentPanel } from './amendment-panel';
+export { UnresolvedPlaceholderNotice } from './unresolved-placeholder-notice';
 
 export type { ContractListProps } from './contract-list';
+export type { ContractListFiltersProps } from './contract-list-filters';
+export type { ContractListPagerProps } from './contract-list-pager';
+export type { ContractSearchResultsProps } from './contract-search-results';
 export type { ContractFormProps } from './contract-form';
 export type { ContractViewerProps } from './contract-viewer';
+export type { ContractStatusActionsProps } from './contract-status-actions';
 export type { AIAssistModalProps } from './ai-assist-modal';
 export type { SignatureModalProps } from './signature-modal';
 export type { SignatureDisplayProps } from './signature-display';
 export type { ContractSigningWorkflowProps } from './contract-signing-workflow';
-export type { ContractEditFormProps } from './contract-edit-form';
\ No newline at end of file
+export type { ContractEditFormProps } from './contract-edit-form';
+export type { ShareLinkModalProps } from './share-link-modal';
+export type { RevisionHistoryPanelProps } from './revision-history-panel';
+export type { SigningCertificatePanelProps } from './signing-certificate-panel';
+export type { SignerListEditorProps } from './signer-list-editor';
+export type { PaymentScheduleEditorProps } from './payment-schedule-editor';
+export type { PaymentLedgerPanelProps } from './payment-ledger-panel';
+export type { InvoicePanelProps } from './invoice-panel';
+export type { AmendmentPanelProps } from './amendment-panel';
+export type { UnresolvedPlaceholderNoticeProps } from './unresolved-placeholder-notice';
\ No newline at end of file
@@ -0,0 +1,274 @@
+import React from 'react';
+import { AlertCircle, Ban, CheckCircle, Download, FilePlus, Receipt } from 'lucide-react';
+import { Contract, ContractAmendment, Invoice, InvoiceStatus, VendorBranding } from '@/types';
+import { useInvoiceStore } from '@/stores/invoice-store';
+import { Button } from '@/components/ui/button';
+import { Modal } from '@/components/ui/modal';
+import { LoadingState } from '@/components/ui/loading-state';
+import { getInvoiceablePayments, getOutdatedInvoices, INVOICE_STATUS_LABELS } from '@/lib/invoices';
+import { downloadInvoicePDF } from '@/lib/pdf-utils';
+import { cn, formatCurrency, formatDate, getFormatContext } from '@/lib/utils';
+
+/**
+ * Props for the InvoicePanel component
+ */
+export interface InvoicePanelProps {
+  /** Signed contract whose invoices are shown */
+  contract: Contract;
+  /** Vendor branding applied to invoice PDFs, whose locale amounts and dates are shown in */
+  branding?: VendorBranding | null;
+  /** Amendments of the contract; payments added by executed ones can be invoiced too */
+  amendments?: ContractAmendment[];
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Badge colours for each invoice status
+ */
+const STATUS_CLASSES: Record<InvoiceStatus, string> = {
+  issued: 'bg-blue-50 text-blue-700',
+  paid: 'bg-green-50 text-green-700',
+  void: 'bg-gray-100 text-gray-500 line-through'
+};
+
+/**
+ * Invoices for a signed contract
+ * Issues a numbered invoice for each scheduled payment, including those added by executed amendments, downloads it as a PDF and tracks whether it was
+ * paid or voided
+ */
+export const InvoicePanel: React.FC<InvoicePanelProps> = ({
+  contract,
+  branding,
+  amendments = [],
+  className
+}) => {
+  const { fetchInvoices, createInvoice, updateInvoiceStatus, isLoading: isSaving, error } = useInvoiceStore();
+  const [invoices, setInvoices] = React.useState<Invoice[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [pendingVoid, setPendingVoid] = React.useState<Invoice | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    const loadInvoices = async () => {
+      setIsLoading(true);
+      const result = await fetchInvoices(contract.id);
+      if (!cancelled) {
+        setInvoices(result);
+        setIsLoading(false);
+      }
+    };
+
+    loadInvoices();
+    return () => {
+      cancelled = true;
+    };
+  }, [contract.id, fetchInvoices]);
+
+  const invoiceablePayments = getInvoiceablePayments(contract, invoices, amendments);
+  const outdatedInvoices = getOutdatedInvoices(contract, invoices, amendments);
+  const formatContext = getFormatContext(contract, branding);
+
+  /**
+   * Replaces an invoice in the list after it changed
+   */
+  const replaceInvoice = (updated: Invoice) => {
+    setInvoices(prev => prev.map(invoice => invoice.id === updated.id ? updated : invoice));
+  };
+
+  /**
+   * Issues an invoice for a scheduled payment
+   */
+  const handleCreate = async (scheduleIndex: number) => {
+    const invoice = await createInvoice(contract.id, scheduleIndex);
+    if (invoice) {
+      setInvoices(prev => [...prev, invoice]);
+    }
+  };
+
+  /**
+   * Marks an invoice as paid
+   */
+  const handleMarkPaid = async (invoice: Invoice) => {
+    const updated = await updateInvoiceStatus(contract.id, invoice.id, 'paid');
+    if (updated) {
+      replaceInvoice(updated);
+    }
+  };
+
+  /**
+   * Voids the invoice awaiting confirmation
+   */
+  const handleConfirmVoid = async () => {
+    if (!pendingVoid) return;
+
+    const updated = await updateInvoiceStatus(contract.id, pendingVoid.id, 'void');
+    setPendingVoid(null);
+    if (updated) {
+      replaceInvoice(updated);
+    }
+  };
+
+  /**
+   * Downloads the PDF of an invoice
+   */
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      await downloadInvoicePDF(invoice, contract, branding);
+    } catch (error) {
+      console.error('Failed to download invoice PDF:', error);
+    }
+  };
+
+  return (
+    <div className={cn('bg-white border border-gray-200 rounded-lg p-6 space-y-6', className)}>
+      <div className="flex items-center gap-2">
+        <Receipt className="w-5 h-5 text-muted-foreground" />
+        <h2 className="text-lg font-semibold text-gray-900">Invoices</h2>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingState message="Loading invoices..." />
+        </div>
+      ) : (
+        <>
+          {invoices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No invoices yet. Issue one for each payment in the schedule below.
+            </p>
+          ) : (
+            <ul className="divide-y border rounded-lg">
+              {invoices.map(invoice => {
+                const outdated = outdatedInvoices.find(candidate => candidate.invoice.id === invoice.id);
+
+                return (
+                  <li
+                    key={invoice.id}
+                    className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 px-4 py-3"
+                  >
+                    <div className="text-sm">
+                      <p className="font-medium text-gray-900">
+                        {invoice.number}
+                        <span className={cn('ml-2 px-2 py-0.5 text-xs rounded', STATUS_CLASSES[invoice.status])}>
+                          {INVOICE_STATUS_LABELS[invoice.status]}
+                        </span>
+                      </p>
+                      <p className="text-muted-foreground">
+                        {invoice.description} · {formatCurrency(invoice.amount, formatContext)} · due {formatDate(invoice.dueDate, formatContext)}
+                      </p>
+                      {/* An amendment changed the payment after the invoice was issued */}
+                      {outdated && (
+                        <p className="flex items-center gap-1 mt-1 text-amber-700">
+                          <AlertCircle className="w-4 h-4" />
+                          {outdated.amount > 0
+                            ? `An amendment changed this payment to ${formatCurrency(outdated.amount, formatContext)}. Void this invoice and issue a new one.`
+                            : 'An amendment removed this payment. Void this invoice.'}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDownload(invoice)}
+                        leftIcon={<Download className="w-4 h-4" />}
+                      >
+                        PDF
+                      </Button>
+                      {invoice.status === 'issued' && (
+                        <>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleMarkPaid(invoice)}
+                            disabled={isSaving}
+                            leftIcon={<CheckCircle className="w-4 h-4" />}
+                          >
+                            Mark Paid
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setPendingVoid(invoice)}
+                            disabled={isSaving}
+                            leftIcon={<Ban className="w-4 h-4" />}
+                          >
+                            Void
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {/* Scheduled payments not yet invoiced */}
+          {invoiceablePayments.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-900">Not Yet Invoiced</h3>
+              <ul className="divide-y border rounded-lg">
+                {invoiceablePayments.map(({ scheduleIndex, payment }) => (
+                  <li key={scheduleIndex} className="flex items-center justify-between gap-4 px-4 py-3">
+                    <p className="text-sm text-gray-700">
+                      {payment.label} · {formatCurrency(payment.amount, formatContext)} · due {formatDate(payment.dueDate, formatContext)}
+                    </p>
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={() => handleCreate(scheduleIndex)}
+                      disabled={isSaving}
+                      leftIcon={<FilePlus className="w-4 h-4" />}
+                    >
+                      Issue Invoice
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Void confirmation */}
+      <Modal
+        isOpen={pendingVoid !== null}
+        onClose={() => setPendingVoid(null)}
+        title="Void Invoice"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-gray-700">
+            Void invoice {pendingVoid?.number}? It stays on record but no longer asks for payment, and the
+            payment can be invoiced again under a new number.
+          </p>
+          <div className="flex justify-end gap-2 pt-4 border-t border-gray-200">
+            <Button variant="outline" onClick={() => setPendingVoid(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleConfirmVoid}
+              loading={isSaving}
+              leftIcon={<Ban className="w-4 h-4" />}
+            >
+              Void Invoice
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
\ No newline at end of file
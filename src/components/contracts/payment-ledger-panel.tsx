@@ -0,0 +1,342 @@
+import React from 'react';
+import { Plus, Trash2, Wallet } from 'lucide-react';
+import {
+  Contract,
+  ContractAmendment,
+  ContractPayment,
+  PaymentLedger,
+  PaymentMethod,
+  ScheduledPaymentStatus,
+  VendorBranding
+} from '@/types';
+import { usePaymentStore } from '@/stores/payment-store';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Modal } from '@/components/ui/modal';
+import { LoadingState } from '@/components/ui/loading-state';
+import { PAYMENT_METHODS, PAYMENT_SETTINGS } from '@/lib/constants';
+import { PAYMENT_METHOD_LABELS } from '@/lib/payment-ledger';
+import { getExecutedAmendments } from '@/lib/amendments';
+import { toLocalIsoDate } from '@/lib/payment-schedule';
+import { PaymentValidationResult, validatePaymentData } from '@/lib/validation';
+import { cn, formatCurrency, formatDate, getFormatContext } from '@/lib/utils';
+
+/**
+ * Props for the PaymentLedgerPanel component
+ */
+export interface PaymentLedgerPanelProps {
+  /** Signed contract whose payments are tracked */
+  contract: Contract;
+  /** Vendor settings whose locale amounts and dates are shown in */
+  branding?: VendorBranding | null;
+  /** Amendments of the contract; the ledger is reloaded when another one is executed */
+  amendments?: ContractAmendment[];
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Payment details as entered on the form
+ */
+interface PaymentFormData {
+  amount: string;
+  method: PaymentMethod;
+  receivedOn: string;
+  note: string;
+}
+
+const METHOD_OPTIONS = PAYMENT_METHODS.map(method => ({ value: method, label: PAYMENT_METHOD_LABELS[method] }));
+
+/**
+ * Builds an empty form, suggesting the next scheduled payment still outstanding
+ */
+const buildInitialFormData = (ledger: PaymentLedger | null): PaymentFormData => {
+  const nextPayment = ledger?.scheduledPayments.find(payment => payment.outstanding > 0);
+
+  return {
+    amount: nextPayment ? nextPayment.outstanding.toFixed(2) : '',
+    method: 'bank_transfer',
+    receivedOn: toLocalIsoDate(new Date()),
+    note: ''
+  };
+};
+
+/**
+ * Describes how far a scheduled payment has been paid
+ */
+const renderPaymentStatus = (payment: ScheduledPaymentStatus) => {
+  if (payment.outstanding === 0) {
+    return <span className="px-2 py-0.5 text-xs rounded bg-green-50 text-green-700">Paid</span>;
+  }
+  if (payment.isOverdue) {
+    return <span className="px-2 py-0.5 text-xs rounded bg-red-50 text-red-700">Overdue</span>;
+  }
+  if (payment.paid > 0) {
+    return <span className="px-2 py-0.5 text-xs rounded bg-amber-50 text-amber-700">Partly paid</span>;
+  }
+  return <span className="px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-700">Due</span>;
+};
+
+/**
+ * Payment ledger for a signed contract
+ * Shows the paid and outstanding balances, the progress of each scheduled payment and the payments
+ * received, and records new payments
+ */
+export const PaymentLedgerPanel: React.FC<PaymentLedgerPanelProps> = ({
+  contract,
+  branding,
+  amendments = [],
+  className
+}) => {
+  const { fetchLedger, recordPayment, deletePayment, isLoading: isSaving, error } = usePaymentStore();
+  const formatContext = getFormatContext(contract, branding);
+  const [ledger, setLedger] = React.useState<PaymentLedger | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [formData, setFormData] = React.useState<PaymentFormData>(() => buildInitialFormData(null));
+  const [errors, setErrors] = React.useState<PaymentValidationResult['errors']>({});
+  const [pendingDelete, setPendingDelete] = React.useState<ContractPayment | null>(null);
+  const executedAmendmentCount = getExecutedAmendments(amendments).length;
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    const loadLedger = async () => {
+      setIsLoading(true);
+      const result = await fetchLedger(contract.id);
+      if (cancelled) return;
+
+      setLedger(result);
+      setFormData(buildInitialFormData(result));
+      setIsLoading(false);
+    };
+
+    loadLedger();
+    return () => {
+      cancelled = true;
+    };
+  }, [contract.id, contract.updatedAt, executedAmendmentCount, fetchLedger]);
+
+  /**
+   * Handles input changes
+   */
+  const handleInputChange = (field: keyof PaymentFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+
+    // Clear error when user starts typing
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  /**
+   * Records the payment entered on the form
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ledger) return;
+
+    const paymentData = {
+      amount: parseFloat(formData.amount),
+      method: formData.method,
+      receivedOn: formData.receivedOn,
+      note: formData.note.trim() || undefined
+    };
+
+    const validation = validatePaymentData(paymentData, ledger.outstanding, formatContext);
+    setErrors(validation.errors);
+    if (!validation.isValid) return;
+
+    const updatedLedger = await recordPayment(contract.id, paymentData);
+    if (updatedLedger) {
+      setLedger(updatedLedger);
+      setFormData(buildInitialFormData(updatedLedger));
+    }
+  };
+
+  /**
+   * Deletes the payment awaiting confirmation
+   */
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+
+    const updatedLedger = await deletePayment(contract.id, pendingDelete.id);
+    setPendingDelete(null);
+    if (updatedLedger) {
+      setLedger(updatedLedger);
+      setFormData(buildInitialFormData(updatedLedger));
+    }
+  };
+
+  return (
+    <div className={cn('bg-white border border-gray-200 rounded-lg p-6 space-y-6', className)}>
+      <div className="flex items-center gap-2">
+        <Wallet className="w-5 h-5 text-muted-foreground" />
+        <h2 className="text-lg font-semibold text-gray-900">Payments</h2>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingState message="Loading payments..." />
+        </div>
+      ) : ledger && (
+        <>
+          {/* Balances */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="border rounded-lg p-4">
+              <p className="text-sm text-muted-foreground">Contract Total</p>
+              <p className="text-xl font-semibold">{formatCurrency(ledger.total, formatContext)}</p>
+            </div>
+            <div className="border rounded-lg p-4">
+              <p className="text-sm text-muted-foreground">Paid</p>
+              <p className="text-xl font-semibold text-green-700">{formatCurrency(ledger.paid, formatContext)}</p>
+            </div>
+            <div className="border rounded-lg p-4">
+              <p className="text-sm text-muted-foreground">Outstanding</p>
+              <p className={cn('text-xl font-semibold', ledger.outstanding > 0 ? 'text-amber-700' : 'text-gray-900')}>
+                {formatCurrency(ledger.outstanding, formatContext)}
+              </p>
+            </div>
+          </div>
+
+          {/* Schedule progress */}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-500">
+                <th className="py-2 font-medium">Payment</th>
+                <th className="py-2 font-medium">Due</th>
+                <th className="py-2 font-medium text-right">Amount</th>
+                <th className="py-2 font-medium text-right">Paid</th>
+                <th className="py-2 font-medium text-right">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {ledger.scheduledPayments.map((payment, index) => (
+                <tr key={index}>
+                  <td className="py-2 text-gray-900">{payment.label}</td>
+                  <td className="py-2 text-gray-700">{formatDate(payment.dueDate, formatContext)}</td>
+                  <td className="py-2 text-right text-gray-900">{formatCurrency(payment.amount, formatContext)}</td>
+                  <td className="py-2 text-right text-gray-700">{formatCurrency(payment.paid, formatContext)}</td>
+                  <td className="py-2 text-right">{renderPaymentStatus(payment)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Payments received */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-900">Received</h3>
+            {ledger.payments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+            ) : (
+              <ul className="divide-y border rounded-lg">
+                {ledger.payments.map(payment => (
+                  <li key={payment.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                    <div className="text-sm">
+                      <p className="font-medium text-gray-900">{formatCurrency(payment.amount, formatContext)}</p>
+                      <p className="text-muted-foreground">
+                        {formatDate(payment.receivedOn, formatContext)} · {PAYMENT_METHOD_LABELS[payment.method]}
+                        {payment.note && ` · ${payment.note}`}
+                      </p>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setPendingDelete(payment)}
+                      aria-label="Delete payment"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Record payment */}
+          {ledger.outstanding > 0 && (
+            <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+              <h3 className="text-sm font-medium text-gray-900">Record Payment</h3>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Input
+                  label="Amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) => handleInputChange('amount', e.target.value)}
+                  error={errors.amount}
+                  required
+                />
+                <Select
+                  label="Method"
+                  options={METHOD_OPTIONS}
+                  value={formData.method}
+                  onChange={(value) => handleInputChange('method', value)}
+                  error={errors.method}
+                />
+                <Input
+                  label="Received On"
+                  type="date"
+                  value={formData.receivedOn}
+                  onChange={(e) => handleInputChange('receivedOn', e.target.value)}
+                  error={errors.receivedOn}
+                  required
+                />
+              </div>
+              <Input
+                label="Note"
+                value={formData.note}
+                onChange={(e) => handleInputChange('note', e.target.value)}
+                error={errors.note}
+                maxLength={PAYMENT_SETTINGS.MAX_NOTE_LENGTH}
+                placeholder="Optional, e.g. check number"
+              />
+              <div className="flex justify-end">
+                <Button type="submit" loading={isSaving} leftIcon={<Plus className="w-4 h-4" />}>
+                  Record Payment
+                </Button>
+              </div>
+            </form>
+          )}
+        </>
+      )}
+
+      {/* Delete confirmation */}
+      <Modal
+        isOpen={pendingDelete !== null}
+        onClose={() => setPendingDelete(null)}
+        title="Delete Payment"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-gray-700">
+            Delete the {pendingDelete && formatCurrency(pendingDelete.amount, formatContext)} payment received
+            on {pendingDelete && formatDate(pendingDelete.receivedOn, formatContext)}? The outstanding balance goes up by the same
+            amount.
+          </p>
+          <div className="flex justify-end gap-2 pt-4 border-t border-gray-200">
+            <Button variant="outline" onClick={() => setPendingDelete(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleConfirmDelete}
+              loading={isSaving}
+              leftIcon={<Trash2 className="w-4 h-4" />}
+            >
+              Delete
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,189 @@
+import React from 'react';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { PaymentScheduleDraft, ScheduledPaymentDraft } from '@/types';
+import { CONTRACT_SETTINGS } from '@/lib/constants';
+import { toCents } from '@/lib/payment-schedule';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn, FormatContext, formatCurrency } from '@/lib/utils';
+
+/**
+ * Props for the PaymentScheduleEditor component
+ */
+export interface PaymentScheduleEditorProps {
+  /** Deposit and installments as entered on the form */
+  schedule: PaymentScheduleDraft;
+  /** Function called when the schedule changes */
+  onChange: (schedule: PaymentScheduleDraft) => void;
+  /** Contract amount the payments must add up to (NaN while the amount is not valid) */
+  amount: number;
+  /** Locale and currency the running total is shown in */
+  formatContext?: FormatContext;
+  /** Function called to replace the schedule with the standard deposit and final balance */
+  onReset?: () => void;
+  /** Error message to display */
+  error?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Editor for when a contract's amount is paid
+ * The deposit always comes first; installments follow in due date order and the running total is compared
+ * with the contract amount
+ */
+export const PaymentScheduleEditor: React.FC<PaymentScheduleEditorProps> = ({
+  schedule,
+  onChange,
+  amount,
+  formatContext = {},
+  onReset,
+  error,
+  className
+}) => {
+  const scheduledCents = [schedule.deposit, ...schedule.installments].reduce((total, payment) => {
+    const paymentAmount = parseFloat(payment.amount);
+    return isNaN(paymentAmount) ? total : total + toCents(paymentAmount);
+  }, 0);
+  const remainingCents = isNaN(amount) ? 0 : toCents(amount) - scheduledCents;
+
+  /**
+   * Updates one field of the deposit
+   */
+  const handleDepositChange = (field: keyof ScheduledPaymentDraft, value: string) => {
+    onChange({ ...schedule, deposit: { ...schedule.deposit, [field]: value } });
+  };
+
+  /**
+   * Updates one field of an installment
+   */
+  const handleInstallmentChange = (index: number, field: keyof ScheduledPaymentDraft, value: string) => {
+    onChange({
+      ...schedule,
+      installments: schedule.installments.map((installment, i) =>
+        i === index ? { ...installment, [field]: value } : installment
+      )
+    });
+  };
+
+  /**
+   * Adds an installment for whatever is left to schedule, due on the last due date
+   */
+  const handleAddInstallment = () => {
+    const lastPayment = schedule.installments[schedule.installments.length - 1] || schedule.deposit;
+    onChange({
+      ...schedule,
+      installments: [
+        ...schedule.installments,
+        {
+          label: `Installment ${schedule.installments.length + 1}`,
+          amount: remainingCents > 0 ? (remainingCents / 100).toFixed(2) : '',
+          dueDate: lastPayment.dueDate
+        }
+      ]
+    });
+  };
+
+  /**
+   * Removes an installment
+   */
+  const handleRemoveInstallment = (index: number) => {
+    onChange({ ...schedule, installments: schedule.installments.filter((_, i) => i !== index) });
+  };
+
+  /**
+   * Renders the inputs of one payment
+   */
+  const renderPayment = (
+    payment: ScheduledPaymentDraft,
+    onFieldChange: (field: keyof ScheduledPaymentDraft, value: string) => void,
+    removeButton?: React.ReactNode
+  ) => (
+    <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem_10rem_2.5rem] gap-4 items-end">
+      <Input
+        label="Payment"
+        value={payment.label}
+        onChange={(e) => onFieldChange('label', e.target.value)}
+        placeholder="e.g., Second installment"
+        required
+      />
+      <Input
+        label="Amount"
+        type="number"
+        min="0"
+        step="0.01"
+        value={payment.amount}
+        onChange={(e) => onFieldChange('amount', e.target.value)}
+        placeholder="0.00"
+        required
+      />
+      <Input
+        label="Due Date"
+        type="date"
+        value={payment.dueDate}
+        onChange={(e) => onFieldChange('dueDate', e.target.value)}
+        required
+      />
+      <div>{removeButton}</div>
+    </div>
+  );
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {renderPayment(schedule.deposit, handleDepositChange)}
+
+      {schedule.installments.map((installment, index) => (
+        <React.Fragment key={index}>
+          {renderPayment(
+            installment,
+            (field, value) => handleInstallmentChange(index, field, value),
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => handleRemoveInstallment(index)}
+              aria-label={`Remove installment ${index + 1}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </React.Fragment>
+      ))}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className={cn('text-sm', remainingCents === 0 ? 'text-muted-foreground' : 'text-amber-700')}>
+          Scheduled {formatCurrency(scheduledCents / 100, formatContext)}
+          {!isNaN(amount) && ` of ${formatCurrency(amount, formatContext)}`}
+          {remainingCents > 0 && ` (${formatCurrency(remainingCents / 100, formatContext)} left to schedule)`}
+          {remainingCents < 0 && ` (${formatCurrency(-remainingCents / 100, formatContext)} over)`}
+        </p>
+        <div className="flex gap-2">
+          {onReset && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={onReset}
+              leftIcon={<RotateCcw className="w-4 h-4" />}
+            >
+              Use Default
+            </Button>
+          )}
+          {schedule.installments.length < CONTRACT_SETTINGS.MAX_INSTALLMENTS && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handleAddInstallment}
+              leftIcon={<Plus className="w-4 h-4" />}
+            >
+              Add Installment
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,262 @@
+import React from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { Contract, ContractRevision, ContractSnapshot } from '@/types';
+import { useContractStore } from '@/stores/contract-store';
+import { Button } from '@/components/ui/button';
+import { Select } from '@/components/ui/select';
+import { Modal } from '@/components/ui/modal';
+import { LoadingState } from '@/components/ui/loading-state';
+import { diffHtml } from '@/lib/html-diff';
+import { describePaymentSchedule } from '@/lib/payment-schedule';
+import { DEFAULT_CURRENCY } from '@/lib/constants';
+import { cn, formatCurrency, formatDate, formatDateTime, getFormatContext } from '@/lib/utils';
+
+/**
+ * Props for the RevisionHistoryPanel component
+ */
+export interface RevisionHistoryPanelProps {
+  /** Contract whose history is shown */
+  contract: Contract;
+  /** Function called after a revision has been restored */
+  onRestored?: (contract: Contract) => void;
+  /** Locale of the vendor, which amounts and dates are shown in */
+  locale?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Labels for the non-content fields compared between revisions
+ */
+const FIELD_LABELS: Record<Exclude<keyof ContractSnapshot, 'content'>, string> = {
+  clientName: 'Client Name',
+  eventDate: 'Event Date',
+  eventVenue: 'Event Venue',
+  servicePackage: 'Service Package',
+  amount: 'Amount',
+  currency: 'Currency',
+  paymentSchedule: 'Payment Schedule'
+};
+
+/**
+ * Formats a snapshot field value for display
+ */
+const formatFieldValue = (field: keyof typeof FIELD_LABELS, snapshot: ContractSnapshot, locale?: string): string => {
+  const formatContext = getFormatContext(snapshot, { locale });
+
+  if (field === 'amount') return formatCurrency(snapshot.amount, formatContext);
+  if (field === 'currency') return snapshot.currency || DEFAULT_CURRENCY;
+  if (field === 'eventDate') return formatDate(snapshot.eventDate, formatContext);
+  if (field === 'paymentSchedule') {
+    return snapshot.paymentSchedule ? describePaymentSchedule(snapshot.paymentSchedule, formatContext) : 'None';
+  }
+  return snapshot[field];
+};
+
+/**
+ * Version history panel for a draft contract
+ * Lists every saved revision, compares any two side by side and restores an older revision
+ */
+export const RevisionHistoryPanel: React.FC<RevisionHistoryPanelProps> = ({
+  contract,
+  onRestored,
+  locale,
+  className
+}) => {
+  const { fetchRevisions, restoreRevision, isContractLoading } = useContractStore();
+  const [revisions, setRevisions] = React.useState<ContractRevision[]>([]);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [fromId, setFromId] = React.useState('');
+  const [toId, setToId] = React.useState('');
+  const [pendingRestore, setPendingRestore] = React.useState<ContractRevision | null>(null);
+
+  /**
+   * Reloads the history whenever the contract is saved or restored
+   */
+  React.useEffect(() => {
+    let cancelled = false;
+
+    const loadRevisions = async () => {
+      setIsLoading(true);
+      const history = await fetchRevisions(contract.id);
+      if (cancelled) return;
+
+      setRevisions(history);
+      // Default to comparing the latest revision with the one before it
+      setToId(history[0]?.id || '');
+      setFromId(history[1]?.id || history[0]?.id || '');
+      setIsLoading(false);
+    };
+
+    loadRevisions();
+    return () => {
+      cancelled = true;
+    };
+  }, [contract.id, contract.updatedAt, fetchRevisions]);
+
+  const fromRevision = revisions.find(revision => revision.id === fromId);
+  const toRevision = revisions.find(revision => revision.id === toId);
+
+  const contentDiff = React.useMemo(() => {
+    if (!fromRevision || !toRevision) return null;
+    return diffHtml(fromRevision.snapshot.content, toRevision.snapshot.content);
+  }, [fromRevision, toRevision]);
+
+  const changedFields = fromRevision && toRevision
+    ? (Object.keys(FIELD_LABELS) as (keyof typeof FIELD_LABELS)[]).filter(
+        field => formatFieldValue(field, fromRevision.snapshot, locale) !== formatFieldValue(field, toRevision.snapshot, locale)
+      )
+    : [];
+
+  const revisionOptions = revisions.map(revision => ({
+    value: revision.id,
+    label: `Revision ${revision.revisionNumber} · ${formatDateTime(revision.createdAt, { locale })}`
+  }));
+
+  /**
+   * Restores the revision awaiting confirmation
+   */
+  const handleConfirmRestore = async () => {
+    if (!pendingRestore) return;
+
+    const restored = await restoreRevision(contract.id, pendingRestore.id);
+    setPendingRestore(null);
+    if (restored) {
+      onRestored?.(restored);
+    }
+  };
+
+  return (
+    <div className={cn('bg-card border rounded-lg p-6 space-y-6', className)}>
+      <div className="flex items-center gap-2">
+        <History className="w-5 h-5 text-muted-foreground" />
+        <h2 className="text-lg font-semibold text-foreground">Version History</h2>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <LoadingState message="Loading history..." />
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No revisions yet. Every time you save changes, a new revision is added here.
+        </p>
+      ) : (
+        <>
+          {/* Revision list */}
+          <ul className="divide-y border rounded-lg">
+            {revisions.map((revision, index) => (
+              <li key={revision.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                <div className="text-sm">
+                  <p className="font-medium text-foreground">
+                    Revision {revision.revisionNumber}
+                    {index === 0 && <span className="ml-2 text-xs text-muted-foreground">(current)</span>}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {revision.authorName} · {formatDateTime(revision.createdAt, { locale })}
+                    {revision.restoredFrom !== undefined && ` · restored from revision ${revision.restoredFrom}`}
+                  </p>
+                </div>
+                {index > 0 && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPendingRestore(revision)}
+                    leftIcon={<RotateCcw className="w-4 h-4" />}
+                  >
+                    Restore
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {/* Comparison */}
+          {revisions.length > 1 && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Select label="Compare" options={revisionOptions} value={fromId} onChange={setFromId} />
+                <Select label="With" options={revisionOptions} value={toId} onChange={setToId} />
+              </div>
+
+              {fromRevision && toRevision && (
+                <>
+                  {changedFields.length > 0 && (
+                    <table className="w-full text-sm border rounded-lg">
+                      <tbody className="divide-y">
+                        {changedFields.map(field => (
+                          <tr key={field}>
+                            <th className="text-left font-medium px-3 py-2 w-1/4">{FIELD_LABELS[field]}</th>
+                            <td className="px-3 py-2 text-red-800 bg-red-50 line-through">
+                              {formatFieldValue(field, fromRevision.snapshot, locale)}
+                            </td>
+                            <td className="px-3 py-2 text-green-800 bg-green-50">
+                              {formatFieldValue(field, toRevision.snapshot, locale)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                  {contentDiff && !contentDiff.hasChanges && changedFields.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">These revisions are identical.</p>
+                  ) : contentDiff && (
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                      <div className="border rounded-lg overflow-hidden">
+                        <p className="px-4 py-2 bg-gray-50 border-b text-sm font-medium">
+                          Revision {fromRevision.revisionNumber}
+                        </p>
+                        <div
+                          className="prose prose-sm max-w-none p-4 max-h-96 overflow-y-auto [&_del]:bg-red-100 [&_del]:text-red-800"
+                          dangerouslySetInnerHTML={{ __html: contentDiff.before }}
+                        />
+                      </div>
+                      <div className="border rounded-lg overflow-hidden">
+                        <p className="px-4 py-2 bg-gray-50 border-b text-sm font-medium">
+                          Revision {toRevision.revisionNumber}
+                        </p>
+                        <div
+                          className="prose prose-sm max-w-none p-4 max-h-96 overflow-y-auto [&_ins]:bg-green-100 [&_ins]:text-green-800 [&_ins]:no-underline"
+                          dangerouslySetInnerHTML={{ __html: contentDiff.after }}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Restore confirmation */}
+      <Modal
+        isOpen={pendingRestore !== null}
+        onClose={() => setPendingRestore(null)}
+        title="Restore Revision"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-gray-700">
+            Restore revision {pendingRestore?.revisionNumber} as the current draft? Unsaved changes in the
+            form will be lost. The current version stays available in the history.
+          </p>
+          <div className="flex justify-end gap-2 pt-4 border-t border-gray-200">
+            <Button variant="outline" onClick={() => setPendingRestore(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConfirmRestore}
+              loading={isContractLoading}
+              leftIcon={<RotateCcw className="w-4 h-4" />}
+            >
+              Restore
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
\ No newline at end of file
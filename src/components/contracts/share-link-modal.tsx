@@ -0,0 +1,156 @@
+import React from 'react';
+import { Copy, Check, Link as LinkIcon } from 'lucide-react';
+import { Contract, ContractSigner } from '@/types';
+import { useContractStore } from '@/stores/contract-store';
+import { Modal } from '@/components/ui/modal';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { LoadingState } from '@/components/ui/loading-state';
+import { getOutstandingSigners } from '@/lib/signers';
+import { formatDate } from '@/lib/utils';
+
+/**
+ * Props for the ShareLinkModal component
+ */
+export interface ShareLinkModalProps {
+  /** Whether the modal is open */
+  isOpen: boolean;
+  /** Function to call when the modal should be closed */
+  onClose: () => void;
+  /** Contract to share with the client */
+  contract: Contract;
+  /** Locale of the vendor, which expiry dates are shown in */
+  locale?: string;
+}
+
+/**
+ * Signing link generated for one client signer
+ */
+interface SignerShareLink {
+  /** Client who signs through the link */
+  signer: ContractSigner;
+  /** Public signing URL */
+  url: string;
+  /** ISO timestamp when the link expires */
+  expiresAt: string;
+}
+
+/**
+ * Modal that generates an expiring signing link for each client who has not signed yet
+ * The vendor copies each link and sends it to that client, who signs on a public page
+ */
+export const ShareLinkModal: React.FC<ShareLinkModalProps> = ({
+  isOpen,
+  onClose,
+  contract,
+  locale
+}) => {
+  const { createShareLink, error } = useContractStore();
+  const [shareLinks, setShareLinks] = React.useState<SignerShareLink[]>([]);
+  const [isGenerating, setIsGenerating] = React.useState(false);
+  const [copiedSignerId, setCopiedSignerId] = React.useState<string | null>(null);
+
+  // Read through a ref so marking the contract as sent does not regenerate the links
+  const contractRef = React.useRef(contract);
+  contractRef.current = contract;
+
+  /**
+   * Generates a fresh link for each outstanding client each time the modal is opened
+   */
+  React.useEffect(() => {
+    if (!isOpen) return;
+
+    const generateLinks = async () => {
+      const clients = getOutstandingSigners(contractRef.current).filter(signer => signer.role === 'client');
+      setShareLinks([]);
+      setCopiedSignerId(null);
+      setIsGenerating(true);
+      try {
+        const links: SignerShareLink[] = [];
+        for (let i = 0; i < clients.length; i++) {
+          const link = await createShareLink(contractRef.current.id, clients[i].id);
+          if (link) {
+            links.push({ signer: clients[i], ...link });
+          }
+        }
+        setShareLinks(links);
+      } finally {
+        setIsGenerating(false);
+      }
+    };
+
+    generateLinks();
+  }, [isOpen, contract.id, createShareLink]);
+
+  /**
+   * Copies a signing link to the clipboard
+   */
+  const handleCopy = async (shareLink: SignerShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareLink.url);
+      setCopiedSignerId(shareLink.signer.id);
+    } catch (err) {
+      console.error('Failed to copy signing link:', err);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Send for Client Signature"
+      size="md"
+    >
+      <div className="space-y-4">
+        <p className="text-gray-700">
+          Send each client their own link. They can review and sign the contract without an account.
+        </p>
+
+        {isGenerating && (
+          <div className="flex justify-center py-4">
+            <LoadingState message="Generating signing links..." />
+          </div>
+        )}
+
+        {!isGenerating && error && shareLinks.length === 0 && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800 text-sm">{error}</p>
+          </div>
+        )}
+
+        {!isGenerating && shareLinks.map(shareLink => (
+          <div key={shareLink.signer.id} className="space-y-1">
+            <div className="flex gap-2 items-end">
+              <div className="flex-1">
+                <Input
+                  label={`${shareLink.signer.name} (${shareLink.signer.email})`}
+                  value={shareLink.url}
+                  readOnly
+                  leftIcon={<LinkIcon className="w-4 h-4" />}
+                  onFocus={(e) => e.target.select()}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => handleCopy(shareLink)}
+                leftIcon={copiedSignerId === shareLink.signer.id ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              >
+                {copiedSignerId === shareLink.signer.id ? 'Copied' : 'Copy'}
+              </Button>
+            </div>
+
+            <p className="text-sm text-gray-500">
+              Expires on {formatDate(shareLink.expiresAt, { locale })} and can only be used once.
+            </p>
+          </div>
+        ))}
+
+        <div className="flex justify-end pt-4 border-t border-gray-200">
+          <Button variant="outline" onClick={onClose}>
+            Done
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
\ No newline at end of file
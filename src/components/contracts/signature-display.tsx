@@ -11,6 +11,8 @@ import { formatSignatureForDisplay } from '@/lib/signature-utils';
 export interface SignatureDisplayProps {
   /** Signature data to display */
   signature: SignatureData;
+  /** Locale of the vendor, which the timestamp is shown in */
+  locale?: string;
   /** Whether to show the timestamp */
   showTimestamp?: boolean;
   /** Whether to show the signed status indicator */
@@ -28,13 +30,14 @@ export interface SignatureDisplayProps {
  */
 export const SignatureDisplay: React.FC<SignatureDisplayProps> = ({
   signature,
+  locale,
   showTimestamp = true,
   showStatus = true,
   size = 'md',
   className
 }) => {
   // Format signature data for display
-  const formattedSignature = formatSignatureForDisplay(signature);
+  const formattedSignature = formatSignatureForDisplay(signature, locale);
 
   const sizeClasses = {
     sm: {
@@ -112,7 +115,9 @@ export const SignatureDisplay: React.FC<SignatureDisplayProps> = ({
         {/* Timestamp */}
         {showTimestamp && (
           <p className={cn('text-gray-500 mt-2', currentSize.text)}>
-            Signed on {formattedSignature.timestamp}
+            {signature.signedBy
+              ? `Signed by ${signature.signedBy.name} (${signature.signedBy.role}) on ${formattedSignature.timestamp}`
+              : `Signed on ${formattedSignature.timestamp}`}
           </p>
         )}
       </div>
@@ -17,8 +17,8 @@ export interface SignatureModalProps {
   isOpen: boolean;
   /** Function to call when the modal should be closed */
   onClose: () => void;
-  /** Function to call when signature is confirmed */
-  onConfirm: (signature: SignatureData) => void;
+  /** Function to call when signature is confirmed, with the time the signer consented to sign electronically */
+  onConfirm: (signature: SignatureData, consentedAt: string) => void;
   /** Whether the signature is being saved */
   loading?: boolean;
 }
@@ -37,6 +37,7 @@ export const SignatureModal: React.FC<SignatureModalProps> = ({
   const [signatureType, setSignatureType] = useState<'drawn' | 'typed'>('drawn');
   const [typedSignature, setTypedSignature] = useState('');
   const [hasDrawnSignature, setHasDrawnSignature] = useState(false);
+  const [consentedAt, setConsentedAt] = useState<string | null>(null);
   
   const signatureCanvasRef = useRef<SignatureCanvas>(null);
 
@@ -48,6 +49,7 @@ export const SignatureModal: React.FC<SignatureModalProps> = ({
       setSignatureType('drawn');
       setTypedSignature('');
       setHasDrawnSignature(false);
+      setConsentedAt(null);
       if (signatureCanvasRef.current) {
         signatureCanvasRef.current.clear();
       }
@@ -79,6 +81,10 @@ export const SignatureModal: React.FC<SignatureModalProps> = ({
    * Handles signature confirmation
    */
   const handleConfirm = async () => {
+    if (!consentedAt) {
+      return;
+    }
+
     if (signatureType === 'drawn') {
       if (!signatureCanvasRef.current || signatureCanvasRef.current.isEmpty()) {
         return;
@@ -89,14 +95,14 @@ export const SignatureModal: React.FC<SignatureModalProps> = ({
       const optimizedImageData = await optimizeSignatureImage(rawImageData, 400);
       const signatureData = createSignatureData('drawn', optimizedImageData);
       
-      onConfirm(signatureData);
+      onConfirm(signatureData, consentedAt);
     } else {
       if (!typedSignature.trim()) {
         return;
       }
       
       const signatureData = createSignatureData('typed', typedSignature.trim());
-      onConfirm(signatureData);
+      onConfirm(signatureData, consentedAt);
     }
   };
 
@@ -241,6 +247,19 @@ export const SignatureModal: React.FC<SignatureModalProps> = ({
           )}
         </div>
 
+        {/* Electronic Signature Consent */}
+        <label className="flex items-start gap-3 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={consentedAt !== null}
+            onChange={(e) => setConsentedAt(e.target.checked ? new Date().toISOString() : null)}
+            className="mt-0.5 h-4 w-4 rounded border-gray-300"
+          />
+          <span>
+            I agree to sign this contract electronically and to receive it in electronic form.
+          </span>
+        </label>
+
         {/* Action Buttons */}
         <div className="flex gap-3 pt-4 border-t border-gray-200">
           <Button
@@ -255,7 +274,7 @@ export const SignatureModal: React.FC<SignatureModalProps> = ({
           
           <Button
             onClick={handleConfirm}
-            disabled={!isSignatureValid() || loading}
+            disabled={!isSignatureValid() || !consentedAt || loading}
             loading={loading}
             leftIcon={<Check className="w-4 h-4" />}
             className="flex-1"
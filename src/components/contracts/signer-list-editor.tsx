@@ -0,0 +1,111 @@
+import React from 'react';
+import { Mail, Plus, Trash2, User } from 'lucide-react';
+import { SignerDraft } from '@/types';
+import { CONTRACT_SETTINGS } from '@/lib/constants';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+/**
+ * Props for the SignerListEditor component
+ */
+export interface SignerListEditorProps {
+  /** Client signers, in signing order */
+  signers: SignerDraft[];
+  /** Function called when the signers change */
+  onChange: (signers: SignerDraft[]) => void;
+  /** Name of the vendor who countersigns */
+  vendorName?: string;
+  /** Error message to display */
+  error?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Editor for the parties who sign a contract
+ * Clients are listed in signing order; the vendor countersignature always comes last
+ */
+export const SignerListEditor: React.FC<SignerListEditorProps> = ({
+  signers,
+  onChange,
+  vendorName,
+  error,
+  className
+}) => {
+  /**
+   * Updates one field of a signer
+   */
+  const handleSignerChange = (index: number, field: keyof SignerDraft, value: string) => {
+    onChange(signers.map((signer, i) => i === index ? { ...signer, [field]: value } : signer));
+  };
+
+  /**
+   * Adds an empty client signer
+   */
+  const handleAddSigner = () => {
+    onChange([...signers, { name: '', email: '' }]);
+  };
+
+  /**
+   * Removes a client signer
+   */
+  const handleRemoveSigner = (index: number) => {
+    onChange(signers.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {signers.map((signer, index) => (
+        <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4 items-end">
+          <Input
+            label={`Client Signer ${index + 1}`}
+            value={signer.name}
+            onChange={(e) => handleSignerChange(index, 'name', e.target.value)}
+            leftIcon={<User className="w-4 h-4" />}
+            placeholder="Full name"
+            required
+          />
+          <Input
+            label="Email"
+            type="email"
+            value={signer.email}
+            onChange={(e) => handleSignerChange(index, 'email', e.target.value)}
+            leftIcon={<Mail className="w-4 h-4" />}
+            placeholder="client@example.com"
+            required
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => handleRemoveSigner(index)}
+            disabled={signers.length === 1}
+            aria-label={`Remove signer ${index + 1}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Countersigned by {vendorName || 'you'} after the clients sign.
+        </p>
+        {signers.length < CONTRACT_SETTINGS.MAX_CLIENT_SIGNERS && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleAddSigner}
+            leftIcon={<Plus className="w-4 h-4" />}
+          >
+            Add Signer
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,127 @@
+import React from 'react';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Contract, ContractVerification } from '@/types';
+import { useContractStore } from '@/stores/contract-store';
+import { LoadingState } from '@/components/ui/loading-state';
+import { cn, formatDateTime } from '@/lib/utils';
+
+/**
+ * Props for the SigningCertificatePanel component
+ */
+export interface SigningCertificatePanelProps {
+  /** Signed contract whose certificates are shown */
+  contract: Contract;
+  /** Locale of the vendor, which timestamps are shown in */
+  locale?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Certificate timestamps are shown to the second
+ */
+const TIMESTAMP_FORMAT: Intl.DateTimeFormatOptions = {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+  second: '2-digit'
+};
+
+/**
+ * Audit trail for a signed contract
+ * Shows each signing certificate and whether the stored contract still matches the signed hash
+ */
+export const SigningCertificatePanel: React.FC<SigningCertificatePanelProps> = ({
+  contract,
+  locale,
+  className
+}) => {
+  const { verifyContract } = useContractStore();
+  const [verification, setVerification] = React.useState<ContractVerification | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    const loadVerification = async () => {
+      setIsLoading(true);
+      const result = await verifyContract(contract.id);
+      if (!cancelled) {
+        setVerification(result);
+        setIsLoading(false);
+      }
+    };
+
+    loadVerification();
+    return () => {
+      cancelled = true;
+    };
+  }, [contract.id, contract.updatedAt, verifyContract]);
+
+  if (isLoading) {
+    return (
+      <div className={cn('flex justify-center py-6', className)}>
+        <LoadingState message="Verifying signatures..." />
+      </div>
+    );
+  }
+
+  // Contracts signed before certificates were issued have no audit trail
+  if (!verification || verification.certificates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn('bg-white border border-gray-200 rounded-lg p-6 space-y-4', className)}>
+      <div
+        className={cn(
+          'flex items-center gap-3 p-3 rounded-lg border',
+          verification.isIntact
+            ? 'bg-green-50 border-green-200 text-green-800'
+            : 'bg-red-50 border-red-200 text-red-800'
+        )}
+      >
+        {verification.isIntact ? (
+          <ShieldCheck className="w-5 h-5 flex-shrink-0" />
+        ) : (
+          <ShieldAlert className="w-5 h-5 flex-shrink-0" />
+        )}
+        <p className="text-sm font-medium">
+          {verification.isIntact
+            ? 'Verified: the contract has not changed since it was signed.'
+            : 'Warning: the contract was modified after it was signed.'}
+        </p>
+      </div>
+
+      <h2 className="text-lg font-semibold text-gray-900">Signing Certificate</h2>
+
+      {verification.certificates.map(({ certificate, matches }) => (
+        <dl
+          key={certificate.id}
+          className="grid grid-cols-1 sm:grid-cols-[10rem_1fr] gap-x-4 gap-y-2 text-sm border-t pt-4"
+        >
+          <dt className="text-gray-500">Signer</dt>
+          <dd className="text-gray-900">
+            {certificate.signer.name} &lt;{certificate.signer.email}&gt; ({certificate.signer.role})
+          </dd>
+          <dt className="text-gray-500">Viewed</dt>
+          <dd className="text-gray-900">{formatDateTime(certificate.viewedAt, { locale }, TIMESTAMP_FORMAT)}</dd>
+          <dt className="text-gray-500">Consented</dt>
+          <dd className="text-gray-900">{formatDateTime(certificate.consentedAt, { locale }, TIMESTAMP_FORMAT)}</dd>
+          <dt className="text-gray-500">Signed</dt>
+          <dd className="text-gray-900">{formatDateTime(certificate.signedAt, { locale }, TIMESTAMP_FORMAT)}</dd>
+          <dt className="text-gray-500">IP Address</dt>
+          <dd className="text-gray-900">{certificate.ipAddress}</dd>
+          <dt className="text-gray-500">User Agent</dt>
+          <dd className="text-gray-900 break-words">{certificate.userAgent}</dd>
+          <dt className="text-gray-500">{certificate.hashAlgorithm} Hash</dt>
+          <dd className={cn('font-mono text-xs break-all', matches ? 'text-gray-900' : 'text-red-700')}>
+            {certificate.documentHash}
+          </dd>
+        </dl>
+      ))}
+    </div>
+  );
+};
\ No newline at end of file
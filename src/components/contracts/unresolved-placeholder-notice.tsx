@@ -0,0 +1,57 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { UnresolvedPlaceholder } from '@/lib/merge-fields';
+import { cn } from '@/lib/utils';
+
+/**
+ * Props for the UnresolvedPlaceholderNotice component
+ */
+export interface UnresolvedPlaceholderNoticeProps {
+  /** Placeholders left in the contract content */
+  placeholders: UnresolvedPlaceholder[];
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const REASON_LABELS: Record<UnresolvedPlaceholder['reason'], string> = {
+  unknown: 'not a merge field',
+  missing: 'no value yet',
+  literal: 'fill in by hand'
+};
+
+/**
+ * Warning listing the placeholders that must be filled in before a contract can be sent or signed
+ * Renders nothing when there are none
+ */
+export const UnresolvedPlaceholderNotice: React.FC<UnresolvedPlaceholderNoticeProps> = ({
+  placeholders,
+  className
+}) => {
+  if (placeholders.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn('p-4 bg-amber-50 border border-amber-200 rounded-lg', className)}>
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-amber-900">
+            Fill in these placeholders before the contract can be sent or signed
+          </p>
+          <ul className="flex flex-wrap gap-2">
+            {placeholders.map(item => (
+              <li
+                key={item.placeholder}
+                className="px-2 py-1 text-xs bg-white border border-amber-200 text-amber-800 rounded"
+              >
+                <code>{item.placeholder}</code>
+                <span className="text-amber-600"> · {REASON_LABELS[item.reason]}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
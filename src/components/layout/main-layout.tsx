@@ -7,6 +7,10 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Home,
   Plus,
+  LayoutTemplate,
+  BookOpen,
+  Palette,
+  Trash2,
   LogOut,
   Menu,
   X,
@@ -65,6 +69,38 @@ export const MainLayout: React.FC<MainLayoutProps> = ({
     setIsMobileMenuOpen(false);
   };
 
+  /**
+   * Handles contract templates navigation
+   */
+  const handleTemplatesClick = () => {
+    router.push('/templates');
+    setIsMobileMenuOpen(false);
+  };
+
+  /**
+   * Handles clause library navigation
+   */
+  const handleClausesClick = () => {
+    router.push('/clauses');
+    setIsMobileMenuOpen(false);
+  };
+
+  /**
+   * Handles branding settings navigation
+   */
+  const handleBrandingClick = () => {
+    router.push('/settings');
+    setIsMobileMenuOpen(false);
+  };
+
+  /**
+   * Handles trash navigation
+   */
+  const handleTrashClick = () => {
+    router.push('/trash');
+    setIsMobileMenuOpen(false);
+  };
+
   /**
    * Toggles theme
    */
@@ -193,6 +229,46 @@ export const MainLayout: React.FC<MainLayoutProps> = ({
               <Plus className="w-4 h-4 mr-3" />
               Create New Contract
             </Button>
+
+            {/* Contract Templates */}
+            <Button
+              variant={pathname.startsWith('/templates') ? 'default' : 'ghost'}
+              className="w-full justify-start"
+              onClick={handleTemplatesClick}
+            >
+              <LayoutTemplate className="w-4 h-4 mr-3" />
+              Templates
+            </Button>
+
+            {/* Clause Library */}
+            <Button
+              variant={pathname === '/clauses' ? 'default' : 'ghost'}
+              className="w-full justify-start"
+              onClick={handleClausesClick}
+            >
+              <BookOpen className="w-4 h-4 mr-3" />
+              Clauses
+            </Button>
+
+            {/* Branding Settings */}
+            <Button
+              variant={pathname === '/settings' ? 'default' : 'ghost'}
+              className="w-full justify-start"
+              onClick={handleBrandingClick}
+            >
+              <Palette className="w-4 h-4 mr-3" />
+              Branding
+            </Button>
+
+            {/* Trash */}
+            <Button
+              variant={pathname === '/trash' ? 'default' : 'ghost'}
+              className="w-full justify-start"
+              onClick={handleTrashClick}
+            >
+              <Trash2 className="w-4 h-4 mr-3" />
+              Trash
+            </Button>
           </div>
         </aside>
 
@@ -252,6 +328,46 @@ export const MainLayout: React.FC<MainLayoutProps> = ({
                       <Plus className="w-4 h-4 mr-3" />
                       Create New Contract
                     </Button>
+
+                    {/* Contract Templates */}
+                    <Button
+                      variant={pathname.startsWith('/templates') ? 'default' : 'ghost'}
+                      className="w-full justify-start"
+                      onClick={handleTemplatesClick}
+                    >
+                      <LayoutTemplate className="w-4 h-4 mr-3" />
+                      Templates
+                    </Button>
+
+                    {/* Clause Library */}
+                    <Button
+                      variant={pathname === '/clauses' ? 'default' : 'ghost'}
+                      className="w-full justify-start"
+                      onClick={handleClausesClick}
+                    >
+                      <BookOpen className="w-4 h-4 mr-3" />
+                      Clauses
+                    </Button>
+
+                    {/* Branding Settings */}
+                    <Button
+                      variant={pathname === '/settings' ? 'default' : 'ghost'}
+                      className="w-full justify-start"
+                      onClick={handleBrandingClick}
+                    >
+                      <Palette className="w-4 h-4 mr-3" />
+                      Branding
+                    </Button>
+
+                    {/* Trash */}
+                    <Button
+                      variant={pathname === '/trash' ? 'default' : 'ghost'}
+                      className="w-full justify-start"
+                      onClick={handleTrashClick}
+                    >
+                      <Trash2 className="w-4 h-4 mr-3" />
+                      Trash
+                    </Button>
                   </div>
 
                   {/* Mobile user info */}
@@ -0,0 +1,308 @@
+import React from 'react';
+import Image from 'next/image';
+import { Building2, ImagePlus, Save, Trash2 } from 'lucide-react';
+import { BrandingSettings, VendorBranding } from '@/types';
+import { BRANDING_SETTINGS, DEFAULT_LOCALE, LOCALES, PDF_FONTS } from '@/lib/constants';
+import { validateBrandingForm, validateLogo } from '@/lib/validation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { cn, formatCurrency, formatDate, getLocaleCurrency } from '@/lib/utils';
+
+/**
+ * Props for the BrandingSettingsForm component
+ */
+export interface BrandingSettingsFormProps {
+  /** Saved branding, or null to start from defaults */
+  branding: VendorBranding | null;
+  /** Business name used when no branding has been saved */
+  defaultBusinessName: string;
+  /** Function called with validated settings when the form is saved */
+  onSave: (settings: BrandingSettings) => Promise<boolean>;
+  /** Whether a save is in progress */
+  loading?: boolean;
+  /** Error message from the last save */
+  error?: string | null;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+type BrandingField = keyof BrandingSettings;
+
+/**
+ * Display names and CSS stacks for the standard PDF fonts
+ */
+const FONT_PREVIEWS: Record<BrandingSettings['fontFamily'], { label: string; css: string }> = {
+  helvetica: { label: 'Helvetica (sans-serif)', css: 'Helvetica, Arial, sans-serif' },
+  times: { label: 'Times (serif)', css: '"Times New Roman", Times, serif' },
+  courier: { label: 'Courier (monospace)', css: '"Courier New", Courier, monospace' }
+};
+
+const fontOptions = PDF_FONTS.map(font => ({ value: font, label: FONT_PREVIEWS[font].label }));
+
+const localeOptions = LOCALES.map(locale => ({ value: locale.code, label: locale.label }));
+
+/**
+ * Form for the letterhead, colours and footer applied to a vendor's contract PDFs
+ * Shows a live preview of the letterhead as settings change
+ */
+export const BrandingSettingsForm: React.FC<BrandingSettingsFormProps> = ({
+  branding,
+  defaultBusinessName,
+  onSave,
+  loading = false,
+  error,
+  className
+}) => {
+  const [formData, setFormData] = React.useState<BrandingSettings>(() => ({
+    businessName: branding?.businessName || defaultBusinessName,
+    logo: branding?.logo,
+    accentColor: branding?.accentColor || BRANDING_SETTINGS.DEFAULT_ACCENT_COLOR,
+    fontFamily: branding?.fontFamily || 'helvetica',
+    locale: branding?.locale || DEFAULT_LOCALE,
+    businessAddress: branding?.businessAddress || '',
+    footerText: branding?.footerText || ''
+  }));
+  const [fieldErrors, setFieldErrors] = React.useState<Partial<Record<BrandingField, string>>>({});
+  const [isSaved, setIsSaved] = React.useState(false);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  /**
+   * Updates a single field and clears its error
+   */
+  const handleChange = <K extends BrandingField>(field: K, value: BrandingSettings[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setFieldErrors(prev => ({ ...prev, [field]: '' }));
+    setIsSaved(false);
+  };
+
+  /**
+   * Reads an uploaded logo into a data URL
+   */
+  const handleLogoSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const logo = typeof reader.result === 'string' ? reader.result : '';
+      const result = validateLogo(logo);
+      if (result.isValid) {
+        handleChange('logo', logo);
+      } else {
+        setFieldErrors(prev => ({ ...prev, logo: result.error }));
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  /**
+   * Validates and saves the settings
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const settings: BrandingSettings = {
+      ...formData,
+      businessName: formData.businessName.trim(),
+      businessAddress: formData.businessAddress.trim(),
+      footerText: formData.footerText.trim()
+    };
+    const validation = validateBrandingForm(settings);
+
+    setFieldErrors({
+      businessName: validation.businessName.error,
+      logo: validation.logo.error,
+      accentColor: validation.accentColor.error,
+      fontFamily: validation.fontFamily.error,
+      locale: validation.locale.error,
+      businessAddress: validation.businessAddress.error,
+      footerText: validation.footerText.error
+    });
+
+    if (validation.isValid) {
+      setIsSaved(await onSave(settings));
+    }
+  };
+
+  const previewFont = FONT_PREVIEWS[formData.fontFamily].css;
+  const localeCurrency = getLocaleCurrency(formData.locale);
+
+  return (
+    <form onSubmit={handleSubmit} className={cn('grid grid-cols-1 lg:grid-cols-2 gap-6', className)}>
+      <div className="space-y-6">
+        <Input
+          label="Business Name"
+          value={formData.businessName}
+          onChange={(e) => handleChange('businessName', e.target.value)}
+          error={fieldErrors.businessName}
+          leftIcon={<Building2 className="w-4 h-4" />}
+          required
+        />
+
+        {/* Logo */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">Logo</label>
+          <div className="flex items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/png,image/jpeg"
+              className="hidden"
+              onChange={handleLogoSelected}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              leftIcon={<ImagePlus className="w-4 h-4" />}
+            >
+              {formData.logo ? 'Replace Logo' : 'Upload Logo'}
+            </Button>
+            {formData.logo && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleChange('logo', undefined)}
+                leftIcon={<Trash2 className="w-4 h-4" />}
+              >
+                Remove
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            PNG or JPEG, up to {Math.round(BRANDING_SETTINGS.MAX_LOGO_BYTES / 1024)} KB.
+          </p>
+          {fieldErrors.logo && <p className="text-sm text-destructive">{fieldErrors.logo}</p>}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Accent Colour</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={formData.accentColor}
+                onChange={(e) => handleChange('accentColor', e.target.value)}
+                className="h-10 w-12 rounded border border-input bg-background p-1"
+                aria-label="Accent colour"
+              />
+              <Input
+                value={formData.accentColor}
+                onChange={(e) => handleChange('accentColor', e.target.value)}
+                error={fieldErrors.accentColor}
+              />
+            </div>
+          </div>
+
+          <Select
+            label="Font"
+            options={fontOptions}
+            value={formData.fontFamily}
+            onChange={(value) => handleChange('fontFamily', value as BrandingSettings['fontFamily'])}
+            error={fieldErrors.fontFamily}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Select
+            label="Locale"
+            options={localeOptions}
+            value={formData.locale || DEFAULT_LOCALE}
+            onChange={(value) => handleChange('locale', value)}
+            error={fieldErrors.locale}
+          />
+          <p className="text-xs text-muted-foreground">
+            Amounts and dates appear as {formatCurrency(2500, { locale: formData.locale, currency: localeCurrency })} on{' '}
+            {formatDate(new Date(), { locale: formData.locale })} in the app, on PDFs and in generated contract
+            text. New contracts default to {localeCurrency}.
+          </p>
+        </div>
+
+        <Textarea
+          label="Business Address"
+          value={formData.businessAddress}
+          onChange={(e) => handleChange('businessAddress', e.target.value)}
+          error={fieldErrors.businessAddress}
+          rows={3}
+          maxLength={BRANDING_SETTINGS.MAX_ADDRESS_LENGTH}
+          placeholder={'123 Main Street\nSpringfield, IL 62701'}
+        />
+
+        <Input
+          label="Footer Text"
+          value={formData.footerText}
+          onChange={(e) => handleChange('footerText', e.target.value)}
+          error={fieldErrors.footerText}
+          maxLength={BRANDING_SETTINGS.MAX_FOOTER_LENGTH}
+          placeholder="Licensed and insured · hello@example.com"
+        />
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="flex items-center justify-end gap-3">
+          {isSaved && <span className="text-sm text-green-700">Branding saved</span>}
+          <Button type="submit" loading={loading} leftIcon={<Save className="w-4 h-4" />}>
+            Save Branding
+          </Button>
+        </div>
+      </div>
+
+      {/* Letterhead preview */}
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-700">Preview</p>
+        <div
+          className="bg-white border rounded-lg shadow-sm p-6 aspect-[210/297] flex flex-col text-gray-900"
+          style={{ fontFamily: previewFont }}
+        >
+          <div
+            className="flex items-start justify-between gap-4 pb-3 border-b-2"
+            style={{ borderColor: formData.accentColor }}
+          >
+            {formData.logo ? (
+              <div className="relative h-14 w-2/5">
+                <Image
+                  src={formData.logo}
+                  alt="Logo"
+                  fill
+                  className="object-contain object-left"
+                  sizes="160px"
+                />
+              </div>
+            ) : (
+              <span />
+            )}
+            <div className="text-right">
+              <p className="font-bold" style={{ color: formData.accentColor }}>
+                {formData.businessName || 'Business Name'}
+              </p>
+              {formData.businessAddress.split('\n').map((line, index) => (
+                <p key={index} className="text-xs text-gray-500">{line}</p>
+              ))}
+            </div>
+          </div>
+
+          <p className="mt-4 text-xl" style={{ color: formData.accentColor }}>Wedding Vendor Contract</p>
+          <div className="mt-3 space-y-2 flex-1">
+            <div className="h-2 bg-gray-100 rounded w-full" />
+            <div className="h-2 bg-gray-100 rounded w-5/6" />
+            <div className="h-2 bg-gray-100 rounded w-4/6" />
+          </div>
+
+          <div className="flex justify-between gap-4 text-[10px] text-gray-400">
+            <span className="truncate">{formData.footerText}</span>
+            <span className="whitespace-nowrap">Page 1 of 1</span>
+          </div>
+        </div>
+      </div>
+    </form>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,8 @@
+/**
+ * Vendor settings components
+ * Exports all settings-related UI components for easy importing
+ */
+
+export { BrandingSettingsForm } from './branding-settings-form';
+
+export type { BrandingSettingsFormProps } from './branding-settings-form';
\ No newline at end of file
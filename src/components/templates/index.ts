@@ -0,0 +1,10 @@
+/**
+ * Contract template components
+ * Exports all template-related UI components for easy importing
+ */
+
+export { TemplateForm } from './template-form';
+export { TemplatePicker } from './template-picker';
+
+export type { TemplateFormProps } from './template-form';
+export type { TemplatePickerProps } from './template-picker';
\ No newline at end of file
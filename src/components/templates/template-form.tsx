@@ -0,0 +1,255 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Save, X } from 'lucide-react';
+import { ContractTemplate } from '@/types';
+import { useAuthStore } from '@/stores/auth-store';
+import { useTemplateStore } from '@/stores/template-store';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { RichTextEditor } from '@/components/ui/rich-text-editor';
+import { MERGE_FIELD_NAMES, TEMPLATE_SETTINGS } from '@/lib/constants';
+import { MERGE_FIELDS } from '@/lib/merge-fields';
+import { validateTemplateData } from '@/lib/validation';
+import { getClausesForVendorType } from '@/lib/clause-library';
+import { cn } from '@/lib/utils';
+
+/**
+ * Form data interface for template creation/editing
+ */
+interface TemplateFormData {
+  name: string;
+  description: string;
+  servicePackage: string;
+  amount: string;
+  content: string;
+}
+
+/**
+ * Props for the TemplateForm component
+ */
+export interface TemplateFormProps {
+  /** Existing template to edit (null for a new template) */
+  template?: ContractTemplate | null;
+  /** Function called with the template ID when the form is saved */
+  onSubmit: (templateId: string) => void;
+  /** Function called when the form is cancelled */
+  onCancel: () => void;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Form for creating and editing reusable contract templates
+ * Lists the merge fields that are filled in when a contract is created from the template
+ */
+export const TemplateForm: React.FC<TemplateFormProps> = ({
+  template,
+  onSubmit,
+  onCancel,
+  className
+}) => {
+  const { createTemplate, updateTemplate, error } = useTemplateStore();
+  const { user } = useAuthStore();
+  // Library clauses offered in the editor's insert menu
+  const clauses = user ? getClausesForVendorType(user.vendorType) : [];
+
+  const [formData, setFormData] = React.useState<TemplateFormData>({
+    name: template?.name || '',
+    description: template?.description || '',
+    servicePackage: template?.servicePackage || '',
+    amount: template?.amount?.toString() || '',
+    content: template?.content || ''
+  });
+  const [errors, setErrors] = React.useState<Partial<TemplateFormData>>({});
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const isEditing = Boolean(template);
+
+  /**
+   * Handles input changes
+   */
+  const handleInputChange = (field: keyof TemplateFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+
+    // Clear error when user starts typing
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  /**
+   * Handles form submission
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const templateData = {
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+      servicePackage: formData.servicePackage.trim(),
+      amount: formData.amount.trim() ? parseFloat(formData.amount) : undefined,
+      content: formData.content
+    };
+
+    const validation = validateTemplateData(templateData);
+    setErrors(validation.errors);
+
+    if (!validation.isValid) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      if (isEditing && template) {
+        if (await updateTemplate(template.id, templateData)) {
+          onSubmit(template.id);
+        }
+      } else {
+        const templateId = await createTemplate(templateData);
+        if (templateId) {
+          onSubmit(templateId);
+        }
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={cn('max-w-4xl mx-auto', className)}>
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">
+              {isEditing ? 'Edit Template' : 'Create New Template'}
+            </h1>
+            <p className="text-gray-600">
+              Reuse your standard terms; merge fields are filled in from each contract&apos;s details.
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              leftIcon={<X className="w-4 h-4" />}
+            >
+              Cancel
+            </Button>
+
+            <Button
+              type="submit"
+              loading={isSubmitting}
+              leftIcon={<Save className="w-4 h-4" />}
+            >
+              {isEditing ? 'Update' : 'Create'} Template
+            </Button>
+          </div>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="p-4 bg-red-50 border border-red-200 rounded-lg"
+          >
+            <p className="text-red-800">{error}</p>
+          </motion.div>
+        )}
+
+        <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-6">
+          {/* Template Details */}
+          <div className="space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">Template Details</h2>
+
+            <Input
+              label="Template Name"
+              value={formData.name}
+              onChange={(e) => handleInputChange('name', e.target.value)}
+              error={errors.name}
+              maxLength={TEMPLATE_SETTINGS.MAX_NAME_LENGTH}
+              placeholder="e.g., Full-Day Wedding Coverage"
+              required
+            />
+
+            <Textarea
+              label="Description"
+              value={formData.description}
+              onChange={(e) => handleInputChange('description', e.target.value)}
+              error={errors.description}
+              maxLength={TEMPLATE_SETTINGS.MAX_DESCRIPTION_LENGTH}
+              rows={2}
+              placeholder="When to use this template"
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Default Service Package"
+                value={formData.servicePackage}
+                onChange={(e) => handleInputChange('servicePackage', e.target.value)}
+                error={errors.servicePackage}
+                placeholder="e.g., Premium Wedding Photography"
+              />
+
+              <Input
+                label="Default Amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.amount}
+                onChange={(e) => handleInputChange('amount', e.target.value)}
+                error={errors.amount}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          {/* Template Content */}
+          <div className="space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Template Content</h2>
+              <p className="text-sm text-muted-foreground mt-1">Available merge fields:</p>
+              <div className="flex flex-wrap gap-2 mt-2">
+                {MERGE_FIELD_NAMES.map(field => (
+                  <code
+                    key={field}
+                    title={MERGE_FIELDS[field].label}
+                    className="px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded"
+                  >
+                    {`{{${field}}}`}
+                  </code>
+                ))}
+              </div>
+            </div>
+
+            <RichTextEditor
+              content={formData.content}
+              onChange={(content) => handleInputChange('content', content)}
+              clauses={clauses}
+              error={errors.content}
+              placeholder="Enter the template terms, e.g. This agreement is between {{vendorName}} and {{clientName}}..."
+              minHeight="300px"
+            />
+          </div>
+        </div>
+
+        {/* Mobile Submit Button */}
+        <div className="sm:hidden">
+          <Button
+            type="submit"
+            loading={isSubmitting}
+            leftIcon={<Save className="w-4 h-4" />}
+            className="w-full"
+          >
+            {isEditing ? 'Update' : 'Create'} Template
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,53 @@
+import React from 'react';
+import { ContractTemplate } from '@/types';
+import { Select } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+/**
+ * Props for the TemplatePicker component
+ */
+export interface TemplatePickerProps {
+  /** Templates to choose from */
+  templates: ContractTemplate[];
+  /** ID of the chosen template, or an empty string for a blank contract */
+  value: string;
+  /** Function called with the chosen template, or null for a blank contract */
+  onSelect: (template: ContractTemplate | null) => void;
+  /** Whether the picker is disabled */
+  disabled?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Picker for the template a new contract starts from
+ */
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({
+  templates,
+  value,
+  onSelect,
+  disabled = false,
+  className
+}) => {
+  const options = [
+    { value: '', label: 'Blank contract' },
+    ...templates.map(template => ({ value: template.id, label: template.name }))
+  ];
+  const selectedTemplate = templates.find(template => template.id === value);
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <Select
+        label="Start From Template"
+        options={options}
+        value={value}
+        onChange={(templateId) => onSelect(templates.find(template => template.id === templateId) || null)}
+        disabled={disabled}
+      />
+      <p className="text-sm text-muted-foreground">
+        {selectedTemplate?.description ||
+          'Choosing a template replaces the contract content and fills in its merge fields from the details above.'}
+      </p>
+    </div>
+  );
+};
\ No newline at end of file
@@ -4,7 +4,8 @@ import { AlertTriangle, Trash2, X } from 'lucide-react';
 import { Contract } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Modal } from '@/components/ui/modal';
-import { cn } from '@/lib/utils';
+import { CONTRACT_STATUS_LABELS, isExecuted } from '@/lib/contract-lifecycle';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
 
 /**
  * Props for the DeleteConfirmationDialog component
@@ -20,6 +21,8 @@ export interface DeleteConfirmationDialogProps {
   contract: Contract | null;
   /** Whether the deletion is in progress */
   loading?: boolean;
+  /** Locale of the vendor, which amounts and dates are shown in */
+  locale?: string;
   /** Additional CSS classes */
   className?: string;
 }
@@ -34,27 +37,14 @@ export const DeleteConfirmationDialog: React.FC<DeleteConfirmationDialogProps> =
   onConfirm,
   contract,
   loading = false,
+  locale,
   className
 }) => {
   if (!contract) return null;
 
-  const isSigned = contract.status === 'signed';
+  const isSigned = isExecuted(contract.status);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0
-    }).format(amount);
-  };
-
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
-  };
+  const formatContext = { locale, currency: contract.currency };
 
   return (
     <Modal
@@ -81,8 +71,8 @@ export const DeleteConfirmationDialog: React.FC<DeleteConfirmationDialogProps> =
             
             <p className="text-muted-foreground">
               {isSigned 
-                ? 'You are about to delete a signed contract. This action cannot be undone and may have legal implications.'
-                : 'Are you sure you want to delete this contract? This action cannot be undone.'
+                ? 'You are about to delete a signed contract. It will move to the Trash and may have legal implications.'
+                : 'Are you sure you want to delete this contract? It will move to the Trash.'
               }
             </p>
           </div>
@@ -100,7 +90,7 @@ export const DeleteConfirmationDialog: React.FC<DeleteConfirmationDialogProps> =
             
             <div>
               <span className="text-muted-foreground">Event Date:</span>
-              <p className="font-medium text-foreground">{formatDate(contract.eventDate)}</p>
+              <p className="font-medium text-foreground">{formatDate(contract.eventDate, formatContext)}</p>
             </div>
             
             <div>
@@ -110,7 +100,7 @@ export const DeleteConfirmationDialog: React.FC<DeleteConfirmationDialogProps> =
             
             <div>
               <span className="text-muted-foreground">Amount:</span>
-              <p className="font-medium text-foreground">{formatCurrency(contract.amount)}</p>
+              <p className="font-medium text-foreground">{formatCurrency(contract.amount, formatContext, { minimumFractionDigits: 0 })}</p>
             </div>
           </div>
 
@@ -128,7 +118,7 @@ export const DeleteConfirmationDialog: React.FC<DeleteConfirmationDialogProps> =
                 ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
                 : 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
             )}>
-              {contract.status.charAt(0).toUpperCase() + contract.status.slice(1)}
+              {CONTRACT_STATUS_LABELS[contract.status]}
             </span>
           </div>
         </div>
@@ -162,9 +152,9 @@ export const DeleteConfirmationDialog: React.FC<DeleteConfirmationDialogProps> =
             To confirm deletion, please understand that:
           </p>
           <ul className="text-sm text-muted-foreground space-y-1 list-disc list-inside">
-            <li>This action cannot be undone</li>
-            <li>All contract data will be permanently removed</li>
-            {isSigned && <li>Digital signature records will be lost</li>}
+            <li>The contract can be restored from the Trash until the retention period ends</li>
+            <li>After that, all contract data will be permanently removed</li>
+            {isSigned && <li>Digital signature records will be lost when it is permanently removed</li>}
             <li>This may affect your business records</li>
           </ul>
         </div>
@@ -1,8 +1,9 @@
 import React from "react";
-import { useEditor, EditorContent } from "@tiptap/react";
+import { useEditor, EditorContent, mergeAttributes, Node as TiptapNode } from "@tiptap/react";
 import StarterKit from "@tiptap/starter-kit";
 import { motion } from "framer-motion";
 import {
+  BookOpen,
   Bold,
   Italic,
   List,
@@ -11,6 +12,12 @@ import {
   Undo,
   Redo,
 } from "lucide-react";
+import { Clause } from "@/types";
+import {
+  CLAUSE_CATEGORY_LABELS,
+  getCurrentClauseVersion,
+  renderClauseHtml,
+} from "@/lib/clause-library";
 import { cn } from "@/lib/utils";
 import { Button } from "./button";
 
@@ -34,8 +41,44 @@ export interface RichTextEditorProps {
   disabled?: boolean;
   /** Minimum height of the editor */
   minHeight?: string;
+  /** Library clauses offered in the toolbar's insert menu (hides the menu when omitted) */
+  clauses?: Clause[];
 }
 
+/**
+ * Block holding an inserted library clause
+ * Keeps the clause ID and version in the saved HTML so outdated clauses can be found later.
+ */
+const ClauseBlock = TiptapNode.create({
+  name: "clauseBlock",
+  group: "block",
+  content: "block+",
+  defining: true,
+
+  addAttributes() {
+    return {
+      clauseId: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-clause-id"),
+        renderHTML: (attributes) => ({ "data-clause-id": attributes.clauseId }),
+      },
+      version: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-clause-version"),
+        renderHTML: (attributes) => ({ "data-clause-version": attributes.version }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: "div[data-clause-id]" }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["div", mergeAttributes(HTMLAttributes), 0];
+  },
+});
+
 /**
  * Rich text editor component using TipTap with mobile-optimized touch interactions
  * Features formatting toolbar, responsive design, and accessibility support
@@ -49,7 +92,10 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
   className,
   disabled = false,
   minHeight = "200px",
+  clauses,
 }) => {
+  const [isClauseMenuOpen, setIsClauseMenuOpen] = React.useState(false);
+
   const editor = useEditor({
     extensions: [
       StarterKit.configure({
@@ -57,6 +103,7 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
           levels: [1, 2, 3],
         },
       }),
+      ClauseBlock,
     ],
     content,
     onUpdate: ({ editor }) => {
@@ -85,6 +132,14 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
     return null;
   }
 
+  /**
+   * Inserts the current version of a library clause at the cursor
+   */
+  const handleInsertClause = (clause: Clause) => {
+    editor.chain().focus().insertContent(renderClauseHtml(clause)).run();
+    setIsClauseMenuOpen(false);
+  };
+
   const ToolbarButton: React.FC<{
     onClick: () => void;
     isActive?: boolean;
@@ -172,6 +227,44 @@ export const RichTextEditor: React.FC<RichTextEditorProps> = ({
             <Quote className="w-4 h-4" />
           </ToolbarButton>
 
+          {clauses && clauses.length > 0 && (
+            <>
+              <div className="w-px h-6 bg-gray-300 mx-1" />
+
+              <div className="relative">
+                <ToolbarButton
+                  onClick={() => setIsClauseMenuOpen((isOpen) => !isOpen)}
+                  isActive={isClauseMenuOpen}
+                  disabled={disabled}
+                  title="Insert Clause"
+                >
+                  <BookOpen className="w-4 h-4" />
+                </ToolbarButton>
+
+                {isClauseMenuOpen && (
+                  <div className="absolute left-0 top-full mt-1 z-20 w-72 max-h-80 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg py-1">
+                    {clauses.map((clause) => (
+                      <button
+                        key={clause.id}
+                        type="button"
+                        onClick={() => handleInsertClause(clause)}
+                        className="w-full text-left px-3 py-2 hover:bg-gray-50 focus:outline-none focus:bg-gray-50"
+                      >
+                        <span className="block text-sm font-medium text-gray-900">
+                          {clause.name}
+                        </span>
+                        <span className="block text-xs text-gray-500">
+                          {CLAUSE_CATEGORY_LABELS[clause.category]} · Version{" "}
+                          {getCurrentClauseVersion(clause).version}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
           <div className="w-px h-6 bg-gray-300 mx-1" />
 
           <ToolbarButton
@@ -2,13 +2,21 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { 
   CheckCircle, 
+  CheckCheck,
   Clock, 
   AlertCircle, 
   XCircle, 
   FileText,
   PenTool,
+  Send,
+  Eye,
+  Ban,
+  CalendarX,
+  Trash2,
   Loader2
 } from 'lucide-react';
+import { ContractStatus } from '@/types';
+import { CONTRACT_STATUS_LABELS } from '@/lib/contract-lifecycle';
 import { cn } from '@/lib/utils';
 
 /**
@@ -16,7 +24,14 @@ import { cn } from '@/lib/utils';
  */
 export type StatusType = 
   | 'draft' 
+  | 'sent' 
+  | 'viewed' 
+  | 'partially_signed' 
   | 'signed' 
+  | 'completed' 
+  | 'cancelled' 
+  | 'expired' 
+  | 'deleted' 
   | 'pending' 
   | 'error' 
   | 'loading' 
@@ -64,12 +79,54 @@ const statusConfig: Record<StatusType, {
     colorClasses: 'text-yellow-600',
     bgClasses: 'bg-yellow-100 border-yellow-200'
   },
+  sent: {
+    icon: <Send className="w-4 h-4" />,
+    label: 'Sent',
+    colorClasses: 'text-blue-600',
+    bgClasses: 'bg-blue-100 border-blue-200'
+  },
+  viewed: {
+    icon: <Eye className="w-4 h-4" />,
+    label: 'Viewed',
+    colorClasses: 'text-indigo-600',
+    bgClasses: 'bg-indigo-100 border-indigo-200'
+  },
+  partially_signed: {
+    icon: <PenTool className="w-4 h-4" />,
+    label: 'Partially Signed',
+    colorClasses: 'text-orange-600',
+    bgClasses: 'bg-orange-100 border-orange-200'
+  },
   signed: {
     icon: <CheckCircle className="w-4 h-4" />,
     label: 'Signed',
     colorClasses: 'text-green-600',
     bgClasses: 'bg-green-100 border-green-200'
   },
+  completed: {
+    icon: <CheckCheck className="w-4 h-4" />,
+    label: 'Completed',
+    colorClasses: 'text-emerald-700',
+    bgClasses: 'bg-emerald-100 border-emerald-200'
+  },
+  cancelled: {
+    icon: <Ban className="w-4 h-4" />,
+    label: 'Cancelled',
+    colorClasses: 'text-gray-600',
+    bgClasses: 'bg-gray-100 border-gray-200'
+  },
+  expired: {
+    icon: <CalendarX className="w-4 h-4" />,
+    label: 'Expired',
+    colorClasses: 'text-gray-600',
+    bgClasses: 'bg-gray-100 border-gray-200'
+  },
+  deleted: {
+    icon: <Trash2 className="w-4 h-4" />,
+    label: 'Deleted',
+    colorClasses: 'text-red-600',
+    bgClasses: 'bg-red-100 border-red-200'
+  },
   pending: {
     icon: <Clock className="w-4 h-4" />,
     label: 'Pending',
@@ -171,21 +228,17 @@ export const StatusIndicator: React.FC<StatusIndicatorProps> = ({
 
 /**
  * Contract-specific status indicator
+ * Every contract status has its own style; labels come from the contract lifecycle.
  */
 export const ContractStatusIndicator: React.FC<{
-  status: 'draft' | 'signed' | 'deleted';
+  status: ContractStatus;
   size?: StatusSize;
   className?: string;
 }> = ({ status, size = 'md', className }) => {
-  const statusMap = {
-    draft: 'draft' as StatusType,
-    signed: 'signed' as StatusType,
-    deleted: 'error' as StatusType
-  };
-
   return (
     <StatusIndicator
-      status={statusMap[status]}
+      status={status}
+      label={CONTRACT_STATUS_LABELS[status]}
       size={size}
       className={className}
     />
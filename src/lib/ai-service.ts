@@ -1,4 +1,9 @@
-import { User } from "@/types";
+import { CurrencyCode, PaymentSchedule, User } from "@/types";
+import { getClauseHtml } from "./clause-library";
+import { buildDefaultPaymentSchedule, describePaymentSchedule } from "./payment-schedule";
+import { validatePaymentSchedule } from "./validation";
+import { formatCurrency, formatDate } from "./utils";
+import { CURRENCIES, LOCALES } from "./constants";
 
 /**
  * AI content generation request interface
@@ -16,6 +21,12 @@ export interface AIContentRequest {
   servicePackage: string;
   /** Contract amount */
   amount: number;
+  /** Currency of the contract amount (defaults to USD) */
+  currency?: CurrencyCode;
+  /** Locale of the vendor, which amounts and dates are written in (defaults to en-US) */
+  locale?: string;
+  /** Payment schedule entered on the contract form, if any */
+  paymentSchedule?: PaymentSchedule;
   /** Vendor name for personalization */
   vendorName: string;
 }
@@ -161,33 +172,36 @@ export async function generateAIContent(
   }
 }
 
+/**
+ * Describes the payment terms of a content request
+ * Falls back to the standard schedule when the form's schedule is missing or does not add up yet.
+ * @param request - AI content generation request
+ * @returns Payment terms sentence listing each payment
+ */
+export function getPaymentTermsText(request: AIContentRequest): string {
+  const schedule = request.paymentSchedule && validatePaymentSchedule(request.paymentSchedule, request.amount).isValid
+    ? request.paymentSchedule
+    : buildDefaultPaymentSchedule(request.amount, request.eventDate);
+
+  return describePaymentSchedule(schedule, request);
+}
+
 /**
  * Generates fallback contract content using templates when AI is unavailable
  * @param request - AI content generation request
  * @returns Personalized contract content based on templates
  */
 export function generateFallbackContent(request: AIContentRequest): string {
-  const eventDate = new Date(request.eventDate).toLocaleDateString("en-US", {
+  const eventDate = formatDate(request.eventDate, request, {
     weekday: "long",
     year: "numeric",
     month: "long",
     day: "numeric",
   });
 
-  const amount = request.amount.toLocaleString("en-US", {
-    style: "currency",
-    currency: "USD",
-  });
+  const amount = formatCurrency(request.amount, request);
 
-  const depositAmount = (request.amount * 0.5).toLocaleString("en-US", {
-    style: "currency",
-    currency: "USD",
-  });
-
-  const balanceAmount = (request.amount * 0.5).toLocaleString("en-US", {
-    style: "currency",
-    currency: "USD",
-  });
+  const paymentTerms = getPaymentTermsText(request);
 
   // Generate service-specific contract based on vendor type
   switch (request.vendorType) {
@@ -196,32 +210,28 @@ export function generateFallbackContent(request: AIContentRequest): string {
         request,
         eventDate,
         amount,
-        depositAmount,
-        balanceAmount
+        paymentTerms
       );
     case "caterer":
       return generateCateringContract(
         request,
         eventDate,
         amount,
-        depositAmount,
-        balanceAmount
+        paymentTerms
       );
     case "florist":
       return generateFloralContract(
         request,
         eventDate,
         amount,
-        depositAmount,
-        balanceAmount
+        paymentTerms
       );
     default:
       return generateGenericContract(
         request,
         eventDate,
         amount,
-        depositAmount,
-        balanceAmount
+        paymentTerms
       );
   }
 }
@@ -233,12 +243,11 @@ function generatePhotographyContract(
   request: AIContentRequest,
   eventDate: string,
   amount: string,
-  depositAmount: string,
-  balanceAmount: string
+  paymentTerms: string
 ): string {
   return `WEDDING PHOTOGRAPHY CONTRACT
 
-This Wedding Photography Contract ("Agreement") is made and entered into on ${new Date().toLocaleDateString()} by and between ${
+This Wedding Photography Contract ("Agreement") is made and entered into on ${formatDate(new Date(), request)} by and between ${
     request.vendorName
   } ("Photographer") and ${request.clientName} ("Client").
 
@@ -252,22 +261,19 @@ The photography package includes:
 ${request.servicePackage}
 
 PAYMENT TERMS
-The total fee for the photography services is ${amount}. A non-refundable retainer of 50% of the total (${depositAmount}) is due upon signing this Agreement. The remaining balance of ${balanceAmount} is due 30 days prior to the Event date.
+The total fee for the photography services is ${amount}. ${paymentTerms} The deposit is a non-refundable retainer.
 
-CANCELLATION & RESCHEDULING
-If Client needs to cancel or reschedule the Event, written notice must be provided to Photographer at least 90 days in advance. In the event of a cancellation, the retainer is non-refundable. Rescheduling is subject to Photographer's availability, and any date changes within 90 days of the Event may incur additional fees.
+${getClauseHtml("cancellation-photography")}
 
 IMAGE DELIVERY
 Photographer will deliver the final edited images to Client within 4-6 weeks following the Event. Images will be provided in high-resolution digital format via online gallery and USB drive.
 
-COPYRIGHT & USAGE RIGHTS
-Photographer retains the copyright to all images captured during the Event. Client is granted a non-exclusive license to use the delivered images for personal, non-commercial purposes, including printing, sharing on social media, and making digital copies. Any commercial use of the images requires written permission from Photographer.
+${getClauseHtml("copyright-photography")}
 
 BACKUP & CONTINGENCY
 Photographer will bring backup camera equipment to the Event and will have contingency plans in place to ensure continuous coverage in the event of equipment failure or other unforeseen circumstances.
 
-PROFESSIONAL CONDUCT
-Photographer agrees to conduct themselves in a professional manner throughout the Event and to work collaboratively with Client and any other vendors or event staff. Client agrees to provide Photographer with reasonable access and cooperation to facilitate the photography services.
+${getClauseHtml("conduct-photography")}
 
 This Wedding Photography Contract constitutes the entire agreement between the parties and supersedes all prior negotiations, representations, or agreements relating to the subject matter herein.`;
 }
@@ -279,12 +285,11 @@ function generateCateringContract(
   request: AIContentRequest,
   eventDate: string,
   amount: string,
-  depositAmount: string,
-  balanceAmount: string
+  paymentTerms: string
 ): string {
   return `WEDDING CATERING CONTRACT
 
-This Wedding Catering Contract ("Agreement") is made and entered into on ${new Date().toLocaleDateString()} by and between ${
+This Wedding Catering Contract ("Agreement") is made and entered into on ${formatDate(new Date(), request)} by and between ${
     request.vendorName
   } ("Caterer") and ${request.clientName} ("Client").
 
@@ -298,13 +303,12 @@ The catering package includes:
 ${request.servicePackage}
 
 PAYMENT TERMS
-The total fee for the catering services is ${amount}. A non-refundable deposit of 50% of the total (${depositAmount}) is due upon signing this Agreement. The remaining balance of ${balanceAmount} is due 14 days prior to the Event date.
+The total fee for the catering services is ${amount}. ${paymentTerms} The deposit is non-refundable.
 
 GUEST COUNT & FINAL DETAILS
 Client must provide final guest count and any dietary restrictions no later than 7 days prior to the Event. Any increase in guest count after this deadline may result in additional charges.
 
-CANCELLATION & RESCHEDULING
-If Client needs to cancel or reschedule the Event, written notice must be provided to Caterer at least 30 days in advance. In the event of a cancellation, the deposit is non-refundable. Rescheduling is subject to Caterer's availability.
+${getClauseHtml("cancellation-catering")}
 
 SERVICE & SETUP
 Caterer will arrive at the venue at the agreed-upon time for setup and food preparation. Service staff will be provided as part of the package. Cleanup of catering areas and removal of catering equipment is included in the service.
@@ -312,8 +316,7 @@ Caterer will arrive at the venue at the agreed-upon time for setup and food prep
 VENUE REQUIREMENTS
 Client is responsible for ensuring the venue has adequate kitchen facilities, electrical power, and water access as required for the catering service. Any additional equipment rental costs will be discussed in advance.
 
-LIABILITY & INSURANCE
-Caterer maintains appropriate liability insurance and food service permits. Client agrees to hold Caterer harmless from any claims arising from the consumption of food and beverages served at the Event.
+${getClauseHtml("liability-catering")}
 
 This Wedding Catering Contract constitutes the entire agreement between the parties and supersedes all prior negotiations, representations, or agreements relating to the subject matter herein.`;
 }
@@ -325,12 +328,11 @@ function generateFloralContract(
   request: AIContentRequest,
   eventDate: string,
   amount: string,
-  depositAmount: string,
-  balanceAmount: string
+  paymentTerms: string
 ): string {
   return `WEDDING FLORAL CONTRACT
 
-This Wedding Floral Contract ("Agreement") is made and entered into on ${new Date().toLocaleDateString()} by and between ${
+This Wedding Floral Contract ("Agreement") is made and entered into on ${formatDate(new Date(), request)} by and between ${
     request.vendorName
   } ("Florist") and ${request.clientName} ("Client").
 
@@ -344,7 +346,7 @@ The floral package includes:
 ${request.servicePackage}
 
 PAYMENT TERMS
-The total fee for the floral services is ${amount}. A non-refundable deposit of 50% of the total (${depositAmount}) is due upon signing this Agreement. The remaining balance of ${balanceAmount} is due 14 days prior to the Event date.
+The total fee for the floral services is ${amount}. ${paymentTerms} The deposit is non-refundable.
 
 DESIGN CONSULTATION
 Florist will work with Client to finalize floral designs, color schemes, and specific flower selections. Any changes to the original design after final approval may result in additional charges.
@@ -358,8 +360,7 @@ Florist will make every effort to provide the specific flowers requested. Howeve
 CARE & LONGEVITY
 Fresh flowers are perishable and their longevity depends on environmental conditions. Florist cannot guarantee the condition of flowers beyond the Event day, especially in extreme weather conditions.
 
-CANCELLATION & CHANGES
-If Client needs to cancel or make significant changes to the floral order, written notice must be provided at least 14 days in advance. Cancellations within 14 days of the Event may result in partial or full forfeiture of the deposit.
+${getClauseHtml("cancellation-floral")}
 
 This Wedding Floral Contract constitutes the entire agreement between the parties and supersedes all prior negotiations, representations, or agreements relating to the subject matter herein.`;
 }
@@ -371,12 +372,11 @@ function generateGenericContract(
   request: AIContentRequest,
   eventDate: string,
   amount: string,
-  depositAmount: string,
-  balanceAmount: string
+  paymentTerms: string
 ): string {
   return `WEDDING VENDOR SERVICE CONTRACT
 
-This Service Contract ("Agreement") is made and entered into on ${new Date().toLocaleDateString()} by and between ${
+This Service Contract ("Agreement") is made and entered into on ${formatDate(new Date(), request)} by and between ${
     request.vendorName
   } ("Vendor") and ${request.clientName} ("Client").
 
@@ -390,7 +390,7 @@ The service package includes:
 ${request.servicePackage}
 
 PAYMENT TERMS
-The total fee for the services is ${amount}. A deposit of 50% of the total (${depositAmount}) is due upon signing this Agreement. The remaining balance of ${balanceAmount} is due 30 days prior to the Event date.
+The total fee for the services is ${amount}. ${paymentTerms}
 
 CANCELLATION POLICY
 If Client needs to cancel the Event, written notice must be provided to Vendor at least 30 days in advance. Cancellation fees may apply based on the timing of the cancellation notice.
@@ -398,8 +398,7 @@ If Client needs to cancel the Event, written notice must be provided to Vendor a
 PROFESSIONAL CONDUCT
 Vendor agrees to provide services in a professional manner and to coordinate appropriately with other vendors and venue staff. Client agrees to provide reasonable access and cooperation to facilitate the services.
 
-FORCE MAJEURE
-Neither party shall be liable for any failure to perform due to circumstances beyond their reasonable control, including but not limited to acts of God, natural disasters, or government restrictions.
+${getClauseHtml("force-majeure")}
 
 This Service Contract constitutes the entire agreement between the parties and supersedes all prior negotiations, representations, or agreements relating to the subject matter herein.`;
 }
@@ -452,6 +451,14 @@ export function validateAIRequest(request: Partial<AIContentRequest>): {
     errors.push("Vendor name is required");
   }
 
+  if (request.currency && (CURRENCIES as readonly string[]).indexOf(request.currency) === -1) {
+    errors.push(`Currency must be one of ${CURRENCIES.join(", ")}`);
+  }
+
+  if (request.locale && !LOCALES.some((locale) => locale.code === request.locale)) {
+    errors.push("Locale is not supported");
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
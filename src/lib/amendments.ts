@@ -0,0 +1,101 @@
+import { Contract, ContractAmendment, ContractSigner } from '@/types';
+import { getContractSigners } from './signers';
+import { toCents } from './payment-schedule';
+import { FormatContext, formatCurrency } from './utils';
+
+/**
+ * Helpers for amendments to signed contracts
+ */
+
+/**
+ * Builds the signer list of a new amendment: the parties who signed the contract, without their signatures
+ * Signer IDs are kept, so each party is recognisable across the contract and its amendments.
+ * @param contract - Signed contract being amended
+ * @returns Unsigned signers in signature block order
+ */
+export function buildAmendmentSigners(contract: Contract): ContractSigner[] {
+  return getContractSigners(contract).map(signer => ({
+    id: signer.id,
+    role: signer.role,
+    name: signer.name,
+    email: signer.email
+  }));
+}
+
+/**
+ * Gets the signers of an amendment who have not signed yet
+ * @param amendment - Amendment to inspect
+ * @returns Outstanding signers, in signature block order
+ */
+export function getOutstandingAmendmentSigners(amendment: ContractAmendment): ContractSigner[] {
+  return amendment.signers.filter(signer => !signer.signature);
+}
+
+/**
+ * Checks whether an amendment can still be edited
+ * Only drafts can be edited; once sent, signers must see the text they were sent.
+ * @param amendment - Amendment to check
+ * @returns True if the amendment is a draft
+ */
+export function isAmendmentEditable(amendment: ContractAmendment): boolean {
+  return amendment.status === 'draft';
+}
+
+/**
+ * Gets the amendments every party has signed, in the order they amend the contract
+ * @param amendments - Amendments of a contract
+ * @returns Executed amendments by number
+ */
+export function getExecutedAmendments(amendments: ContractAmendment[]): ContractAmendment[] {
+  return amendments
+    .filter(amendment => amendment.status === 'signed')
+    .sort((a, b) => a.number - b.number);
+}
+
+/**
+ * Works out what a contract is worth once its executed amendments are applied
+ * @param contract - Amended contract
+ * @param amendments - Amendments of the contract; only executed ones count
+ * @returns Contract amount plus the amount changes of executed amendments
+ */
+export function getEffectiveAmount(contract: Contract, amendments: ContractAmendment[]): number {
+  const totalCents = getExecutedAmendments(amendments)
+    .reduce((sum, amendment) => sum + toCents(amendment.amountDelta), toCents(contract.amount));
+  return totalCents / 100;
+}
+
+/**
+ * Checks whether a contract can take an amendment's amount change
+ * Reductions are checked again when signed, since other amendments may have been executed since they were drafted.
+ * @param contract - Amended contract
+ * @param amendments - Amendments of the contract; only executed ones count
+ * @param amountDelta - Amount the amendment adds to or takes off the contract
+ * @param paid - Amount already paid against the contract
+ * @returns True if the contract stays worth more than zero and no less than has been paid
+ */
+export function canApplyAmountDelta(
+  contract: Contract,
+  amendments: ContractAmendment[],
+  amountDelta: number,
+  paid: number
+): boolean {
+  if (amountDelta >= 0) {
+    return true;
+  }
+
+  const amountCents = toCents(getEffectiveAmount(contract, amendments)) + toCents(amountDelta);
+  return amountCents > 0 && amountCents >= toCents(paid);
+}
+
+/**
+ * Formats the amount change of an amendment with its sign, e.g. "+$500.00" or "-$250.00"
+ * @param amountDelta - Amount the amendment adds to or takes off the contract
+ * @param context - Locale and currency to format in
+ * @returns Signed amount, or "No change" when the amendment leaves the amount as it is
+ */
+export function formatAmountDelta(amountDelta: number, context: FormatContext = {}): string {
+  if (amountDelta === 0) {
+    return 'No change';
+  }
+  return `${amountDelta > 0 ? '+' : '-'}${formatCurrency(Math.abs(amountDelta), context)}`;
+}
\ No newline at end of file
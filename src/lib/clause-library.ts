@@ -0,0 +1,305 @@
+import { Clause, ClauseCategory, ClauseVersion, Contract, OutdatedClauseUsage, User } from '@/types';
+import { escapeHtml, HtmlNode, parseHtml } from './html-parser';
+
+/**
+ * Library of standard contract clauses
+ * Inserted clauses are wrapped in a `<div data-clause-id data-clause-version>` block, so the version a
+ * contract uses can be compared with the current one after the library wording changes.
+ */
+
+/**
+ * Library clause found in contract content
+ */
+export interface ClauseUsage {
+  /** ID of the clause */
+  clauseId: string;
+  /** Version inserted into the content */
+  version: number;
+}
+
+/**
+ * Display names of clause categories
+ */
+export const CLAUSE_CATEGORY_LABELS: Record<ClauseCategory, string> = {
+  payment: 'Payment',
+  cancellation: 'Cancellation',
+  force_majeure: 'Force Majeure',
+  copyright: 'Copyright',
+  liability: 'Liability',
+  conduct: 'Conduct'
+};
+
+const ALL_VENDOR_TYPES: User['vendorType'][] = ['photographer', 'caterer', 'florist'];
+
+/**
+ * Every clause in the library
+ * Publish a changed wording as a new version rather than editing an existing one.
+ */
+export const CLAUSE_LIBRARY: Clause[] = [
+  {
+    id: 'late-payment',
+    name: 'Late Payment',
+    category: 'payment',
+    vendorTypes: ALL_VENDOR_TYPES,
+    versions: [
+      {
+        version: 1,
+        paragraphs: [
+          'Payments not received by their due date may incur a late fee of 1.5% of the outstanding amount per month. If the balance remains unpaid 7 days before the Event, the services under this Agreement may be suspended until payment is received.'
+        ],
+        publishedAt: '2025-01-15',
+        changeNote: 'Initial version'
+      }
+    ]
+  },
+  {
+    id: 'cancellation-photography',
+    name: 'Cancellation & Rescheduling',
+    category: 'cancellation',
+    vendorTypes: ['photographer'],
+    versions: [
+      {
+        version: 1,
+        paragraphs: [
+          "If Client needs to cancel or reschedule the Event, written notice must be provided to Photographer at least 90 days in advance. In the event of a cancellation, the retainer is non-refundable. Rescheduling is subject to Photographer's availability, and any date changes within 90 days of the Event may incur additional fees."
+        ],
+        publishedAt: '2025-01-15',
+        changeNote: 'Initial version'
+      }
+    ]
+  },
+  {
+    id: 'cancellation-catering',
+    name: 'Cancellation & Rescheduling',
+    category: 'cancellation',
+    vendorTypes: ['caterer'],
+    versions: [
+      {
+        version: 1,
+        paragraphs: [
+          "If Client needs to cancel or reschedule the Event, written notice must be provided to Caterer at least 30 days in advance. In the event of a cancellation, the deposit is non-refundable. Rescheduling is subject to Caterer's availability."
+        ],
+        publishedAt: '2025-01-15',
+        changeNote: 'Initial version'
+      }
+    ]
+  },
+  {
+    id: 'cancellation-floral',
+    name: 'Cancellation & Changes',
+    category: 'cancellation',
+    vendorTypes: ['florist'],
+    versions: [
+      {
+        version: 1,
+        paragraphs: [
+          'If Client needs to cancel or make significant changes to the floral order, written notice must be provided at least 14 days in advance. Cancellations within 14 days of the Event may result in partial or full forfeiture of the deposit.'
+        ],
+        publishedAt: '2025-01-15',
+        changeNote: 'Initial version'
+      }
+    ]
+  },
+  {
+    id: 'force-majeure',
+    name: 'Force Majeure',
+    category: 'force_majeure',
+    vendorTypes: ALL_VENDOR_TYPES,
+    versions: [
+      {
+        version: 1,
+        paragraphs: [
+          'Neither party shall be liable for any failure to perform due to circumstances beyond their reasonable control, including but not limited to acts of God, natural disasters, or government restrictions.'
+        ],
+        publishedAt: '2025-01-15',
+        changeNote: 'Initial version'
+      },
+      {
+        version: 2,
+        paragraphs: [
+          'Neither party shall be liable for any failure to perform due to circumstances beyond their reasonable control, including but not limited to acts of God, natural disasters, public health emergencies, or government restrictions.',
+          'If the Event cannot take place for such a reason, the parties will first try in good faith to reschedule it, and payments already made will be applied to the new date.'
+        ],
+        publishedAt: '2026-03-01',
+        changeNote: 'Covers public health emergencies and applies payments made to a rescheduled date'
+      }
+    ]
+  },
+  {
+    id: 'copyright-photography',
+    name: 'Copyright & Usage Rights',
+    category: 'copyright',
+    vendorTypes: ['photographer'],
+    versions: [
+      {
+        version: 1,
+        paragraphs: [
+          'Photographer retains the copyright to all images captured during the Event. Client is granted a non-exclusive license to use the delivered images for personal, non-commercial purposes, including printing, sharing on social media, and making digital copies. Any commercial use of the images requires written permission from Photographer.'
+        ],
+        publishedAt: '2025-01-15',
+        changeNote: 'Initial version'
+      }
+    ]
+  },
+  {
+    id: 'liability-catering',
+    name: 'Liability & Insurance',
+    category: 'liability',
+    vendorTypes: ['caterer'],
+    versions: [
+      {
+        version: 1,
+        paragraphs: [
+          'Caterer maintains appropriate liability insurance and food service permits. Client agrees to hold Caterer harmless from any claims arising from the consumption of food and beverages served at the Event.'
+        ],
+        publishedAt: '2025-01-15',
+        changeNote: 'Initial version'
+      }
+    ]
+  },
+  {
+    id: 'limitation-of-liability',
+    name: 'Limitation of Liability',
+    category: 'liability',
+    vendorTypes: ['photographer', 'florist'],
+    versions: [
+      {
+        version: 1,
+        paragraphs: [
+          'Except in cases of gross negligence or willful misconduct, the liability of either party under this Agreement shall not exceed the total fee paid under this Agreement.'
+        ],
+        publishedAt: '2025-01-15',
+        changeNote: 'Initial version'
+      }
+    ]
+  },
+  {
+    id: 'conduct-photography',
+    name: 'Professional Conduct',
+    category: 'conduct',
+    vendorTypes: ['photographer'],
+    versions: [
+      {
+        version: 1,
+        paragraphs: [
+          'Photographer agrees to conduct themselves in a professional manner throughout the Event and to work collaboratively with Client and any other vendors or event staff. Client agrees to provide Photographer with reasonable access and cooperation to facilitate the photography services.'
+        ],
+        publishedAt: '2025-01-15',
+        changeNote: 'Initial version'
+      }
+    ]
+  }
+];
+
+/**
+ * Looks up a clause by ID
+ * @param clauseId - ID of the clause
+ * @returns Clause or undefined if it is not in the library
+ */
+export function getClause(clauseId: string): Clause | undefined {
+  return CLAUSE_LIBRARY.find(clause => clause.id === clauseId);
+}
+
+/**
+ * Gets the clauses offered to a vendor type
+ * @param vendorType - Type of vendor
+ * @returns Clauses in library order
+ */
+export function getClausesForVendorType(vendorType: User['vendorType']): Clause[] {
+  return CLAUSE_LIBRARY.filter(clause => clause.vendorTypes.indexOf(vendorType) !== -1);
+}
+
+/**
+ * Gets the current version of a clause
+ * @param clause - Library clause
+ * @returns Latest published version
+ */
+export function getCurrentClauseVersion(clause: Clause): ClauseVersion {
+  return clause.versions[clause.versions.length - 1];
+}
+
+/**
+ * Renders a clause as rich text for insertion into contract content
+ * @param clause - Library clause
+ * @param version - Version to render (defaults to the current one)
+ * @returns Clause block HTML tagged with the clause ID and version
+ */
+export function renderClauseHtml(clause: Clause, version: ClauseVersion = getCurrentClauseVersion(clause)): string {
+  const paragraphs = version.paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('');
+
+  return `<div data-clause-id="${escapeHtml(clause.id)}" data-clause-version="${version.version}">` +
+    `<h3>${escapeHtml(clause.name)}</h3>${paragraphs}</div>`;
+}
+
+/**
+ * Renders the current version of a library clause as a clause block, for templates that build content by ID
+ * @param clauseId - ID of the clause
+ * @returns Clause block HTML, or an empty string if the clause is not in the library
+ */
+export function getClauseHtml(clauseId: string): string {
+  const clause = getClause(clauseId);
+  return clause ? renderClauseHtml(clause) : '';
+}
+
+/**
+ * Finds the library clauses inserted into contract content
+ * @param content - Rich text HTML
+ * @returns Clause blocks in document order
+ */
+export function findClauseUsages(content: string): ClauseUsage[] {
+  const usages: ClauseUsage[] = [];
+
+  const visit = (nodes: HtmlNode[]) => {
+    nodes.forEach(node => {
+      if (node.type !== 'element') {
+        return;
+      }
+
+      const clauseId = node.attributes['data-clause-id'];
+      const version = parseInt(node.attributes['data-clause-version'], 10);
+      if (clauseId && !isNaN(version)) {
+        usages.push({ clauseId, version });
+      }
+      visit(node.children);
+    });
+  };
+
+  visit(parseHtml(content));
+  return usages;
+}
+
+/**
+ * Lists the library clauses in contracts that are behind the current library version
+ * @param contracts - Contracts to check
+ * @returns One entry per outdated clause per contract
+ */
+export function getOutdatedClauseUsages(contracts: Contract[]): OutdatedClauseUsage[] {
+  const outdated: OutdatedClauseUsage[] = [];
+
+  contracts.forEach(contract => {
+    const seen = new Set<string>();
+
+    findClauseUsages(contract.content).forEach(usage => {
+      const clause = getClause(usage.clauseId);
+      if (!clause || seen.has(clause.id)) {
+        return;
+      }
+
+      const currentVersion = getCurrentClauseVersion(clause).version;
+      if (usage.version < currentVersion) {
+        seen.add(clause.id);
+        outdated.push({
+          contractId: contract.id,
+          clientName: contract.clientName,
+          contractStatus: contract.status,
+          clauseId: clause.id,
+          clauseName: clause.name,
+          usedVersion: usage.version,
+          currentVersion
+        });
+      }
+    });
+  });
+
+  return outdated;
+}
\ No newline at end of file
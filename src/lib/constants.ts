@@ -6,23 +6,151 @@
 export const VENDOR_TYPES = ['photographer', 'caterer', 'florist'] as const;
 
 /** Contract status options */
-export const CONTRACT_STATUS = ['draft', 'signed', 'deleted'] as const;
+export const CONTRACT_STATUS = [
+  'draft',
+  'sent',
+  'viewed',
+  'partially_signed',
+  'signed',
+  'completed',
+  'cancelled',
+  'expired',
+  'deleted'
+] as const;
+
+/** Statuses the vendor can move a contract to by hand */
+export const MANUAL_CONTRACT_STATUSES = ['cancelled', 'completed', 'expired'] as const;
+
+/** Standard PDF fonts vendors can choose for their documents */
+export const PDF_FONTS = ['helvetica', 'times', 'courier'] as const;
 
 /** Signature types available */
 export const SIGNATURE_TYPES = ['drawn', 'typed'] as const;
 
+/** Currencies contracts can be billed in */
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'INR'] as const;
+
+/** Currency of contracts created before currencies were introduced */
+export const DEFAULT_CURRENCY = 'USD';
+
+/** Locales vendors can show amounts and dates in, with the currency their new contracts default to */
+export const LOCALES = [
+  { code: 'en-US', label: 'English (United States)', currency: 'USD' },
+  { code: 'en-GB', label: 'English (United Kingdom)', currency: 'GBP' },
+  { code: 'en-IE', label: 'English (Ireland)', currency: 'EUR' },
+  { code: 'en-IN', label: 'English (India)', currency: 'INR' },
+  { code: 'fr-FR', label: 'Français (France)', currency: 'EUR' },
+  { code: 'de-DE', label: 'Deutsch (Deutschland)', currency: 'EUR' },
+  { code: 'es-ES', label: 'Español (España)', currency: 'EUR' },
+  { code: 'it-IT', label: 'Italiano (Italia)', currency: 'EUR' }
+] as const;
+
+/** Locale used until a vendor chooses one */
+export const DEFAULT_LOCALE = 'en-US';
+
+/** Ways a client can pay a vendor */
+export const PAYMENT_METHODS = ['bank_transfer', 'card', 'check', 'cash', 'other'] as const;
+
 /** Contract generation settings */
 export const CONTRACT_SETTINGS = {
   DEFAULT_DEPOSIT_PERCENTAGE: 0.5,
   DEFAULT_BALANCE_DUE_DAYS: 30,
-  DEFAULT_CANCELLATION_NOTICE_DAYS: 30
+  DEFAULT_CANCELLATION_NOTICE_DAYS: 30,
+  MAX_CLIENT_SIGNERS: 4,
+  MAX_INSTALLMENTS: 12
+} as const;
+
+/** Session cookie settings */
+export const SESSION_SETTINGS = {
+  COOKIE_NAME: 'session',
+  MAX_AGE_SECONDS: 60 * 60 * 24 * 7 // 7 days
+} as const;
+
+/** Remote signing link settings */
+export const SHARE_LINK_SETTINGS = {
+  DEFAULT_EXPIRY_DAYS: 14,
+  MAX_EXPIRY_DAYS: 90
+} as const;
+
+/** Vendor branding settings */
+export const BRANDING_SETTINGS = {
+  DEFAULT_ACCENT_COLOR: '#1f2937',
+  MAX_LOGO_BYTES: 256 * 1024,
+  MAX_ADDRESS_LENGTH: 300,
+  MAX_FOOTER_LENGTH: 200
+} as const;
+
+/** Contract template settings */
+export const TEMPLATE_SETTINGS = {
+  MAX_NAME_LENGTH: 100,
+  MAX_DESCRIPTION_LENGTH: 300
 } as const;
 
+/** Payment ledger settings */
+export const PAYMENT_SETTINGS = {
+  MAX_NOTE_LENGTH: 200
+} as const;
+
+/** Contract amendment settings */
+export const AMENDMENT_SETTINGS = {
+  MAX_TITLE_LENGTH: 120
+} as const;
+
+/** Invoice settings */
+export const INVOICE_SETTINGS = {
+  NUMBER_PREFIX: 'INV-',
+  NUMBER_DIGITS: 4
+} as const;
+
+/** Contract list settings */
+export const CONTRACT_LIST_SETTINGS = {
+  DEFAULT_PAGE_SIZE: 20,
+  MAX_PAGE_SIZE: 100,
+  MAX_QUERY_LENGTH: 200,
+  FILTER_DEBOUNCE_MS: 300
+} as const;
+
+/** Trash settings; TRASH_RETENTION_DAYS overrides the retention period */
+export const TRASH_SETTINGS = {
+  DEFAULT_RETENTION_DAYS: 30
+} as const;
+
+/** Full-text search settings */
+export const SEARCH_SETTINGS = {
+  MIN_TERM_LENGTH: 2,
+  MAX_RESULTS: 10,
+  SNIPPET_LENGTH: 160,
+  FIELD_WEIGHT: 3
+} as const;
+
+/** Fields the contract list can be sorted by */
+export const CONTRACT_SORT_KEYS = ['createdAt', 'updatedAt', 'eventDate', 'amount', 'clientName'] as const;
+
+/** Merge fields available in contract content and templates, written as `{{field}}` */
+export const MERGE_FIELD_NAMES = [
+  'clientName',
+  'eventDate',
+  'eventVenue',
+  'servicePackage',
+  'amount',
+  'vendorName',
+  'contractDate',
+  'deposit',
+  'balance',
+  'balanceDueDate'
+] as const;
+
 /** API endpoints */
 export const API_ENDPOINTS = {
   AUTH: '/api/auth',
   CONTRACTS: '/api/contracts',
-  AI_ASSIST: '/api/ai-assist'
+  AI_ASSIST: '/api/ai-assist',
+  SHARE: '/api/share',
+  BRANDING: '/api/branding',
+  TEMPLATES: '/api/templates',
+  CLAUSES: '/api/clauses',
+  RECEIVABLES: '/api/receivables',
+  SEARCH: '/api/search'
 } as const;
 
 /** Local storage keys */
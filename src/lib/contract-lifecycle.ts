@@ -0,0 +1,135 @@
+import { Contract, ContractStatus, ManualContractStatus } from '@/types';
+import { MANUAL_CONTRACT_STATUSES } from './constants';
+
+/**
+ * Display names of contract statuses
+ */
+export const CONTRACT_STATUS_LABELS: Record<ContractStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  viewed: 'Viewed',
+  partially_signed: 'Partially Signed',
+  signed: 'Fully Executed',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+  deleted: 'Deleted'
+};
+
+/**
+ * Statuses a contract can move to from each status
+ * Sending moves a draft to `sent` and the client opening a signing link moves it to `viewed`; signatures
+ * move it to `partially_signed` and then `signed`, with the vendor countersigning last. Contracts without
+ * client signers can be signed by the vendor straight from draft.
+ * Any contract can be deleted; deleted contracts only come back through a restore from the trash.
+ */
+const CONTRACT_TRANSITIONS: Record<ContractStatus, ContractStatus[]> = {
+  draft: ['sent', 'signed', 'cancelled', 'deleted'],
+  sent: ['viewed', 'partially_signed', 'signed', 'cancelled', 'expired', 'deleted'],
+  viewed: ['partially_signed', 'signed', 'cancelled', 'expired', 'deleted'],
+  partially_signed: ['partially_signed', 'signed', 'cancelled', 'expired', 'deleted'],
+  signed: ['completed', 'cancelled', 'deleted'],
+  completed: ['deleted'],
+  cancelled: ['deleted'],
+  expired: ['deleted'],
+  deleted: []
+};
+
+/**
+ * Checks whether the transition table allows a status change
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns True if the contract can move from one status to the other
+ */
+export function canTransition(from: ContractStatus, to: ContractStatus): boolean {
+  return CONTRACT_TRANSITIONS[from].indexOf(to) !== -1;
+}
+
+/**
+ * Checks whether a contract's event date is behind it
+ * @param contract - Contract to check
+ * @param now - Current time
+ * @returns True once the day of the event has ended
+ */
+function hasEventPassed(contract: Contract, now: Date): boolean {
+  return contract.eventDate.slice(0, 10) < now.toISOString().slice(0, 10);
+}
+
+/**
+ * Explains why a contract cannot move to a status
+ * Besides the transition table, a contract is only completed or expired once its event date has passed.
+ * @param contract - Contract to change
+ * @param to - Requested status
+ * @param now - Current time
+ * @returns Why the change is not allowed, or null if it is
+ */
+export function getTransitionError(contract: Contract, to: ContractStatus, now: Date = new Date()): string | null {
+  if (!canTransition(contract.status, to)) {
+    return `${CONTRACT_STATUS_LABELS[contract.status]} contracts cannot be moved to ${CONTRACT_STATUS_LABELS[to]}`;
+  }
+  if (to === 'completed' && !hasEventPassed(contract, now)) {
+    return 'Contracts can only be completed after the event date';
+  }
+  if (to === 'expired' && !hasEventPassed(contract, now)) {
+    return 'Unsigned contracts can only expire after the event date';
+  }
+  return null;
+}
+
+/**
+ * Lists the statuses the vendor can move a contract to by hand right now
+ * @param contract - Contract to check
+ * @param now - Current time
+ * @returns Allowed manual statuses
+ */
+export function getManualTransitions(contract: Contract, now: Date = new Date()): ManualContractStatus[] {
+  return MANUAL_CONTRACT_STATUSES.filter(status => getTransitionError(contract, status, now) === null);
+}
+
+/**
+ * Checks whether a status can be requested by hand
+ * @param status - Requested status
+ * @returns True for statuses in MANUAL_CONTRACT_STATUSES
+ */
+export function isManualStatus(status: unknown): status is ManualContractStatus {
+  return (MANUAL_CONTRACT_STATUSES as readonly unknown[]).indexOf(status) !== -1;
+}
+
+/**
+ * Checks whether a contract's content and details can be edited
+ * Only drafts can be edited; once sent, signers must see the text they were sent.
+ * @param status - Contract status
+ * @returns True if the contract can be edited
+ */
+export function isEditable(status: ContractStatus): boolean {
+  return status === 'draft';
+}
+
+/**
+ * Checks whether a contract can be amended
+ * Only contracts in force are amended: drafts are edited instead, and completed, cancelled and expired
+ * contracts are closed.
+ * @param status - Contract status
+ * @returns True for signed contracts
+ */
+export function isAmendable(status: ContractStatus): boolean {
+  return status === 'signed';
+}
+
+/**
+ * Checks whether a contract can still receive signatures
+ * @param status - Contract status
+ * @returns Whether signing is open
+ */
+export function isOpenForSigning(status: ContractStatus): boolean {
+  return canTransition(status, 'signed');
+}
+
+/**
+ * Checks whether every party has signed a contract, so it is binding and payments fall due
+ * @param status - Contract status
+ * @returns True for signed and completed contracts
+ */
+export function isExecuted(status: ContractStatus): boolean {
+  return status === 'signed' || status === 'completed';
+}
\ No newline at end of file
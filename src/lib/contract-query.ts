@@ -0,0 +1,278 @@
+import { Contract, ContractAmendment, ContractPage, ContractQuery, ContractSortKey, ContractSummary } from '@/types';
+import { CONTRACT_LIST_SETTINGS, CONTRACT_SORT_KEYS } from './constants';
+import { htmlToText } from './html-parser';
+import { isExecuted } from './contract-lifecycle';
+import { getEffectiveAmount } from './amendments';
+import { sumByCurrency } from './utils';
+
+/**
+ * Position in a sorted contract list that the next page starts after
+ */
+interface ContractCursor {
+  /** Sort key the cursor was issued for */
+  sort: ContractSortKey;
+  /** Sort direction the cursor was issued for */
+  order: ContractQuery['order'];
+  /** Sort value of the last contract on the previous page */
+  value: string | number;
+  /** ID of the last contract on the previous page */
+  id: string;
+}
+
+/**
+ * Result of reading a contract list request
+ */
+export interface ContractQueryResult {
+  /** Parsed query, or null if the request is invalid */
+  query: ContractQuery | null;
+  /** Why the request is invalid */
+  error?: string;
+}
+
+/**
+ * Statuses a contract list can be filtered by
+ */
+const FILTER_STATUSES = ['draft', 'sent', 'viewed', 'partially_signed', 'signed', 'completed', 'cancelled', 'expired'];
+
+/**
+ * Encodes the position after a contract as an opaque cursor
+ * @param contract - Last contract on the page
+ * @param query - Query the page was listed with
+ * @returns URL-safe cursor
+ */
+function encodeCursor(contract: Contract, query: ContractQuery): string {
+  const cursor: ContractCursor = {
+    sort: query.sort,
+    order: query.order,
+    value: getSortValue(contract, query.sort),
+    id: contract.id
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor issued for a query
+ * @param cursor - Cursor from the previous page
+ * @param query - Query the next page is listed with
+ * @returns Decoded position, or null if the cursor is malformed or was issued for another sort order
+ */
+function decodeCursor(cursor: string, query: ContractQuery): ContractCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      !decoded ||
+      decoded.sort !== query.sort ||
+      decoded.order !== query.order ||
+      typeof decoded.id !== 'string' ||
+      (typeof decoded.value !== 'string' && typeof decoded.value !== 'number')
+    ) {
+      return null;
+    }
+    return decoded;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the value a contract is sorted by
+ * @param contract - Contract to read
+ * @param sort - Sort key
+ * @returns Comparable value; client names compare case-insensitively
+ */
+function getSortValue(contract: Contract, sort: ContractSortKey): string | number {
+  switch (sort) {
+    case 'amount':
+      return contract.amount;
+    case 'clientName':
+      return contract.clientName.toLowerCase();
+    default:
+      return contract[sort];
+  }
+}
+
+/**
+ * Compares two sort positions, breaking ties by ID so every contract has a distinct position
+ * @returns Negative, zero or positive in the requested sort direction
+ */
+function comparePositions(
+  a: { value: string | number; id: string },
+  b: { value: string | number; id: string },
+  order: ContractQuery['order']
+): number {
+  const byValue = a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+  const byId = a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  return (byValue || byId) * (order === 'asc' ? 1 : -1);
+}
+
+/**
+ * Builds the lowercase text a contract is searched by
+ * @param contract - Contract to read
+ * @returns Client, venue, package and the plain text of the contract content
+ */
+function getSearchText(contract: Contract): string {
+  return [contract.clientName, contract.eventVenue, contract.servicePackage, htmlToText(contract.content)]
+    .join(' ')
+    .toLowerCase();
+}
+
+/**
+ * Checks whether a contract matches the filters of a query
+ * @param contract - Contract to check
+ * @param query - Query to match
+ * @param terms - Lowercase search terms, all of which must appear
+ * @returns True if the contract matches
+ */
+function matchesQuery(contract: Contract, query: ContractQuery, terms: string[]): boolean {
+  const eventDate = contract.eventDate.slice(0, 10);
+
+  if (query.status && contract.status !== query.status) return false;
+  if (query.eventDateFrom && eventDate < query.eventDateFrom) return false;
+  if (query.eventDateTo && eventDate > query.eventDateTo) return false;
+  if (query.amountMin !== undefined && contract.amount < query.amountMin) return false;
+  if (query.amountMax !== undefined && contract.amount > query.amountMax) return false;
+
+  if (terms.length > 0) {
+    const text = getSearchText(contract);
+    return terms.every(term => text.indexOf(term) !== -1);
+  }
+
+  return true;
+}
+
+/**
+ * Reads an optional amount parameter
+ * @returns The amount, undefined when absent, or NaN when it is not a non-negative number
+ */
+function parseAmountParam(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const amount = Number(value);
+  return isFinite(amount) && amount >= 0 ? amount : NaN;
+}
+
+/**
+ * Reads the filters, sort order and page of a contract list request
+ * @param params - Query string of the request
+ * @returns Parsed query, or an error describing the first invalid parameter
+ */
+export function parseContractQuery(params: URLSearchParams): ContractQueryResult {
+  const status = params.get('status') || undefined;
+  const q = (params.get('q') || '').trim() || undefined;
+  const eventDateFrom = params.get('eventDateFrom') || undefined;
+  const eventDateTo = params.get('eventDateTo') || undefined;
+  const amountMin = parseAmountParam(params.get('amountMin'));
+  const amountMax = parseAmountParam(params.get('amountMax'));
+  const sort = params.get('sort') || 'createdAt';
+  const order = params.get('order') || 'desc';
+  const cursor = params.get('cursor') || undefined;
+  const limitParam = params.get('limit');
+  const limit = limitParam ? Number(limitParam) : CONTRACT_LIST_SETTINGS.DEFAULT_PAGE_SIZE;
+
+  if (status !== undefined && FILTER_STATUSES.indexOf(status) === -1) {
+    return { query: null, error: `Unknown status: ${status}` };
+  }
+  if (q && q.length > CONTRACT_LIST_SETTINGS.MAX_QUERY_LENGTH) {
+    return { query: null, error: `Search must be ${CONTRACT_LIST_SETTINGS.MAX_QUERY_LENGTH} characters or less` };
+  }
+  for (const date of [eventDateFrom, eventDateTo]) {
+    if (date !== undefined && (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime()))) {
+      return { query: null, error: 'Event dates must be written as YYYY-MM-DD' };
+    }
+  }
+  if (eventDateFrom && eventDateTo && eventDateFrom > eventDateTo) {
+    return { query: null, error: 'Event date range ends before it starts' };
+  }
+  if ((amountMin !== undefined && isNaN(amountMin)) || (amountMax !== undefined && isNaN(amountMax))) {
+    return { query: null, error: 'Amounts must be non-negative numbers' };
+  }
+  if (amountMin !== undefined && amountMax !== undefined && amountMin > amountMax) {
+    return { query: null, error: 'Minimum amount is more than the maximum' };
+  }
+  if ((CONTRACT_SORT_KEYS as readonly string[]).indexOf(sort) === -1) {
+    return { query: null, error: `Cannot sort by ${sort}` };
+  }
+  if (order !== 'asc' && order !== 'desc') {
+    return { query: null, error: 'Order must be asc or desc' };
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > CONTRACT_LIST_SETTINGS.MAX_PAGE_SIZE) {
+    return { query: null, error: `Limit must be a whole number from 1 to ${CONTRACT_LIST_SETTINGS.MAX_PAGE_SIZE}` };
+  }
+
+  const query: ContractQuery = {
+    status: status as ContractQuery['status'],
+    q,
+    eventDateFrom,
+    eventDateTo,
+    amountMin,
+    amountMax,
+    sort: sort as ContractSortKey,
+    order,
+    cursor,
+    limit
+  };
+
+  if (cursor && !decodeCursor(cursor, query)) {
+    return { query: null, error: 'Invalid cursor' };
+  }
+
+  return { query };
+}
+
+/**
+ * Summarizes a vendor's contracts for the dashboard
+ * @param contracts - Non-deleted contracts of the vendor
+ * @param amendments - Amendments of those contracts; executed ones change the signed value
+ * @returns Contract count, count per status and value of signed and completed contracts per currency
+ */
+export function buildContractSummary(contracts: Contract[], amendments: ContractAmendment[] = []): ContractSummary {
+  const statusCounts: ContractSummary['statusCounts'] = {};
+  contracts.forEach(contract => {
+    statusCounts[contract.status] = (statusCounts[contract.status] || 0) + 1;
+  });
+
+  return {
+    count: contracts.length,
+    statusCounts,
+    signedValue: sumByCurrency(contracts
+      .filter(contract => isExecuted(contract.status))
+      .map(contract => ({
+        currency: contract.currency,
+        amount: getEffectiveAmount(contract, amendments.filter(amendment => amendment.contractId === contract.id))
+      })))
+  };
+}
+
+/**
+ * Lists one page of a vendor's contracts
+ * Pages are cut by keyset: the cursor records the sort value and ID of the last contract shown, so
+ * contracts created or deleted between requests do not shift later pages.
+ * @param contracts - Non-deleted contracts of the vendor
+ * @param query - Parsed query; its cursor must have been checked by parseContractQuery
+ * @param amendments - Amendments of the contracts, for the signed value in the summary
+ * @returns Matching contracts in the page, the cursor of the next page and the summary
+ */
+export function queryContracts(
+  contracts: Contract[],
+  query: ContractQuery,
+  amendments: ContractAmendment[] = []
+): ContractPage {
+  const terms = query.q ? query.q.toLowerCase().split(/\s+/) : [];
+  const cursor = query.cursor ? decodeCursor(query.cursor, query) : null;
+
+  const matches = contracts
+    .filter(contract => matchesQuery(contract, query, terms))
+    .map(contract => ({ contract, value: getSortValue(contract, query.sort), id: contract.id }))
+    .sort((a, b) => comparePositions(a, b, query.order));
+
+  const remaining = cursor
+    ? matches.filter(match => comparePositions(match, cursor, query.order) > 0)
+    : matches;
+  const items = remaining.slice(0, query.limit).map(match => match.contract);
+
+  return {
+    items,
+    nextCursor: remaining.length > query.limit ? encodeCursor(items[items.length - 1], query) : null,
+    total: matches.length,
+    summary: buildContractSummary(contracts, amendments)
+  };
+}
\ No newline at end of file
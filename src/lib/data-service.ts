@@ -1,43 +1,72 @@
-import fs from 'fs/promises';
-import path from 'path';
-import { User, Contract, SignatureData } from '@/types';
+import { randomBytes } from 'crypto';
+import {
+  User,
+  UserRecord,
+  RegistrationData,
+  BrandingSettings,
+  VendorBranding,
+  Contract,
+  ContractAmendment,
+  ContractAmendmentInput,
+  ContractPayment,
+  ContractPaymentInput,
+  ContractRevision,
+  ContractSearchIndex,
+  ContractSearchResult,
+  ContractSigner,
+  ContractSnapshot,
+  ContractTemplate,
+  ContractTemplateInput,
+  ContractVerification,
+  Invoice,
+  InvoiceStatus,
+  ManualContractStatus,
+  SignatureData,
+  SigningAudit,
+  SigningCertificate,
+  ShareLink
+} from '@/types';
 import { generateId } from './utils';
+import { DEFAULT_CURRENCY } from './constants';
+import { hashPassword, verifyPassword } from './password';
+import { hashAmendment, hashContract } from './signing-audit';
+import { getContractSigners, getShareLinkSigner, getSigningStatus, isSignersTurn } from './signers';
+import { canTransition, getTransitionError, isAmendable, isOpenForSigning } from './contract-lifecycle';
+import { buildAmendmentSigners, canApplyAmountDelta } from './amendments';
+import { buildDefaultPaymentSchedule, toCents } from './payment-schedule';
+import { buildPaymentLedger, getTotalPaid } from './payment-ledger';
+import { formatInvoiceNumber, getInvoiceablePayments } from './invoices';
+import { getDeletedAt, getRestoredStatus } from './trash';
+import {
+  addToSearchIndex,
+  buildSearchResult,
+  createSearchIndex,
+  parseSearchTerms,
+  refreshSearchIndex,
+  searchContractIndex
+} from './search-index';
+import { CollectionName, getStorage, StorageAdapter, StorageTransaction } from './storage';
 
 /**
- * Data service for handling JSON file-based storage operations
+ * Data service for handling storage operations
+ * Every operation runs in a storage transaction, so the JSON file and SQLite backends behave the same
  */
 export class DataService {
-  private static readonly DATA_DIR = path.join(process.cwd(), 'src/data');
-  private static readonly USERS_FILE = path.join(this.DATA_DIR, 'users.json');
-  private static readonly CONTRACTS_FILE = path.join(this.DATA_DIR, 'contracts.json');
-
   /**
-   * Reads and parses a JSON file
-   * @param filePath - Path to the JSON file
-   * @returns Parsed JSON data
+   * Gets the configured storage backend
    */
-  private static async readJsonFile<T>(filePath: string): Promise<T> {
-    try {
-      const data = await fs.readFile(filePath, 'utf-8');
-      return JSON.parse(data);
-    } catch (error) {
-      console.error(`Error reading file ${filePath}:`, error);
-      throw new Error(`Failed to read data file`);
-    }
+  private static get storage(): StorageAdapter {
+    return getStorage();
   }
 
   /**
-   * Writes data to a JSON file
-   * @param filePath - Path to the JSON file
-   * @param data - Data to write
+   * Removes credentials from a stored user record
+   * @param user - Stored user record
+   * @returns Public user object
    */
-  private static async writeJsonFile<T>(filePath: string, data: T): Promise<void> {
-    try {
-      await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
-    } catch (error) {
-      console.error(`Error writing file ${filePath}:`, error);
-      throw new Error(`Failed to write data file`);
-    }
+  private static toPublicUser(user: UserRecord): User {
+    const { passwordHash: _, ...publicUser } = user;
+    return publicUser;
   }
 
   /**
@@ -48,15 +77,12 @@ export class DataService {
    */
   static async authenticateUser(email: string, password: string): Promise<User | null> {
     try {
-      const users = await this.readJsonFile<Array<User & { password: string }>>(this.USERS_FILE);
-      const user = users.find(u => u.email === email && u.password === password);
-      
-      if (user) {
-        // Return user without password
-        const { password: _, ...userWithoutPassword } = user;
-        return userWithoutPassword;
+      const user = await this.storage.transaction(tx => this.findUserRecordByEmail(tx, email));
+
+      if (user && await verifyPassword(password, user.passwordHash)) {
+        return this.toPublicUser(user);
       }
-      
+
       return null;
     } catch (error) {
       console.error('Authentication error:', error);
@@ -64,6 +90,214 @@ export class DataService {
     }
   }
 
+  /**
+   * Finds a stored user record, including credentials, by email
+   * @param tx - Active storage transaction
+   * @param email - User's email (matched case-insensitively)
+   * @returns User record or null if not found
+   */
+  private static async findUserRecordByEmail(
+    tx: StorageTransaction,
+    email: string
+  ): Promise<UserRecord | null> {
+    const users = await tx.list<UserRecord>('users');
+    const normalizedEmail = email.trim().toLowerCase();
+    return users.find(u => u.email.toLowerCase() === normalizedEmail) || null;
+  }
+
+  /**
+   * Creates a new vendor account with a hashed password
+   * @param registration - Registration details
+   * @returns Created user, or null if the email is already registered
+   */
+  static async createUser(registration: RegistrationData): Promise<User | null> {
+    try {
+      const passwordHash = await hashPassword(registration.password);
+
+      return await this.storage.transaction(async tx => {
+        if (await this.findUserRecordByEmail(tx, registration.email)) {
+          return null;
+        }
+
+        const newUser: UserRecord = {
+          id: generateId(`user-${registration.vendorType}`),
+          email: registration.email.trim().toLowerCase(),
+          vendorType: registration.vendorType,
+          name: registration.name.trim(),
+          passwordHash
+        };
+
+        await tx.insert('users', newUser);
+        return this.toPublicUser(newUser);
+      });
+    } catch (error) {
+      console.error('Error creating user:', error);
+      throw new Error('Failed to create user');
+    }
+  }
+
+  /**
+   * Gets a user by ID
+   * @param userId - ID of the user
+   * @returns User object without credentials, or null if not found
+   */
+  static async getUserById(userId: string): Promise<User | null> {
+    try {
+      const user = await this.storage.transaction(tx => tx.get<UserRecord>('users', userId));
+      return user ? this.toPublicUser(user) : null;
+    } catch (error) {
+      console.error('Error fetching user:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Gets the document branding of a vendor
+   * @param vendorId - ID of the vendor
+   * @returns Branding, or null if the vendor has not set any
+   */
+  static async getVendorBranding(vendorId: string): Promise<VendorBranding | null> {
+    try {
+      return await this.storage.transaction(tx => tx.get<VendorBranding>('vendorBranding', vendorId));
+    } catch (error) {
+      console.error('Error fetching vendor branding:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Creates or replaces the document branding of a vendor
+   * @param vendorId - ID of the vendor
+   * @param settings - Validated branding settings
+   * @returns Saved branding
+   */
+  static async saveVendorBranding(vendorId: string, settings: BrandingSettings): Promise<VendorBranding> {
+    try {
+      return await this.storage.transaction(async tx => {
+        const branding: VendorBranding = {
+          ...settings,
+          id: vendorId,
+          updatedAt: new Date().toISOString()
+        };
+
+        if (await tx.get<VendorBranding>('vendorBranding', vendorId)) {
+          await tx.update('vendorBranding', branding);
+        } else {
+          await tx.insert('vendorBranding', branding);
+        }
+
+        return branding;
+      });
+    } catch (error) {
+      console.error('Error saving vendor branding:', error);
+      throw new Error('Failed to save branding');
+    }
+  }
+
+  /**
+   * Gets all contract templates of a vendor
+   * @param vendorId - ID of the vendor
+   * @returns Templates sorted by name
+   */
+  static async getTemplatesByVendor(vendorId: string): Promise<ContractTemplate[]> {
+    try {
+      const templates = await this.storage.transaction(tx => tx.list<ContractTemplate>('templates'));
+      return templates
+        .filter(template => template.vendorId === vendorId)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Gets a specific contract template by ID
+   * @param templateId - ID of the template
+   * @returns Template or null if not found
+   */
+  static async getTemplate(templateId: string): Promise<ContractTemplate | null> {
+    try {
+      return await this.storage.transaction(tx => tx.get<ContractTemplate>('templates', templateId));
+    } catch (error) {
+      console.error('Error fetching template:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Creates a new contract template
+   * @param vendorId - ID of the vendor who owns the template
+   * @param templateData - Validated template fields
+   * @returns The created template
+   */
+  static async createTemplate(vendorId: string, templateData: ContractTemplateInput): Promise<ContractTemplate> {
+    try {
+      const now = new Date().toISOString();
+      const template: ContractTemplate = {
+        ...templateData,
+        id: generateId('template'),
+        vendorId,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await this.storage.transaction(tx => tx.insert('templates', template));
+
+      return template;
+    } catch (error) {
+      console.error('Error creating template:', error);
+      throw new Error('Failed to create template');
+    }
+  }
+
+  /**
+   * Updates an existing contract template
+   * @param templateId - ID of the template to update
+   * @param updates - Validated template fields to change
+   * @returns The updated template
+   */
+  static async updateTemplate(
+    templateId: string,
+    updates: Partial<ContractTemplateInput>
+  ): Promise<ContractTemplate> {
+    try {
+      return await this.storage.transaction(async tx => {
+        const template = await tx.get<ContractTemplate>('templates', templateId);
+
+        if (!template) {
+          throw new Error('Template not found');
+        }
+
+        const updatedTemplate: ContractTemplate = {
+          ...template,
+          ...updates,
+          updatedAt: new Date().toISOString()
+        };
+
+        await tx.update('templates', updatedTemplate);
+        return updatedTemplate;
+      });
+    } catch (error) {
+      console.error('Error updating template:', error);
+      throw new Error('Failed to update template');
+    }
+  }
+
+  /**
+   * Permanently deletes a contract template
+   * Contracts already created from the template keep their own copy of its content.
+   * @param templateId - ID of the template to delete
+   */
+  static async deleteTemplate(templateId: string): Promise<void> {
+    try {
+      await this.storage.transaction(tx => tx.remove('templates', templateId));
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      throw new Error('Failed to delete template');
+    }
+  }
+
   /**
    * Gets all contracts for a specific vendor (excludes deleted contracts)
    * @param vendorId - ID of the vendor
@@ -71,8 +305,8 @@ export class DataService {
    */
   static async getContractsByVendor(vendorId: string): Promise<Contract[]> {
     try {
-      const contracts = await this.readJsonFile<Contract[]>(this.CONTRACTS_FILE);
-      return contracts.filter(contract => 
+      const contracts = await this.storage.transaction(tx => tx.list<Contract>('contracts'));
+      return contracts.filter(contract =>
         contract.vendorId === vendorId && contract.status !== 'deleted'
       );
     } catch (error) {
@@ -90,7 +324,6 @@ export class DataService {
     contractData: Omit<Contract, 'id' | 'createdAt' | 'updatedAt'>
   ): Promise<string> {
     try {
-      const contracts = await this.readJsonFile<Contract[]>(this.CONTRACTS_FILE);
       const now = new Date().toISOString();
       const newContract: Contract = {
         ...contractData,
@@ -99,9 +332,11 @@ export class DataService {
         updatedAt: now
       };
 
-      contracts.push(newContract);
-      await this.writeJsonFile(this.CONTRACTS_FILE, contracts);
-      
+      await this.storage.transaction(async tx => {
+        await tx.insert('contracts', newContract);
+        await this.indexContract(tx, newContract);
+      });
+
       return newContract.id;
     } catch (error) {
       console.error('Error creating contract:', error);
@@ -111,34 +346,272 @@ export class DataService {
 
   /**
    * Updates an existing contract
+   * When an author is given, the resulting state is also recorded as a new revision in the same transaction
    * @param contractId - ID of the contract to update
    * @param updates - Partial contract data to update
+   * @param author - User making the change, if the edit should be tracked in the revision history
    */
   static async updateContract(
     contractId: string,
-    updates: Partial<Omit<Contract, 'id' | 'createdAt'>>
+    updates: Partial<Omit<Contract, 'id' | 'createdAt'>>,
+    author?: User
   ): Promise<void> {
     try {
-      const contracts = await this.readJsonFile<Contract[]>(this.CONTRACTS_FILE);
-      const contractIndex = contracts.findIndex(c => c.id === contractId);
-      
-      if (contractIndex === -1) {
-        throw new Error('Contract not found');
-      }
+      await this.storage.transaction(async tx => {
+        const contract = await tx.get<Contract>('contracts', contractId);
 
-      contracts[contractIndex] = {
-        ...contracts[contractIndex],
-        ...updates,
-        updatedAt: new Date().toISOString()
-      };
+        if (!contract) {
+          throw new Error('Contract not found');
+        }
+
+        const updatedContract: Contract = {
+          ...contract,
+          ...updates,
+          updatedAt: new Date().toISOString()
+        };
 
-      await this.writeJsonFile(this.CONTRACTS_FILE, contracts);
+        await tx.update('contracts', updatedContract);
+        await this.indexContract(tx, updatedContract);
+
+        if (author) {
+          await this.recordRevision(tx, contract, updatedContract, author);
+        }
+      });
     } catch (error) {
       console.error('Error updating contract:', error);
       throw new Error('Failed to update contract');
     }
   }
 
+  /**
+   * Moves a contract to a status the vendor chose by hand
+   * @param contractId - ID of the contract
+   * @param status - Status to move to
+   * @returns The updated contract
+   * @throws Error if the lifecycle does not allow the change
+   */
+  static async updateContractStatus(contractId: string, status: ManualContractStatus): Promise<Contract> {
+    try {
+      return await this.storage.transaction(async tx => {
+        const contract = await tx.get<Contract>('contracts', contractId);
+
+        if (!contract) {
+          throw new Error('Contract not found');
+        }
+
+        const transitionError = getTransitionError(contract, status);
+        if (transitionError) {
+          throw new Error(transitionError);
+        }
+
+        const updatedContract: Contract = {
+          ...contract,
+          status,
+          updatedAt: new Date().toISOString()
+        };
+
+        await tx.update('contracts', updatedContract);
+        await this.indexContract(tx, updatedContract);
+        return updatedContract;
+      });
+    } catch (error) {
+      console.error('Error updating contract status:', error);
+      throw new Error('Failed to update contract status');
+    }
+  }
+
+  /**
+   * Updates the vendor's search index for a contract that was written
+   * @param tx - Active storage transaction
+   * @param contract - Contract as saved
+   */
+  private static async indexContract(tx: StorageTransaction, contract: Contract): Promise<void> {
+    const existing = await tx.get<ContractSearchIndex>('searchIndex', contract.vendorId);
+    const index = existing || createSearchIndex(contract.vendorId);
+
+    addToSearchIndex(index, contract);
+
+    if (existing) {
+      await tx.update('searchIndex', index);
+    } else {
+      await tx.insert('searchIndex', index);
+    }
+  }
+
+  /**
+   * Searches the text of a vendor's contracts
+   * Contracts changed since they were indexed are indexed again first, so the results are never stale.
+   * @param vendorId - ID of the vendor
+   * @param query - Search query as typed
+   * @param limit - Maximum number of results
+   * @returns Matching contracts with highlighted snippets, most relevant first
+   */
+  static async searchContracts(vendorId: string, query: string, limit: number): Promise<ContractSearchResult[]> {
+    const terms = parseSearchTerms(query);
+    if (terms.length === 0) return [];
+
+    try {
+      return await this.storage.transaction(async tx => {
+        const contracts = (await tx.list<Contract>('contracts')).filter(contract =>
+          contract.vendorId === vendorId && contract.status !== 'deleted'
+        );
+        const existing = await tx.get<ContractSearchIndex>('searchIndex', vendorId);
+        const index = existing || createSearchIndex(vendorId);
+
+        if (refreshSearchIndex(index, contracts)) {
+          if (existing) {
+            await tx.update('searchIndex', index);
+          } else {
+            await tx.insert('searchIndex', index);
+          }
+        }
+
+        return searchContractIndex(index, terms)
+          .slice(0, limit)
+          .map(hit => buildSearchResult(contracts.find(contract => contract.id === hit.contractId) as Contract, terms));
+      });
+    } catch (error) {
+      console.error('Error searching contracts:', error);
+      throw new Error('Failed to search contracts');
+    }
+  }
+
+  /**
+   * Extracts the editable fields of a contract
+   * @param contract - Contract to snapshot
+   * @returns Snapshot of the contract's editable fields
+   */
+  private static toSnapshot(contract: Contract): ContractSnapshot {
+    return {
+      clientName: contract.clientName,
+      eventDate: contract.eventDate,
+      eventVenue: contract.eventVenue,
+      servicePackage: contract.servicePackage,
+      amount: contract.amount,
+      ...(contract.currency && { currency: contract.currency }),
+      ...(contract.paymentSchedule && { paymentSchedule: contract.paymentSchedule }),
+      content: contract.content
+    };
+  }
+
+  /**
+   * Appends a revision for a contract edit
+   * Contracts created before revisions were tracked get their pre-edit state recorded first as revision 1.
+   * @param tx - Active storage transaction
+   * @param previous - Contract before the edit
+   * @param current - Contract after the edit
+   * @param author - User who made the edit
+   * @param restoredFrom - Revision number being restored, if the edit is a restore
+   * @returns The new revision
+   */
+  private static async recordRevision(
+    tx: StorageTransaction,
+    previous: Contract,
+    current: Contract,
+    author: User,
+    restoredFrom?: number
+  ): Promise<ContractRevision> {
+    const revisions = (await tx.list<ContractRevision>('contractRevisions'))
+      .filter(revision => revision.contractId === current.id);
+    let lastNumber = revisions.reduce((max, revision) => Math.max(max, revision.revisionNumber), 0);
+
+    if (lastNumber === 0) {
+      const owner = await tx.get<UserRecord>('users', previous.vendorId);
+      await tx.insert<ContractRevision>('contractRevisions', {
+        id: generateId('revision'),
+        contractId: previous.id,
+        revisionNumber: 1,
+        snapshot: this.toSnapshot(previous),
+        authorId: previous.vendorId,
+        authorName: owner?.name || 'Unknown',
+        createdAt: previous.updatedAt
+      });
+      lastNumber = 1;
+    }
+
+    const revision: ContractRevision = {
+      id: generateId('revision'),
+      contractId: current.id,
+      revisionNumber: lastNumber + 1,
+      snapshot: this.toSnapshot(current),
+      authorId: author.id,
+      authorName: author.name,
+      createdAt: current.updatedAt,
+      ...(restoredFrom !== undefined && { restoredFrom })
+    };
+
+    await tx.insert('contractRevisions', revision);
+    return revision;
+  }
+
+  /**
+   * Gets the revision history of a contract
+   * @param contractId - ID of the contract
+   * @returns Revisions, newest first
+   */
+  static async getContractRevisions(contractId: string): Promise<ContractRevision[]> {
+    try {
+      const revisions = await this.storage.transaction(tx =>
+        tx.list<ContractRevision>('contractRevisions')
+      );
+      return revisions
+        .filter(revision => revision.contractId === contractId)
+        .sort((a, b) => b.revisionNumber - a.revisionNumber);
+    } catch (error) {
+      console.error('Error fetching contract revisions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Restores an earlier revision as the current draft, recording the restore as a new revision
+   * @param contractId - ID of the contract
+   * @param revisionId - ID of the revision to restore
+   * @param author - User performing the restore
+   * @returns The updated contract
+   */
+  static async restoreContractRevision(
+    contractId: string,
+    revisionId: string,
+    author: User
+  ): Promise<Contract> {
+    try {
+      return await this.storage.transaction(async tx => {
+        const revision = await tx.get<ContractRevision>('contractRevisions', revisionId);
+
+        if (!revision || revision.contractId !== contractId) {
+          throw new Error('Revision not found');
+        }
+
+        const contract = await tx.get<Contract>('contracts', contractId);
+
+        if (!contract) {
+          throw new Error('Contract not found');
+        }
+
+        const restoredContract: Contract = {
+          ...contract,
+          ...revision.snapshot,
+          // Revisions saved before currencies were introduced are in USD
+          currency: revision.snapshot.currency || DEFAULT_CURRENCY,
+          // Revisions saved before payment schedules get the standard schedule for their amount
+          paymentSchedule: revision.snapshot.paymentSchedule ??
+            buildDefaultPaymentSchedule(revision.snapshot.amount, revision.snapshot.eventDate),
+          updatedAt: new Date().toISOString()
+        };
+
+        await tx.update('contracts', restoredContract);
+        await this.indexContract(tx, restoredContract);
+        await this.recordRevision(tx, contract, restoredContract, author, revision.revisionNumber);
+
+        return restoredContract;
+      });
+    } catch (error) {
+      console.error('Error restoring contract revision:', error);
+      throw new Error('Failed to restore revision');
+    }
+  }
+
   /**
    * Gets a specific contract by ID
    * @param contractId - ID of the contract
@@ -146,8 +619,7 @@ export class DataService {
    */
   static async getContract(contractId: string): Promise<Contract | null> {
     try {
-      const contracts = await this.readJsonFile<Contract[]>(this.CONTRACTS_FILE);
-      return contracts.find(c => c.id === contractId) || null;
+      return await this.storage.transaction(tx => tx.get<Contract>('contracts', contractId));
     } catch (error) {
       console.error('Error fetching contract:', error);
       return null;
@@ -155,15 +627,30 @@ export class DataService {
   }
 
   /**
-   * Saves a signature to a contract
+   * Records a signer's signature, advances the contract status and issues the signing certificate
+   * in one transaction
    * @param contractId - ID of the contract
+   * @param signer - Signer applying the signature
    * @param signature - Signature data
+   * @param audit - Evidence captured for the signing event
+   * @returns The issued signing certificate
    */
-  static async saveSignature(contractId: string, signature: SignatureData): Promise<void> {
+  static async saveSignature(
+    contractId: string,
+    signer: ContractSigner,
+    signature: SignatureData,
+    audit: SigningAudit
+  ): Promise<SigningCertificate> {
     try {
-      await this.updateContract(contractId, {
-        signature,
-        status: 'signed'
+      return await this.storage.transaction(async tx => {
+        const contract = await tx.get<Contract>('contracts', contractId);
+
+        if (!contract) {
+          throw new Error('Contract not found');
+        }
+
+        await this.applySignature(tx, contract, signer, signature);
+        return this.issueCertificate(tx, contract, signature, audit);
       });
     } catch (error) {
       console.error('Error saving signature:', error);
@@ -172,17 +659,898 @@ export class DataService {
   }
 
   /**
-   * Soft deletes a contract by marking it as deleted
+   * Stores a signature against its signer and derives the new contract status
+   * Contracts created before multi-party signing adopt the signer into a new signer list.
+   * @param tx - Active storage transaction
+   * @param contract - Contract being signed
+   * @param signer - Signer applying the signature
+   * @param signature - Signature data
+   */
+  private static async applySignature(
+    tx: StorageTransaction,
+    contract: Contract,
+    signer: ContractSigner,
+    signature: SignatureData
+  ): Promise<void> {
+    const signers = getContractSigners(contract);
+    let index = signers.findIndex(existing => existing.id === signer.id);
+
+    if (index === -1 && !contract.signers) {
+      signers.push(signer);
+      index = signers.length - 1;
+    }
+
+    if (index === -1) {
+      throw new Error('Signer not found');
+    }
+
+    if (signers[index].signature) {
+      throw new Error('Signer has already signed');
+    }
+
+    if (!isSignersTurn(signers, signers[index])) {
+      throw new Error('Clients must sign before the vendor countersigns');
+    }
+
+    if (!isOpenForSigning(contract.status)) {
+      throw new Error('Contract is not open for signing');
+    }
+
+    const updatedSigners = signers.map((existing, i) => i === index
+      ? {
+          ...existing,
+          name: signature.signedBy?.name || existing.name,
+          email: signature.signedBy?.email || existing.email,
+          signature
+        }
+      : existing
+    );
+
+    await tx.update('contracts', {
+      ...contract,
+      signers: updatedSigners,
+      status: getSigningStatus(updatedSigners),
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Records a signing certificate binding the signer to the exact contract or amendment they signed
+   * @param tx - Active storage transaction
+   * @param contract - Contract as it was when signed
+   * @param signature - Signature that was applied
+   * @param audit - Evidence captured for the signing event
+   * @param amendment - Amendment as it was when signed, for signatures on an amendment
+   * @returns The issued certificate
+   */
+  private static async issueCertificate(
+    tx: StorageTransaction,
+    contract: Contract,
+    signature: SignatureData,
+    audit: SigningAudit,
+    amendment?: ContractAmendment
+  ): Promise<SigningCertificate> {
+    if (!signature.signedBy) {
+      throw new Error('Signature is missing the signer identity');
+    }
+
+    const certificate: SigningCertificate = {
+      id: generateId('certificate'),
+      contractId: contract.id,
+      ...(amendment ? { amendmentId: amendment.id } : {}),
+      hashAlgorithm: 'SHA-256',
+      documentHash: amendment ? hashAmendment(amendment) : hashContract(contract),
+      signer: signature.signedBy,
+      ...audit,
+      signedAt: signature.timestamp
+    };
+
+    await tx.insert('signingCertificates', certificate);
+    return certificate;
+  }
+
+  /**
+   * Gets the signing certificates issued for a contract, leaving out those of its amendments
+   * @param contractId - ID of the contract
+   * @returns Certificates in signing order
+   */
+  static async getSigningCertificates(contractId: string): Promise<SigningCertificate[]> {
+    try {
+      const certificates = await this.storage.transaction(tx =>
+        tx.list<SigningCertificate>('signingCertificates')
+      );
+      return certificates.filter(certificate => certificate.contractId === contractId && !certificate.amendmentId);
+    } catch (error) {
+      console.error('Error fetching signing certificates:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Re-hashes a stored contract and compares it with the hash in each of its signing certificates
+   * @param contractId - ID of the contract
+   * @returns Verification result, or null if the contract does not exist
+   */
+  static async verifyContract(contractId: string): Promise<ContractVerification | null> {
+    const contract = await this.getContract(contractId);
+
+    if (!contract) {
+      return null;
+    }
+
+    const currentHash = hashContract(contract);
+    const certificates = (await this.getSigningCertificates(contractId)).map(certificate => ({
+      certificate,
+      matches: certificate.documentHash === currentHash
+    }));
+
+    return {
+      contractId,
+      currentHash,
+      isIntact: certificates.length > 0 && certificates.every(result => result.matches),
+      certificates
+    };
+  }
+
+  /**
+   * Gets the payments received against a contract
+   * @param contractId - ID of the contract
+   * @returns Payments in the order they were recorded
+   */
+  static async getContractPayments(contractId: string): Promise<ContractPayment[]> {
+    return this.getPaymentsForContracts([contractId]);
+  }
+
+  /**
+   * Gets the payments received against any of several contracts
+   * @param contractIds - IDs of the contracts
+   * @returns Payments in the order they were recorded
+   */
+  static async getPaymentsForContracts(contractIds: string[]): Promise<ContractPayment[]> {
+    try {
+      const payments = await this.storage.transaction(tx => tx.list<ContractPayment>('payments'));
+      return payments.filter(payment => contractIds.indexOf(payment.contractId) !== -1);
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Gets a specific payment by ID
+   * @param paymentId - ID of the payment
+   * @returns Payment or null if not found
+   */
+  static async getPayment(paymentId: string): Promise<ContractPayment | null> {
+    try {
+      return await this.storage.transaction(tx => tx.get<ContractPayment>('payments', paymentId));
+    } catch (error) {
+      console.error('Error fetching payment:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Records a payment received against a contract
+   * The outstanding balance is checked again in the same transaction, so simultaneous payments cannot
+   * together pay more than is owed.
+   * @param contractId - ID of the contract
+   * @param paymentData - Validated payment details
+   * @returns The recorded payment, or null if it is more than the outstanding balance
+   */
+  static async recordPayment(contractId: string, paymentData: ContractPaymentInput): Promise<ContractPayment | null> {
+    try {
+      return await this.storage.transaction(async tx => {
+        const contract = await tx.get<Contract>('contracts', contractId);
+
+        if (!contract) {
+          throw new Error('Contract not found');
+        }
+
+        const payments = (await tx.list<ContractPayment>('payments'))
+          .filter(payment => payment.contractId === contractId);
+        const amendments = (await tx.list<ContractAmendment>('amendments'))
+          .filter(amendment => amendment.contractId === contractId);
+        const ledger = buildPaymentLedger(contract, payments, amendments);
+
+        if (toCents(paymentData.amount) > toCents(ledger.outstanding)) {
+          return null;
+        }
+
+        const payment: ContractPayment = {
+          ...paymentData,
+          id: generateId('payment'),
+          contractId,
+          recordedAt: new Date().toISOString()
+        };
+
+        await tx.insert('payments', payment);
+        return payment;
+      });
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      throw new Error('Failed to record payment');
+    }
+  }
+
+  /**
+   * Permanently deletes a payment recorded by mistake
+   * @param paymentId - ID of the payment to delete
+   */
+  static async deletePayment(paymentId: string): Promise<void> {
+    try {
+      await this.storage.transaction(tx => tx.remove('payments', paymentId));
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+      throw new Error('Failed to delete payment');
+    }
+  }
+
+  /**
+   * Gets the invoices issued for a contract
+   * @param contractId - ID of the contract
+   * @returns Invoices, oldest first
+   */
+  static async getContractInvoices(contractId: string): Promise<Invoice[]> {
+    try {
+      const invoices = await this.storage.transaction(tx => tx.list<Invoice>('invoices'));
+      return invoices.filter(invoice => invoice.contractId === contractId);
+    } catch (error) {
+      console.error('Error fetching invoices:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Gets a specific invoice by ID
+   * @param invoiceId - ID of the invoice
+   * @returns Invoice or null if not found
+   */
+  static async getInvoice(invoiceId: string): Promise<Invoice | null> {
+    try {
+      return await this.storage.transaction(tx => tx.get<Invoice>('invoices', invoiceId));
+    } catch (error) {
+      console.error('Error fetching invoice:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Issues an invoice for a scheduled payment of a contract, or for a payment added by one of its amendments
+   * The invoice number is allocated, and the payment looked up and checked for an existing invoice, in the
+   * same transaction, so numbers stay sequential per vendor and simultaneous requests cannot bill a payment twice.
+   * @param contract - Signed contract being billed
+   * @param scheduleIndex - Position of the payment in the schedule
+   * @returns The issued invoice, or null if the payment does not exist or has already been invoiced
+   */
+  static async createInvoice(contract: Contract, scheduleIndex: number): Promise<Invoice | null> {
+    try {
+      return await this.storage.transaction(async tx => {
+        const invoices = await tx.list<Invoice>('invoices');
+        const amendments = (await tx.list<ContractAmendment>('amendments'))
+          .filter(amendment => amendment.contractId === contract.id);
+        const invoiceable = getInvoiceablePayments(
+          contract,
+          invoices.filter(invoice => invoice.contractId === contract.id),
+          amendments
+        ).find(candidate => candidate.scheduleIndex === scheduleIndex);
+
+        if (!invoiceable) {
+          return null;
+        }
+
+        const { payment } = invoiceable;
+
+        const vendorInvoiceCount = invoices.filter(invoice => invoice.vendorId === contract.vendorId).length;
+
+        const invoice: Invoice = {
+          id: generateId('invoice'),
+          vendorId: contract.vendorId,
+          contractId: contract.id,
+          number: formatInvoiceNumber(vendorInvoiceCount + 1),
+          scheduleIndex,
+          description: payment.label,
+          amount: payment.amount,
+          dueDate: payment.dueDate,
+          status: 'issued',
+          issuedAt: new Date().toISOString()
+        };
+
+        await tx.insert('invoices', invoice);
+        return invoice;
+      });
+    } catch (error) {
+      console.error('Error creating invoice:', error);
+      throw new Error('Failed to create invoice');
+    }
+  }
+
+  /**
+   * Marks an issued invoice as paid or void
+   * @param invoiceId - ID of the invoice
+   * @param status - New status
+   * @returns The updated invoice
+   */
+  static async updateInvoiceStatus(invoiceId: string, status: Exclude<InvoiceStatus, 'issued'>): Promise<Invoice> {
+    try {
+      return await this.storage.transaction(async tx => {
+        const invoice = await tx.get<Invoice>('invoices', invoiceId);
+
+        if (!invoice) {
+          throw new Error('Invoice not found');
+        }
+
+        const now = new Date().toISOString();
+        const updatedInvoice: Invoice = {
+          ...invoice,
+          status,
+          ...(status === 'paid' ? { paidAt: now } : { voidedAt: now })
+        };
+
+        await tx.update('invoices', updatedInvoice);
+        return updatedInvoice;
+      });
+    } catch (error) {
+      console.error('Error updating invoice:', error);
+      throw new Error('Failed to update invoice');
+    }
+  }
+
+  /**
+   * Gets the amendments of a contract
+   * @param contractId - ID of the contract
+   * @returns Amendments by number
+   */
+  static async getContractAmendments(contractId: string): Promise<ContractAmendment[]> {
+    const amendments = await this.getAmendmentsForContracts([contractId]);
+    return amendments.sort((a, b) => a.number - b.number);
+  }
+
+  /**
+   * Gets the amendments of any of several contracts
+   * @param contractIds - IDs of the contracts
+   * @returns Amendments in the order they were drafted
+   */
+  static async getAmendmentsForContracts(contractIds: string[]): Promise<ContractAmendment[]> {
+    try {
+      const amendments = await this.storage.transaction(tx => tx.list<ContractAmendment>('amendments'));
+      return amendments.filter(amendment => contractIds.indexOf(amendment.contractId) !== -1);
+    } catch (error) {
+      console.error('Error fetching amendments:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Gets a specific amendment by ID
+   * @param amendmentId - ID of the amendment
+   * @returns Amendment or null if not found
+   */
+  static async getAmendment(amendmentId: string): Promise<ContractAmendment | null> {
+    try {
+      return await this.storage.transaction(tx => tx.get<ContractAmendment>('amendments', amendmentId));
+    } catch (error) {
+      console.error('Error fetching amendment:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Drafts an amendment to a signed contract, to be signed by the parties who signed the contract
+   * The amendment is numbered after the highest existing one in the same transaction, so concurrent drafts
+   * never share a number.
+   * @param contract - Signed contract being amended
+   * @param amendmentData - Title, content and amount change of the amendment
+   * @returns The drafted amendment
+   */
+  static async createAmendment(contract: Contract, amendmentData: ContractAmendmentInput): Promise<ContractAmendment> {
+    try {
+      return await this.storage.transaction(async tx => {
+        const amendments = (await tx.list<ContractAmendment>('amendments'))
+          .filter(amendment => amendment.contractId === contract.id);
+        const lastNumber = amendments.reduce((max, amendment) => Math.max(max, amendment.number), 0);
+        const now = new Date().toISOString();
+
+        const amendment: ContractAmendment = {
+          id: generateId('amendment'),
+          contractId: contract.id,
+          vendorId: contract.vendorId,
+          number: lastNumber + 1,
+          title: amendmentData.title.trim(),
+          content: amendmentData.content,
+          amountDelta: amendmentData.amountDelta,
+          status: 'draft',
+          signers: buildAmendmentSigners(contract),
+          createdAt: now,
+          updatedAt: now
+        };
+
+        await tx.insert('amendments', amendment);
+        return amendment;
+      });
+    } catch (error) {
+      console.error('Error creating amendment:', error);
+      throw new Error('Failed to create amendment');
+    }
+  }
+
+  /**
+   * Updates a draft amendment
+   * @param amendmentId - ID of the amendment
+   * @param updates - Amendment fields to change
+   * @returns The updated amendment
+   */
+  static async updateAmendment(
+    amendmentId: string,
+    updates: Partial<ContractAmendmentInput>
+  ): Promise<ContractAmendment> {
+    try {
+      return await this.storage.transaction(async tx => {
+        const amendment = await tx.get<ContractAmendment>('amendments', amendmentId);
+
+        if (!amendment) {
+          throw new Error('Amendment not found');
+        }
+
+        if (amendment.status !== 'draft') {
+          throw new Error('Only draft amendments can be edited');
+        }
+
+        const updatedAmendment: ContractAmendment = {
+          ...amendment,
+          ...updates,
+          title: (updates.title ?? amendment.title).trim(),
+          updatedAt: new Date().toISOString()
+        };
+
+        await tx.update('amendments', updatedAmendment);
+        return updatedAmendment;
+      });
+    } catch (error) {
+      console.error('Error updating amendment:', error);
+      throw new Error('Failed to update amendment');
+    }
+  }
+
+  /**
+   * Deletes a draft amendment
+   * @param amendmentId - ID of the amendment
+   */
+  static async deleteAmendment(amendmentId: string): Promise<void> {
+    try {
+      await this.storage.transaction(async tx => {
+        const amendment = await tx.get<ContractAmendment>('amendments', amendmentId);
+
+        if (!amendment) {
+          throw new Error('Amendment not found');
+        }
+
+        if (amendment.status !== 'draft') {
+          throw new Error('Only draft amendments can be deleted');
+        }
+
+        await tx.remove('amendments', amendmentId);
+      });
+    } catch (error) {
+      console.error('Error deleting amendment:', error);
+      throw new Error('Failed to delete amendment');
+    }
+  }
+
+  /**
+   * Saves the vendor's signature on an amendment and issues its signing certificate in one transaction
+   * @param amendmentId - ID of the amendment
+   * @param signer - Signer applying the signature
+   * @param signature - Signature data
+   * @param audit - Evidence captured for the signing event
+   * @returns The issued signing certificate, or null if the contract can no longer take the amendment's amount change
+   */
+  static async saveAmendmentSignature(
+    amendmentId: string,
+    signer: ContractSigner,
+    signature: SignatureData,
+    audit: SigningAudit
+  ): Promise<SigningCertificate | null> {
+    try {
+      return await this.storage.transaction(async tx => {
+        const amendment = await tx.get<ContractAmendment>('amendments', amendmentId);
+
+        if (!amendment) {
+          throw new Error('Amendment not found');
+        }
+
+        const contract = await this.applyAmendmentSignature(tx, amendment, signer, signature);
+        return contract && this.issueCertificate(tx, contract, signature, audit, amendment);
+      });
+    } catch (error) {
+      console.error('Error saving amendment signature:', error);
+      throw new Error('Failed to save signature');
+    }
+  }
+
+  /**
+   * Stores a signature against a signer of an amendment and derives the new amendment status
+   * The amendment is executed once every party has signed. Its amount change is checked against the amendments
+   * executed and payments received so far, so reductions drafted side by side cannot together overshoot.
+   * @param tx - Active storage transaction
+   * @param amendment - Amendment being signed
+   * @param signer - Signer applying the signature
+   * @param signature - Signature data
+   * @returns The amended contract, or null if the contract can no longer take the amendment's amount change
+   */
+  private static async applyAmendmentSignature(
+    tx: StorageTransaction,
+    amendment: ContractAmendment,
+    signer: ContractSigner,
+    signature: SignatureData
+  ): Promise<Contract | null> {
+    const contract = await tx.get<Contract>('contracts', amendment.contractId);
+
+    if (!contract || !isAmendable(contract.status)) {
+      throw new Error('Contract can no longer be amended');
+    }
+
+    const index = amendment.signers.findIndex(existing => existing.id === signer.id);
+
+    if (index === -1) {
+      throw new Error('Signer not found');
+    }
+
+    if (amendment.signers[index].signature) {
+      throw new Error('Signer has already signed');
+    }
+
+    const amendments = (await tx.list<ContractAmendment>('amendments'))
+      .filter(existing => existing.contractId === contract.id);
+    const payments = (await tx.list<ContractPayment>('payments'))
+      .filter(payment => payment.contractId === contract.id);
+
+    if (!canApplyAmountDelta(contract, amendments, amendment.amountDelta, getTotalPaid(payments))) {
+      return null;
+    }
+
+    const updatedSigners = amendment.signers.map((existing, i) => i === index
+      ? {
+          ...existing,
+          name: signature.signedBy?.name || existing.name,
+          email: signature.signedBy?.email || existing.email,
+          signature
+        }
+      : existing
+    );
+    const status = getSigningStatus(updatedSigners);
+    const now = new Date().toISOString();
+
+    await tx.update('amendments', {
+      ...amendment,
+      signers: updatedSigners,
+      status,
+      ...(status === 'signed' ? { executedAt: now } : {}),
+      updatedAt: now
+    });
+
+    return contract;
+  }
+
+  /**
+   * Soft deletes a contract by moving it to the trash
+   * The status it had is kept so a restore can return the contract to it.
    * @param contractId - ID of the contract to delete
    */
   static async deleteContract(contractId: string): Promise<void> {
     try {
-      await this.updateContract(contractId, {
-        status: 'deleted' as any
+      await this.storage.transaction(async tx => {
+        const contract = await tx.get<Contract>('contracts', contractId);
+
+        if (!contract) {
+          throw new Error('Contract not found');
+        }
+
+        if (contract.status === 'deleted') {
+          return;
+        }
+
+        const now = new Date().toISOString();
+        const deletedContract: Contract = {
+          ...contract,
+          status: 'deleted',
+          previousStatus: contract.status,
+          deletedAt: now,
+          updatedAt: now
+        };
+
+        await tx.update('contracts', deletedContract);
+        await this.indexContract(tx, deletedContract);
       });
     } catch (error) {
       console.error('Error deleting contract:', error);
       throw new Error('Failed to delete contract');
     }
   }
+
+  /**
+   * Gets the contracts in a vendor's trash
+   * @param vendorId - ID of the vendor
+   * @returns Deleted contracts, most recently deleted first
+   */
+  static async getDeletedContractsByVendor(vendorId: string): Promise<Contract[]> {
+    try {
+      const contracts = await this.storage.transaction(tx => tx.list<Contract>('contracts'));
+      return contracts
+        .filter(contract => contract.vendorId === vendorId && contract.status === 'deleted')
+        .sort((a, b) => getDeletedAt(b).localeCompare(getDeletedAt(a)));
+    } catch (error) {
+      console.error('Error fetching deleted contracts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Restores a contract from the trash to the status it had before it was deleted
+   * @param contractId - ID of the deleted contract
+   * @returns The restored contract
+   */
+  static async restoreContract(contractId: string): Promise<Contract> {
+    try {
+      return await this.storage.transaction(async tx => {
+        const contract = await tx.get<Contract>('contracts', contractId);
+
+        if (!contract || contract.status !== 'deleted') {
+          throw new Error('Contract is not in the trash');
+        }
+
+        const { previousStatus: _, deletedAt: __, ...rest } = contract;
+        const restoredContract: Contract = {
+          ...rest,
+          status: getRestoredStatus(contract),
+          updatedAt: new Date().toISOString()
+        };
+
+        await tx.update('contracts', restoredContract);
+        await this.indexContract(tx, restoredContract);
+
+        return restoredContract;
+      });
+    } catch (error) {
+      console.error('Error restoring contract:', error);
+      throw new Error('Failed to restore contract');
+    }
+  }
+
+  /**
+   * Permanently deletes contracts that have been in the trash since before a cutoff
+   * Their share links, revisions, signing certificates, payments and amendments are deleted with them. Invoices are
+   * kept: they are part of the vendor's books, and invoice numbers are counted from them.
+   * @param cutoff - Contracts deleted before this time are purged
+   * @returns Number of contracts purged
+   */
+  static async purgeDeletedContracts(cutoff: Date): Promise<number> {
+    try {
+      return await this.storage.transaction(async tx => {
+        const cutoffIso = cutoff.toISOString();
+        const purged = (await tx.list<Contract>('contracts')).filter(contract =>
+          contract.status === 'deleted' && getDeletedAt(contract) < cutoffIso
+        );
+        const purgedIds = purged.map(contract => contract.id);
+
+        const dependents: CollectionName[] = [
+          'shareLinks',
+          'contractRevisions',
+          'signingCertificates',
+          'payments',
+          'amendments'
+        ];
+        for (const collection of dependents) {
+          const records = await tx.list<{ id: string; contractId: string }>(collection);
+          for (const record of records) {
+            if (purgedIds.indexOf(record.contractId) !== -1) {
+              await tx.remove(collection, record.id);
+            }
+          }
+        }
+
+        for (const contract of purged) {
+          await tx.remove('contracts', contract.id);
+        }
+
+        return purged.length;
+      });
+    } catch (error) {
+      console.error('Error purging deleted contracts:', error);
+      throw new Error('Failed to purge deleted contracts');
+    }
+  }
+
+  /**
+   * Creates a tokenized share link that lets a client signer sign a contract, or one of its amendments, remotely
+   * Sending a draft for signature moves it to the `sent` status in the same transaction.
+   * @param contractId - ID of the contract to share
+   * @param vendorId - ID of the vendor creating the link
+   * @param signerId - ID of the client signer the link is issued to
+   * @param expiresInDays - Number of days until the link expires
+   * @param amendmentId - ID of the amendment to sign instead of the contract itself
+   * @returns The created share link
+   */
+  static async createShareLink(
+    contractId: string,
+    vendorId: string,
+    signerId: string,
+    expiresInDays: number,
+    amendmentId?: string
+  ): Promise<ShareLink> {
+    try {
+      const now = new Date();
+      const shareLink: ShareLink = {
+        id: generateId('share'),
+        token: randomBytes(32).toString('base64url'),
+        contractId,
+        vendorId,
+        signerId,
+        ...(amendmentId ? { amendmentId } : {}),
+        expiresAt: new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+        createdAt: now.toISOString()
+      };
+
+      await this.storage.transaction(async tx => {
+        const contract = await tx.get<Contract>('contracts', contractId);
+
+        if (!contract) {
+          throw new Error('Contract not found');
+        }
+
+        if (amendmentId) {
+          const amendment = await tx.get<ContractAmendment>('amendments', amendmentId);
+
+          if (!amendment || amendment.contractId !== contractId) {
+            throw new Error('Amendment not found');
+          }
+
+          if (amendment.status === 'draft') {
+            await tx.update('amendments', {
+              ...amendment,
+              status: 'sent',
+              updatedAt: now.toISOString()
+            });
+          }
+        } else if (canTransition(contract.status, 'sent')) {
+          await tx.update('contracts', {
+            ...contract,
+            status: 'sent',
+            updatedAt: now.toISOString()
+          });
+        }
+
+        await tx.insert('shareLinks', shareLink);
+      });
+
+      return shareLink;
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      throw new Error('Failed to create share link');
+    }
+  }
+
+  /**
+   * Gets a share link by its token
+   * @param token - Token from the public signing URL
+   * @returns Share link or null if not found
+   */
+  static async getShareLinkByToken(token: string): Promise<ShareLink | null> {
+    try {
+      const shareLinks = await this.storage.transaction(tx => tx.list<ShareLink>('shareLinks'));
+      return shareLinks.find(link => link.token === token) || null;
+    } catch (error) {
+      console.error('Error fetching share link:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Records the first time a client opened a share link
+   * A contract waiting for its clients moves to viewed; links to amendments leave the contract as it is.
+   * @param shareLinkId - ID of the share link
+   * @returns ISO timestamp of the first view
+   */
+  static async markShareLinkViewed(shareLinkId: string): Promise<string | undefined> {
+    try {
+      return await this.storage.transaction(async tx => {
+        const shareLink = await tx.get<ShareLink>('shareLinks', shareLinkId);
+
+        if (!shareLink || shareLink.viewedAt) {
+          return shareLink?.viewedAt;
+        }
+
+        const viewedAt = new Date().toISOString();
+        await tx.update('shareLinks', { ...shareLink, viewedAt });
+
+        const contract = shareLink.amendmentId ? null : await tx.get<Contract>('contracts', shareLink.contractId);
+        if (contract && canTransition(contract.status, 'viewed')) {
+          await tx.update('contracts', { ...contract, status: 'viewed', updatedAt: viewedAt });
+        }
+
+        return viewedAt;
+      });
+    } catch (error) {
+      console.error('Error recording share link view:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Saves a client signature made through a share link, issues its signing certificate
+   * and retires the link in one transaction
+   * @param shareLinkId - ID of the share link used to sign
+   * @param signature - Signature data
+   * @param audit - Evidence captured for the signing event
+   * @returns The issued signing certificate, or null if the contract can no longer take the amount change
+   * of the amendment the link is for
+   */
+  static async saveClientSignature(
+    shareLinkId: string,
+    signature: SignatureData,
+    audit: SigningAudit
+  ): Promise<SigningCertificate | null> {
+    try {
+      return await this.storage.transaction(async tx => {
+        const shareLink = await tx.get<ShareLink>('shareLinks', shareLinkId);
+
+        if (!shareLink || shareLink.usedAt) {
+          throw new Error('Share link is no longer valid');
+        }
+
+        if (shareLink.amendmentId) {
+          const amendment = await tx.get<ContractAmendment>('amendments', shareLink.amendmentId);
+          const amendmentSigner = amendment?.signers.find(existing => existing.id === shareLink.signerId);
+
+          if (!amendment || !amendmentSigner) {
+            throw new Error('Amendment not found');
+          }
+
+          const amendedContract = await this.applyAmendmentSignature(tx, amendment, amendmentSigner, signature);
+
+          if (!amendedContract) {
+            return null;
+          }
+
+          await tx.update('shareLinks', {
+            ...shareLink,
+            usedAt: new Date().toISOString()
+          });
+
+          return this.issueCertificate(tx, amendedContract, signature, audit, amendment);
+        }
+
+        const contract = await tx.get<Contract>('contracts', shareLink.contractId);
+
+        if (!contract) {
+          throw new Error('Contract not found');
+        }
+
+        // Contracts created before multi-party signing adopt the client signing through an older link
+        const signer = getShareLinkSigner(contract, shareLink.signerId) || (!contract.signers && !shareLink.signerId
+          ? {
+              id: generateId('signer'),
+              role: 'client' as const,
+              name: signature.signedBy?.name || contract.clientName,
+              email: signature.signedBy?.email || ''
+            }
+          : undefined);
+
+        if (!signer) {
+          throw new Error('Signer not found');
+        }
+
+        await this.applySignature(tx, contract, signer, signature);
+        await tx.update('shareLinks', {
+          ...shareLink,
+          usedAt: new Date().toISOString()
+        });
+
+        return this.issueCertificate(tx, contract, signature, audit);
+      });
+    } catch (error) {
+      console.error('Error saving client signature:', error);
+      throw new Error('Failed to save signature');
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,461 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  Footer,
+  HeadingLevel,
+  ILevelsOptions,
+  INumberingOptions,
+  ImageRun,
+  LevelFormat,
+  PageNumber,
+  Paragraph,
+  ParagraphChild,
+  TextRun
+} from 'docx';
+import { Contract, ContractSigner } from '@/types';
+import { HtmlElementNode, HtmlNode, getTextContent, parseHtml } from './html-parser';
+import { getContractSigners } from './signers';
+import { CONTRACT_STATUS_LABELS } from './contract-lifecycle';
+import { FormatContext, formatCurrency, formatDate, formatDateTime, FULL_DATE, getFormatContext } from './utils';
+
+/**
+ * Word document layout for contracts
+ * Maps rich text HTML to native Word headings, lists and character formatting so the file stays editable.
+ */
+
+/** Numbering definition shared by every bulleted list */
+const BULLET_REFERENCE = 'contract-bullets';
+/** Indent of each list level, in twentieths of a point */
+const LIST_INDENT = 360;
+/** Indent of a blockquote, in twentieths of a point */
+const QUOTE_INDENT = 340;
+/** Font used for code */
+const MONOSPACE_FONT = 'Courier New';
+/** Hex colours, without the leading # */
+const LINK_COLOR = '2563EB';
+const QUOTE_COLOR = '555555';
+const MUTED_TEXT_COLOR = '808080';
+/** Size of a drawn signature, in pixels */
+const SIGNATURE_IMAGE_WIDTH = 300;
+const SIGNATURE_IMAGE_HEIGHT = 90;
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+];
+
+/**
+ * Elements laid out as blocks rather than inline text
+ */
+const BLOCK_TAGS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'pre', 'hr', 'div'
+]);
+
+/**
+ * Character formatting inherited by nested inline elements
+ */
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  monospace?: boolean;
+  color?: string;
+}
+
+/**
+ * List item whose first paragraph still needs its bullet or number
+ */
+interface PendingListItem {
+  reference: string;
+  level: number;
+}
+
+/**
+ * State shared while converting one HTML fragment
+ */
+interface RenderState {
+  paragraphs: Paragraph[];
+  numbering: INumberingOptions['config'][number][];
+  pendingItem: PendingListItem | null;
+}
+
+/**
+ * Layout of the block being converted
+ */
+interface BlockContext {
+  style: RunStyle;
+  /** Left indent, in twentieths of a point */
+  indent: number;
+  /** Nesting depth of lists around the block */
+  listDepth: number;
+  /** Whether the block is inside a blockquote */
+  quoted: boolean;
+}
+
+/**
+ * Builds the nine levels of a list numbering definition
+ */
+const buildListLevels = (ordered: boolean, start = 1): ILevelsOptions[] => {
+  const levels: ILevelsOptions[] = [];
+
+  for (let level = 0; level < 9; level++) {
+    levels.push({
+      level,
+      format: ordered ? LevelFormat.DECIMAL : LevelFormat.BULLET,
+      text: ordered ? `%${level + 1}.` : level % 2 === 0 ? '•' : '–',
+      start: level === 0 ? start : 1,
+      alignment: AlignmentType.LEFT,
+      style: {
+        paragraph: {
+          indent: { left: LIST_INDENT * (level + 1), hanging: LIST_INDENT }
+        }
+      }
+    });
+  }
+
+  return levels;
+};
+
+/**
+ * Creates text runs for inline HTML
+ */
+const collectRuns = (nodes: HtmlNode[], style: RunStyle, runs: ParagraphChild[]): void => {
+  nodes.forEach(node => {
+    if (node.type === 'text') {
+      runs.push(new TextRun({
+        text: node.text.replace(/\s+/g, ' '),
+        bold: style.bold,
+        italics: style.italic,
+        underline: style.underline ? {} : undefined,
+        strike: style.strike,
+        font: style.monospace ? MONOSPACE_FONT : undefined,
+        color: style.color
+      }));
+      return;
+    }
+
+    switch (node.tag) {
+      case 'br':
+        runs.push(new TextRun({ break: 1 }));
+        return;
+      case 'img':
+        return;
+      case 'strong':
+      case 'b':
+        collectRuns(node.children, { ...style, bold: true }, runs);
+        return;
+      case 'em':
+      case 'i':
+        collectRuns(node.children, { ...style, italic: true }, runs);
+        return;
+      case 'u':
+      case 'ins':
+        collectRuns(node.children, { ...style, underline: true }, runs);
+        return;
+      case 's':
+      case 'strike':
+      case 'del':
+        collectRuns(node.children, { ...style, strike: true }, runs);
+        return;
+      case 'code':
+      case 'kbd':
+        collectRuns(node.children, { ...style, monospace: true }, runs);
+        return;
+      case 'a': {
+        const linkRuns: ParagraphChild[] = [];
+        collectRuns(node.children, { ...style, underline: true, color: LINK_COLOR }, linkRuns);
+        if (node.attributes.href) {
+          runs.push(new ExternalHyperlink({ link: node.attributes.href, children: linkRuns }));
+        } else {
+          runs.push(...linkRuns);
+        }
+        return;
+      }
+      default:
+        collectRuns(node.children, style, runs);
+    }
+  });
+};
+
+/**
+ * Adds a paragraph, giving it the pending list marker if it opens a list item
+ */
+const addParagraph = (
+  children: ParagraphChild[],
+  ctx: BlockContext,
+  state: RenderState,
+  options: { heading?: (typeof HEADING_LEVELS)[number]; border?: boolean } = {}
+): void => {
+  const item = state.pendingItem;
+  state.pendingItem = null;
+
+  state.paragraphs.push(new Paragraph({
+    children,
+    heading: options.heading,
+    numbering: item ? { reference: item.reference, level: item.level } : undefined,
+    indent: item || ctx.indent === 0 ? undefined : { left: ctx.indent },
+    spacing: { after: ctx.listDepth > 0 ? 60 : 160 },
+    border: ctx.quoted
+      ? { left: { style: BorderStyle.SINGLE, size: 12, color: 'CCCCCC', space: 8 } }
+      : options.border
+        ? { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'CCCCCC', space: 1 } }
+        : undefined
+  }));
+};
+
+/**
+ * Converts a bulleted or numbered list, nesting inner lists a level deeper
+ */
+const renderList = (list: HtmlElementNode, ctx: BlockContext, state: RenderState): void => {
+  let reference = BULLET_REFERENCE;
+
+  if (list.tag === 'ol') {
+    // Each numbered list gets its own definition so it restarts at its own start number
+    const start = parseInt(list.attributes.start, 10);
+    reference = `contract-numbers-${state.numbering.length}`;
+    state.numbering.push({ reference, levels: buildListLevels(true, isNaN(start) ? 1 : start) });
+  }
+
+  const itemContext: BlockContext = {
+    ...ctx,
+    indent: LIST_INDENT * (ctx.listDepth + 1),
+    listDepth: ctx.listDepth + 1
+  };
+
+  list.children.forEach(child => {
+    if (child.type !== 'element' || child.tag !== 'li') return;
+
+    state.pendingItem = { reference, level: Math.min(ctx.listDepth, 8) };
+    renderBlocks(child.children, itemContext, state);
+    if (state.pendingItem) {
+      // Empty items still get their marker
+      addParagraph([], itemContext, state);
+    }
+  });
+};
+
+/**
+ * Converts a single block-level element
+ */
+const renderBlock = (element: HtmlElementNode, ctx: BlockContext, state: RenderState): void => {
+  const headingLevel = element.tag.match(/^h([1-6])$/);
+
+  if (headingLevel) {
+    const runs: ParagraphChild[] = [];
+    collectRuns(element.children, ctx.style, runs);
+    addParagraph(runs, ctx, state, { heading: HEADING_LEVELS[Number(headingLevel[1]) - 1] });
+    return;
+  }
+
+  switch (element.tag) {
+    case 'ul':
+    case 'ol':
+      renderList(element, ctx, state);
+      return;
+    case 'blockquote':
+      renderBlocks(element.children, {
+        ...ctx,
+        indent: ctx.indent + QUOTE_INDENT,
+        style: { ...ctx.style, italic: true, color: QUOTE_COLOR },
+        quoted: true
+      }, state);
+      return;
+    case 'pre': {
+      const lines = getTextContent(element).replace(/\n$/, '').split('\n');
+      addParagraph(
+        lines.map((line, index) => new TextRun({ text: line, font: MONOSPACE_FONT, break: index > 0 ? 1 : undefined })),
+        ctx,
+        state
+      );
+      return;
+    }
+    case 'hr':
+      addParagraph([], ctx, state, { border: true });
+      return;
+    case 'p': {
+      const runs: ParagraphChild[] = [];
+      collectRuns(element.children, ctx.style, runs);
+      addParagraph(runs, ctx, state);
+      return;
+    }
+    default:
+      renderBlocks(element.children, ctx, state);
+  }
+};
+
+/**
+ * Converts block-level nodes, grouping loose inline content into paragraphs
+ */
+const renderBlocks = (nodes: HtmlNode[], ctx: BlockContext, state: RenderState): void => {
+  let inline: HtmlNode[] = [];
+
+  const flushInline = () => {
+    if (inline.some(node => getTextContent(node).trim() !== '')) {
+      const runs: ParagraphChild[] = [];
+      collectRuns(inline, ctx.style, runs);
+      addParagraph(runs, ctx, state);
+    }
+    inline = [];
+  };
+
+  nodes.forEach(node => {
+    if (node.type === 'element' && BLOCK_TAGS.has(node.tag)) {
+      flushInline();
+      renderBlock(node, ctx, state);
+    } else {
+      inline.push(node);
+    }
+  });
+
+  flushInline();
+};
+
+/**
+ * Converts rich text HTML into Word paragraphs
+ * @param html - HTML produced by the rich text editor
+ * @returns Paragraphs and the numbering definitions their lists use
+ */
+export const renderHtmlToDocx = (html: string): Pick<RenderState, 'paragraphs' | 'numbering'> => {
+  const state: RenderState = {
+    paragraphs: [],
+    numbering: [{ reference: BULLET_REFERENCE, levels: buildListLevels(false) }],
+    pendingItem: null
+  };
+
+  renderBlocks(parseHtml(html), { style: {}, indent: 0, listDepth: 0, quoted: false }, state);
+  return state;
+};
+
+/**
+ * Creates a paragraph with a bold label followed by a value
+ */
+const labelledParagraph = (label: string, value: string): Paragraph => {
+  return new Paragraph({
+    children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value)],
+    spacing: { after: 60 }
+  });
+};
+
+/**
+ * Creates the signature block of one party
+ * Unsigned parties get a blank line to sign on, so the file can also be signed on paper.
+ */
+const renderSignatureBlock = (signer: ContractSigner, formatContext: FormatContext): Paragraph[] => {
+  const identity = [signer.name, signer.email && `<${signer.email}>`].filter(Boolean).join(' ');
+  const blocks = [
+    new Paragraph({
+      children: [new TextRun({ text: `${signer.role === 'vendor' ? 'Vendor' : 'Client'}${identity ? `: ${identity}` : ''}`, bold: true })],
+      keepNext: true,
+      spacing: { before: 240, after: 60 }
+    })
+  ];
+  const signature = signer.signature;
+
+  if (!signature) {
+    blocks.push(
+      new Paragraph({ text: 'Signature: ______________________________', keepNext: true, spacing: { before: 360, after: 120 } }),
+      new Paragraph({ text: 'Date: ______________________________' })
+    );
+    return blocks;
+  }
+
+  blocks.push(
+    new Paragraph({
+      text: `Signed on: ${formatDateTime(signature.timestamp, formatContext, {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+      })}`,
+      keepNext: true,
+      spacing: { after: 60 }
+    }),
+    new Paragraph({
+      text: `Signature Type: ${signature.type === 'drawn' ? 'Digital Drawing' : 'Typed Signature'}`,
+      keepNext: true,
+      spacing: { after: 60 }
+    })
+  );
+
+  if (signature.type === 'drawn' && signature.data) {
+    blocks.push(new Paragraph({
+      children: [new ImageRun({
+        type: signature.data.startsWith('data:image/jpeg') ? 'jpg' : 'png',
+        data: signature.data,
+        transformation: { width: SIGNATURE_IMAGE_WIDTH, height: SIGNATURE_IMAGE_HEIGHT },
+        altText: { name: 'Signature', description: `Signature of ${signer.name || 'signer'}`, title: 'Signature' }
+      })]
+    }));
+  } else if (signature.type === 'typed') {
+    blocks.push(new Paragraph({
+      children: [new TextRun({ text: signature.data, italics: true, size: 32 })]
+    }));
+  }
+
+  return blocks;
+};
+
+/**
+ * Builds the Word document for a contract
+ * Contains the same sections as the PDF, plus signature lines for parties who have not signed yet.
+ * @param contract - Contract to render
+ * @param locale - Locale of the vendor, which amounts and dates are written in
+ * @returns Word document
+ */
+export const buildContractDocx = (contract: Contract, locale?: string): Document => {
+  const content = renderHtmlToDocx(contract.content);
+  const signers = getContractSigners(contract);
+  const formatContext = getFormatContext(contract, { locale });
+
+  const details = [
+    labelledParagraph('Contract ID', contract.id),
+    labelledParagraph('Client Name', contract.clientName),
+    labelledParagraph('Event Date', formatDate(contract.eventDate, formatContext, FULL_DATE)),
+    labelledParagraph('Event Venue', contract.eventVenue),
+    labelledParagraph('Service Package', contract.servicePackage),
+    labelledParagraph('Amount', formatCurrency(contract.amount, formatContext)),
+    labelledParagraph('Status', CONTRACT_STATUS_LABELS[contract.status])
+  ];
+
+  const signatureSection = signers.length > 0
+    ? [
+      new Paragraph({ text: 'Signatures', heading: HeadingLevel.HEADING_1, spacing: { before: 360 } }),
+      ...signers.reduce<Paragraph[]>((blocks, signer) => blocks.concat(renderSignatureBlock(signer, formatContext)), [])
+    ]
+    : [];
+
+  return new Document({
+    title: `Wedding Vendor Contract - ${contract.clientName}`,
+    numbering: { config: content.numbering },
+    sections: [{
+      footers: {
+        default: new Footer({
+          children: [new Paragraph({
+            alignment: AlignmentType.RIGHT,
+            children: [new TextRun({
+              children: ['Page ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES],
+              size: 16,
+              color: MUTED_TEXT_COLOR
+            })]
+          })]
+        })
+      },
+      children: [
+        new Paragraph({ text: 'Wedding Vendor Contract', heading: HeadingLevel.TITLE }),
+        new Paragraph({ text: 'Contract Details', heading: HeadingLevel.HEADING_1 }),
+        ...details,
+        new Paragraph({ text: 'Contract Terms', heading: HeadingLevel.HEADING_1, spacing: { before: 360 } }),
+        ...content.paragraphs,
+        ...signatureSection
+      ]
+    }]
+  });
+};
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { Contract } from '@/types';
+
+/**
+ * Builds the file name used for a contract Word document
+ * @param contract - Contract being exported
+ * @returns File name ending in .docx
+ */
+export const getContractDocxFileName = (contract: Contract): string => {
+  return `contract-${contract.clientName.replace(/\s+/g, '-').toLowerCase()}-${contract.id}.docx`;
+};
+
+/**
+ * Generates the Word document for a contract in any environment
+ * @param contract - Contract to render
+ * @param locale - Locale of the vendor, which amounts and dates are written in
+ * @returns DOCX file contents
+ */
+export const generateContractDocx = async (contract: Contract, locale?: string): Promise<ArrayBuffer> => {
+  try {
+    // Import the DOCX writer dynamically to keep it out of the page bundles
+    const { Packer } = await import('docx');
+    const { buildContractDocx } = await import('./docx-renderer');
+
+    return await Packer.pack(buildContractDocx(contract, locale), 'arraybuffer');
+  } catch (error) {
+    console.error('Error generating DOCX:', error);
+    throw new Error('Failed to generate Word document. Please try again.');
+  }
+};
+
+/**
+ * Generates and downloads a Word document for a contract
+ * @param contract - Contract to render
+ * @param locale - Locale of the vendor, which amounts and dates are written in
+ */
+export const downloadContractDocx = async (contract: Contract, locale?: string): Promise<void> => {
+  try {
+    const { Packer } = await import('docx');
+    const { buildContractDocx } = await import('./docx-renderer');
+    const blob = await Packer.toBlob(buildContractDocx(contract, locale));
+
+    // Download the file through a temporary link
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getContractDocxFileName(contract);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Error generating DOCX:', error);
+    throw new Error('Failed to generate Word document. Please try again.');
+  }
+};
\ No newline at end of file
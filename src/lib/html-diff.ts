@@ -0,0 +1,153 @@
+/**
+ * Word-level diff for rich text contract content
+ */
+
+/**
+ * Result of comparing two HTML documents
+ */
+export interface HtmlDiffResult {
+  /** Old document with removed text wrapped in <del> */
+  before: string;
+  /** New document with added text wrapped in <ins> */
+  after: string;
+  /** Whether the documents differ at all */
+  hasChanges: boolean;
+}
+
+/**
+ * Largest LCS table (in cells) computed before falling back to a whole-block replacement
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+type DiffOp = { type: 'equal' | 'delete' | 'insert'; token: string };
+
+/**
+ * Splits HTML into tags, words and whitespace runs
+ */
+function tokenize(html: string): string[] {
+  return html.match(/<[^>]*>|[^<\s]+|\s+/g) || [];
+}
+
+/**
+ * Checks whether a token is an HTML tag
+ */
+function isTag(token: string): boolean {
+  return token.startsWith('<');
+}
+
+/**
+ * Computes the edit script between two token lists using a longest common subsequence
+ * Shared leading and trailing tokens are trimmed first to keep the table small.
+ */
+function diffTokens(oldTokens: string[], newTokens: string[]): DiffOp[] {
+  let start = 0;
+  while (
+    start < oldTokens.length &&
+    start < newTokens.length &&
+    oldTokens[start] === newTokens[start]
+  ) {
+    start++;
+  }
+
+  let oldEnd = oldTokens.length;
+  let newEnd = newTokens.length;
+  while (oldEnd > start && newEnd > start && oldTokens[oldEnd - 1] === newTokens[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const head: DiffOp[] = oldTokens.slice(0, start).map(token => ({ type: 'equal', token }));
+  const tail: DiffOp[] = oldTokens.slice(oldEnd).map(token => ({ type: 'equal', token }));
+  const oldMiddle = oldTokens.slice(start, oldEnd);
+  const newMiddle = newTokens.slice(start, newEnd);
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...oldMiddle.map(token => ({ type: 'delete' as const, token })),
+      ...newMiddle.map(token => ({ type: 'insert' as const, token })),
+      ...tail
+    ];
+  }
+
+  // lengths[i * (m + 1) + j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+  const width = m + 1;
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] = oldMiddle[i] === newMiddle[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const middle: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldMiddle[i] === newMiddle[j]) {
+      middle.push({ type: 'equal', token: oldMiddle[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      middle.push({ type: 'delete', token: oldMiddle[i++] });
+    } else {
+      middle.push({ type: 'insert', token: newMiddle[j++] });
+    }
+  }
+  while (i < n) middle.push({ type: 'delete', token: oldMiddle[i++] });
+  while (j < m) middle.push({ type: 'insert', token: newMiddle[j++] });
+
+  return [...head, ...middle, ...tail];
+}
+
+/**
+ * Renders one side of the diff, wrapping changed text runs in a marker element
+ * Tags are always emitted unwrapped so each side keeps its own valid structure.
+ */
+function renderSide(ops: DiffOp[], changedType: 'delete' | 'insert', marker: 'del' | 'ins'): string {
+  let html = '';
+  let run = '';
+
+  const flush = () => {
+    if (run) {
+      html += run.trim() ? `<${marker}>${run}</${marker}>` : run;
+      run = '';
+    }
+  };
+
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      flush();
+      html += op.token;
+    } else if (op.type === changedType) {
+      if (isTag(op.token)) {
+        flush();
+        html += op.token;
+      } else {
+        run += op.token;
+      }
+    }
+  }
+  flush();
+
+  return html;
+}
+
+/**
+ * Compares two HTML documents word by word
+ * @param oldHtml - Earlier version of the content
+ * @param newHtml - Later version of the content
+ * @returns Both versions annotated with their removed and added text
+ */
+export function diffHtml(oldHtml: string, newHtml: string): HtmlDiffResult {
+  const ops = diffTokens(tokenize(oldHtml), tokenize(newHtml));
+
+  return {
+    before: renderSide(ops, 'delete', 'del'),
+    after: renderSide(ops, 'insert', 'ins'),
+    hasChanges: ops.some(op => op.type !== 'equal')
+  };
+}
\ No newline at end of file
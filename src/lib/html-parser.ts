@@ -0,0 +1,185 @@
+/**
+ * Minimal HTML parser for rich text contract content
+ * Works without a DOM so documents can be rendered on the server as well as in the browser.
+ */
+
+/**
+ * Element in a parsed HTML tree
+ */
+export interface HtmlElementNode {
+  type: 'element';
+  /** Lower-case tag name */
+  tag: string;
+  /** Attribute values by lower-case name */
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+/**
+ * Text in a parsed HTML tree, with entities decoded
+ */
+export interface HtmlTextNode {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * Node in a parsed HTML tree
+ */
+export type HtmlNode = HtmlElementNode | HtmlTextNode;
+
+/**
+ * Elements that never have children or a closing tag
+ */
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+/**
+ * Named entities decoded in text and attribute values
+ */
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  hellip: '…',
+  bull: '•',
+  copy: '©',
+  reg: '®',
+  trade: '™'
+};
+
+/**
+ * Decodes named and numeric HTML entities
+ * @param text - Raw text from the HTML source
+ * @returns Decoded text; unknown entities are left as written
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const charCode = code[1] === 'x' || code[1] === 'X'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      return isNaN(charCode) ? entity : String.fromCharCode(charCode);
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Escapes text for insertion into HTML
+ * @param text - Plain text
+ * @returns Text safe to use as element content or a quoted attribute value
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Parses the attributes of an opening tag
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+    attributes[match[1].toLowerCase()] = decodeHtmlEntities(value);
+  }
+
+  return attributes;
+}
+
+/**
+ * Parses an HTML fragment into a tree
+ * Unclosed elements are closed at the end of their parent and stray closing tags are ignored,
+ * so malformed content still produces a usable tree.
+ * @param html - HTML fragment
+ * @returns Top-level nodes
+ */
+export function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlElementNode = { type: 'element', tag: '#root', attributes: {}, children: [] };
+  const stack: HtmlElementNode[] = [root];
+  const tokens = html.match(/<!--[\s\S]*?-->|<\/?[a-zA-Z][^>]*>|[^<]+|</g) || [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const parent = stack[stack.length - 1];
+
+    if (token.startsWith('<!--')) {
+      continue;
+    }
+
+    const closing = token.match(/^<\/([a-zA-Z][\w-]*)/);
+    if (closing) {
+      const tag = closing[1].toLowerCase();
+      // Close the nearest matching element, along with anything left open inside it
+      for (let depth = stack.length - 1; depth > 0; depth--) {
+        if (stack[depth].tag === tag) {
+          stack.length = depth;
+          break;
+        }
+      }
+      continue;
+    }
+
+    const opening = token.match(/^<([a-zA-Z][\w-]*)([\s\S]*?)(\/?)>$/);
+    if (opening) {
+      const tag = opening[1].toLowerCase();
+      const element: HtmlElementNode = {
+        type: 'element',
+        tag,
+        attributes: parseAttributes(opening[2]),
+        children: []
+      };
+      parent.children.push(element);
+
+      if (!VOID_ELEMENTS.has(tag) && opening[3] !== '/') {
+        stack.push(element);
+      }
+      continue;
+    }
+
+    parent.children.push({ type: 'text', text: decodeHtmlEntities(token) });
+  }
+
+  return root.children;
+}
+
+/**
+ * Extracts the text of a node and its descendants
+ * @param node - Node to read
+ * @returns Concatenated text content
+ */
+export function getTextContent(node: HtmlNode): string {
+  if (node.type === 'text') {
+    return node.text;
+  }
+
+  return node.children.map(getTextContent).join('');
+}
+
+/**
+ * Converts an HTML fragment to plain text for searching
+ * Block boundaries and line breaks become spaces, inline tags are dropped and whitespace is collapsed.
+ * @param html - HTML fragment
+ * @returns Plain text on a single line
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<\/?(p|div|br|h[1-6]|li|ul|ol|blockquote|pre|table|tr|td|th|hr)\b[^>]*>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->|<\/?[a-zA-Z][^>]*>/g, '');
+  return decodeHtmlEntities(text).replace(/\s+/g, ' ').trim();
+}
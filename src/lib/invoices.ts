@@ -0,0 +1,99 @@
+import { Contract, ContractAmendment, Invoice, InvoiceStatus, ScheduledPayment } from '@/types';
+import { INVOICE_SETTINGS } from './constants';
+import { getContractScheduledPayments } from './payment-ledger';
+import { toCents } from './payment-schedule';
+
+/**
+ * Scheduled payment of a contract that can be invoiced
+ */
+export interface InvoiceablePayment {
+  /** Position of the payment in the schedule (0 is the deposit) */
+  scheduleIndex: number;
+  /** The scheduled payment */
+  payment: ScheduledPayment;
+}
+
+/**
+ * Issued invoice whose payment an executed amendment has since changed
+ */
+export interface OutdatedInvoice {
+  /** The invoice, still billing the amount due when it was issued */
+  invoice: Invoice;
+  /** Amount the payment is due now; zero when an amendment took it off the contract */
+  amount: number;
+}
+
+/**
+ * Display names of invoice statuses
+ */
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  issued: 'Issued',
+  paid: 'Paid',
+  void: 'Void'
+};
+
+/**
+ * Formats the invoice number for a vendor's nth invoice
+ * @param sequence - Position of the invoice among the vendor's invoices, starting at 1
+ * @returns Invoice number such as INV-0007
+ */
+export function formatInvoiceNumber(sequence: number): string {
+  const digits = String(sequence);
+  const padding = new Array(Math.max(0, INVOICE_SETTINGS.NUMBER_DIGITS - digits.length) + 1).join('0');
+  return `${INVOICE_SETTINGS.NUMBER_PREFIX}${padding}${digits}`;
+}
+
+/**
+ * Checks whether an invoice can move to a status
+ * Only issued invoices change: once paid or void an invoice is final.
+ * @param invoice - Invoice to change
+ * @param status - Requested status
+ * @returns True if the change is allowed
+ */
+export function canChangeInvoiceStatus(invoice: Invoice, status: InvoiceStatus): boolean {
+  return invoice.status === 'issued' && status !== 'issued';
+}
+
+/**
+ * Lists the scheduled payments of a contract that have no invoice yet
+ * A payment whose invoice was voided can be invoiced again. Payments added by executed amendments can be
+ * invoiced too, and payments an amendment reduced to nothing cannot.
+ * @param contract - Signed contract
+ * @param invoices - Invoices already issued for the contract
+ * @param amendments - Amendments of the contract
+ * @returns Payments that can be invoiced, in schedule order
+ */
+export function getInvoiceablePayments(
+  contract: Contract,
+  invoices: Invoice[],
+  amendments: ContractAmendment[] = []
+): InvoiceablePayment[] {
+  return getContractScheduledPayments(contract, amendments)
+    .map((payment, scheduleIndex) => ({ scheduleIndex, payment }))
+    .filter(({ scheduleIndex, payment }) =>
+      payment.amount > 0 &&
+      !invoices.some(invoice => invoice.scheduleIndex === scheduleIndex && invoice.status !== 'void')
+    );
+}
+
+/**
+ * Lists the issued invoices that no longer bill what their payment is due
+ * An amendment executed after an invoice was issued can reduce or remove its payment. Voiding such an invoice
+ * lets the payment be invoiced again at its current amount.
+ * @param contract - Signed contract
+ * @param invoices - Invoices issued for the contract
+ * @param amendments - Amendments of the contract
+ * @returns Outdated invoices with the current amount of their payment, in the order given
+ */
+export function getOutdatedInvoices(
+  contract: Contract,
+  invoices: Invoice[],
+  amendments: ContractAmendment[] = []
+): OutdatedInvoice[] {
+  const payments = getContractScheduledPayments(contract, amendments);
+
+  return invoices
+    .filter(invoice => invoice.status === 'issued')
+    .map(invoice => ({ invoice, amount: payments[invoice.scheduleIndex]?.amount ?? 0 }))
+    .filter(({ invoice, amount }) => toCents(amount) !== toCents(invoice.amount));
+}
\ No newline at end of file
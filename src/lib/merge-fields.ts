@@ -0,0 +1,300 @@
+import { Contract, PaymentSchedule } from '@/types';
+import { CONTRACT_SETTINGS, MERGE_FIELD_NAMES } from './constants';
+import { escapeHtml } from './html-parser';
+import { formatCurrency, formatDate } from './utils';
+
+/**
+ * Merge-field engine for contract content
+ * Placeholders are written as `{{field}}`; each field has a type that decides how its value is formatted,
+ * and computed fields are derived from the contract details.
+ */
+
+/**
+ * Name of a merge field
+ */
+export type MergeFieldName = typeof MERGE_FIELD_NAMES[number];
+
+/**
+ * Kind of value a merge field holds, which decides how it is formatted
+ */
+export type MergeFieldType = 'text' | 'date' | 'currency';
+
+/**
+ * Details merge fields are resolved from, as entered on the contract form or stored on a contract
+ */
+export type MergeContext = Pick<Contract, 'clientName' | 'eventDate' | 'eventVenue' | 'servicePackage' | 'currency'> & {
+  /** Contract amount, as a number or as typed into the form */
+  amount: string | number;
+  /** Name of the vendor, if known */
+  vendorName?: string;
+  /** Date the contract is drawn up (defaults to today) */
+  contractDate?: Date;
+  /** Payment schedule; without one the deposit and balance follow the default terms */
+  paymentSchedule?: PaymentSchedule;
+  /** Locale of the vendor, which amounts and dates are written in */
+  locale?: string;
+};
+
+/**
+ * Describes a merge field
+ */
+export interface MergeFieldDefinition {
+  /** Kind of value the field holds */
+  type: MergeFieldType;
+  /** Display name of the field */
+  label: string;
+  /** Whether the value is derived from other contract details */
+  computed: boolean;
+  /** Date format, for date fields */
+  dateFormat?: Intl.DateTimeFormatOptions;
+  /** Reads the raw value from the contract details, or undefined if it cannot be resolved yet */
+  resolve: (context: MergeContext) => string | number | Date | undefined;
+}
+
+/**
+ * Why a placeholder could not be filled in
+ * `unknown` fields are not merge fields, `missing` fields have no value yet,
+ * and `literal` placeholders such as `[DATE]` were left in the text by hand or by AI generation.
+ */
+export type UnresolvedPlaceholderReason = 'unknown' | 'missing' | 'literal';
+
+/**
+ * Placeholder left in contract content
+ */
+export interface UnresolvedPlaceholder {
+  /** Placeholder as written in the content */
+  placeholder: string;
+  /** Why it could not be filled in */
+  reason: UnresolvedPlaceholderReason;
+}
+
+/**
+ * Content with its merge fields filled in
+ */
+export interface MergeResult {
+  /** Rendered content */
+  content: string;
+  /** Placeholders still in the rendered content */
+  unresolved: UnresolvedPlaceholder[];
+}
+
+/** Matches a merge field, allowing spaces inside the braces */
+const MERGE_FIELD_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+/** Matches a bracketed placeholder such as [DATE] or [Client Name] */
+const LITERAL_PLACEHOLDER_PATTERN = /\[[A-Z][A-Za-z0-9]+(?:[ _-][A-Z][A-Za-z0-9]*)*\]/g;
+
+const LONG_DATE: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses the contract amount, or undefined if it is not a positive number
+ */
+const parseAmount = (context: MergeContext): number | undefined => {
+  const amount = typeof context.amount === 'string' ? parseFloat(context.amount) : context.amount;
+  return !isNaN(amount) && amount > 0 ? amount : undefined;
+};
+
+/**
+ * Parses the event date, or undefined if it is not a valid date
+ */
+const parseEventDate = (context: MergeContext): Date | undefined => {
+  const eventDate = context.eventDate ? new Date(context.eventDate) : undefined;
+  return eventDate && !isNaN(eventDate.getTime()) ? eventDate : undefined;
+};
+
+/**
+ * Rounds a currency amount to cents
+ */
+const roundCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Gets the deposit, from the payment schedule or the default deposit percentage
+ */
+const resolveDeposit = (context: MergeContext): number | undefined => {
+  const scheduledDeposit = context.paymentSchedule?.deposit.amount;
+  if (scheduledDeposit !== undefined && isFinite(scheduledDeposit)) {
+    return scheduledDeposit;
+  }
+
+  const amount = parseAmount(context);
+  return amount === undefined ? undefined : roundCents(amount * CONTRACT_SETTINGS.DEFAULT_DEPOSIT_PERCENTAGE);
+};
+
+/**
+ * Every merge field, keyed by name
+ */
+export const MERGE_FIELDS: Record<MergeFieldName, MergeFieldDefinition> = {
+  clientName: {
+    type: 'text',
+    label: 'Client name',
+    computed: false,
+    resolve: context => context.clientName.trim() || undefined
+  },
+  eventDate: {
+    type: 'date',
+    label: 'Event date',
+    computed: false,
+    dateFormat: { weekday: 'long', ...LONG_DATE },
+    resolve: parseEventDate
+  },
+  eventVenue: {
+    type: 'text',
+    label: 'Event venue',
+    computed: false,
+    resolve: context => context.eventVenue.trim() || undefined
+  },
+  servicePackage: {
+    type: 'text',
+    label: 'Service package',
+    computed: false,
+    resolve: context => context.servicePackage.trim() || undefined
+  },
+  amount: {
+    type: 'currency',
+    label: 'Total amount',
+    computed: false,
+    resolve: parseAmount
+  },
+  vendorName: {
+    type: 'text',
+    label: 'Vendor name',
+    computed: false,
+    resolve: context => context.vendorName?.trim() || undefined
+  },
+  contractDate: {
+    type: 'date',
+    label: 'Contract date',
+    computed: true,
+    dateFormat: LONG_DATE,
+    resolve: context => context.contractDate || new Date()
+  },
+  deposit: {
+    type: 'currency',
+    label: 'Deposit',
+    computed: true,
+    resolve: resolveDeposit
+  },
+  balance: {
+    type: 'currency',
+    label: 'Balance after deposit',
+    computed: true,
+    resolve: context => {
+      const amount = parseAmount(context);
+      const deposit = resolveDeposit(context);
+      return amount === undefined || deposit === undefined ? undefined : roundCents(amount - deposit);
+    }
+  },
+  balanceDueDate: {
+    type: 'date',
+    label: 'Balance due date',
+    computed: true,
+    dateFormat: LONG_DATE,
+    resolve: context => {
+      // The balance is settled by the last scheduled payment
+      const installments = context.paymentSchedule?.installments || [];
+      const finalPayment = installments[installments.length - 1];
+      if (finalPayment && !isNaN(new Date(finalPayment.dueDate).getTime())) {
+        return new Date(finalPayment.dueDate);
+      }
+
+      const eventDate = parseEventDate(context);
+      return eventDate && new Date(eventDate.getTime() - CONTRACT_SETTINGS.DEFAULT_BALANCE_DUE_DAYS * DAY_MS);
+    }
+  }
+};
+
+/**
+ * Checks whether a name is a merge field
+ * @param name - Name written inside the braces
+ * @returns Whether the name is a known merge field
+ */
+export function isMergeFieldName(name: string): name is MergeFieldName {
+  return Object.prototype.hasOwnProperty.call(MERGE_FIELDS, name);
+}
+
+/**
+ * Formats a resolved value according to its field type
+ */
+const formatValue = (
+  definition: MergeFieldDefinition,
+  value: string | number | Date,
+  context: MergeContext
+): string => {
+  switch (definition.type) {
+    case 'date':
+      return formatDate(value instanceof Date ? value : new Date(value), context, definition.dateFormat);
+    case 'currency':
+      return formatCurrency(Number(value), context);
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Resolves and formats every merge field that has a value
+ * @param context - Contract details
+ * @returns Display text by field name; fields without a value are omitted
+ */
+export function resolveMergeValues(context: MergeContext): Partial<Record<MergeFieldName, string>> {
+  const values: Partial<Record<MergeFieldName, string>> = {};
+
+  MERGE_FIELD_NAMES.forEach(name => {
+    const definition = MERGE_FIELDS[name];
+    const value = definition.resolve(context);
+    if (value !== undefined) {
+      values[name] = formatValue(definition, value, context);
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Finds placeholders that still need a value
+ * @param content - Contract content
+ * @returns Distinct placeholders, in the order they first appear
+ */
+export function findUnresolvedPlaceholders(content: string): UnresolvedPlaceholder[] {
+  const found: UnresolvedPlaceholder[] = [];
+  const seen = new Set<string>();
+
+  const add = (placeholder: string, reason: UnresolvedPlaceholderReason) => {
+    if (!seen.has(placeholder)) {
+      seen.add(placeholder);
+      found.push({ placeholder, reason });
+    }
+  };
+
+  const fieldPattern = new RegExp(MERGE_FIELD_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = fieldPattern.exec(content)) !== null) {
+    add(match[0], isMergeFieldName(match[1]) ? 'missing' : 'unknown');
+  }
+
+  const literalPattern = new RegExp(LITERAL_PLACEHOLDER_PATTERN.source, 'g');
+  while ((match = literalPattern.exec(content)) !== null) {
+    add(match[0], 'literal');
+  }
+
+  return found;
+}
+
+/**
+ * Fills in the merge fields of contract content
+ * Fields without a value and unknown fields are kept, so they can be filled in later and are reported as unresolved.
+ * @param content - Rich text HTML containing `{{field}}` placeholders
+ * @param context - Contract details
+ * @returns Rendered content and the placeholders left in it
+ */
+export function renderMergeFields(content: string, context: MergeContext): MergeResult {
+  const values = resolveMergeValues(context);
+  const rendered = content.replace(MERGE_FIELD_PATTERN, (placeholder, name: string) => {
+    const value = isMergeFieldName(name) ? values[name] : undefined;
+    return value === undefined ? placeholder : escapeHtml(value);
+  });
+
+  return {
+    content: rendered,
+    unresolved: findUnresolvedPlaceholders(rendered)
+  };
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+/**
+ * Password hashing utilities based on Node's built-in scrypt
+ *
+ * Hashes are stored as `scrypt$<salt>$<hash>` with hex-encoded salt and hash,
+ * so the algorithm can be identified if the format ever changes.
+ */
+
+/** Identifier prefix for scrypt password hashes */
+const HASH_PREFIX = 'scrypt';
+
+/** Number of random salt bytes per password */
+const SALT_LENGTH = 16;
+
+/** Length of the derived key in bytes */
+const KEY_LENGTH = 64;
+
+/**
+ * Derives a key from a password and salt using scrypt
+ */
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(derivedKey);
+      }
+    });
+  });
+}
+
+/**
+ * Hashes a password with a random salt
+ * @param password - Plaintext password
+ * @returns Encoded hash suitable for storage
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const derivedKey = await deriveKey(password, salt);
+  return `${HASH_PREFIX}$${salt.toString('hex')}$${derivedKey.toString('hex')}`;
+}
+
+/**
+ * Verifies a password against a stored hash in constant time
+ * @param password - Plaintext password to check
+ * @param storedHash - Hash previously produced by hashPassword
+ * @returns Whether the password matches the hash
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [prefix, saltHex, hashHex] = storedHash.split('$');
+  if (prefix !== HASH_PREFIX || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expectedKey = Buffer.from(hashHex, 'hex');
+  const derivedKey = await deriveKey(password, Buffer.from(saltHex, 'hex'));
+
+  return expectedKey.length === derivedKey.length && timingSafeEqual(expectedKey, derivedKey);
+}
+
+/**
+ * Checks whether a stored value is a hash produced by hashPassword
+ * @param value - Stored password value
+ * @returns Whether the value is already hashed
+ */
+export function isPasswordHash(value: string): boolean {
+  return value.startsWith(`${HASH_PREFIX}$`);
+}
\ No newline at end of file
@@ -0,0 +1,191 @@
+import {
+  Contract,
+  ContractAmendment,
+  ContractPayment,
+  CurrencyAmount,
+  OverdueInstallment,
+  PaymentLedger,
+  PaymentMethod,
+  PaymentSchedule,
+  ReceivablesSummary,
+  ScheduledPayment,
+  ScheduledPaymentStatus
+} from '@/types';
+import { buildDefaultPaymentSchedule, getScheduledPayments, toCents, toLocalIsoDate } from './payment-schedule';
+import { sumByCurrency } from './utils';
+import { isExecuted } from './contract-lifecycle';
+import { DEFAULT_CURRENCY } from './constants';
+import { getEffectiveAmount, getExecutedAmendments } from './amendments';
+
+/**
+ * Display names of payment methods
+ */
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  bank_transfer: 'Bank transfer',
+  card: 'Card',
+  check: 'Check',
+  cash: 'Cash',
+  other: 'Other'
+};
+
+/**
+ * Gets the schedule a contract is paid by
+ * Contracts created before payment schedules follow the standard terms from the day they were created.
+ * @param contract - Contract to read
+ * @returns Payment schedule of the contract
+ */
+export function getContractPaymentSchedule(contract: Contract): PaymentSchedule {
+  return contract.paymentSchedule ??
+    buildDefaultPaymentSchedule(contract.amount, contract.eventDate, new Date(contract.createdAt));
+}
+
+/**
+ * Gets the payments a contract is paid by once its executed amendments are applied
+ * An amendment adding to the contract becomes a payment of its own, due with the last payment or on the day
+ * it was executed, whichever is later; one taking off the contract reduces the latest payments first.
+ * Amendment payments follow the schedule, so the positions of scheduled payments never change.
+ * @param contract - Contract to read
+ * @param amendments - Amendments of the contract; only executed ones count
+ * @returns Scheduled payments in schedule order, followed by those added by amendments
+ */
+export function getContractScheduledPayments(
+  contract: Contract,
+  amendments: ContractAmendment[] = []
+): ScheduledPayment[] {
+  const payments = getScheduledPayments(getContractPaymentSchedule(contract)).map(payment => ({ ...payment }));
+
+  getExecutedAmendments(amendments).forEach(amendment => {
+    const deltaCents = toCents(amendment.amountDelta);
+
+    if (deltaCents > 0) {
+      const executedOn = toLocalIsoDate(new Date(amendment.executedAt || amendment.updatedAt));
+      const lastDueDate = payments.length > 0 ? payments[payments.length - 1].dueDate : executedOn;
+      payments.push({
+        label: `Amendment ${amendment.number}: ${amendment.title}`,
+        amount: deltaCents / 100,
+        dueDate: executedOn > lastDueDate ? executedOn : lastDueDate
+      });
+    }
+
+    let reductionCents = -deltaCents;
+    for (let i = payments.length - 1; i >= 0 && reductionCents > 0; i--) {
+      const amountCents = toCents(payments[i].amount);
+      const appliedCents = Math.min(amountCents, reductionCents);
+      payments[i].amount = (amountCents - appliedCents) / 100;
+      reductionCents -= appliedCents;
+    }
+  });
+
+  return payments;
+}
+
+/**
+ * Adds up payments received
+ * @param payments - Payments received
+ * @returns Total in the contract currency
+ */
+export function getTotalPaid(payments: ContractPayment[]): number {
+  return payments.reduce((total, payment) => total + toCents(payment.amount), 0) / 100;
+}
+
+/**
+ * Builds the ledger of a contract
+ * Payments received are applied to the scheduled payments in due order, whatever their received date.
+ * Balances are worked out from the contract amount with its executed amendments applied.
+ * @param contract - Contract the payments are for
+ * @param payments - Payments received against the contract
+ * @param amendments - Amendments of the contract
+ * @param today - Date overdue payments are judged against (defaults to now)
+ * @returns Payments, balances and the progress of each scheduled payment
+ */
+export function buildPaymentLedger(
+  contract: Contract,
+  payments: ContractPayment[],
+  amendments: ContractAmendment[] = [],
+  today: Date = new Date()
+): PaymentLedger {
+  const todayIso = toLocalIsoDate(today);
+  const paidCents = toCents(getTotalPaid(payments));
+  let unappliedCents = paidCents;
+
+  const totalCents = toCents(getEffectiveAmount(contract, amendments));
+
+  const scheduledPayments: ScheduledPaymentStatus[] = getContractScheduledPayments(contract, amendments).map(
+    payment => {
+      const dueCents = toCents(payment.amount);
+      const appliedCents = Math.min(dueCents, unappliedCents);
+      unappliedCents -= appliedCents;
+
+      return {
+        ...payment,
+        paid: appliedCents / 100,
+        outstanding: (dueCents - appliedCents) / 100,
+        isOverdue: appliedCents < dueCents && payment.dueDate < todayIso
+      };
+    }
+  );
+
+  return {
+    payments: payments.slice().sort((a, b) =>
+      a.receivedOn.localeCompare(b.receivedOn) || a.recordedAt.localeCompare(b.recordedAt)
+    ),
+    total: totalCents / 100,
+    paid: paidCents / 100,
+    outstanding: Math.max(0, totalCents - paidCents) / 100,
+    scheduledPayments
+  };
+}
+
+/**
+ * Summarizes what a vendor is still owed
+ * Only signed and completed contracts count: until then nothing is owed. Totals are kept per currency.
+ * @param contracts - Contracts of the vendor
+ * @param payments - Payments received against those contracts
+ * @param amendments - Amendments of those contracts
+ * @param today - Date overdue payments are judged against (defaults to now)
+ * @returns Outstanding and overdue totals with the overdue installments
+ */
+export function buildReceivablesSummary(
+  contracts: Contract[],
+  payments: ContractPayment[],
+  amendments: ContractAmendment[] = [],
+  today: Date = new Date()
+): ReceivablesSummary {
+  const outstanding: CurrencyAmount[] = [];
+  const overdueInstallments: OverdueInstallment[] = [];
+
+  contracts
+    .filter(contract => isExecuted(contract.status))
+    .forEach(contract => {
+      const ledger = buildPaymentLedger(
+        contract,
+        payments.filter(payment => payment.contractId === contract.id),
+        amendments.filter(amendment => amendment.contractId === contract.id),
+        today
+      );
+      const currency = contract.currency || DEFAULT_CURRENCY;
+      outstanding.push({ currency, amount: ledger.outstanding });
+
+      ledger.scheduledPayments
+        .filter(payment => payment.isOverdue)
+        .forEach(payment => {
+          overdueInstallments.push({
+            contractId: contract.id,
+            clientName: contract.clientName,
+            currency,
+            label: payment.label,
+            dueDate: payment.dueDate,
+            outstanding: payment.outstanding
+          });
+        });
+    });
+
+  return {
+    outstanding: sumByCurrency(outstanding.filter(total => total.amount > 0)),
+    overdue: sumByCurrency(overdueInstallments.map(installment => ({
+      currency: installment.currency,
+      amount: installment.outstanding
+    }))),
+    overdueInstallments: overdueInstallments.sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+  };
+}
\ No newline at end of file
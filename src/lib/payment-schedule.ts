@@ -0,0 +1,166 @@
+import { PaymentSchedule, PaymentScheduleDraft, ScheduledPayment } from '@/types';
+import { CONTRACT_SETTINGS } from './constants';
+import { FormatContext, formatCurrency, formatDate } from './utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Converts an amount to whole cents (or the minor unit of another currency), so payments can be added up
+ * without rounding errors
+ * @param amount - Amount in the currency's major unit
+ * @returns Amount in cents
+ */
+export const toCents = (amount: number): number => Math.round(amount * 100);
+
+/**
+ * Formats a date as an ISO date string (YYYY-MM-DD)
+ */
+const toIsoDate = (year: number, month: number, day: number): string => {
+  return `${year}-${('0' + (month + 1)).slice(-2)}-${('0' + day).slice(-2)}`;
+};
+
+/**
+ * Formats a date as an ISO date string in local time
+ * @param date - Date to format
+ * @returns Date as YYYY-MM-DD
+ */
+export function toLocalIsoDate(date: Date): string {
+  return toIsoDate(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Builds the standard schedule for a contract amount
+ * The deposit is due today and the balance falls due the configured number of days before the event.
+ * @param amount - Contract amount in the contract currency
+ * @param eventDate - Event date (ISO date string)
+ * @param today - Date the schedule is drawn up (defaults to now)
+ * @returns Deposit followed by a single final balance payment
+ */
+export function buildDefaultPaymentSchedule(amount: number, eventDate: string, today: Date = new Date()): PaymentSchedule {
+  const todayIso = toLocalIsoDate(today);
+  const depositCents = Math.round(toCents(amount) * CONTRACT_SETTINGS.DEFAULT_DEPOSIT_PERCENTAGE);
+
+  // Event dates are stored as YYYY-MM-DD, which parses as midnight UTC
+  const event = new Date(eventDate);
+  let balanceDueDate = todayIso;
+  if (!isNaN(event.getTime())) {
+    const due = new Date(event.getTime() - CONTRACT_SETTINGS.DEFAULT_BALANCE_DUE_DAYS * DAY_MS);
+    const dueIso = toIsoDate(due.getUTCFullYear(), due.getUTCMonth(), due.getUTCDate());
+    // Events booked at short notice have the balance due straight away
+    balanceDueDate = dueIso > todayIso ? dueIso : todayIso;
+  }
+
+  return {
+    deposit: { label: 'Deposit', amount: depositCents / 100, dueDate: todayIso },
+    installments: [
+      { label: 'Final balance', amount: (toCents(amount) - depositCents) / 100, dueDate: balanceDueDate }
+    ]
+  };
+}
+
+/**
+ * Lists the payments of a schedule in due order
+ * @param schedule - Payment schedule
+ * @returns Deposit followed by the installments
+ */
+export function getScheduledPayments(schedule: PaymentSchedule): ScheduledPayment[] {
+  return [schedule.deposit, ...schedule.installments];
+}
+
+/**
+ * Adds up the payments of a schedule
+ * @param schedule - Payment schedule
+ * @returns Total in the contract currency
+ */
+export function getPaymentScheduleTotal(schedule: PaymentSchedule): number {
+  return getScheduledPayments(schedule).reduce((total, payment) => total + toCents(payment.amount), 0) / 100;
+}
+
+/**
+ * Keeps only the known fields of a validated schedule
+ * @param schedule - Schedule received from a client
+ * @returns Schedule safe to store
+ */
+export function normalizePaymentSchedule(schedule: PaymentSchedule): PaymentSchedule {
+  const normalize = (payment: ScheduledPayment): ScheduledPayment => ({
+    label: payment.label.trim(),
+    amount: toCents(payment.amount) / 100,
+    dueDate: payment.dueDate
+  });
+
+  return {
+    deposit: normalize(schedule.deposit),
+    installments: schedule.installments.map(normalize)
+  };
+}
+
+/**
+ * Converts a schedule into form values
+ * @param schedule - Payment schedule
+ * @returns Schedule with amounts as text
+ */
+export function toPaymentScheduleDraft(schedule: PaymentSchedule): PaymentScheduleDraft {
+  const toDraft = (payment: ScheduledPayment) => ({
+    label: payment.label,
+    amount: payment.amount.toFixed(2),
+    dueDate: payment.dueDate
+  });
+
+  return {
+    deposit: toDraft(schedule.deposit),
+    installments: schedule.installments.map(toDraft)
+  };
+}
+
+/**
+ * Builds the standard schedule as form values
+ * @param amount - Contract amount as typed into the form
+ * @param eventDate - Event date as entered on the form
+ * @returns Default schedule, with blank amounts until the contract amount is valid
+ */
+export function buildDefaultPaymentScheduleDraft(amount: string, eventDate: string): PaymentScheduleDraft {
+  const parsedAmount = parseFloat(amount);
+  const draft = toPaymentScheduleDraft(buildDefaultPaymentSchedule(isNaN(parsedAmount) ? 0 : parsedAmount, eventDate));
+
+  if (isNaN(parsedAmount) || parsedAmount <= 0) {
+    draft.deposit.amount = '';
+    draft.installments.forEach(installment => {
+      installment.amount = '';
+    });
+  }
+
+  return draft;
+}
+
+/**
+ * Converts form values into a schedule
+ * Amounts that are not numbers become NaN, so validation reports them.
+ * @param draft - Schedule as entered on the form
+ * @returns Payment schedule
+ */
+export function fromPaymentScheduleDraft(draft: PaymentScheduleDraft): PaymentSchedule {
+  const fromDraft = (payment: PaymentScheduleDraft['deposit']): ScheduledPayment => ({
+    label: payment.label.trim(),
+    amount: parseFloat(payment.amount),
+    dueDate: payment.dueDate
+  });
+
+  return {
+    deposit: fromDraft(draft.deposit),
+    installments: draft.installments.map(fromDraft)
+  };
+}
+
+/**
+ * Describes a schedule in a sentence, for contract text
+ * @param schedule - Payment schedule
+ * @param context - Locale and currency to render amounts and dates in
+ * @returns Text listing each payment with its amount and due date
+ */
+export function describePaymentSchedule(schedule: PaymentSchedule, context: FormatContext = {}): string {
+  const payments = getScheduledPayments(schedule).map(payment =>
+    `${payment.label}: ${formatCurrency(payment.amount, context)}, due ${formatDate(payment.dueDate, context)}`
+  );
+
+  return `Payments are due as follows: ${payments.join('; ')}.`;
+}
\ No newline at end of file
@@ -0,0 +1,733 @@
+import type { jsPDF } from 'jspdf';
+import { HtmlElementNode, HtmlNode, getTextContent, parseHtml } from './html-parser';
+
+/**
+ * Flowing document layout on top of jsPDF
+ * Maps rich text HTML to jsPDF typography and breaks pages based on the space each line needs.
+ */
+
+/**
+ * RGB colour with 0-255 channels
+ */
+export type RgbColor = [number, number, number];
+
+/**
+ * Page margins in millimetres
+ */
+export interface PdfPageLayout {
+  marginTop: number;
+  marginBottom: number;
+  marginLeft: number;
+  marginRight: number;
+}
+
+/**
+ * Typography shared by every block in a document
+ */
+export interface PdfTheme {
+  /** Standard jsPDF font family for all text except code */
+  fontFamily: string;
+  /** Colour of headings in rich text content */
+  headingColor: RgbColor;
+}
+
+/**
+ * Options for a plain text block
+ */
+export interface PdfTextOptions {
+  /** Font size in points (defaults to the body size) */
+  fontSize?: number;
+  bold?: boolean;
+  italic?: boolean;
+  color?: RgbColor;
+  /** Space added below the text, in millimetres */
+  spacingAfter?: number;
+}
+
+/**
+ * Column of a table drawn by `PdfWriter.drawTable`
+ */
+export interface PdfTableColumn {
+  /** Header text */
+  header: string;
+  /** Share of the content width, between 0 and 1 */
+  width: number;
+  /** Horizontal alignment of the column's cells (defaults to left) */
+  align?: 'left' | 'right';
+}
+
+/**
+ * Default page margins; the bottom margin leaves room for the page footer
+ */
+export const DEFAULT_PAGE_LAYOUT: PdfPageLayout = {
+  marginTop: 20,
+  marginBottom: 20,
+  marginLeft: 20,
+  marginRight: 20
+};
+
+/**
+ * Default typography, matching documents generated before vendor branding
+ */
+export const DEFAULT_PDF_THEME: PdfTheme = {
+  fontFamily: 'helvetica',
+  headingColor: [0, 0, 0]
+};
+
+/** Millimetres per typographic point */
+const PT_TO_MM = 25.4 / 72;
+/** Line height as a multiple of the font size */
+const LINE_HEIGHT = 1.4;
+/** Font size of body text, in points */
+const BODY_FONT_SIZE = 10;
+/** Font sizes of h1-h6, in points */
+const HEADING_FONT_SIZES = [16, 14, 12, 11, 10, 10];
+/** Space below a paragraph, in millimetres */
+const PARAGRAPH_SPACING = 3;
+/** Space below a paragraph inside a list item, in millimetres */
+const LIST_PARAGRAPH_SPACING = 1;
+/** Indent of each list level, in millimetres */
+const LIST_INDENT = 7;
+/** Indent of a blockquote, in millimetres */
+const QUOTE_INDENT = 6;
+/** Padding inside table cells, in millimetres */
+const TABLE_CELL_PADDING = 1.5;
+const BODY_COLOR: RgbColor = [0, 0, 0];
+const QUOTE_COLOR: RgbColor = [75, 85, 99];
+const LINK_COLOR: RgbColor = [37, 99, 235];
+const RULE_COLOR: RgbColor = [209, 213, 219];
+const MONOSPACE_FONT_FAMILY = 'courier';
+
+/**
+ * Elements laid out as blocks; everything else flows inline
+ */
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'div', 'dl', 'dd', 'dt', 'figure', 'footer',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'ol', 'p', 'pre', 'section',
+  'table', 'tbody', 'td', 'th', 'thead', 'tr', 'ul'
+]);
+
+/**
+ * Inline formatting of a run of text
+ */
+interface TextStyle {
+  bold: boolean;
+  italic: boolean;
+  monospace: boolean;
+  underline: boolean;
+  strike: boolean;
+  color: RgbColor;
+}
+
+/**
+ * Text with a single style; a '\n' run forces a line break
+ */
+interface TextRun {
+  text: string;
+  style: TextStyle;
+}
+
+/**
+ * Measured piece of a laid-out line
+ */
+interface LineFragment {
+  text: string;
+  style: TextStyle;
+  width: number;
+}
+
+/**
+ * Where and how the current block is laid out
+ */
+interface BlockContext {
+  /** Left edge of the text, in millimetres */
+  left: number;
+  /** Available width, in millimetres */
+  width: number;
+  fontSize: number;
+  style: TextStyle;
+  /** X positions of the bars drawn beside quoted lines */
+  quoteBars: number[];
+  listDepth: number;
+  paragraphSpacing: number;
+}
+
+/**
+ * Converts a #rrggbb hex colour to RGB channels
+ * @param hex - Hex colour string
+ * @param fallback - Colour returned when the string is not a valid hex colour
+ * @returns RGB colour
+ */
+export function hexToRgb(hex: string, fallback: RgbColor = BODY_COLOR): RgbColor {
+  const match = hex.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) {
+    return fallback;
+  }
+  return [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)];
+}
+
+/**
+ * Replaces characters the standard PDF fonts cannot draw
+ * Locale-formatted amounts use narrow spaces as separators, and the rupee sign is missing from the
+ * standard fonts' character set.
+ * @param text - Text to draw
+ * @returns Text with those characters replaced
+ */
+export function toPdfText(text: string): string {
+  return text.replace(/[\u2009\u202f]/g, ' ').replace(/\u20b9(?=\d)/g, 'Rs. ').replace(/\u20b9/g, 'Rs.');
+}
+
+/**
+ * Maps formatting flags to a jsPDF font style
+ */
+function getFontStyle(style: TextStyle): string {
+  if (style.bold && style.italic) return 'bolditalic';
+  if (style.bold) return 'bold';
+  if (style.italic) return 'italic';
+  return 'normal';
+}
+
+/**
+ * Writes a document top to bottom, adding pages as content fills them
+ */
+export class PdfWriter {
+  /** Top of the next line, in millimetres from the top of the page */
+  y: number;
+  /** List marker waiting to be drawn beside the next line */
+  private pendingMarker: { text: string; right: number; style: TextStyle; fontSize: number } | null = null;
+
+  constructor(
+    readonly doc: jsPDF,
+    private readonly layout: PdfPageLayout = DEFAULT_PAGE_LAYOUT,
+    readonly theme: PdfTheme = DEFAULT_PDF_THEME
+  ) {
+    this.y = layout.marginTop;
+  }
+
+  /** Left edge of the content area */
+  get left(): number {
+    return this.layout.marginLeft;
+  }
+
+  /** Width of the content area */
+  get contentWidth(): number {
+    return this.doc.internal.pageSize.getWidth() - this.layout.marginLeft - this.layout.marginRight;
+  }
+
+  /** Lowest position content may reach on the page */
+  private get bottom(): number {
+    return this.doc.internal.pageSize.getHeight() - this.layout.marginBottom;
+  }
+
+  /**
+   * Starts a new page and moves to its top margin
+   */
+  addPage(): void {
+    this.doc.addPage();
+    this.y = this.layout.marginTop;
+  }
+
+  /**
+   * Starts a new page unless the given height still fits on the current one
+   * @param height - Space needed, in millimetres
+   */
+  ensureSpace(height: number): void {
+    if (this.y + height > this.bottom && this.y > this.layout.marginTop) {
+      this.addPage();
+    }
+  }
+
+  /**
+   * Adds vertical space
+   * @param height - Space to add, in millimetres
+   */
+  moveDown(height: number): void {
+    this.y += height;
+  }
+
+  /**
+   * Writes plain text, wrapping it across lines and pages
+   * @param text - Text to write; '\n' starts a new line
+   * @param options - Typography of the text
+   */
+  writeText(text: string, options: PdfTextOptions = {}): void {
+    const fontSize = options.fontSize ?? BODY_FONT_SIZE;
+    const style: TextStyle = {
+      bold: Boolean(options.bold),
+      italic: Boolean(options.italic),
+      monospace: false,
+      underline: false,
+      strike: false,
+      color: options.color ?? BODY_COLOR
+    };
+    const runs = toPdfText(text).split('\n').reduce<TextRun[]>((result, line, index) => {
+      if (index > 0) result.push({ text: '\n', style });
+      result.push({ text: line, style });
+      return result;
+    }, []);
+
+    const ctx = this.createContext(fontSize, style);
+    this.layoutLines(runs, ctx.width, fontSize, false).forEach(line => this.drawLine(line, ctx));
+    this.y += options.spacingAfter ?? 0;
+  }
+
+  /**
+   * Renders rich text HTML with headings, lists, quotes and inline emphasis
+   * @param html - HTML content from the rich text editor
+   */
+  renderHtml(html: string): void {
+    this.renderBlocks(parseHtml(toPdfText(html)), this.createContext(BODY_FONT_SIZE, {
+      bold: false,
+      italic: false,
+      monospace: false,
+      underline: false,
+      strike: false,
+      color: BODY_COLOR
+    }));
+    this.pendingMarker = null;
+  }
+
+  /**
+   * Draws an image at the left margin, moving to a new page if it does not fit
+   * @param data - Image data URL
+   * @param width - Width in millimetres
+   * @param height - Height in millimetres
+   */
+  drawImage(data: string, width: number, height: number): void {
+    this.ensureSpace(height);
+    this.doc.addImage(data, 'PNG', this.left, this.y, width, height);
+    this.y += height;
+  }
+
+  /**
+   * Draws a horizontal rule across the content area
+   */
+  drawRule(): void {
+    this.ensureSpace(6);
+    this.doc.setDrawColor(RULE_COLOR[0], RULE_COLOR[1], RULE_COLOR[2]);
+    this.doc.setLineWidth(0.3);
+    this.doc.line(this.left, this.y + 3, this.left + this.contentWidth, this.y + 3);
+    this.y += 6;
+  }
+
+  /**
+   * Draws a table across the content area with a bold header row and a rule under every row
+   * Cell text wraps within its column; a row that does not fit moves to the next page as a whole.
+   * @param columns - Column headers, widths and alignment
+   * @param rows - Cell text of each body row
+   * @param footer - Cell text of a bold closing row, such as totals
+   */
+  drawTable(columns: PdfTableColumn[], rows: string[][], footer?: string[]): void {
+    const lineHeight = this.lineHeight(BODY_FONT_SIZE);
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      this.applyFont({
+        bold,
+        italic: false,
+        monospace: false,
+        underline: false,
+        strike: false,
+        color: BODY_COLOR
+      }, BODY_FONT_SIZE);
+
+      const cellLines = columns.map((column, index) => this.doc.splitTextToSize(
+        toPdfText(cells[index] ?? ''),
+        column.width * this.contentWidth - TABLE_CELL_PADDING * 2
+      ) as string[]);
+      const height = cellLines.reduce((max, lines) => Math.max(max, lines.length), 1) * lineHeight +
+        TABLE_CELL_PADDING * 2;
+      this.ensureSpace(height);
+
+      let x = this.left;
+      columns.forEach((column, index) => {
+        const width = column.width * this.contentWidth;
+        cellLines[index].forEach((line, lineIndex) => {
+          const baseline = this.y + TABLE_CELL_PADDING + lineIndex * lineHeight + BODY_FONT_SIZE * PT_TO_MM;
+          if (column.align === 'right') {
+            this.doc.text(line, x + width - TABLE_CELL_PADDING, baseline, { align: 'right' });
+          } else {
+            this.doc.text(line, x + TABLE_CELL_PADDING, baseline);
+          }
+        });
+        x += width;
+      });
+
+      this.y += height;
+      this.doc.setDrawColor(RULE_COLOR[0], RULE_COLOR[1], RULE_COLOR[2]);
+      this.doc.setLineWidth(0.2);
+      this.doc.line(this.left, this.y, this.left + this.contentWidth, this.y);
+    };
+
+    drawRow(columns.map(column => column.header), true);
+    rows.forEach(row => drawRow(row, false));
+    if (footer) {
+      drawRow(footer, true);
+    }
+  }
+
+  /**
+   * Creates the layout context for content spanning the full content width
+   */
+  private createContext(fontSize: number, style: TextStyle): BlockContext {
+    return {
+      left: this.left,
+      width: this.contentWidth,
+      fontSize,
+      style,
+      quoteBars: [],
+      listDepth: 0,
+      paragraphSpacing: PARAGRAPH_SPACING
+    };
+  }
+
+  /**
+   * Height of one line of text
+   */
+  private lineHeight(fontSize: number): number {
+    return fontSize * PT_TO_MM * LINE_HEIGHT;
+  }
+
+  /**
+   * Measures text in the given style
+   */
+  private measure(text: string, style: TextStyle, fontSize: number): number {
+    this.applyFont(style, fontSize);
+    return this.doc.getTextWidth(text);
+  }
+
+  /**
+   * Sets the jsPDF font, size and colour for a style
+   */
+  private applyFont(style: TextStyle, fontSize: number): void {
+    this.doc.setFont(style.monospace ? MONOSPACE_FONT_FAMILY : this.theme.fontFamily, getFontStyle(style));
+    this.doc.setFontSize(fontSize);
+    this.doc.setTextColor(style.color[0], style.color[1], style.color[2]);
+  }
+
+  /**
+   * Lays out block-level nodes, grouping loose inline content into paragraphs
+   */
+  private renderBlocks(nodes: HtmlNode[], ctx: BlockContext): void {
+    let inline: HtmlNode[] = [];
+
+    const flushInline = () => {
+      const hasText = inline.some(node => getTextContent(node).trim() !== '');
+      if (hasText) {
+        this.renderParagraph(inline, ctx);
+      }
+      inline = [];
+    };
+
+    nodes.forEach(node => {
+      if (node.type === 'element' && BLOCK_TAGS.has(node.tag)) {
+        flushInline();
+        this.renderBlock(node, ctx);
+      } else {
+        inline.push(node);
+      }
+    });
+
+    flushInline();
+  }
+
+  /**
+   * Lays out a single block-level element
+   */
+  private renderBlock(element: HtmlElementNode, ctx: BlockContext): void {
+    const headingLevel = element.tag.match(/^h([1-6])$/);
+
+    if (headingLevel) {
+      const fontSize = HEADING_FONT_SIZES[Number(headingLevel[1]) - 1];
+      if (this.y > this.layout.marginTop) {
+        this.y += 2;
+      }
+      // Keep the heading on the same page as the first line after it
+      this.ensureSpace(this.lineHeight(fontSize) + this.lineHeight(ctx.fontSize));
+      this.renderParagraph(element.children, {
+        ...ctx,
+        fontSize,
+        style: { ...ctx.style, bold: true, color: this.theme.headingColor }
+      });
+      return;
+    }
+
+    switch (element.tag) {
+      case 'p':
+        this.renderParagraph(element.children, ctx);
+        return;
+      case 'ul':
+      case 'ol':
+        this.renderList(element, ctx);
+        return;
+      case 'blockquote':
+        this.renderBlocks(element.children, {
+          ...ctx,
+          left: ctx.left + QUOTE_INDENT,
+          width: ctx.width - QUOTE_INDENT,
+          style: { ...ctx.style, italic: true, color: QUOTE_COLOR },
+          quoteBars: [...ctx.quoteBars, ctx.left + 1.5]
+        });
+        return;
+      case 'pre':
+        this.renderPreformatted(element, ctx);
+        return;
+      case 'hr':
+        this.drawRule();
+        return;
+      default:
+        this.renderBlocks(element.children, ctx);
+    }
+  }
+
+  /**
+   * Lays out a paragraph of inline content
+   * Empty paragraphs keep their line, matching the blank lines typed in the editor.
+   */
+  private renderParagraph(nodes: HtmlNode[], ctx: BlockContext): void {
+    const runs: TextRun[] = [];
+    this.collectRuns(nodes, ctx.style, runs);
+
+    const lines = this.layoutLines(runs, ctx.width, ctx.fontSize, false);
+    if (lines.length === 0) {
+      this.y += this.lineHeight(ctx.fontSize);
+    }
+
+    lines.forEach(line => this.drawLine(line, ctx));
+    this.y += ctx.paragraphSpacing;
+  }
+
+  /**
+   * Lays out a bulleted or numbered list, indenting nested lists
+   */
+  private renderList(list: HtmlElementNode, ctx: BlockContext): void {
+    const ordered = list.tag === 'ol';
+    const start = parseInt(list.attributes.start, 10);
+    const firstNumber = isNaN(start) ? 1 : start;
+    const items = list.children.filter(
+      (child): child is HtmlElementNode => child.type === 'element' && child.tag === 'li'
+    );
+    const itemContext: BlockContext = {
+      ...ctx,
+      left: ctx.left + LIST_INDENT,
+      width: ctx.width - LIST_INDENT,
+      listDepth: ctx.listDepth + 1,
+      paragraphSpacing: LIST_PARAGRAPH_SPACING
+    };
+
+    items.forEach((item, index) => {
+      this.pendingMarker = {
+        text: ordered ? `${firstNumber + index}.` : ctx.listDepth % 2 === 0 ? '•' : '-',
+        right: itemContext.left - 2,
+        style: { ...ctx.style, bold: false, underline: false, strike: false, monospace: false },
+        fontSize: ctx.fontSize
+      };
+      this.renderBlocks(item.children, itemContext);
+      this.pendingMarker = null;
+    });
+
+    if (ctx.listDepth === 0) {
+      this.y += ctx.paragraphSpacing - LIST_PARAGRAPH_SPACING;
+    }
+  }
+
+  /**
+   * Lays out a code block, keeping its spacing and line breaks
+   */
+  private renderPreformatted(element: HtmlElementNode, ctx: BlockContext): void {
+    const style: TextStyle = { ...ctx.style, monospace: true };
+    const text = getTextContent(element).replace(/\n$/, '');
+    const runs = text.split('\n').reduce<TextRun[]>((result, line, index) => {
+      if (index > 0) result.push({ text: '\n', style });
+      result.push({ text: line, style });
+      return result;
+    }, []);
+
+    this.layoutLines(runs, ctx.width, ctx.fontSize, true).forEach(line => this.drawLine(line, ctx));
+    this.y += ctx.paragraphSpacing;
+  }
+
+  /**
+   * Flattens inline HTML into styled text runs
+   */
+  private collectRuns(nodes: HtmlNode[], style: TextStyle, runs: TextRun[]): void {
+    nodes.forEach(node => {
+      if (node.type === 'text') {
+        runs.push({ text: node.text.replace(/\s+/g, ' '), style });
+        return;
+      }
+
+      switch (node.tag) {
+        case 'br':
+          runs.push({ text: '\n', style });
+          return;
+        case 'img':
+          return;
+        case 'strong':
+        case 'b':
+          this.collectRuns(node.children, { ...style, bold: true }, runs);
+          return;
+        case 'em':
+        case 'i':
+          this.collectRuns(node.children, { ...style, italic: true }, runs);
+          return;
+        case 'u':
+        case 'ins':
+          this.collectRuns(node.children, { ...style, underline: true }, runs);
+          return;
+        case 's':
+        case 'strike':
+        case 'del':
+          this.collectRuns(node.children, { ...style, strike: true }, runs);
+          return;
+        case 'code':
+        case 'kbd':
+          this.collectRuns(node.children, { ...style, monospace: true }, runs);
+          return;
+        case 'a':
+          this.collectRuns(node.children, { ...style, underline: true, color: LINK_COLOR }, runs);
+          return;
+        default:
+          this.collectRuns(node.children, style, runs);
+      }
+    });
+  }
+
+  /**
+   * Breaks styled runs into lines that fit the given width
+   * @param preserveWhitespace - Keep runs of spaces, as in code blocks
+   */
+  private layoutLines(
+    runs: TextRun[],
+    width: number,
+    fontSize: number,
+    preserveWhitespace: boolean
+  ): LineFragment[][] {
+    const lines: LineFragment[][] = [];
+    let line: LineFragment[] = [];
+    let lineWidth = 0;
+
+    const append = (text: string, style: TextStyle, textWidth: number) => {
+      const last = line[line.length - 1];
+      if (last && last.style === style) {
+        last.text += text;
+        last.width += textWidth;
+      } else {
+        line.push({ text, style, width: textWidth });
+      }
+      lineWidth += textWidth;
+    };
+
+    const breakLine = () => {
+      // Trailing spaces take no room at the end of a line
+      const last = line[line.length - 1];
+      if (last && !preserveWhitespace) {
+        const trimmed = last.text.replace(/ +$/, '');
+        if (trimmed !== last.text) {
+          last.width = this.measure(trimmed, last.style, fontSize);
+          last.text = trimmed;
+        }
+      }
+      lines.push(line.filter(fragment => fragment.text !== ''));
+      line = [];
+      lineWidth = 0;
+    };
+
+    runs.forEach(run => {
+      const tokens = run.text.match(/\n| +|[^ \n]+/g) || [];
+
+      tokens.forEach(token => {
+        if (token === '\n') {
+          breakLine();
+          return;
+        }
+
+        if (token[0] === ' ') {
+          // Collapse spaces and drop them at the start of a line
+          if (!preserveWhitespace && (line.length === 0 || /\s$/.test(line[line.length - 1].text))) {
+            return;
+          }
+          const space = preserveWhitespace ? token : ' ';
+          append(space, run.style, this.measure(space, run.style, fontSize));
+          return;
+        }
+
+        let word = token;
+        let wordWidth = this.measure(word, run.style, fontSize);
+
+        if (lineWidth + wordWidth > width && lineWidth > 0) {
+          breakLine();
+        }
+
+        // Split words longer than a whole line
+        while (wordWidth > width && word.length > 1) {
+          let fit = word.length - 1;
+          while (fit > 1 && this.measure(word.slice(0, fit), run.style, fontSize) > width) {
+            fit--;
+          }
+          append(word.slice(0, fit), run.style, this.measure(word.slice(0, fit), run.style, fontSize));
+          breakLine();
+          word = word.slice(fit);
+          wordWidth = this.measure(word, run.style, fontSize);
+        }
+
+        append(word, run.style, wordWidth);
+      });
+    });
+
+    if (line.length > 0) {
+      breakLine();
+    }
+
+    // A paragraph that only held spaces has no lines
+    return lines.length === 1 && lines[0].length === 0 ? [] : lines;
+  }
+
+  /**
+   * Draws one laid-out line, with any pending list marker and quote bars
+   */
+  private drawLine(fragments: LineFragment[], ctx: BlockContext): void {
+    const lineHeight = this.lineHeight(ctx.fontSize);
+    this.ensureSpace(lineHeight);
+    const baseline = this.y + ctx.fontSize * PT_TO_MM;
+
+    if (this.pendingMarker) {
+      const marker = this.pendingMarker;
+      this.applyFont(marker.style, marker.fontSize);
+      this.doc.text(marker.text, marker.right, baseline, { align: 'right' });
+      this.pendingMarker = null;
+    }
+
+    ctx.quoteBars.forEach(x => {
+      this.doc.setDrawColor(RULE_COLOR[0], RULE_COLOR[1], RULE_COLOR[2]);
+      this.doc.setLineWidth(0.8);
+      this.doc.line(x, this.y, x, this.y + lineHeight);
+    });
+
+    let x = ctx.left;
+    fragments.forEach(fragment => {
+      this.applyFont(fragment.style, ctx.fontSize);
+      this.doc.text(fragment.text, x, baseline);
+
+      if (fragment.style.underline) {
+        this.drawTextLine(x, baseline + 0.6, fragment);
+      }
+      if (fragment.style.strike) {
+        this.drawTextLine(x, baseline - ctx.fontSize * PT_TO_MM * 0.3, fragment);
+      }
+
+      x += fragment.width;
+    });
+
+    this.y += lineHeight;
+  }
+
+  /**
+   * Draws an underline or strikethrough beneath a fragment
+   */
+  private drawTextLine(x: number, y: number, fragment: LineFragment): void {
+    const color = fragment.style.color;
+    this.doc.setDrawColor(color[0], color[1], color[2]);
+    this.doc.setLineWidth(0.2);
+    this.doc.line(x, y, x + fragment.width, y);
+  }
+}
\ No newline at end of file
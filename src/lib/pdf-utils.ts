@@ -1,146 +1,394 @@
-import { Contract } from '@/types';
+import type { jsPDF as JsPDFDocument } from 'jspdf';
+import { Contract, Invoice, VendorBranding } from '@/types';
+import { getContractSigners } from './signers';
+import { CONTRACT_STATUS_LABELS, isExecuted } from './contract-lifecycle';
+import { getPaymentScheduleTotal, getScheduledPayments } from './payment-schedule';
+import { INVOICE_STATUS_LABELS } from './invoices';
+import { formatCurrency, formatDate, formatDateTime, FULL_DATE, getFormatContext } from './utils';
+import { DEFAULT_PAGE_LAYOUT, DEFAULT_PDF_THEME, PdfTheme, PdfWriter, RgbColor, hexToRgb, toPdfText } from './pdf-renderer';
+
+/** Grey used for the running header and footer */
+const MUTED_TEXT_COLOR: RgbColor = [128, 128, 128];
+/** Largest logo drawn in the letterhead, in millimetres */
+const LOGO_MAX_WIDTH = 45;
+const LOGO_MAX_HEIGHT = 22;
+/** Colours of the status stamp on paid and void invoices */
+const PAID_STAMP_COLOR: RgbColor = [22, 128, 61];
+const VOID_STAMP_COLOR: RgbColor = [185, 28, 28];
 
 /**
- * Generates and downloads a PDF for a contract
+ * Builds the file name used for a contract PDF
+ * @param contract - Contract being exported
+ * @returns File name ending in .pdf
  */
-export const downloadContractPDF = async (contract: Contract): Promise<void> => {
-  try {
-    // Import jsPDF dynamically to avoid SSR issues
-    const { default: jsPDF } = await import('jspdf');
-    
-    // Create new PDF document
-    const doc = new jsPDF();
-    
-    // Set font
-    doc.setFont('helvetica');
-    
-    // Title
-    doc.setFontSize(20);
-    doc.setTextColor(0, 0, 0);
-    doc.text('Wedding Vendor Contract', 20, 30);
-    
-    // Contract details
-    doc.setFontSize(12);
-    let yPosition = 50;
-    
-    // Client information
-    doc.setFontSize(14);
-    doc.text('Contract Details', 20, yPosition);
-    yPosition += 10;
-    
-    doc.setFontSize(10);
-    doc.text(`Contract ID: ${contract.id}`, 20, yPosition);
-    yPosition += 8;
-    
-    doc.text(`Client Name: ${contract.clientName}`, 20, yPosition);
-    yPosition += 8;
-    
-    doc.text(`Event Date: ${new Date(contract.eventDate).toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    })}`, 20, yPosition);
-    yPosition += 8;
-    
-    doc.text(`Event Venue: ${contract.eventVenue}`, 20, yPosition);
-    yPosition += 8;
-    
-    doc.text(`Service Package: ${contract.servicePackage}`, 20, yPosition);
-    yPosition += 8;
-    
-    doc.text(`Amount: ${new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(contract.amount)}`, 20, yPosition);
-    yPosition += 8;
-    
-    doc.text(`Status: ${contract.status.charAt(0).toUpperCase() + contract.status.slice(1)}`, 20, yPosition);
-    yPosition += 15;
-    
-    // Contract terms
-    doc.setFontSize(14);
-    doc.text('Contract Terms', 20, yPosition);
-    yPosition += 10;
-    
-    // Convert HTML content to plain text for PDF
-    const tempDiv = document.createElement('div');
-    tempDiv.innerHTML = contract.content;
-    const plainTextContent = tempDiv.textContent || tempDiv.innerText || '';
-    
-    // Split content into lines that fit the page width
-    doc.setFontSize(10);
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const maxLineWidth = pageWidth - 40; // 20px margin on each side
-    const lines = doc.splitTextToSize(plainTextContent, maxLineWidth);
-    
-    // Add content lines
-    for (let i = 0; i < lines.length; i++) {
-      if (yPosition > 270) { // Check if we need a new page
-        doc.addPage();
-        yPosition = 20;
-      }
-      doc.text(lines[i], 20, yPosition);
-      yPosition += 6;
+export const getContractPDFFileName = (contract: Contract): string => {
+  return `contract-${contract.clientName.replace(/\s+/g, '-').toLowerCase()}-${contract.id}.pdf`;
+};
+
+/**
+ * Builds the Content-Disposition header for downloading a PDF
+ * Header values are limited to Latin-1, so client names in other scripts go in the RFC 5987 `filename*`
+ * parameter, with an ASCII-only `filename` for browsers that do not read it.
+ * @param fileName - File name to download the PDF as
+ * @returns Header value marking the response as an attachment
+ */
+export const getAttachmentDisposition = (fileName: string): string => {
+  const asciiFileName = fileName.replace(/[^A-Za-z0-9._-]+/g, '-').replace(/-{2,}/g, '-');
+  const encodedFileName = encodeURIComponent(fileName)
+    .replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${asciiFileName}"; filename*=UTF-8''${encodedFileName}`;
+};
+
+/**
+ * Builds the file name used for an invoice PDF
+ * @param invoice - Invoice being exported
+ * @returns File name ending in .pdf
+ */
+export const getInvoicePDFFileName = (invoice: Invoice): string => {
+  return `invoice-${invoice.number.toLowerCase()}.pdf`;
+};
+
+/**
+ * Draws the vendor letterhead at the top of the first page: logo on the left,
+ * business name and address on the right, and an accent rule underneath
+ */
+const drawLetterhead = (writer: PdfWriter, branding: VendorBranding, accent: RgbColor): void => {
+  const { doc } = writer;
+  const top = writer.y - 8;
+  const right = writer.left + writer.contentWidth;
+  let logoBottom = top;
+
+  if (branding.logo) {
+    try {
+      const { width, height } = doc.getImageProperties(branding.logo);
+      const scale = Math.min(LOGO_MAX_WIDTH / width, LOGO_MAX_HEIGHT / height);
+      const format = branding.logo.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+      doc.addImage(branding.logo, format, writer.left, top, width * scale, height * scale);
+      logoBottom = top + height * scale;
+    } catch (error) {
+      console.warn('Could not add logo to PDF:', error);
     }
+  }
+
+  doc.setFont(writer.theme.fontFamily, 'bold');
+  doc.setFontSize(14);
+  doc.setTextColor(accent[0], accent[1], accent[2]);
+  doc.text(branding.businessName, right, top + 5, { align: 'right' });
+
+  let textBottom = top + 6;
+  doc.setFont(writer.theme.fontFamily, 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(MUTED_TEXT_COLOR[0], MUTED_TEXT_COLOR[1], MUTED_TEXT_COLOR[2]);
+  branding.businessAddress
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .forEach(line => {
+      textBottom += 4.5;
+      doc.text(line.trim(), right, textBottom, { align: 'right' });
+    });
+
+  const ruleY = Math.max(logoBottom, textBottom) + 3;
+  doc.setDrawColor(accent[0], accent[1], accent[2]);
+  doc.setLineWidth(0.6);
+  doc.line(writer.left, ruleY, right, ruleY);
+  writer.y = ruleY + 8;
+};
+
+/**
+ * Draws the running header on every page after the first
+ */
+const drawRunningHeaders = (
+  writer: PdfWriter,
+  contract: Contract,
+  branding: VendorBranding,
+  accent: RgbColor
+): void => {
+  const { doc } = writer;
+  const right = writer.left + writer.contentWidth;
+  const pageCount = doc.getNumberOfPages();
+
+  for (let i = 2; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFont(writer.theme.fontFamily, 'bold');
+    doc.setFontSize(8);
+    doc.setTextColor(accent[0], accent[1], accent[2]);
+    doc.text(branding.businessName, writer.left, 12);
+
+    doc.setFont(writer.theme.fontFamily, 'normal');
+    doc.setTextColor(MUTED_TEXT_COLOR[0], MUTED_TEXT_COLOR[1], MUTED_TEXT_COLOR[2]);
+    doc.text(`Contract - ${contract.clientName}`, right, 12, { align: 'right' });
+
+    doc.setDrawColor(accent[0], accent[1], accent[2]);
+    doc.setLineWidth(0.3);
+    doc.line(writer.left, 14.5, right, 14.5);
+  }
+};
+
+/**
+ * Draws the footer on every page: the vendor's footer text, or the generation date, and page numbers
+ */
+const drawFooters = (writer: PdfWriter, branding?: VendorBranding | null): void => {
+  const { doc } = writer;
+  const right = writer.left + writer.contentWidth;
+  const bottom = doc.internal.pageSize.getHeight() - 10;
+  const pageCount = doc.getNumberOfPages();
+
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFont(writer.theme.fontFamily, 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(MUTED_TEXT_COLOR[0], MUTED_TEXT_COLOR[1], MUTED_TEXT_COLOR[2]);
+
+    if (branding?.footerText) {
+      // Footer text gets at most two lines, growing upwards from the page number line
+      const lines: string[] = doc.splitTextToSize(branding.footerText, writer.contentWidth - 30).slice(0, 2);
+      lines.forEach((line, index) => {
+        doc.text(line, writer.left, bottom - (lines.length - 1 - index) * 3.5);
+      });
+      doc.text(`Page ${i} of ${pageCount}`, right, bottom, { align: 'right' });
+    } else {
+      doc.text(
+        toPdfText(`Generated on ${formatDate(new Date(), { locale: branding?.locale })} - Page ${i} of ${pageCount}`),
+        writer.left,
+        bottom
+      );
+    }
+  }
+};
+
+/**
+ * Renders the contract document
+ * Shared by the browser download and the server-side PDF endpoint.
+ * @param contract - Contract to render
+ * @param branding - Vendor branding to apply, if any
+ * @returns jsPDF document
+ */
+const buildContractDocument = async (
+  contract: Contract,
+  branding?: VendorBranding | null
+): Promise<JsPDFDocument> => {
+  // Import jsPDF dynamically to avoid SSR issues
+  const { default: jsPDF } = await import('jspdf');
+  
+  const accent = branding ? hexToRgb(branding.accentColor) : DEFAULT_PDF_THEME.headingColor;
+  const theme: PdfTheme = branding
+    ? { fontFamily: branding.fontFamily, headingColor: accent }
+    : DEFAULT_PDF_THEME;
+  const formatContext = getFormatContext(contract, branding);
+  
+  // Create new PDF document
+  const doc = new jsPDF();
+  const writer = new PdfWriter(doc, DEFAULT_PAGE_LAYOUT, theme);
+  
+  // Letterhead and title
+  if (branding) {
+    drawLetterhead(writer, branding, accent);
+  } else {
+    writer.moveDown(4);
+  }
+  writer.writeText('Wedding Vendor Contract', { fontSize: 20, color: accent, spacingAfter: 8 });
+  
+  // Contract details
+  writer.writeText('Contract Details', { fontSize: 14, color: accent, spacingAfter: 3 });
+  
+  const details = [
+    `Contract ID: ${contract.id}`,
+    `Client Name: ${contract.clientName}`,
+    `Event Date: ${formatDate(contract.eventDate, formatContext, FULL_DATE)}`,
+    `Event Venue: ${contract.eventVenue}`,
+    `Service Package: ${contract.servicePackage}`,
+    `Amount: ${formatCurrency(contract.amount, formatContext)}`,
+    `Status: ${CONTRACT_STATUS_LABELS[contract.status]}`
+  ];
+  details.forEach(detail => writer.writeText(detail, { spacingAfter: 2 }));
+  writer.moveDown(8);
+
+  // Payment schedule
+  if (contract.paymentSchedule) {
+    // Keep the section title with the first rows of the table
+    writer.ensureSpace(30);
+    writer.writeText('Payment Schedule', { fontSize: 14, color: accent, spacingAfter: 3 });
+    writer.drawTable(
+      [
+        { header: 'Payment', width: 0.45 },
+        { header: 'Due', width: 0.3 },
+        { header: 'Amount', width: 0.25, align: 'right' }
+      ],
+      getScheduledPayments(contract.paymentSchedule).map(payment => [
+        payment.label,
+        formatDate(payment.dueDate, formatContext),
+        formatCurrency(payment.amount, formatContext)
+      ]),
+      ['Total', '', formatCurrency(getPaymentScheduleTotal(contract.paymentSchedule), formatContext)]
+    );
+    writer.moveDown(8);
+  }
+  
+  // Contract terms, keeping the formatting from the editor
+  writer.writeText('Contract Terms', { fontSize: 14, color: accent, spacingAfter: 3 });
+  writer.renderHtml(contract.content);
+  
+  // Signature section for each party who has signed
+  const signedSigners = getContractSigners(contract).filter(signer => signer.signature);
+  if (signedSigners.length > 0) {
+    writer.moveDown(10);
+    // Keep the section title with the first signature block
+    writer.ensureSpace(60);
+    writer.writeText(
+      isExecuted(contract.status) ? 'Digital Signatures' : 'Digital Signatures (pending other parties)',
+      { fontSize: 14, color: accent, spacingAfter: 3 }
+    );
     
-    // Signature section if contract is signed
-    if (contract.status === 'signed' && contract.signature) {
-      yPosition += 20;
-      
-      if (yPosition > 250) {
-        doc.addPage();
-        yPosition = 20;
-      }
-      
-      doc.setFontSize(14);
-      doc.text('Digital Signature', 20, yPosition);
-      yPosition += 10;
-      
-      doc.setFontSize(10);
-      doc.text(`Signed on: ${new Date(contract.signature.timestamp).toLocaleString('en-US', {
+    signedSigners.forEach(signer => {
+      const signature = signer.signature!;
+
+      // Keep each signature block on one page
+      writer.ensureSpace(50);
+      const identity = [signer.name, signer.email && `<${signer.email}>`].filter(Boolean).join(' ');
+      writer.writeText(`${signer.role === 'vendor' ? 'Vendor' : 'Client'}${identity ? `: ${identity}` : ''}`, { spacingAfter: 2 });
+      writer.writeText(`Signed on: ${formatDateTime(signature.timestamp, formatContext, {
         year: 'numeric',
         month: 'long',
         day: 'numeric',
         hour: '2-digit',
         minute: '2-digit'
-      })}`, 20, yPosition);
-      yPosition += 8;
-      
-      doc.text(`Signature Type: ${contract.signature.type === 'drawn' ? 'Digital Drawing' : 'Typed Signature'}`, 20, yPosition);
-      yPosition += 15;
+      })}`, { spacingAfter: 2 });
+      writer.writeText(`Signature Type: ${signature.type === 'drawn' ? 'Digital Drawing' : 'Typed Signature'}`, { spacingAfter: 4 });
       
       // Add signature image if it's a drawn signature
-      if (contract.signature.type === 'drawn' && contract.signature.data) {
+      if (signature.type === 'drawn' && signature.data) {
         try {
-          doc.addImage(contract.signature.data, 'PNG', 20, yPosition, 100, 30);
+          writer.drawImage(signature.data, 100, 30);
         } catch (error) {
           console.warn('Could not add signature image to PDF:', error);
-          doc.text('Signature: [Digital signature applied]', 20, yPosition);
+          writer.writeText('Signature: [Digital signature applied]');
         }
-      } else if (contract.signature.type === 'typed') {
-        doc.setFontSize(16);
-        doc.setFont('helvetica', 'italic');
-        doc.text(contract.signature.data, 20, yPosition);
+      } else if (signature.type === 'typed') {
+        writer.writeText(signature.data, { fontSize: 16, italic: true });
       }
-    }
-    
-    // Footer
-    const pageCount = (doc as any).internal.getNumberOfPages();
-    for (let i = 1; i <= pageCount; i++) {
-      (doc as any).setPage(i);
-      doc.setFontSize(8);
-      doc.setTextColor(128, 128, 128);
-      doc.text(
-        `Generated on ${new Date().toLocaleDateString()} - Page ${i} of ${pageCount}`,
-        20,
-        doc.internal.pageSize.getHeight() - 10
-      );
-    }
+      writer.moveDown(8);
+    });
+  }
+  
+  // Running header and footer
+  if (branding) {
+    drawRunningHeaders(writer, contract, branding, accent);
+  }
+  drawFooters(writer, branding);
+  
+  return doc;
+};
+
+/**
+ * Renders an invoice document with the same letterhead, theme and footer as the contract PDF
+ * @param invoice - Invoice to render
+ * @param contract - Contract the invoice bills
+ * @param branding - Vendor branding to apply, if any
+ * @returns jsPDF document
+ */
+const buildInvoiceDocument = async (
+  invoice: Invoice,
+  contract: Contract,
+  branding?: VendorBranding | null
+): Promise<JsPDFDocument> => {
+  // Import jsPDF dynamically to avoid SSR issues
+  const { default: jsPDF } = await import('jspdf');
+
+  const accent = branding ? hexToRgb(branding.accentColor) : DEFAULT_PDF_THEME.headingColor;
+  const theme: PdfTheme = branding
+    ? { fontFamily: branding.fontFamily, headingColor: accent }
+    : DEFAULT_PDF_THEME;
+
+  const formatContext = getFormatContext(contract, branding);
+
+  const doc = new jsPDF();
+  const writer = new PdfWriter(doc, DEFAULT_PAGE_LAYOUT, theme);
+
+  // Letterhead and title
+  if (branding) {
+    drawLetterhead(writer, branding, accent);
+  } else {
+    writer.moveDown(4);
+  }
+  writer.writeText(`Invoice ${invoice.number}`, { fontSize: 20, color: accent, spacingAfter: 4 });
+
+  // Paid and void invoices are stamped so they cannot be mistaken for a request for payment
+  if (invoice.status !== 'issued') {
+    writer.writeText(INVOICE_STATUS_LABELS[invoice.status].toUpperCase(), {
+      fontSize: 16,
+      bold: true,
+      color: invoice.status === 'paid' ? PAID_STAMP_COLOR : VOID_STAMP_COLOR,
+      spacingAfter: 4
+    });
+  }
+  writer.moveDown(4);
+
+  // Invoice details
+  const details = [
+    `Issued: ${formatDate(invoice.issuedAt, formatContext)}`,
+    `Due: ${formatDate(invoice.dueDate, formatContext)}`,
+    `Bill To: ${contract.clientName}`,
+    `Event: ${formatDate(contract.eventDate, formatContext)} at ${contract.eventVenue}`,
+    `Contract ID: ${contract.id}`
+  ];
+  details.forEach(detail => writer.writeText(detail, { spacingAfter: 2 }));
+  writer.moveDown(8);
+
+  // Line item
+  writer.drawTable(
+    [
+      { header: 'Description', width: 0.75 },
+      { header: 'Amount', width: 0.25, align: 'right' }
+    ],
+    [[`${invoice.description} - ${contract.servicePackage}`, formatCurrency(invoice.amount, formatContext)]],
+    ['Total', formatCurrency(invoice.amount, formatContext)]
+  );
+  writer.moveDown(8);
+
+  if (invoice.status === 'issued') {
+    writer.writeText(
+      `Please pay ${formatCurrency(invoice.amount, formatContext)} by ${formatDate(invoice.dueDate, formatContext)}, quoting ${invoice.number} with your payment.`
+    );
+  }
+
+  drawFooters(writer, branding);
+
+  return doc;
+};
+
+/**
+ * Generates the PDF for a contract in any environment
+ * @param contract - Contract to render
+ * @param branding - Vendor branding to apply, if any
+ * @returns PDF file contents
+ */
+export const generateContractPDF = async (
+  contract: Contract,
+  branding?: VendorBranding | null
+): Promise<ArrayBuffer> => {
+  try {
+    const doc = await buildContractDocument(contract, branding);
+    return doc.output('arraybuffer');
+  } catch (error) {
+    console.error('Error generating PDF:', error);
+    throw new Error('Failed to generate PDF. Please try again.');
+  }
+};
+
+/**
+ * Generates and downloads a PDF for a contract
+ * @param contract - Contract to render
+ * @param branding - Vendor branding to apply, if any
+ */
+export const downloadContractPDF = async (
+  contract: Contract,
+  branding?: VendorBranding | null
+): Promise<void> => {
+  try {
+    const doc = await buildContractDocument(contract, branding);
     
     // Download the PDF
-    const fileName = `contract-${contract.clientName.replace(/\s+/g, '-').toLowerCase()}-${contract.id}.pdf`;
-    doc.save(fileName);
+    doc.save(getContractPDFFileName(contract));
     
   } catch (error) {
     console.error('Error generating PDF:', error);
@@ -149,7 +397,49 @@ export const downloadContractPDF = async (contract: Contract): Promise<void> =>
 };
 
 /**
- * Checks if PDF generation is supported in the current environment
+ * Generates the PDF for an invoice in any environment
+ * @param invoice - Invoice to render
+ * @param contract - Contract the invoice bills
+ * @param branding - Vendor branding to apply, if any
+ * @returns PDF file contents
+ */
+export const generateInvoicePDF = async (
+  invoice: Invoice,
+  contract: Contract,
+  branding?: VendorBranding | null
+): Promise<ArrayBuffer> => {
+  try {
+    const doc = await buildInvoiceDocument(invoice, contract, branding);
+    return doc.output('arraybuffer');
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error);
+    throw new Error('Failed to generate PDF. Please try again.');
+  }
+};
+
+/**
+ * Generates and downloads a PDF for an invoice
+ * @param invoice - Invoice to render
+ * @param contract - Contract the invoice bills
+ * @param branding - Vendor branding to apply, if any
+ */
+export const downloadInvoicePDF = async (
+  invoice: Invoice,
+  contract: Contract,
+  branding?: VendorBranding | null
+): Promise<void> => {
+  try {
+    const doc = await buildInvoiceDocument(invoice, contract, branding);
+    doc.save(getInvoicePDFFileName(invoice));
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error);
+    throw new Error('Failed to generate PDF. Please try again.');
+  }
+};
+
+/**
+ * Checks if PDF downloads are supported in the current environment
+ * Use generateContractPDF on the server, where there is no browser to save the file.
  */
 export const isPDFSupported = (): boolean => {
   return typeof window !== 'undefined' && typeof document !== 'undefined';
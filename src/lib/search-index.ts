@@ -0,0 +1,271 @@
+import { Contract, ContractSearchIndex, ContractSearchResult, SearchSnippetPart } from '@/types';
+import { SEARCH_SETTINGS } from './constants';
+import { htmlToText } from './html-parser';
+
+/**
+ * Characters a term is made of once text is folded: letters and digits of Latin, Greek, Cyrillic
+ * and other alphabetic scripts, and CJK and Hangul characters
+ */
+const TERM_PATTERN = /[a-z0-9\u00c0-\u024f\u0370-\u1fff\u3040-\u9fff\uac00-\ud7af]+/g;
+
+/**
+ * Contract match found by the index
+ */
+export interface SearchHit {
+  /** ID of the matching contract */
+  contractId: string;
+  /** Relevance of the match; higher is better */
+  score: number;
+}
+
+/**
+ * Lower-cases text and removes accents character by character
+ * Characters whose folded form is not a single character are kept as written, so positions in the
+ * folded text match positions in the original.
+ * @param text - Text to fold
+ * @returns Folded text of the same length
+ */
+function foldText(text: string): string {
+  return text
+    .split('')
+    .map(char => {
+      const folded = char.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      return folded.length === 1 ? folded : char;
+    })
+    .join('');
+}
+
+/**
+ * Splits text into index terms
+ * @param text - Plain text
+ * @returns Folded terms in order of appearance, ignoring terms that are too short to be useful
+ */
+export function tokenize(text: string): string[] {
+  return (foldText(text).match(TERM_PATTERN) || [])
+    .filter(term => term.length >= SEARCH_SETTINGS.MIN_TERM_LENGTH);
+}
+
+/**
+ * Splits a search query into the distinct terms every result must contain
+ * @param query - Search query as typed
+ * @returns Distinct folded terms
+ */
+export function parseSearchTerms(query: string): string[] {
+  return tokenize(query).filter((term, index, terms) => terms.indexOf(term) === index);
+}
+
+/**
+ * Creates an empty index for a vendor
+ * @param vendorId - ID of the vendor
+ * @returns Empty index
+ */
+export function createSearchIndex(vendorId: string): ContractSearchIndex {
+  return { id: vendorId, postings: {}, documents: {} };
+}
+
+/**
+ * Removes a contract from an index, updating the index in place
+ * @param index - Index to update
+ * @param contractId - ID of the contract to remove
+ */
+export function removeFromSearchIndex(index: ContractSearchIndex, contractId: string): void {
+  Object.keys(index.postings).forEach(term => {
+    const posting = index.postings[term];
+    if (posting[contractId] !== undefined) {
+      delete posting[contractId];
+      if (Object.keys(posting).length === 0) {
+        delete index.postings[term];
+      }
+    }
+  });
+  delete index.documents[contractId];
+}
+
+/**
+ * Indexes a contract, replacing what was indexed for it before and updating the index in place
+ * Deleted contracts are only removed.
+ * @param index - Index to update
+ * @param contract - Contract to index
+ */
+export function addToSearchIndex(index: ContractSearchIndex, contract: Contract): void {
+  removeFromSearchIndex(index, contract.id);
+  if (contract.status === 'deleted') return;
+
+  const addTerms = (text: string, weight: number) => {
+    tokenize(text).forEach(term => {
+      // Terms such as "constructor" must not pick up properties inherited by every object
+      const posting = Object.prototype.hasOwnProperty.call(index.postings, term)
+        ? index.postings[term]
+        : (index.postings[term] = {});
+      posting[contract.id] = (posting[contract.id] || 0) + weight;
+    });
+  };
+
+  addTerms([contract.clientName, contract.eventVenue, contract.servicePackage].join(' '), SEARCH_SETTINGS.FIELD_WEIGHT);
+  addTerms(htmlToText(contract.content), 1);
+  index.documents[contract.id] = contract.updatedAt;
+}
+
+/**
+ * Brings an index up to date with a vendor's contracts
+ * Contracts changed since they were indexed, or never indexed, are indexed again and contracts that
+ * are gone are removed, so the index heals after imports or writes made outside DataService.
+ * @param index - Index to update in place
+ * @param contracts - Non-deleted contracts of the vendor
+ * @returns True if the index changed and should be saved
+ */
+export function refreshSearchIndex(index: ContractSearchIndex, contracts: Contract[]): boolean {
+  let changed = false;
+  const liveIds: Record<string, boolean> = {};
+
+  contracts.forEach(contract => {
+    liveIds[contract.id] = true;
+    if (index.documents[contract.id] !== contract.updatedAt) {
+      addToSearchIndex(index, contract);
+      changed = true;
+    }
+  });
+
+  Object.keys(index.documents).forEach(contractId => {
+    if (!liveIds[contractId]) {
+      removeFromSearchIndex(index, contractId);
+      changed = true;
+    }
+  });
+
+  return changed;
+}
+
+/**
+ * Finds the contracts containing every search term
+ * Each term matches index terms it is a prefix of, so "phot" finds "photography"; exact matches
+ * score double.
+ * @param index - Index to search
+ * @param terms - Terms from parseSearchTerms
+ * @returns Matching contracts, most relevant first
+ */
+export function searchContractIndex(index: ContractSearchIndex, terms: string[]): SearchHit[] {
+  if (terms.length === 0) return [];
+
+  const indexTerms = Object.keys(index.postings);
+  const scores: Record<string, number> = {};
+  const matchedTerms: Record<string, number> = {};
+
+  terms.forEach(term => {
+    const matched: Record<string, boolean> = {};
+
+    indexTerms
+      .filter(indexTerm => indexTerm.indexOf(term) === 0)
+      .forEach(indexTerm => {
+        const posting = index.postings[indexTerm];
+        Object.keys(posting).forEach(contractId => {
+          scores[contractId] = (scores[contractId] || 0) + posting[contractId] * (indexTerm === term ? 2 : 1);
+          matched[contractId] = true;
+        });
+      });
+
+    Object.keys(matched).forEach(contractId => {
+      matchedTerms[contractId] = (matchedTerms[contractId] || 0) + 1;
+    });
+  });
+
+  return Object.keys(matchedTerms)
+    .filter(contractId => matchedTerms[contractId] === terms.length)
+    .map(contractId => ({ contractId, score: scores[contractId] }))
+    .sort((a, b) => b.score - a.score || a.contractId.localeCompare(b.contractId));
+}
+
+/**
+ * Finds the words in a text that start with a search term
+ * @param text - Plain text
+ * @param terms - Folded search terms
+ * @returns Start and end offsets of each matching word, in order
+ */
+function findMatches(text: string, terms: string[]): Array<[number, number]> {
+  const matches: Array<[number, number]> = [];
+  const folded = foldText(text);
+  const pattern = new RegExp(TERM_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(folded)) !== null) {
+    const word = match[0];
+    if (terms.some(term => word.indexOf(term) === 0)) {
+      matches.push([match.index, match.index + word.length]);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Cuts an excerpt around the first match in a text and marks every match in it
+ * @param text - Plain text
+ * @param terms - Folded search terms
+ * @returns Snippet pieces, or null if nothing in the text matches
+ */
+export function buildSnippet(text: string, terms: string[]): SearchSnippetPart[] | null {
+  const matches = findMatches(text, terms);
+  if (matches.length === 0) return null;
+
+  const length = SEARCH_SETTINGS.SNIPPET_LENGTH;
+  let start = Math.max(0, Math.min(matches[0][0] - Math.floor(length / 3), text.length - length));
+  let end = Math.min(text.length, start + length);
+
+  // Avoid cutting words in half at either end
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < matches[0][0] ? space + 1 : start;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > matches[0][1] ? space : end;
+  }
+
+  const parts: SearchSnippetPart[] = [];
+  let position = start;
+
+  matches
+    .filter(([matchStart, matchEnd]) => matchStart < end && matchEnd > start)
+    .forEach(([matchStart, matchEnd]) => {
+      const from = Math.max(matchStart, start);
+      const to = Math.min(matchEnd, end);
+      if (from > position) {
+        parts.push({ text: text.slice(position, from), highlighted: false });
+      }
+      parts.push({ text: text.slice(from, to), highlighted: true });
+      position = to;
+    });
+
+  if (position < end) {
+    parts.push({ text: text.slice(position, end), highlighted: false });
+  }
+  if (start > 0) {
+    parts.unshift({ text: '…', highlighted: false });
+  }
+  if (end < text.length) {
+    parts.push({ text: '…', highlighted: false });
+  }
+
+  return parts;
+}
+
+/**
+ * Builds the search result shown for a matching contract
+ * The snippet comes from the contract text when it matches, otherwise from the contract details.
+ * @param contract - Matching contract
+ * @param terms - Folded search terms
+ * @returns Search result with a highlighted snippet
+ */
+export function buildSearchResult(contract: Contract, terms: string[]): ContractSearchResult {
+  const details = [contract.clientName, contract.eventVenue, contract.servicePackage].join(' · ');
+
+  return {
+    contractId: contract.id,
+    clientName: contract.clientName,
+    status: contract.status,
+    eventDate: contract.eventDate,
+    snippet: buildSnippet(htmlToText(contract.content), terms) ||
+      buildSnippet(details, terms) ||
+      [{ text: details, highlighted: false }]
+  };
+}
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { NextRequest } from 'next/server';
+import { User } from '@/types';
+import { SESSION_SETTINGS } from './constants';
+
+/**
+ * Signed session token utilities
+ *
+ * Tokens have the form `<payload>.<signature>`, where the payload is the
+ * base64url-encoded session JSON and the signature is an HMAC-SHA256 of the
+ * payload. Only Web Crypto APIs are used so the same code runs in the Edge
+ * middleware and in Node route handlers.
+ */
+
+/**
+ * Claims stored inside a session token
+ */
+interface SessionPayload extends User {
+  /** Issued-at time in seconds since the epoch */
+  iat: number;
+  /** Expiry time in seconds since the epoch */
+  exp: number;
+}
+
+/** Fallback secret so local development works without configuration */
+const DEVELOPMENT_SECRET = 'development-only-session-secret';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Resolves the HMAC secret used to sign session tokens
+ * @returns Secret string from SESSION_SECRET
+ */
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SESSION_SECRET is not configured');
+    }
+    return DEVELOPMENT_SECRET;
+  }
+
+  return secret;
+}
+
+/**
+ * Imports the session secret as an HMAC signing key
+ */
+function getSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Encodes bytes as an unpadded base64url string
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes an unpadded base64url string into bytes
+ */
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Creates a signed session token for an authenticated user
+ * @param user - User to store in the session
+ * @returns Signed token suitable for the session cookie
+ */
+export async function createSessionToken(user: User): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SessionPayload = {
+    id: user.id,
+    email: user.email,
+    vendorType: user.vendorType,
+    name: user.name,
+    iat: now,
+    exp: now + SESSION_SETTINGS.MAX_AGE_SECONDS
+  };
+
+  const encodedPayload = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(encodedPayload));
+
+  return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies a session token's signature and expiry
+ * @param token - Token read from the session cookie
+ * @returns Session user if the token is authentic and unexpired, null otherwise
+ */
+export async function verifySessionToken(token: string): Promise<User | null> {
+  try {
+    const [encodedPayload, encodedSignature, ...rest] = token.split('.');
+    if (!encodedPayload || !encodedSignature || rest.length > 0) {
+      return null;
+    }
+
+    const isValid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      fromBase64Url(encodedSignature),
+      encoder.encode(encodedPayload)
+    );
+
+    if (!isValid) {
+      return null;
+    }
+
+    const payload: SessionPayload = JSON.parse(decoder.decode(fromBase64Url(encodedPayload)));
+
+    if (typeof payload.exp !== 'number' || payload.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return {
+      id: payload.id,
+      email: payload.email,
+      vendorType: payload.vendorType,
+      name: payload.name
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads and verifies the session cookie of an incoming request
+ * @param request - Incoming request
+ * @returns Session user, or null if the cookie is missing, tampered with or expired
+ */
+export async function getSessionUser(request: NextRequest): Promise<User | null> {
+  const sessionCookie = request.cookies.get(SESSION_SETTINGS.COOKIE_NAME);
+  if (!sessionCookie) {
+    return null;
+  }
+
+  return verifySessionToken(sessionCookie.value);
+}
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { ShareLink } from '@/types';
+
+/**
+ * Utility functions for remote signing share links
+ */
+
+/**
+ * Checks whether a share link has passed its expiry time
+ * @param shareLink - Share link to check
+ * @returns Whether the link has expired
+ */
+export function isShareLinkExpired(shareLink: ShareLink): boolean {
+  return new Date(shareLink.expiresAt).getTime() <= Date.now();
+}
+
+/**
+ * Builds the public signing URL for a share link
+ * @param token - Share link token
+ * @param origin - Origin of the incoming request, used when no app URL is configured
+ * @returns Absolute URL of the client signing page
+ */
+export function buildShareUrl(token: string, origin: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || origin;
+  return `${baseUrl.replace(/\/$/, '')}/sign/${token}`;
+}
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { SignatureData } from '@/types';
+import { formatDateTime } from './utils';
 
 /**
  * Utility functions for signature handling and validation
@@ -30,13 +31,14 @@ export function validateSignature(signature: SignatureData): boolean {
 /**
  * Formats signature data for display
  * @param signature - Signature data to format
+ * @param locale - Locale of the vendor, which the timestamp is shown in
  * @returns Formatted signature display data
  */
-export function formatSignatureForDisplay(signature: SignatureData) {
+export function formatSignatureForDisplay(signature: SignatureData, locale?: string) {
   return {
     type: signature.type,
     displayData: signature.type === 'drawn' ? signature.data : signature.data.trim(),
-    timestamp: new Date(signature.timestamp).toLocaleString('en-US', {
+    timestamp: formatDateTime(signature.timestamp, { locale }, {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
@@ -0,0 +1,120 @@
+import { Contract, ContractSigner, ContractStatus, SignerDraft, User } from '@/types';
+import { generateId } from './utils';
+
+/**
+ * Helpers for contracts signed by several parties
+ */
+
+/**
+ * Gets the parties who must sign a contract, in signature block order
+ * Contracts signed before multi-party signing keep their single signature as the only signer.
+ * @param contract - Contract to inspect
+ * @returns Signers with their signatures
+ */
+export function getContractSigners(contract: Contract): ContractSigner[] {
+  if (contract.signers) {
+    return contract.signers;
+  }
+
+  const legacySignature = contract.signature;
+  if (!legacySignature) {
+    return [];
+  }
+
+  return [{
+    id: 'signer-legacy',
+    role: legacySignature.signedBy?.role || 'vendor',
+    name: legacySignature.signedBy?.name || '',
+    email: legacySignature.signedBy?.email || '',
+    signature: legacySignature
+  }];
+}
+
+/**
+ * Gets the signers who have not signed yet
+ * @param contract - Contract to inspect
+ * @returns Outstanding signers, in signature block order
+ */
+export function getOutstandingSigners(contract: Contract): ContractSigner[] {
+  return getContractSigners(contract).filter(signer => !signer.signature);
+}
+
+/**
+ * Finds the client who signs a contract through a share link
+ * Links issued before multi-party signing name no signer; they go to the first client who has not signed yet.
+ * @param contract - Shared contract
+ * @param signerId - ID of the signer the link was issued to, if any
+ * @returns The signer, or undefined if the link's signer is not on the contract or no client is left to sign
+ */
+export function getShareLinkSigner(contract: Contract, signerId?: string): ContractSigner | undefined {
+  const signers = getContractSigners(contract);
+
+  return signerId
+    ? signers.find(signer => signer.id === signerId)
+    : signers.find(signer => signer.role === 'client' && !signer.signature);
+}
+
+/**
+ * Checks whether a signer can sign yet: clients sign in any order, and the vendor countersigns once every client has
+ * @param signers - Signers of the contract
+ * @param signer - Signer about to sign
+ * @returns True if the signer can sign now
+ */
+export function isSignersTurn(signers: ContractSigner[], signer: ContractSigner): boolean {
+  return signer.role === 'client' || signers.every(existing => existing.role !== 'client' || !!existing.signature);
+}
+
+/**
+ * Derives the status of a contract that is out for signature from its signers
+ * @param signers - Signers of the contract
+ * @returns `signed` once everyone has signed, `partially_signed` once anyone has, otherwise `sent`
+ */
+export function getSigningStatus(signers: ContractSigner[]): Extract<ContractStatus, 'sent' | 'partially_signed' | 'signed'> {
+  const signedCount = signers.filter(signer => signer.signature).length;
+
+  if (signers.length > 0 && signedCount === signers.length) {
+    return 'signed';
+  }
+
+  return signedCount > 0 ? 'partially_signed' : 'sent';
+}
+
+/**
+ * Builds the signer list for a contract: the clients in the given order, then the vendor countersignature
+ * @param clients - Client signers entered on the form
+ * @param vendor - Vendor who owns the contract
+ * @returns Signers with fresh IDs
+ */
+export function buildContractSigners(clients: SignerDraft[], vendor: User): ContractSigner[] {
+  return [
+    ...clients.map(client => ({
+      id: generateId('signer'),
+      role: 'client' as const,
+      name: client.name.trim(),
+      email: client.email.trim().toLowerCase()
+    })),
+    {
+      id: generateId('signer'),
+      role: 'vendor',
+      name: vendor.name,
+      email: vendor.email
+    }
+  ];
+}
+
+/**
+ * Extracts the editable client signer details from a contract
+ * @param contract - Contract to read, or null for a new contract
+ * @returns Client signers, with one empty entry for contracts that have none
+ */
+export function getClientSignerDrafts(contract?: Contract | null): SignerDraft[] {
+  const clients = contract
+    ? getContractSigners(contract).filter(signer => signer.role === 'client')
+    : [];
+
+  if (clients.length === 0) {
+    return [{ name: contract?.clientName || '', email: '' }];
+  }
+
+  return clients.map(({ name, email }) => ({ name, email }));
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { createHash } from 'crypto';
+import { NextRequest } from 'next/server';
+import { Contract, ContractAmendment, SigningAudit } from '@/types';
+import { normalizePaymentSchedule } from './payment-schedule';
+
+/**
+ * Server-side helpers for signing certificates
+ */
+
+/**
+ * Computes the SHA-256 hash of the contract text and the fields a signer agrees to
+ * Fields are serialized in a fixed order so the hash is stable across storage backends. The currency and
+ * payment schedule are appended only when set, so contracts signed before they were introduced still verify.
+ * @param contract - Contract to hash
+ * @returns Hex-encoded hash
+ */
+export function hashContract(contract: Contract): string {
+  const canonical = JSON.stringify([
+    contract.id,
+    contract.vendorId,
+    contract.clientName,
+    contract.eventDate,
+    contract.eventVenue,
+    contract.servicePackage,
+    contract.amount,
+    contract.content,
+    ...(contract.currency ? [contract.currency] : []),
+    ...(contract.paymentSchedule ? [normalizePaymentSchedule(contract.paymentSchedule)] : [])
+  ]);
+
+  return createHash('sha256').update(canonical, 'utf-8').digest('hex');
+}
+
+/**
+ * Computes the SHA-256 hash of the parts of an amendment a signer agrees to
+ * The hash covers the amended contract, so an amendment signature cannot be moved to another contract.
+ * @param amendment - Amendment to hash
+ * @returns Hex-encoded hash
+ */
+export function hashAmendment(amendment: ContractAmendment): string {
+  const canonical = JSON.stringify([
+    amendment.id,
+    amendment.contractId,
+    amendment.vendorId,
+    amendment.number,
+    amendment.title,
+    amendment.amountDelta,
+    amendment.content
+  ]);
+
+  return createHash('sha256').update(canonical, 'utf-8').digest('hex');
+}
+
+/**
+ * Determines the IP address a request came from
+ * Uses the first address in X-Forwarded-For when running behind a proxy.
+ * @param request - Incoming request
+ * @returns Client IP address, or 'unknown'
+ */
+export function getClientIp(request: NextRequest): string {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+
+  return request.headers.get('x-real-ip') || request.ip || 'unknown';
+}
+
+/**
+ * Parses a browser-supplied timestamp, capping it at the signing time
+ * @param value - Timestamp from the request body
+ * @param signedAt - Server time of the signature
+ * @returns ISO timestamp, or null if the value is not a valid date
+ */
+function parseTimestamp(value: unknown, signedAt: string): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const time = new Date(value).getTime();
+  if (isNaN(time)) {
+    return null;
+  }
+
+  return new Date(Math.min(time, new Date(signedAt).getTime())).toISOString();
+}
+
+/**
+ * Builds the audit evidence for a signing request
+ * @param request - Incoming signing request
+ * @param body - Parsed request body carrying the browser's viewedAt and consentedAt timestamps
+ * @param signedAt - Server time of the signature
+ * @param recordedViewedAt - View time recorded by the server, preferred over the browser's value
+ * @returns Audit evidence, or null if the signer did not consent to sign electronically
+ */
+export function buildSigningAudit(
+  request: NextRequest,
+  body: { viewedAt?: unknown; consentedAt?: unknown },
+  signedAt: string,
+  recordedViewedAt?: string
+): SigningAudit | null {
+  const consentedAt = parseTimestamp(body.consentedAt, signedAt);
+  if (!consentedAt) {
+    return null;
+  }
+
+  const viewedAt = recordedViewedAt || parseTimestamp(body.viewedAt, signedAt) || consentedAt;
+
+  return {
+    ipAddress: getClientIp(request),
+    userAgent: request.headers.get('user-agent') || 'unknown',
+    viewedAt: viewedAt < consentedAt ? viewedAt : consentedAt,
+    consentedAt
+  };
+}
\ No newline at end of file
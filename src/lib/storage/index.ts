@@ -0,0 +1,45 @@
+import path from 'path';
+import { JsonStorage } from './json-storage';
+import { SqliteStorage } from './sqlite-storage';
+import { StorageAdapter } from './types';
+
+/**
+ * Storage backend selection
+ * STORAGE_BACKEND chooses between `json` (default) and `sqlite`;
+ * SQLITE_DATABASE_PATH overrides the location of the SQLite database file.
+ */
+
+/** Directory holding the JSON data files */
+export const DATA_DIR = path.join(process.cwd(), 'src/data');
+
+/** Default location of the SQLite database */
+export const DEFAULT_SQLITE_PATH = path.join(DATA_DIR, 'app.db');
+
+let storage: StorageAdapter | null = null;
+
+/**
+ * Gets the configured storage backend, creating it on first use
+ * @returns Shared storage adapter
+ */
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    const backend = process.env.STORAGE_BACKEND || 'json';
+
+    switch (backend) {
+      case 'json':
+        storage = new JsonStorage(DATA_DIR);
+        break;
+      case 'sqlite':
+        storage = new SqliteStorage(process.env.SQLITE_DATABASE_PATH || DEFAULT_SQLITE_PATH);
+        break;
+      default:
+        throw new Error(`Unknown STORAGE_BACKEND: ${backend}`);
+    }
+  }
+
+  return storage;
+}
+
+export { JsonStorage } from './json-storage';
+export { SqliteStorage } from './sqlite-storage';
+export type { CollectionName, StorageAdapter, StorageRecord, StorageTransaction } from './types';
\ No newline at end of file
@@ -0,0 +1,234 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { CollectionName, StorageAdapter, StorageRecord, StorageTransaction } from './types';
+import { Mutex } from './mutex';
+
+/**
+ * File name backing each collection in the data directory
+ */
+const COLLECTION_FILES: Record<CollectionName, string> = {
+  users: 'users.json',
+  contracts: 'contracts.json',
+  shareLinks: 'share-links.json',
+  contractRevisions: 'contract-revisions.json',
+  signingCertificates: 'signing-certificates.json',
+  vendorBranding: 'vendor-branding.json',
+  templates: 'templates.json',
+  payments: 'payments.json',
+  invoices: 'invoices.json',
+  amendments: 'amendments.json',
+  searchIndex: 'search-index.json'
+};
+
+/**
+ * Storage backend that keeps each collection in a JSON file
+ * Collections touched by a transaction are loaded once and written back when the work completes,
+ * so a failed transaction leaves the files unchanged. Transactions are serialized in-process so
+ * concurrent requests cannot interleave their read-modify-write cycles, and every file is replaced
+ * atomically (temp file + rename) after copying the previous version to a `.bak` backup.
+ */
+export class JsonStorage implements StorageAdapter {
+  private readonly mutex = new Mutex();
+  private integrityCheck: Promise<CollectionName[]> | null = null;
+
+  constructor(private readonly dataDir: string) {}
+
+  /**
+   * Resolves the file path of a collection
+   */
+  private getFilePath(collection: CollectionName): string {
+    return path.join(this.dataDir, COLLECTION_FILES[collection]);
+  }
+
+  /**
+   * Reads and parses a JSON file that must contain an array of records
+   * @param filePath - File to read
+   * @returns Parsed records, or null if the file does not exist
+   */
+  private async readRecordsFile<T>(filePath: string): Promise<T[] | null> {
+    let data: string;
+    try {
+      data = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const records = JSON.parse(data);
+    if (!Array.isArray(records)) {
+      throw new Error(`Expected an array of records in ${filePath}`);
+    }
+    return records;
+  }
+
+  /**
+   * Reads and parses a collection file, treating a missing file as an empty collection
+   * @param collection - Collection to read
+   * @returns Parsed records
+   */
+  private async readCollection<T>(collection: CollectionName): Promise<T[]> {
+    const filePath = this.getFilePath(collection);
+    try {
+      return (await this.readRecordsFile<T>(filePath)) || [];
+    } catch (error) {
+      console.error(`Error reading file ${filePath}:`, error);
+      throw new Error(`Failed to read data file`);
+    }
+  }
+
+  /**
+   * Atomically replaces a file: the content is written to a temp file and renamed into place,
+   * so readers and crashes only ever see the old or the new version
+   * @param filePath - File to replace
+   * @param content - New file content
+   */
+  private async replaceFile(filePath: string, content: string): Promise<void> {
+    const tempPath = `${filePath}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  }
+
+  /**
+   * Writes a collection to its JSON file, keeping the previous version as a backup
+   * @param collection - Collection to write
+   * @param records - Records to persist
+   */
+  private async writeCollection<T>(collection: CollectionName, records: T[]): Promise<void> {
+    const filePath = this.getFilePath(collection);
+    try {
+      try {
+        await fs.copyFile(filePath, `${filePath}.bak`);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+      await this.replaceFile(filePath, JSON.stringify(records, null, 2));
+    } catch (error) {
+      console.error(`Error writing file ${filePath}:`, error);
+      throw new Error(`Failed to write data file`);
+    }
+  }
+
+  /**
+   * Checks that every collection file parses, restoring corrupted files from their last good backup
+   * Leftover temp files from an interrupted write are discarded.
+   * @returns Collections that were restored from backup
+   */
+  async verifyIntegrity(): Promise<CollectionName[]> {
+    const restored: CollectionName[] = [];
+
+    for (const collection of Object.keys(COLLECTION_FILES) as CollectionName[]) {
+      const filePath = this.getFilePath(collection);
+      await fs.rm(`${filePath}.tmp`, { force: true });
+
+      try {
+        await this.readRecordsFile(filePath);
+        continue;
+      } catch (error) {
+        console.error(`Data file ${filePath} is corrupted:`, error);
+      }
+
+      let backup: StorageRecord[] | null = null;
+      try {
+        backup = await this.readRecordsFile<StorageRecord>(`${filePath}.bak`);
+      } catch (error) {
+        console.error(`Backup of ${filePath} is corrupted:`, error);
+      }
+
+      if (!backup) {
+        throw new Error(`Data file ${COLLECTION_FILES[collection]} is corrupted and has no valid backup`);
+      }
+
+      await this.replaceFile(filePath, JSON.stringify(backup, null, 2));
+      console.warn(`Restored ${filePath} from its last good backup`);
+      restored.push(collection);
+    }
+
+    return restored;
+  }
+
+  /**
+   * Runs the integrity check once, before the first transaction
+   */
+  private ensureIntegrity(): Promise<CollectionName[]> {
+    if (!this.integrityCheck) {
+      this.integrityCheck = this.verifyIntegrity().catch(error => {
+        // Allow a retry on the next transaction instead of caching the failure
+        this.integrityCheck = null;
+        throw error;
+      });
+    }
+    return this.integrityCheck;
+  }
+
+  async transaction<R>(work: (tx: StorageTransaction) => Promise<R>): Promise<R> {
+    await this.ensureIntegrity();
+    return this.mutex.runExclusive(() => this.runTransaction(work));
+  }
+
+  /**
+   * Runs a transaction's work against lazily loaded collections and persists the ones it changed
+   * Must only be called while holding the mutex.
+   * @param work - Transaction body
+   * @returns Result of the work
+   */
+  private async runTransaction<R>(work: (tx: StorageTransaction) => Promise<R>): Promise<R> {
+    const loaded = new Map<CollectionName, StorageRecord[]>();
+    const dirty = new Set<CollectionName>();
+
+    const load = async (collection: CollectionName): Promise<StorageRecord[]> => {
+      if (!loaded.has(collection)) {
+        loaded.set(collection, await this.readCollection<StorageRecord>(collection));
+      }
+      return loaded.get(collection)!;
+    };
+
+    const tx: StorageTransaction = {
+      list: async <T extends StorageRecord>(collection: CollectionName) => {
+        return [...(await load(collection))] as T[];
+      },
+      get: async <T extends StorageRecord>(collection: CollectionName, id: string) => {
+        return ((await load(collection)).find(record => record.id === id) as T | undefined) || null;
+      },
+      insert: async <T extends StorageRecord>(collection: CollectionName, record: T) => {
+        const records = await load(collection);
+        if (records.some(existing => existing.id === record.id)) {
+          throw new Error(`Duplicate ${collection} record: ${record.id}`);
+        }
+        records.push(record);
+        dirty.add(collection);
+      },
+      update: async <T extends StorageRecord>(collection: CollectionName, record: T) => {
+        const records = await load(collection);
+        const index = records.findIndex(existing => existing.id === record.id);
+        if (index === -1) {
+          throw new Error(`Missing ${collection} record: ${record.id}`);
+        }
+        records[index] = record;
+        dirty.add(collection);
+      },
+      remove: async (collection: CollectionName, id: string) => {
+        const records = await load(collection);
+        loaded.set(collection, records.filter(record => record.id !== id));
+        dirty.add(collection);
+      }
+    };
+
+    const result = await work(tx);
+
+    for (const collection of Array.from(dirty)) {
+      await this.writeCollection(collection, loaded.get(collection)!);
+    }
+
+    return result;
+  }
+}
\ No newline at end of file
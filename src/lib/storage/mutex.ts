@@ -0,0 +1,17 @@
+/**
+ * Minimal in-process mutex that runs async tasks one at a time in arrival order
+ */
+export class Mutex {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Runs a task once every previously queued task has settled
+   * @param task - Async function to run exclusively
+   * @returns Result of the task
+   */
+  runExclusive<R>(task: () => Promise<R>): Promise<R> {
+    const result = this.tail.then(task, task);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,101 @@
+import type Database from 'better-sqlite3';
+import { CollectionName, StorageAdapter, StorageRecord, StorageTransaction } from './types';
+import { Mutex } from './mutex';
+
+/**
+ * Storage backend that keeps every collection in an embedded SQLite database
+ * Records are stored as JSON documents keyed by collection and ID, and each
+ * transaction runs inside a single SQLite transaction.
+ */
+export class SqliteStorage implements StorageAdapter {
+  private readonly db: Database.Database;
+  private readonly mutex = new Mutex();
+
+  constructor(databasePath: string) {
+    // Loaded lazily so the native module is only required when SQLite is selected
+    const BetterSqlite3: typeof Database = require('better-sqlite3');
+    this.db = new BetterSqlite3(databasePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS records (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (collection, id)
+      )
+    `);
+  }
+
+  /**
+   * Checks whether a collection has no records, used by the JSON import
+   * @param collection - Collection to check
+   */
+  isEmpty(collection: CollectionName): boolean {
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS count FROM records WHERE collection = ?')
+      .get(collection) as { count: number };
+    return row.count === 0;
+  }
+
+  /**
+   * Closes the underlying database connection
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  async transaction<R>(work: (tx: StorageTransaction) => Promise<R>): Promise<R> {
+    // Transactions share one connection, so they are queued and run one at a time
+    const run = async (): Promise<R> => {
+      this.db.exec('BEGIN IMMEDIATE');
+      try {
+        const result = await work(this.createTransaction());
+        this.db.exec('COMMIT');
+        return result;
+      } catch (error) {
+        this.db.exec('ROLLBACK');
+        throw error;
+      }
+    };
+
+    return this.mutex.runExclusive(run);
+  }
+
+  /**
+   * Creates the transaction facade over prepared statements
+   */
+  private createTransaction(): StorageTransaction {
+    return {
+      list: async <T extends StorageRecord>(collection: CollectionName) => {
+        const rows = this.db
+          .prepare('SELECT data FROM records WHERE collection = ? ORDER BY rowid')
+          .all(collection) as Array<{ data: string }>;
+        return rows.map(row => JSON.parse(row.data) as T);
+      },
+      get: async <T extends StorageRecord>(collection: CollectionName, id: string) => {
+        const row = this.db
+          .prepare('SELECT data FROM records WHERE collection = ? AND id = ?')
+          .get(collection, id) as { data: string } | undefined;
+        return row ? (JSON.parse(row.data) as T) : null;
+      },
+      insert: async <T extends StorageRecord>(collection: CollectionName, record: T) => {
+        this.db
+          .prepare('INSERT INTO records (collection, id, data) VALUES (?, ?, ?)')
+          .run(collection, record.id, JSON.stringify(record));
+      },
+      update: async <T extends StorageRecord>(collection: CollectionName, record: T) => {
+        const result = this.db
+          .prepare('UPDATE records SET data = ? WHERE collection = ? AND id = ?')
+          .run(JSON.stringify(record), collection, record.id);
+        if (result.changes === 0) {
+          throw new Error(`Missing ${collection} record: ${record.id}`);
+        }
+      },
+      remove: async (collection: CollectionName, id: string) => {
+        this.db
+          .prepare('DELETE FROM records WHERE collection = ? AND id = ?')
+          .run(collection, id);
+      }
+    };
+  }
+}
\ No newline at end of file
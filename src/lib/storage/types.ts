@@ -0,0 +1,79 @@
+/**
+ * Storage abstraction shared by the JSON file and SQLite backends
+ */
+
+/**
+ * Named collections persisted by the storage backend
+ */
+export type CollectionName =
+  | 'users'
+  | 'contracts'
+  | 'shareLinks'
+  | 'contractRevisions'
+  | 'signingCertificates'
+  | 'vendorBranding'
+  | 'templates'
+  | 'payments'
+  | 'invoices'
+  | 'amendments'
+  | 'searchIndex';
+
+/**
+ * Minimum shape of a record stored in a collection
+ */
+export interface StorageRecord {
+  /** Unique identifier of the record within its collection */
+  id: string;
+}
+
+/**
+ * Operations available inside a storage transaction
+ * Reads reflect writes made earlier in the same transaction
+ */
+export interface StorageTransaction {
+  /**
+   * Lists all records in a collection in insertion order
+   * @param collection - Collection to read
+   */
+  list<T extends StorageRecord>(collection: CollectionName): Promise<T[]>;
+
+  /**
+   * Gets a single record by ID
+   * @param collection - Collection to read
+   * @param id - ID of the record
+   */
+  get<T extends StorageRecord>(collection: CollectionName, id: string): Promise<T | null>;
+
+  /**
+   * Inserts a new record
+   * @param collection - Collection to write
+   * @param record - Record to insert
+   */
+  insert<T extends StorageRecord>(collection: CollectionName, record: T): Promise<void>;
+
+  /**
+   * Replaces an existing record with the same ID
+   * @param collection - Collection to write
+   * @param record - Updated record
+   */
+  update<T extends StorageRecord>(collection: CollectionName, record: T): Promise<void>;
+
+  /**
+   * Removes a record by ID
+   * @param collection - Collection to write
+   * @param id - ID of the record
+   */
+  remove(collection: CollectionName, id: string): Promise<void>;
+}
+
+/**
+ * Storage backend used by DataService
+ */
+export interface StorageAdapter {
+  /**
+   * Runs a unit of work atomically: either all of its writes are persisted or none are
+   * @param work - Function performing reads and writes through the transaction
+   * @returns Result of the work function
+   */
+  transaction<R>(work: (tx: StorageTransaction) => Promise<R>): Promise<R>;
+}
\ No newline at end of file
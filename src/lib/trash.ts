@@ -0,0 +1,62 @@
+import { Contract, ContractStatus } from '@/types';
+import { TRASH_SETTINGS } from './constants';
+import { getContractSigners, getSigningStatus } from './signers';
+
+/**
+ * Reads how long deleted contracts are kept
+ * @returns Retention period in days from TRASH_RETENTION_DAYS, or the default when unset
+ * @throws Error if TRASH_RETENTION_DAYS is not a positive whole number
+ */
+export function getTrashRetentionDays(): number {
+  const configured = process.env.TRASH_RETENTION_DAYS;
+  if (!configured) {
+    return TRASH_SETTINGS.DEFAULT_RETENTION_DAYS;
+  }
+
+  const days = Number(configured);
+  if (!Number.isInteger(days) || days < 1) {
+    throw new Error(`TRASH_RETENTION_DAYS must be a positive whole number, got: ${configured}`);
+  }
+  return days;
+}
+
+/**
+ * Gets when a contract was moved to the trash
+ * Contracts deleted before the trash existed have no deletion time; their last update was the delete.
+ * @param contract - Deleted contract
+ * @returns ISO timestamp of the deletion
+ */
+export function getDeletedAt(contract: Contract): string {
+  return contract.deletedAt || contract.updatedAt;
+}
+
+/**
+ * Gets when a deleted contract will be permanently deleted
+ * @param contract - Deleted contract
+ * @param retentionDays - Days contracts stay in the trash
+ * @returns Date of the purge
+ */
+export function getPurgeDate(contract: Contract, retentionDays: number): Date {
+  const purgeDate = new Date(getDeletedAt(contract));
+  purgeDate.setDate(purgeDate.getDate() + retentionDays);
+  return purgeDate;
+}
+
+/**
+ * Gets the status a deleted contract returns to when restored
+ * Contracts deleted before the previous status was recorded get it back from their signatures:
+ * unsigned contracts become drafts again.
+ * @param contract - Deleted contract
+ * @returns Status to restore
+ */
+export function getRestoredStatus(contract: Contract): Exclude<ContractStatus, 'deleted'> {
+  if (contract.previousStatus) {
+    return contract.previousStatus;
+  }
+
+  const signers = getContractSigners(contract);
+  if (signers.some(signer => signer.signature)) {
+    return getSigningStatus(signers);
+  }
+  return 'draft';
+}
\ No newline at end of file
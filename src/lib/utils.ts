@@ -1,5 +1,25 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { CurrencyAmount, CurrencyCode } from "@/types";
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE, LOCALES } from "./constants";
+
+/**
+ * Locale and currency that amounts and dates are rendered in
+ */
+export interface FormatContext {
+  /** BCP 47 locale of the vendor (defaults to en-US) */
+  locale?: string;
+  /** Currency of the contract (defaults to USD) */
+  currency?: CurrencyCode;
+}
+
+const LONG_DATE: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' };
+
+/** Long date with its weekday, as event dates are shown */
+export const FULL_DATE: Intl.DateTimeFormatOptions = { weekday: 'long', ...LONG_DATE };
+
+/** Abbreviated date, as dates are shown in lists */
+export const SHORT_DATE: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' };
 
 /**
  * Utility function to merge Tailwind CSS classes
@@ -23,34 +43,124 @@ export function generateId(prefix?: string): string {
 
 /**
  * Formats a date string for display
- * @param dateString - ISO date string
+ * Every date shown in the app, its PDFs and generated contract text goes through here.
+ * @param dateString - ISO date string or Date
+ * @param context - Locale to format in
+ * @param options - Date parts to show (defaults to a long date such as "June 12, 2027")
  * @returns Formatted date string
  */
-export function formatDate(dateString: string): string {
+export function formatDate(
+  dateString: string | Date,
+  context: FormatContext = {},
+  options: Intl.DateTimeFormatOptions = LONG_DATE
+): string {
   try {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+    const date = dateString instanceof Date ? dateString : new Date(dateString);
+    return date.toLocaleDateString(context.locale || DEFAULT_LOCALE, options);
   } catch {
-    return dateString;
+    return String(dateString);
   }
 }
 
+/**
+ * Formats a timestamp with its date and time for display
+ * @param timestamp - ISO timestamp
+ * @param context - Locale to format in
+ * @param options - Date and time parts to show (defaults to a short date with hours and minutes)
+ * @returns Formatted date and time string
+ */
+export function formatDateTime(
+  timestamp: string,
+  context: FormatContext = {},
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }
+): string {
+  return new Date(timestamp).toLocaleString(context.locale || DEFAULT_LOCALE, options);
+}
+
 /**
  * Formats a currency amount for display
- * @param amount - Amount in dollars
+ * Every amount shown in the app, its PDFs and generated contract text goes through here.
+ * @param amount - Amount in the contract currency
+ * @param context - Locale to format in and currency of the amount
+ * @param options - Extra number format options, e.g. to drop the minor unit
  * @returns Formatted currency string
  */
-export function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
+export function formatCurrency(
+  amount: number,
+  context: FormatContext = {},
+  options: Intl.NumberFormatOptions = {}
+): string {
+  return new Intl.NumberFormat(context.locale || DEFAULT_LOCALE, {
+    ...options,
     style: 'currency',
-    currency: 'USD'
+    currency: context.currency || DEFAULT_CURRENCY
   }).format(amount);
 }
 
+/**
+ * Gets the locale and currency a contract is rendered in
+ * @param contract - Contract whose currency is used (contracts created before currencies are in USD)
+ * @param branding - Vendor settings whose locale is used
+ * @returns Format context for formatCurrency and formatDate
+ */
+export function getFormatContext(
+  contract?: { currency?: CurrencyCode } | null,
+  branding?: { locale?: string } | null
+): FormatContext {
+  return { locale: branding?.locale, currency: contract?.currency };
+}
+
+/**
+ * Gets the currency new contracts of a vendor default to
+ * @param locale - Locale of the vendor
+ * @returns Currency of the locale, or USD when the locale is unknown
+ */
+export function getLocaleCurrency(locale?: string): CurrencyCode {
+  const match = LOCALES.find(option => option.code === locale);
+  return match ? match.currency : DEFAULT_CURRENCY;
+}
+
+/**
+ * Adds up amounts separately for each currency
+ * @param amounts - Amounts to add up; those without a currency are in USD
+ * @returns One total per currency, in the order the currencies first appear
+ */
+export function sumByCurrency(amounts: { amount: number; currency?: CurrencyCode }[]): CurrencyAmount[] {
+  const totals: CurrencyAmount[] = [];
+
+  amounts.forEach(({ amount, currency = DEFAULT_CURRENCY }) => {
+    const total = totals.find(existing => existing.currency === currency);
+    if (total) {
+      total.amount = Math.round(total.amount * 100 + amount * 100) / 100;
+    } else {
+      totals.push({ currency, amount });
+    }
+  });
+
+  return totals;
+}
+
+/**
+ * Formats totals kept per currency, since amounts in different currencies cannot be added up
+ * @param totals - Total of each currency
+ * @param context - Locale to format in
+ * @param options - Extra number format options
+ * @returns Totals joined with " + ", or zero in the default currency when there are none
+ */
+export function formatCurrencyTotals(
+  totals: CurrencyAmount[],
+  context: FormatContext = {},
+  options: Intl.NumberFormatOptions = {}
+): string {
+  if (totals.length === 0) {
+    return formatCurrency(0, context, options);
+  }
+
+  return totals
+    .map(total => formatCurrency(total.amount, { ...context, currency: total.currency }, options))
+    .join(' + ');
+}
+
 /**
  * Validates an email address
  * @param email - Email string to validate
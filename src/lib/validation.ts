@@ -1,5 +1,30 @@
-import { VALIDATION_MESSAGES } from './constants';
-import { Contract } from '@/types';
+import {
+  AMENDMENT_SETTINGS,
+  BRANDING_SETTINGS,
+  CONTRACT_SETTINGS,
+  CURRENCIES,
+  LOCALES,
+  PAYMENT_METHODS,
+  PAYMENT_SETTINGS,
+  PDF_FONTS,
+  TEMPLATE_SETTINGS,
+  VALIDATION_MESSAGES,
+  VENDOR_TYPES
+} from './constants';
+import {
+  BrandingSettings,
+  Contract,
+  ContractAmendmentInput,
+  ContractPaymentInput,
+  ContractTemplateInput,
+  PaymentSchedule,
+  RegistrationData,
+  ScheduledPayment,
+  SignerDraft
+} from '@/types';
+import { findUnresolvedPlaceholders } from './merge-fields';
+import { toCents, toLocalIsoDate } from './payment-schedule';
+import { FormatContext, formatCurrency } from './utils';
 
 /**
  * Validation result interface
@@ -24,7 +49,55 @@ export interface ContractValidationResult {
     eventVenue?: string;
     servicePackage?: string;
     amount?: string;
+    currency?: string;
     content?: string;
+    signers?: string;
+    paymentSchedule?: string;
+  };
+}
+
+/**
+ * Contract template validation result interface
+ */
+export interface TemplateValidationResult {
+  /** Whether all fields are valid */
+  isValid: boolean;
+  /** Field-specific validation errors */
+  errors: {
+    name?: string;
+    description?: string;
+    servicePackage?: string;
+    amount?: string;
+    content?: string;
+  };
+}
+
+/**
+ * Contract amendment validation result interface
+ */
+export interface AmendmentValidationResult {
+  /** Whether all fields are valid */
+  isValid: boolean;
+  /** Field-specific validation errors */
+  errors: {
+    title?: string;
+    content?: string;
+    amountDelta?: string;
+  };
+}
+
+/**
+ * Payment validation result interface
+ */
+export interface PaymentValidationResult {
+  /** Whether all fields are valid */
+  isValid: boolean;
+  /** Field-specific validation errors */
+  errors: {
+    amount?: string;
+    method?: string;
+    receivedOn?: string;
+    note?: string;
   };
 }
 
@@ -130,7 +203,9 @@ export const validateAmount = (amount: string | number): ValidationResult => {
  * @returns Contract validation result with field-specific errors
  */
 export const validateContractData = (
-  contractData: Partial<Pick<Contract, 'clientName' | 'eventDate' | 'eventVenue' | 'servicePackage' | 'amount' | 'content'>>
+  contractData: Partial<
+    Pick<Contract, 'clientName' | 'eventDate' | 'eventVenue' | 'servicePackage' | 'amount' | 'currency' | 'content'>
+  >
 ): ContractValidationResult => {
   const errors: ContractValidationResult['errors'] = {};
 
@@ -174,6 +249,14 @@ export const validateContractData = (
     }
   }
 
+  // Validate currency
+  if (
+    contractData.currency !== undefined &&
+    (CURRENCIES as readonly string[]).indexOf(contractData.currency) === -1
+  ) {
+    errors.currency = `Currency must be one of ${CURRENCIES.join(', ')}`;
+  }
+
   // Validate content
   if (contractData.content !== undefined) {
     const contentResult = validateRequired(contractData.content, 'Contract content');
@@ -194,11 +277,138 @@ export const validateContractData = (
  * @returns Contract validation result with field-specific errors
  */
 export const validateNewContract = (
-  contractData: Pick<Contract, 'clientName' | 'eventDate' | 'eventVenue' | 'servicePackage' | 'amount' | 'content'>
+  contractData: Pick<Contract, 'clientName' | 'eventDate' | 'eventVenue' | 'servicePackage' | 'amount' | 'currency' | 'content'>
 ): ContractValidationResult => {
   return validateContractData(contractData);
 };
 
+/**
+ * Validates that contract content has no placeholders left to fill in
+ * Drafts may keep placeholders; a contract must be free of them before it is sent or signed.
+ * @param content - Contract content
+ * @returns Validation result listing the unresolved placeholders if invalid
+ */
+export const validatePlaceholders = (content: string): ValidationResult => {
+  const unresolved = findUnresolvedPlaceholders(content);
+
+  if (unresolved.length > 0) {
+    return {
+      isValid: false,
+      error: `Fill in these placeholders before sending or signing: ${unresolved.map(item => item.placeholder).join(', ')}`
+    };
+  }
+
+  return { isValid: true };
+};
+
+/**
+ * Validates the client signers of a contract
+ * @param signers - Client signers entered on the form
+ * @returns Validation result with error message if invalid
+ */
+export const validateSigners = (signers: unknown): ValidationResult => {
+  if (!Array.isArray(signers) || signers.length === 0) {
+    return { isValid: false, error: 'At least one client signer is required' };
+  }
+
+  if (signers.length > CONTRACT_SETTINGS.MAX_CLIENT_SIGNERS) {
+    return {
+      isValid: false,
+      error: `A contract can have at most ${CONTRACT_SETTINGS.MAX_CLIENT_SIGNERS} client signers`
+    };
+  }
+
+  for (let index = 0; index < signers.length; index++) {
+    const signer: Partial<SignerDraft> = signers[index];
+    const nameResult = validateRequired(
+      typeof signer?.name === 'string' ? signer.name : '',
+      `Signer ${index + 1} name`
+    );
+    if (!nameResult.isValid) {
+      return nameResult;
+    }
+
+    const emailResult = validateEmail(typeof signer?.email === 'string' ? signer.email : '');
+    if (!emailResult.isValid) {
+      return { isValid: false, error: `Signer ${index + 1} email: ${emailResult.error}` };
+    }
+  }
+
+  return { isValid: true };
+};
+
+/**
+ * Validates the payment schedule of a contract
+ * Every payment needs a label, a positive amount in whole cents and a due date no earlier than the payment
+ * before it, and together the payments must add up to the contract amount.
+ * @param schedule - Payment schedule to check
+ * @param amount - Contract amount in the contract currency
+ * @param context - Locale and currency amounts in error messages are shown in
+ * @returns Validation result with error message if invalid
+ */
+export const validatePaymentSchedule = (
+  schedule: unknown,
+  amount: number,
+  context: FormatContext = {}
+): ValidationResult => {
+  const value = schedule as Partial<PaymentSchedule> | null;
+  if (!value || typeof value !== 'object' || !value.deposit || !Array.isArray(value.installments)) {
+    return { isValid: false, error: 'Payment schedule must have a deposit and a list of installments' };
+  }
+
+  if (value.installments.length > CONTRACT_SETTINGS.MAX_INSTALLMENTS) {
+    return {
+      isValid: false,
+      error: `A payment schedule can have at most ${CONTRACT_SETTINGS.MAX_INSTALLMENTS} installments`
+    };
+  }
+
+  const payments: Partial<ScheduledPayment>[] = [value.deposit, ...value.installments];
+  let totalCents = 0;
+  let previousDueDate = '';
+
+  for (let index = 0; index < payments.length; index++) {
+    const payment = payments[index];
+    const name = index === 0 ? 'Deposit' : `Installment ${index}`;
+
+    if (typeof payment?.label !== 'string' || !payment.label.trim()) {
+      return { isValid: false, error: `${name} needs a label` };
+    }
+
+    if (typeof payment.amount !== 'number' || !isFinite(payment.amount) || payment.amount <= 0) {
+      return { isValid: false, error: `${name} amount must be a positive number` };
+    }
+
+    if (Math.abs(payment.amount * 100 - toCents(payment.amount)) > 1e-6) {
+      return { isValid: false, error: `${name} amount cannot include fractions of a cent` };
+    }
+
+    if (
+      typeof payment.dueDate !== 'string' ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(payment.dueDate) ||
+      isNaN(new Date(payment.dueDate).getTime())
+    ) {
+      return { isValid: false, error: `${name} needs a valid due date` };
+    }
+
+    if (payment.dueDate < previousDueDate) {
+      return { isValid: false, error: `${name} cannot be due before the payment above it` };
+    }
+
+    previousDueDate = payment.dueDate;
+    totalCents += toCents(payment.amount);
+  }
+
+  if (totalCents !== toCents(amount)) {
+    return {
+      isValid: false,
+      error: `Payments add up to ${formatCurrency(totalCents / 100, context)} but the contract amount is ${formatCurrency(amount, context)}`
+    };
+  }
+
+  return { isValid: true };
+};
+
 /**
  * Validates login form data
  * @param email - Email address
@@ -211,4 +421,270 @@ export const validateLoginForm = (email: string, password: string) => {
     password: validatePassword(password),
     isValid: validateEmail(email).isValid && validatePassword(password).isValid
   };
+};
+
+/**
+ * Validates a vendor type against the supported vendor types
+ * @param vendorType - Vendor type to validate
+ * @returns Validation result with error message if invalid
+ */
+export const validateVendorType = (vendorType: string): ValidationResult => {
+  if (!vendorType) {
+    return { isValid: false, error: VALIDATION_MESSAGES.REQUIRED_FIELD };
+  }
+
+  if (!(VENDOR_TYPES as readonly string[]).includes(vendorType)) {
+    return { isValid: false, error: 'Please select a valid vendor type' };
+  }
+
+  return { isValid: true };
+};
+
+/**
+ * Validates vendor registration form data
+ * @param data - Registration details
+ * @returns Object with validation results for each field
+ */
+export const validateRegistrationForm = (data: RegistrationData) => {
+  const name = validateRequired(data.name, 'Business name');
+  const email = validateEmail(data.email);
+  const password = validatePassword(data.password);
+  const vendorType = validateVendorType(data.vendorType);
+
+  return {
+    name,
+    email,
+    password,
+    vendorType,
+    isValid: name.isValid && email.isValid && password.isValid && vendorType.isValid
+  };
+};
+
+/**
+ * Validates a logo image data URL
+ * @param logo - PNG or JPEG data URL, or undefined for no logo
+ * @returns Validation result with error message if invalid
+ */
+export const validateLogo = (logo?: string): ValidationResult => {
+  if (!logo) {
+    return { isValid: true };
+  }
+
+  const match = logo.match(/^data:image\/(png|jpeg);base64,([A-Za-z0-9+/]+=*)$/);
+  if (!match) {
+    return { isValid: false, error: 'Logo must be a PNG or JPEG image' };
+  }
+
+  // Each base64 character carries 6 bits
+  if (Math.floor(match[2].length * 3 / 4) > BRANDING_SETTINGS.MAX_LOGO_BYTES) {
+    return {
+      isValid: false,
+      error: `Logo must be smaller than ${Math.round(BRANDING_SETTINGS.MAX_LOGO_BYTES / 1024)} KB`
+    };
+  }
+
+  return { isValid: true };
+};
+
+/**
+ * Validates a text field against a maximum length
+ */
+const validateMaxLength = (value: string, maxLength: number, fieldName: string): ValidationResult => {
+  if (value.length > maxLength) {
+    return { isValid: false, error: `${fieldName} must be at most ${maxLength} characters` };
+  }
+  return { isValid: true };
+};
+
+/**
+ * Validates vendor branding settings
+ * @param data - Branding settings
+ * @returns Object with validation results for each field
+ */
+export const validateBrandingForm = (data: BrandingSettings) => {
+  const businessName = validateRequired(data.businessName, 'Business name');
+  const logo = validateLogo(data.logo);
+  const accentColor: ValidationResult = /^#[0-9a-fA-F]{6}$/.test(data.accentColor)
+    ? { isValid: true }
+    : { isValid: false, error: 'Accent colour must be a hex colour such as #1f2937' };
+  const fontFamily: ValidationResult = (PDF_FONTS as readonly string[]).includes(data.fontFamily)
+    ? { isValid: true }
+    : { isValid: false, error: 'Please select a valid font' };
+  const locale: ValidationResult = !data.locale || LOCALES.some(option => option.code === data.locale)
+    ? { isValid: true }
+    : { isValid: false, error: 'Please select a valid locale' };
+  const businessAddress = validateMaxLength(data.businessAddress, BRANDING_SETTINGS.MAX_ADDRESS_LENGTH, 'Address');
+  const footerText = validateMaxLength(data.footerText, BRANDING_SETTINGS.MAX_FOOTER_LENGTH, 'Footer text');
+
+  return {
+    businessName,
+    logo,
+    accentColor,
+    fontFamily,
+    locale,
+    businessAddress,
+    footerText,
+    isValid: businessName.isValid && logo.isValid && accentColor.isValid &&
+      fontFamily.isValid && locale.isValid && businessAddress.isValid && footerText.isValid
+  };
+};
+
+/**
+ * Validates contract template data for creation or update
+ * Only the fields provided are checked; the service package and amount are optional defaults.
+ * @param templateData - Template data to validate
+ * @returns Template validation result with field-specific errors
+ */
+export const validateTemplateData = (
+  templateData: Partial<ContractTemplateInput>
+): TemplateValidationResult => {
+  const errors: TemplateValidationResult['errors'] = {};
+
+  if (templateData.name !== undefined) {
+    const nameResult = validateRequired(templateData.name, 'Template name');
+    const lengthResult = validateMaxLength(templateData.name, TEMPLATE_SETTINGS.MAX_NAME_LENGTH, 'Template name');
+    if (!nameResult.isValid || !lengthResult.isValid) {
+      errors.name = nameResult.error || lengthResult.error;
+    }
+  }
+
+  if (templateData.description !== undefined) {
+    const descriptionResult = validateMaxLength(
+      templateData.description,
+      TEMPLATE_SETTINGS.MAX_DESCRIPTION_LENGTH,
+      'Description'
+    );
+    if (!descriptionResult.isValid) {
+      errors.description = descriptionResult.error;
+    }
+  }
+
+  if (templateData.amount !== undefined) {
+    const amountResult = validateAmount(templateData.amount);
+    if (!amountResult.isValid) {
+      errors.amount = amountResult.error;
+    }
+  }
+
+  if (templateData.content !== undefined) {
+    const contentResult = validateRequired(
+      templateData.content === '<p></p>' ? '' : templateData.content,
+      'Template content'
+    );
+    if (!contentResult.isValid) {
+      errors.content = contentResult.error;
+    }
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+};
+
+/**
+ * Validates an amendment to a signed contract (only validates provided fields)
+ * @param amendmentData - Amendment details to validate
+ * @param currentAmount - Contract amount with the amendments executed so far
+ * @param context - Locale and currency amounts in error messages are shown in
+ * @returns Amendment validation result with field-specific errors
+ */
+export const validateAmendmentData = (
+  amendmentData: Partial<ContractAmendmentInput>,
+  currentAmount: number,
+  context: FormatContext = {}
+): AmendmentValidationResult => {
+  const errors: AmendmentValidationResult['errors'] = {};
+  const { title, content, amountDelta } = amendmentData;
+
+  if (title !== undefined) {
+    const titleResult = typeof title === 'string'
+      ? validateRequired(title, 'Title')
+      : { isValid: false, error: 'Title must be text' };
+    const lengthResult = titleResult.isValid
+      ? validateMaxLength(title, AMENDMENT_SETTINGS.MAX_TITLE_LENGTH, 'Title')
+      : titleResult;
+    if (!lengthResult.isValid) {
+      errors.title = lengthResult.error;
+    }
+  }
+
+  if (content !== undefined) {
+    const contentResult = typeof content === 'string'
+      ? validateRequired(content === '<p></p>' ? '' : content, 'Amendment content')
+      : { isValid: false, error: 'Amendment content must be text' };
+    if (!contentResult.isValid) {
+      errors.content = contentResult.error;
+    }
+  }
+
+  if (amountDelta !== undefined) {
+    if (typeof amountDelta !== 'number' || !isFinite(amountDelta)) {
+      errors.amountDelta = 'Amount change must be a number';
+    } else if (Math.abs(amountDelta * 100 - toCents(amountDelta)) > 1e-6) {
+      errors.amountDelta = 'Amount change cannot include fractions of a cent';
+    } else if (toCents(currentAmount) + toCents(amountDelta) <= 0) {
+      errors.amountDelta = `Amount change must leave the contract worth more than ${formatCurrency(0, context)}; it is currently ${formatCurrency(currentAmount, context)}`;
+    }
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+};
+
+/**
+ * Validates a payment received against a contract
+ * @param paymentData - Payment details to validate
+ * @param outstanding - Amount still to be paid on the contract
+ * @param context - Locale and currency amounts in error messages are shown in
+ * @returns Payment validation result with field-specific errors
+ */
+export const validatePaymentData = (
+  paymentData: Partial<ContractPaymentInput>,
+  outstanding: number,
+  context: FormatContext = {}
+): PaymentValidationResult => {
+  const errors: PaymentValidationResult['errors'] = {};
+  const { amount, method, receivedOn, note } = paymentData;
+
+  if (typeof amount !== 'number' || !isFinite(amount) || amount <= 0) {
+    errors.amount = 'Amount must be a positive number';
+  } else if (Math.abs(amount * 100 - toCents(amount)) > 1e-6) {
+    errors.amount = 'Amount cannot include fractions of a cent';
+  } else if (toCents(amount) > toCents(outstanding)) {
+    errors.amount = `Amount is more than the outstanding balance of ${formatCurrency(outstanding, context)}`;
+  }
+
+  if (typeof method !== 'string' || (PAYMENT_METHODS as readonly string[]).indexOf(method) === -1) {
+    errors.method = 'Please select a payment method';
+  }
+
+  // Allow a day of leeway for clients in a time zone ahead of the server
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  if (
+    typeof receivedOn !== 'string' ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(receivedOn) ||
+    isNaN(new Date(receivedOn).getTime())
+  ) {
+    errors.receivedOn = VALIDATION_MESSAGES.INVALID_DATE;
+  } else if (receivedOn > toLocalIsoDate(tomorrow)) {
+    errors.receivedOn = 'Received date cannot be in the future';
+  }
+
+  if (note !== undefined) {
+    const noteResult = typeof note === 'string'
+      ? validateMaxLength(note, PAYMENT_SETTINGS.MAX_NOTE_LENGTH, 'Note')
+      : { isValid: false, error: 'Note must be text' };
+    if (!noteResult.isValid) {
+      errors.note = noteResult.error;
+    }
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
 };
\ No newline at end of file
@@ -1,19 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { verifySessionToken } from '@/lib/session';
+import { SESSION_SETTINGS } from '@/lib/constants';
 
 /**
  * Next.js middleware for handling authentication and route protection
  * Runs on every request to check authentication status and redirect as needed
  */
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
-  const sessionCookie = request.cookies.get('session');
+  const sessionCookie = request.cookies.get(SESSION_SETTINGS.COOKIE_NAME);
 
   // Public routes that don't require authentication
-  const publicRoutes = ['/login'];
-  const isPublicRoute = publicRoutes.includes(pathname);
+  const publicRoutes = ['/login', '/signup'];
+  const publicRoutePrefixes = ['/sign/'];
+  const isPublicRoute = publicRoutes.includes(pathname) ||
+    publicRoutePrefixes.some(prefix => pathname.startsWith(prefix));
 
   // API routes that don't require authentication
-  const publicApiRoutes = ['/api/auth/login'];
+  const publicApiRoutes = ['/api/auth/login', '/api/auth/register', '/api/share/'];
   const isPublicApiRoute = publicApiRoutes.some(route => pathname.startsWith(route));
 
   // If accessing a public route or public API route, allow access
@@ -30,16 +34,16 @@ export function middleware(request: NextRequest) {
       );
     }
 
-    try {
-      // Validate session cookie format
-      JSON.parse(sessionCookie.value);
-      return NextResponse.next();
-    } catch {
+    // Reject tampered or expired session tokens
+    const user = await verifySessionToken(sessionCookie.value);
+    if (!user) {
       return NextResponse.json(
         { success: false, error: 'Invalid session' },
         { status: 401 }
       );
     }
+
+    return NextResponse.next();
   }
 
   // For page routes, redirect to login if not authenticated
@@ -48,15 +52,16 @@ export function middleware(request: NextRequest) {
     return NextResponse.redirect(loginUrl);
   }
 
-  try {
-    // Validate session cookie format
-    JSON.parse(sessionCookie.value);
-    return NextResponse.next();
-  } catch {
-    // Invalid session, redirect to login
+  const user = await verifySessionToken(sessionCookie.value);
+  if (!user) {
+    // Invalid session, clear it and redirect to login
     const loginUrl = new URL('/login', request.url);
-    return NextResponse.redirect(loginUrl);
+    const response = NextResponse.redirect(loginUrl);
+    response.cookies.delete(SESSION_SETTINGS.COOKIE_NAME);
+    return response;
   }
+
+  return NextResponse.next();
 }
 
 /**
@@ -0,0 +1,316 @@
+import { create } from 'zustand';
+import { ApiResponse, ContractAmendment, ContractAmendmentInput, SignatureData, SigningConsent } from '@/types';
+import { API_ENDPOINTS } from '@/lib/constants';
+
+/**
+ * Amendment store state interface
+ */
+interface AmendmentState {
+  /** Loading state for amendment operations */
+  isLoading: boolean;
+  /** Current error message, if any */
+  error: string | null;
+}
+
+/**
+ * Amendment store actions interface
+ */
+interface AmendmentActions {
+  /**
+   * Fetches the amendments of a contract
+   * @param contractId - ID of the contract
+   * @returns Promise resolving to the amendments by number
+   */
+  fetchAmendments: (contractId: string) => Promise<ContractAmendment[]>;
+
+  /**
+   * Drafts an amendment to a signed contract
+   * @param contractId - ID of the contract
+   * @param amendmentData - Title, content and amount change of the amendment
+   * @returns Promise resolving to the drafted amendment, or null on failure
+   */
+  createAmendment: (contractId: string, amendmentData: ContractAmendmentInput) => Promise<ContractAmendment | null>;
+
+  /**
+   * Updates a draft amendment
+   * @param contractId - ID of the contract
+   * @param amendmentId - ID of the amendment
+   * @param amendmentData - Amendment fields to change
+   * @returns Promise resolving to the updated amendment, or null on failure
+   */
+  updateAmendment: (
+    contractId: string,
+    amendmentId: string,
+    amendmentData: Partial<ContractAmendmentInput>
+  ) => Promise<ContractAmendment | null>;
+
+  /**
+   * Deletes a draft amendment
+   * @param contractId - ID of the contract
+   * @param amendmentId - ID of the amendment
+   * @returns Promise resolving to success status
+   */
+  deleteAmendment: (contractId: string, amendmentId: string) => Promise<boolean>;
+
+  /**
+   * Signs an amendment on behalf of the vendor
+   * @param contractId - ID of the contract
+   * @param amendmentId - ID of the amendment
+   * @param signature - Signature data
+   * @param consent - Review and consent timestamps recorded on the signing certificate
+   * @returns Promise resolving to success status
+   */
+  signAmendment: (
+    contractId: string,
+    amendmentId: string,
+    signature: SignatureData,
+    consent: SigningConsent
+  ) => Promise<boolean>;
+
+  /**
+   * Creates an expiring link for a client signer to sign an amendment
+   * @param contractId - ID of the contract
+   * @param amendmentId - ID of the amendment
+   * @param signerId - ID of the client signer the link is for
+   * @returns Promise resolving to the signing URL and its expiry, or null on failure
+   */
+  createAmendmentShareLink: (
+    contractId: string,
+    amendmentId: string,
+    signerId: string
+  ) => Promise<{ url: string; expiresAt: string } | null>;
+
+  /**
+   * Clears any current error message
+   */
+  clearError: () => void;
+}
+
+/**
+ * Combined amendment store interface
+ */
+type AmendmentStore = AmendmentState & AmendmentActions;
+
+/**
+ * Zustand store for amendments to signed contracts
+ * Amendments are returned to the caller, which keeps the list for the contract it shows.
+ */
+export const useAmendmentStore = create<AmendmentStore>((set) => ({
+  // Initial state
+  isLoading: false,
+  error: null,
+
+  /**
+   * Fetches the amendments of a contract from the API
+   */
+  fetchAmendments: async (contractId: string): Promise<ContractAmendment[]> => {
+    set({ error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/amendments`);
+      const result: ApiResponse<ContractAmendment[]> = await response.json();
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        set({ error: result.error || 'Failed to fetch amendments' });
+        return [];
+      }
+    } catch (error) {
+      set({ error: 'Network error. Please try again.' });
+      return [];
+    }
+  },
+
+  /**
+   * Drafts an amendment via the API
+   */
+  createAmendment: async (
+    contractId: string,
+    amendmentData: ContractAmendmentInput
+  ): Promise<ContractAmendment | null> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/amendments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(amendmentData)
+      });
+
+      const result: ApiResponse<ContractAmendment> = await response.json();
+
+      if (result.success && result.data) {
+        set({ isLoading: false });
+        return result.data;
+      } else {
+        set({
+          error: result.error || 'Failed to create amendment',
+          isLoading: false
+        });
+        return null;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+      return null;
+    }
+  },
+
+  /**
+   * Updates a draft amendment via the API
+   */
+  updateAmendment: async (
+    contractId: string,
+    amendmentId: string,
+    amendmentData: Partial<ContractAmendmentInput>
+  ): Promise<ContractAmendment | null> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/amendments/${amendmentId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(amendmentData)
+      });
+
+      const result: ApiResponse<ContractAmendment> = await response.json();
+
+      if (result.success && result.data) {
+        set({ isLoading: false });
+        return result.data;
+      } else {
+        set({
+          error: result.error || 'Failed to update amendment',
+          isLoading: false
+        });
+        return null;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+      return null;
+    }
+  },
+
+  /**
+   * Deletes a draft amendment via the API
+   */
+  deleteAmendment: async (contractId: string, amendmentId: string): Promise<boolean> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/amendments/${amendmentId}`, {
+        method: 'DELETE'
+      });
+
+      const result: ApiResponse = await response.json();
+
+      if (result.success) {
+        set({ isLoading: false });
+        return true;
+      } else {
+        set({
+          error: result.error || 'Failed to delete amendment',
+          isLoading: false
+        });
+        return false;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+      return false;
+    }
+  },
+
+  /**
+   * Signs an amendment via the API
+   */
+  signAmendment: async (
+    contractId: string,
+    amendmentId: string,
+    signature: SignatureData,
+    consent: SigningConsent
+  ): Promise<boolean> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/amendments/${amendmentId}/sign`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ ...signature, ...consent })
+      });
+
+      const result: ApiResponse = await response.json();
+
+      if (result.success) {
+        set({ isLoading: false });
+        return true;
+      } else {
+        set({
+          error: result.error || 'Failed to sign amendment',
+          isLoading: false
+        });
+        return false;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+      return false;
+    }
+  },
+
+  /**
+   * Creates an amendment signing link via the API
+   */
+  createAmendmentShareLink: async (
+    contractId: string,
+    amendmentId: string,
+    signerId: string
+  ): Promise<{ url: string; expiresAt: string } | null> => {
+    set({ error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/amendments/${amendmentId}/share`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ signerId })
+      });
+
+      const result: ApiResponse<{ url: string; expiresAt: string }> = await response.json();
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        set({ error: result.error || 'Failed to create signing link' });
+        return null;
+      }
+    } catch (error) {
+      set({ error: 'Network error. Please try again.' });
+      return null;
+    }
+  },
+
+  /**
+   * Clears the current error state
+   */
+  clearError: (): void => {
+    set({ error: null });
+  }
+}));
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { User, LoginCredentials, ApiResponse } from '@/types';
+import { User, LoginCredentials, RegistrationData, ApiResponse } from '@/types';
 import { API_ENDPOINTS } from '@/lib/constants';
 
 /**
@@ -27,6 +27,13 @@ interface AuthActions {
    */
   login: (credentials: LoginCredentials) => Promise<boolean>;
   
+  /**
+   * Registers a new vendor account and signs it in
+   * @param registration - Vendor registration details
+   * @returns Promise resolving to success status
+   */
+  register: (registration: RegistrationData) => Promise<boolean>;
+  
   /**
    * Logs out the current user and clears session
    */
@@ -100,6 +107,47 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
     }
   },
 
+  /**
+   * Registers a new vendor account and signs it in
+   */
+  register: async (registration: RegistrationData): Promise<boolean> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.AUTH}/register`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(registration),
+      });
+
+      const result: ApiResponse<User> = await response.json();
+
+      if (result.success && result.data) {
+        set({
+          user: result.data,
+          isAuthenticated: true,
+          isLoading: false,
+          error: null,
+        });
+        return true;
+      } else {
+        set({
+          error: result.error || 'Registration failed',
+          isLoading: false,
+        });
+        return false;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false,
+      });
+      return false;
+    }
+  },
+
   /**
    * Logs out the current user
    */
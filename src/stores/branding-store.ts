@@ -0,0 +1,115 @@
+import { create } from 'zustand';
+import { ApiResponse, BrandingSettings, VendorBranding } from '@/types';
+import { API_ENDPOINTS } from '@/lib/constants';
+
+/**
+ * Branding store state interface
+ */
+interface BrandingState {
+  /** Document branding of the signed-in vendor, null if none has been saved */
+  branding: VendorBranding | null;
+  /** Loading state for branding operations */
+  isLoading: boolean;
+  /** Current error message, if any */
+  error: string | null;
+}
+
+/**
+ * Branding store actions interface
+ */
+interface BrandingActions {
+  /**
+   * Fetches the signed-in vendor's branding
+   * @returns Promise resolving to the branding, or null if none is saved
+   */
+  fetchBranding: () => Promise<VendorBranding | null>;
+
+  /**
+   * Saves the signed-in vendor's branding
+   * @param settings - Branding settings to save
+   * @returns Promise resolving to success status
+   */
+  saveBranding: (settings: BrandingSettings) => Promise<boolean>;
+}
+
+/**
+ * Combined branding store interface
+ */
+type BrandingStore = BrandingState & BrandingActions;
+
+/**
+ * Zustand store for the vendor's document branding
+ * Used by the settings page and by every PDF download
+ */
+export const useBrandingStore = create<BrandingStore>((set) => ({
+  // Initial state
+  branding: null,
+  isLoading: false,
+  error: null,
+
+  /**
+   * Fetches branding from the API
+   */
+  fetchBranding: async (): Promise<VendorBranding | null> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(API_ENDPOINTS.BRANDING);
+      const result: ApiResponse<VendorBranding | null> = await response.json();
+
+      if (result.success) {
+        const branding = result.data || null;
+        set({ branding, isLoading: false });
+        return branding;
+      } else {
+        set({
+          error: result.error || 'Failed to fetch branding',
+          isLoading: false
+        });
+        return null;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+      return null;
+    }
+  },
+
+  /**
+   * Saves branding via the API
+   */
+  saveBranding: async (settings: BrandingSettings): Promise<boolean> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(API_ENDPOINTS.BRANDING, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(settings)
+      });
+
+      const result: ApiResponse<VendorBranding> = await response.json();
+
+      if (result.success && result.data) {
+        set({ branding: result.data, isLoading: false });
+        return true;
+      } else {
+        set({
+          error: result.error || 'Failed to save branding',
+          isLoading: false
+        });
+        return false;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+      return false;
+    }
+  }
+}));
\ No newline at end of file
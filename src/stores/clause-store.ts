@@ -0,0 +1,68 @@
+import { create } from 'zustand';
+import { ApiResponse, OutdatedClauseUsage } from '@/types';
+import { API_ENDPOINTS } from '@/lib/constants';
+
+/**
+ * Clause store state interface
+ */
+interface ClauseState {
+  /** Library clauses in the signed-in vendor's contracts that are behind the current version */
+  outdatedUsages: OutdatedClauseUsage[];
+  /** Loading state for the outdated clause report */
+  isLoading: boolean;
+  /** Current error message, if any */
+  error: string | null;
+}
+
+/**
+ * Clause store actions interface
+ */
+interface ClauseActions {
+  /**
+   * Fetches the outdated clause report
+   * @returns Promise that resolves when the report is loaded
+   */
+  fetchOutdatedUsages: () => Promise<void>;
+}
+
+/**
+ * Combined clause store interface
+ */
+type ClauseStore = ClauseState & ClauseActions;
+
+/**
+ * Zustand store for the clause library's outdated clause report
+ * The library itself is static and read from `@/lib/clause-library`.
+ */
+export const useClauseStore = create<ClauseStore>((set) => ({
+  // Initial state
+  outdatedUsages: [],
+  isLoading: false,
+  error: null,
+
+  /**
+   * Fetches the outdated clause report from the API
+   */
+  fetchOutdatedUsages: async (): Promise<void> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CLAUSES}/outdated`);
+      const result: ApiResponse<OutdatedClauseUsage[]> = await response.json();
+
+      if (result.success && result.data) {
+        set({ outdatedUsages: result.data, isLoading: false });
+      } else {
+        set({
+          error: result.error || 'Failed to fetch outdated clauses',
+          isLoading: false
+        });
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+    }
+  }
+}));
\ No newline at end of file
@@ -1,25 +1,78 @@
 import { create } from 'zustand';
-import { Contract, SignatureData, ApiResponse } from '@/types';
-import { API_ENDPOINTS } from '@/lib/constants';
+import {
+  Contract,
+  ContractPage,
+  ContractRevision,
+  ContractSortKey,
+  ContractStatus,
+  ContractSummary,
+  ContractTrash,
+  ContractVerification,
+  CurrencyCode,
+  ManualContractStatus,
+  PaymentSchedule,
+  SignatureData,
+  SignerDraft,
+  SigningConsent,
+  ApiResponse
+} from '@/types';
+import { API_ENDPOINTS, CONTRACT_LIST_SETTINGS } from '@/lib/constants';
+
+/**
+ * Status filter options for the contract list
+ */
+export type ContractStatusFilter = 'all' | Exclude<ContractStatus, 'deleted'>;
+
+/**
+ * Contract changes sent to the API; client signers are sent as details and rebuilt by the server
+ */
+export type ContractUpdate = Partial<Omit<Contract, 'signers'>> & { signers?: SignerDraft[] };
+
+/**
+ * Sort direction of the contract list
+ */
+export type ContractSortOrder = 'asc' | 'desc';
 
 /**
  * Contract store state interface
  */
 interface ContractState {
-  /** Array of all contracts for the current user */
+  /** Contracts matching the list filters, in pages loaded so far */
   contracts: Contract[];
+  /** Cursor of the next page of the list, or null when every page is loaded */
+  nextCursor: string | null;
+  /** Number of contracts matching the list filters across all pages */
+  totalMatches: number;
+  /** Counts across all of the user's contracts, whatever the filters */
+  summary: ContractSummary | null;
   /** Currently selected/active contract */
   currentContract: Contract | null;
+  /** Deleted contracts waiting to be purged, once fetched */
+  trash: ContractTrash | null;
   /** Loading state for contract operations */
   isLoading: boolean;
   /** Loading state for individual contract operations */
   isContractLoading: boolean;
+  /** Loading state for further pages of the list */
+  isLoadingMore: boolean;
   /** Current error message, if any */
   error: string | null;
   /** Filter for contract status */
-  statusFilter: 'all' | 'draft' | 'signed';
+  statusFilter: ContractStatusFilter;
   /** Search query for filtering contracts */
   searchQuery: string;
+  /** Earliest event date shown (YYYY-MM-DD), or empty for no limit */
+  eventDateFrom: string;
+  /** Latest event date shown (YYYY-MM-DD), or empty for no limit */
+  eventDateTo: string;
+  /** Smallest amount shown as typed, or empty for no limit */
+  amountMin: string;
+  /** Largest amount shown as typed, or empty for no limit */
+  amountMax: string;
+  /** Field the list is sorted by */
+  sortKey: ContractSortKey;
+  /** Direction the list is sorted in */
+  sortOrder: ContractSortOrder;
 }
 
 /**
@@ -27,9 +80,14 @@ interface ContractState {
  */
 interface ContractActions {
   /**
-   * Fetches all contracts for the authenticated user
+   * Fetches the first page of contracts matching the current filters
    */
   fetchContracts: () => Promise<void>;
+
+  /**
+   * Fetches the next page of contracts and appends it to the list
+   */
+  fetchMoreContracts: () => Promise<void>;
   
   /**
    * Fetches a specific contract by ID
@@ -48,7 +106,10 @@ interface ContractActions {
     eventVenue: string;
     servicePackage: string;
     amount: number;
+    currency?: CurrencyCode;
     content: string;
+    signers: SignerDraft[];
+    paymentSchedule?: PaymentSchedule;
   }) => Promise<string | null>;
   
   /**
@@ -56,7 +117,7 @@ interface ContractActions {
    * @param contractId - ID of the contract to update
    * @param updates - Partial contract data to update
    */
-  updateContract: (contractId: string, updates: Partial<Contract>) => Promise<boolean>;
+  updateContract: (contractId: string, updates: ContractUpdate) => Promise<boolean>;
   
   /**
    * Deletes a contract
@@ -64,12 +125,66 @@ interface ContractActions {
    */
   deleteContract: (contractId: string) => Promise<boolean>;
   
+  /**
+   * Fetches the contracts in the trash
+   */
+  fetchTrash: () => Promise<void>;
+  
+  /**
+   * Restores a contract from the trash to the status it had before it was deleted
+   * @param contractId - ID of the deleted contract
+   * @returns Promise resolving to the restored contract, or null on failure
+   */
+  restoreContract: (contractId: string) => Promise<Contract | null>;
+  
+  /**
+   * Cancels, completes or expires a contract
+   * @param contractId - ID of the contract
+   * @param status - Status to move the contract to
+   * @returns Promise resolving to success status
+   */
+  changeContractStatus: (contractId: string, status: ManualContractStatus) => Promise<boolean>;
+  
   /**
    * Signs a contract with digital signature
    * @param contractId - ID of the contract to sign
    * @param signature - Signature data
+   * @param consent - Review and consent timestamps recorded on the signing certificate
+   */
+  signContract: (contractId: string, signature: SignatureData, consent: SigningConsent) => Promise<boolean>;
+  
+  /**
+   * Creates an expiring signing link for a client signer
+   * @param contractId - ID of the contract to share
+   * @param signerId - ID of the client signer the link is for
+   * @returns Promise resolving to the signing URL and its expiry, or null on failure
+   */
+  createShareLink: (
+    contractId: string,
+    signerId: string
+  ) => Promise<{ url: string; expiresAt: string } | null>;
+  
+  /**
+   * Fetches the revision history of a contract
+   * @param contractId - ID of the contract
+   * @returns Promise resolving to the revisions, newest first
    */
-  signContract: (contractId: string, signature: SignatureData) => Promise<boolean>;
+  fetchRevisions: (contractId: string) => Promise<ContractRevision[]>;
+  
+  /**
+   * Restores an earlier revision as the current draft
+   * @param contractId - ID of the contract
+   * @param revisionId - ID of the revision to restore
+   * @returns Promise resolving to the restored contract, or null on failure
+   */
+  restoreRevision: (contractId: string, revisionId: string) => Promise<Contract | null>;
+  
+  /**
+   * Checks a signed contract against its signing certificates
+   * @param contractId - ID of the contract to verify
+   * @returns Promise resolving to the verification result, or null on failure
+   */
+  verifyContract: (contractId: string) => Promise<ContractVerification | null>;
   
   /**
    * Sets the current contract
@@ -81,19 +196,45 @@ interface ContractActions {
    * Sets the status filter for contract list
    * @param filter - Status filter to apply
    */
-  setStatusFilter: (filter: 'all' | 'draft' | 'signed') => void;
+  setStatusFilter: (filter: ContractStatusFilter) => void;
   
   /**
    * Sets the search query for filtering contracts
    * @param query - Search query string
    */
   setSearchQuery: (query: string) => void;
-  
+
   /**
-   * Gets filtered contracts based on current filters
-   * @returns Filtered array of contracts
+   * Sets the event date range of the contract list
+   * @param from - Earliest event date, or empty for no limit
+   * @param to - Latest event date, or empty for no limit
    */
-  getFilteredContracts: () => Contract[];
+  setEventDateRange: (from: string, to: string) => void;
+
+  /**
+   * Sets the amount range of the contract list
+   * @param min - Smallest amount, or empty for no limit
+   * @param max - Largest amount, or empty for no limit
+   */
+  setAmountRange: (min: string, max: string) => void;
+
+  /**
+   * Sets the sort order of the contract list
+   * @param sortKey - Field to sort by
+   * @param sortOrder - Direction to sort in
+   */
+  setSort: (sortKey: ContractSortKey, sortOrder: ContractSortOrder) => void;
+
+  /**
+   * Clears every list filter
+   */
+  clearFilters: () => void;
+
+  /**
+   * Checks whether any list filter is set
+   * @returns True if the list may be leaving out contracts
+   */
+  hasActiveFilters: () => boolean;
   
   /**
    * Clears any current error message
@@ -116,14 +257,68 @@ type ContractStore = ContractState & ContractActions;
  */
 const initialState: ContractState = {
   contracts: [],
+  nextCursor: null,
+  totalMatches: 0,
+  summary: null,
   currentContract: null,
+  trash: null,
   isLoading: false,
   isContractLoading: false,
+  isLoadingMore: false,
   error: null,
   statusFilter: 'all',
-  searchQuery: ''
+  searchQuery: '',
+  eventDateFrom: '',
+  eventDateTo: '',
+  amountMin: '',
+  amountMax: '',
+  sortKey: 'createdAt',
+  sortOrder: 'desc'
 };
 
+/**
+ * Number of the latest list request; responses to earlier requests are dropped
+ */
+let listRequestId = 0;
+
+/**
+ * Pending list refresh while a search or amount filter is being typed
+ */
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * Lists contracts again once typing pauses
+ * @param fetchContracts - Store action that lists the first page
+ */
+function scheduleRefresh(fetchContracts: () => Promise<void>): void {
+  clearTimeout(refreshTimer);
+  refreshTimer = setTimeout(fetchContracts, CONTRACT_LIST_SETTINGS.FILTER_DEBOUNCE_MS);
+}
+
+/**
+ * Builds the contracts URL for the current filters
+ * @param state - Store state holding the filters
+ * @param cursor - Cursor of the page to fetch, if not the first
+ * @returns URL of the page
+ */
+function buildListUrl(state: ContractState, cursor?: string): string {
+  const params = new URLSearchParams({
+    sort: state.sortKey,
+    order: state.sortOrder,
+    limit: String(CONTRACT_LIST_SETTINGS.DEFAULT_PAGE_SIZE)
+  });
+
+  if (state.statusFilter !== 'all') params.set('status', state.statusFilter);
+  if (state.searchQuery.trim()) params.set('q', state.searchQuery.trim());
+  if (state.eventDateFrom) params.set('eventDateFrom', state.eventDateFrom);
+  if (state.eventDateTo) params.set('eventDateTo', state.eventDateTo);
+  if (state.amountMin.trim()) params.set('amountMin', state.amountMin.trim());
+  if (state.amountMax.trim()) params.set('amountMax', state.amountMax.trim());
+  if (cursor) params.set('cursor', cursor);
+
+  return `${API_ENDPOINTS.CONTRACTS}?${params.toString()}`;
+}
+
 /**
  * Zustand store for contract state management
  * Handles contract CRUD operations, filtering, and state management
@@ -133,18 +328,24 @@ export const useContractStore = create<ContractStore>((set, get) => ({
   ...initialState,
 
   /**
-   * Fetches all contracts for the authenticated user
+   * Fetches the first page of contracts matching the current filters
    */
   fetchContracts: async (): Promise<void> => {
-    set({ isLoading: true, error: null });
+    const requestId = ++listRequestId;
+    clearTimeout(refreshTimer);
+    set({ isLoading: true, isLoadingMore: false, error: null });
 
     try {
-      const response = await fetch(API_ENDPOINTS.CONTRACTS);
-      const result: ApiResponse<Contract[]> = await response.json();
+      const response = await fetch(buildListUrl(get()));
+      const result: ApiResponse<ContractPage> = await response.json();
+      if (requestId !== listRequestId) return;
 
       if (result.success && result.data) {
         set({
-          contracts: result.data,
+          contracts: result.data.items,
+          nextCursor: result.data.nextCursor,
+          totalMatches: result.data.total,
+          summary: result.data.summary,
           isLoading: false,
           error: null
         });
@@ -155,6 +356,7 @@ export const useContractStore = create<ContractStore>((set, get) => ({
         });
       }
     } catch (error) {
+      if (requestId !== listRequestId) return;
       set({
         error: 'Network error. Please try again.',
         isLoading: false
@@ -162,6 +364,46 @@ export const useContractStore = create<ContractStore>((set, get) => ({
     }
   },
 
+  /**
+   * Fetches the next page of contracts and appends it to the list
+   */
+  fetchMoreContracts: async (): Promise<void> => {
+    const { nextCursor, isLoading, isLoadingMore } = get();
+    if (!nextCursor || isLoading || isLoadingMore) return;
+
+    const requestId = listRequestId;
+    set({ isLoadingMore: true, error: null });
+
+    try {
+      const response = await fetch(buildListUrl(get(), nextCursor));
+      const result: ApiResponse<ContractPage> = await response.json();
+      // The filters changed while the page was loading, so it belongs to an old list
+      if (requestId !== listRequestId) return;
+
+      if (result.success && result.data) {
+        set({
+          contracts: [...get().contracts, ...result.data.items],
+          nextCursor: result.data.nextCursor,
+          totalMatches: result.data.total,
+          summary: result.data.summary,
+          isLoadingMore: false,
+          error: null
+        });
+      } else {
+        set({
+          error: result.error || 'Failed to fetch contracts',
+          isLoadingMore: false
+        });
+      }
+    } catch (error) {
+      if (requestId !== listRequestId) return;
+      set({
+        error: 'Network error. Please try again.',
+        isLoadingMore: false
+      });
+    }
+  },
+
   /**
    * Fetches a specific contract by ID
    */
@@ -236,7 +478,7 @@ export const useContractStore = create<ContractStore>((set, get) => ({
   /**
    * Updates an existing contract
    */
-  updateContract: async (contractId: string, updates: Partial<Contract>): Promise<boolean> => {
+  updateContract: async (contractId: string, updates: ContractUpdate): Promise<boolean> => {
     set({ isContractLoading: true, error: null });
 
     try {
@@ -251,17 +493,14 @@ export const useContractStore = create<ContractStore>((set, get) => ({
       const result: ApiResponse = await response.json();
 
       if (result.success) {
-        // Update local state
-        const { contracts, currentContract } = get();
-        const updatedContracts = contracts.map(contract =>
-          contract.id === contractId ? { ...contract, ...updates } : contract
-        );
-        
+        // Reload the contract so server-built fields such as signer IDs are current
+        const updatedContract = await get().fetchContract(contractId);
+        const { contracts } = get();
+
         set({
-          contracts: updatedContracts,
-          currentContract: currentContract?.id === contractId 
-            ? { ...currentContract, ...updates } 
-            : currentContract,
+          contracts: updatedContract
+            ? contracts.map(contract => contract.id === contractId ? updatedContract : contract)
+            : contracts,
           isContractLoading: false,
           error: null
         });
@@ -293,15 +532,17 @@ export const useContractStore = create<ContractStore>((set, get) => ({
         method: 'DELETE'
       });
 
-      const result: ApiResponse = await response.json();
+      const result: ApiResponse<ContractSummary> = await response.json();
 
       if (result.success) {
-        // Remove from local state
-        const { contracts, currentContract } = get();
-        const updatedContracts = contracts.filter(contract => contract.id !== contractId);
-        
+        // Remove from local state; the response carries the summary without the contract
+        const { contracts, currentContract, totalMatches, summary } = get();
+        const deletedContract = contracts.find(contract => contract.id === contractId);
+
         set({
-          contracts: updatedContracts,
+          contracts: contracts.filter(contract => contract.id !== contractId),
+          totalMatches: deletedContract ? Math.max(0, totalMatches - 1) : totalMatches,
+          summary: result.data || summary,
           currentContract: currentContract?.id === contractId ? null : currentContract,
           isLoading: false,
           error: null
@@ -323,10 +564,129 @@ export const useContractStore = create<ContractStore>((set, get) => ({
     }
   },
 
+  /**
+   * Fetches the trash from the API
+   */
+  fetchTrash: async (): Promise<void> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/trash`);
+      const result: ApiResponse<ContractTrash> = await response.json();
+
+      if (result.success && result.data) {
+        set({
+          trash: result.data,
+          isLoading: false,
+          error: null
+        });
+      } else {
+        set({
+          error: result.error || 'Failed to fetch trash',
+          isLoading: false
+        });
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+    }
+  },
+
+  /**
+   * Restores a contract from the trash via the API
+   */
+  restoreContract: async (contractId: string): Promise<Contract | null> => {
+    set({ isContractLoading: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/restore`, {
+        method: 'POST'
+      });
+
+      const result: ApiResponse<Contract> = await response.json();
+
+      if (result.success && result.data) {
+        const { trash } = get();
+
+        set({
+          trash: trash && {
+            ...trash,
+            contracts: trash.contracts.filter(contract => contract.id !== contractId)
+          },
+          isContractLoading: false,
+          error: null
+        });
+        return result.data;
+      } else {
+        set({
+          error: result.error || 'Failed to restore contract',
+          isContractLoading: false
+        });
+        return null;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isContractLoading: false
+      });
+      return null;
+    }
+  },
+
+  /**
+   * Changes a contract's status via the API
+   */
+  changeContractStatus: async (contractId: string, status: ManualContractStatus): Promise<boolean> => {
+    set({ isContractLoading: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/status`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ status })
+      });
+
+      const result: ApiResponse<Contract> = await response.json();
+
+      if (result.success && result.data) {
+        const updatedContract = result.data;
+        const { contracts, currentContract } = get();
+
+        set({
+          contracts: contracts.map(contract => contract.id === contractId ? updatedContract : contract),
+          currentContract: currentContract?.id === contractId ? updatedContract : currentContract,
+          isContractLoading: false,
+          error: null
+        });
+        return true;
+      } else {
+        set({
+          error: result.error || 'Failed to update contract status',
+          isContractLoading: false
+        });
+        return false;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isContractLoading: false
+      });
+      return false;
+    }
+  },
+
   /**
    * Signs a contract with digital signature
    */
-  signContract: async (contractId: string, signature: SignatureData): Promise<boolean> => {
+  signContract: async (
+    contractId: string,
+    signature: SignatureData,
+    consent: SigningConsent
+  ): Promise<boolean> => {
     set({ isContractLoading: true, error: null });
 
     try {
@@ -335,25 +695,20 @@ export const useContractStore = create<ContractStore>((set, get) => ({
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify(signature)
+        body: JSON.stringify({ ...signature, ...consent })
       });
 
       const result: ApiResponse = await response.json();
 
       if (result.success) {
-        // Update local state
-        const { contracts, currentContract } = get();
-        const updatedContracts = contracts.map(contract =>
-          contract.id === contractId 
-            ? { ...contract, signature, status: 'signed' as const }
-            : contract
-        );
-        
+        // The server derives the new status from the signers still outstanding
+        const updatedContract = await get().fetchContract(contractId);
+        const { contracts } = get();
+
         set({
-          contracts: updatedContracts,
-          currentContract: currentContract?.id === contractId 
-            ? { ...currentContract, signature, status: 'signed' as const }
-            : currentContract,
+          contracts: updatedContract
+            ? contracts.map(contract => contract.id === contractId ? updatedContract : contract)
+            : contracts,
           isContractLoading: false,
           error: null
         });
@@ -374,6 +729,128 @@ export const useContractStore = create<ContractStore>((set, get) => ({
     }
   },
 
+  /**
+   * Creates an expiring signing link for a client signer
+   */
+  createShareLink: async (
+    contractId: string,
+    signerId: string
+  ): Promise<{ url: string; expiresAt: string } | null> => {
+    set({ error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/share`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ signerId })
+      });
+
+      const result: ApiResponse<{ url: string; expiresAt: string }> = await response.json();
+
+      if (result.success && result.data) {
+        // Sending a draft for signature moves it to `sent`
+        const { contracts, currentContract } = get();
+        const markSent = (contract: Contract): Contract =>
+          contract.status === 'draft' ? { ...contract, status: 'sent' } : contract;
+
+        set({
+          contracts: contracts.map(contract => contract.id === contractId ? markSent(contract) : contract),
+          currentContract: currentContract?.id === contractId ? markSent(currentContract) : currentContract
+        });
+        return result.data;
+      } else {
+        set({ error: result.error || 'Failed to create signing link' });
+        return null;
+      }
+    } catch (error) {
+      set({ error: 'Network error. Please try again.' });
+      return null;
+    }
+  },
+
+  /**
+   * Fetches the revision history of a contract
+   */
+  fetchRevisions: async (contractId: string): Promise<ContractRevision[]> => {
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/revisions`);
+      const result: ApiResponse<ContractRevision[]> = await response.json();
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        set({ error: result.error || 'Failed to fetch revisions' });
+        return [];
+      }
+    } catch (error) {
+      set({ error: 'Network error. Please try again.' });
+      return [];
+    }
+  },
+
+  /**
+   * Restores an earlier revision as the current draft
+   */
+  restoreRevision: async (contractId: string, revisionId: string): Promise<Contract | null> => {
+    set({ isContractLoading: true, error: null });
+
+    try {
+      const response = await fetch(
+        `${API_ENDPOINTS.CONTRACTS}/${contractId}/revisions/${revisionId}/restore`,
+        { method: 'POST' }
+      );
+
+      const result: ApiResponse<Contract> = await response.json();
+
+      if (result.success && result.data) {
+        const restored = result.data;
+        const { contracts, currentContract } = get();
+
+        set({
+          contracts: contracts.map(contract => contract.id === contractId ? restored : contract),
+          currentContract: currentContract?.id === contractId ? restored : currentContract,
+          isContractLoading: false,
+          error: null
+        });
+        return restored;
+      } else {
+        set({
+          error: result.error || 'Failed to restore revision',
+          isContractLoading: false
+        });
+        return null;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isContractLoading: false
+      });
+      return null;
+    }
+  },
+
+  /**
+   * Checks a signed contract against its signing certificates
+   */
+  verifyContract: async (contractId: string): Promise<ContractVerification | null> => {
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/verify`);
+      const result: ApiResponse<ContractVerification> = await response.json();
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        set({ error: result.error || 'Failed to verify contract' });
+        return null;
+      }
+    } catch (error) {
+      set({ error: 'Network error. Please try again.' });
+      return null;
+    }
+  },
+
   /**
    * Sets the current contract
    */
@@ -384,41 +861,69 @@ export const useContractStore = create<ContractStore>((set, get) => ({
   /**
    * Sets the status filter for contract list
    */
-  setStatusFilter: (filter: 'all' | 'draft' | 'signed'): void => {
+  setStatusFilter: (filter: ContractStatusFilter): void => {
     set({ statusFilter: filter });
+    get().fetchContracts();
   },
 
   /**
-   * Sets the search query for filtering contracts
+   * Sets the search query and lists again once typing pauses
    */
   setSearchQuery: (query: string): void => {
     set({ searchQuery: query });
+    scheduleRefresh(get().fetchContracts);
   },
 
   /**
-   * Gets filtered contracts based on current filters
+   * Sets the event date range of the contract list
    */
-  getFilteredContracts: (): Contract[] => {
-    const { contracts, statusFilter, searchQuery } = get();
-    
-    let filtered = contracts;
+  setEventDateRange: (from: string, to: string): void => {
+    set({ eventDateFrom: from, eventDateTo: to });
+    get().fetchContracts();
+  },
 
-    // Apply status filter
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(contract => contract.status === statusFilter);
-    }
+  /**
+   * Sets the amount range and lists again once typing pauses
+   */
+  setAmountRange: (min: string, max: string): void => {
+    set({ amountMin: min, amountMax: max });
+    scheduleRefresh(get().fetchContracts);
+  },
 
-    // Apply search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(contract =>
-        contract.clientName.toLowerCase().includes(query) ||
-        contract.eventVenue.toLowerCase().includes(query) ||
-        contract.servicePackage.toLowerCase().includes(query)
-      );
-    }
+  /**
+   * Sets the sort order of the contract list
+   */
+  setSort: (sortKey: ContractSortKey, sortOrder: ContractSortOrder): void => {
+    set({ sortKey, sortOrder });
+    get().fetchContracts();
+  },
+
+  /**
+   * Clears every list filter, keeping the sort order
+   */
+  clearFilters: (): void => {
+    set({
+      statusFilter: initialState.statusFilter,
+      searchQuery: initialState.searchQuery,
+      eventDateFrom: initialState.eventDateFrom,
+      eventDateTo: initialState.eventDateTo,
+      amountMin: initialState.amountMin,
+      amountMax: initialState.amountMax
+    });
+    get().fetchContracts();
+  },
 
-    return filtered;
+  /**
+   * Checks whether any list filter is set
+   */
+  hasActiveFilters: (): boolean => {
+    const { statusFilter, searchQuery, eventDateFrom, eventDateTo, amountMin, amountMax } = get();
+    return statusFilter !== 'all' ||
+      searchQuery.trim() !== '' ||
+      eventDateFrom !== '' ||
+      eventDateTo !== '' ||
+      amountMin.trim() !== '' ||
+      amountMax.trim() !== '';
   },
 
   /**
@@ -432,6 +937,8 @@ export const useContractStore = create<ContractStore>((set, get) => ({
    * Resets the store to initial state
    */
   reset: (): void => {
+    listRequestId++;
+    clearTimeout(refreshTimer);
     set(initialState);
   }
 }));
\ No newline at end of file
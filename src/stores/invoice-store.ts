@@ -0,0 +1,159 @@
+import { create } from 'zustand';
+import { ApiResponse, Invoice, InvoiceStatus } from '@/types';
+import { API_ENDPOINTS } from '@/lib/constants';
+
+/**
+ * Invoice store state interface
+ */
+interface InvoiceState {
+  /** Loading state for invoice operations */
+  isLoading: boolean;
+  /** Current error message, if any */
+  error: string | null;
+}
+
+/**
+ * Invoice store actions interface
+ */
+interface InvoiceActions {
+  /**
+   * Fetches the invoices issued for a contract
+   * @param contractId - ID of the contract
+   * @returns Promise resolving to the invoices, oldest first
+   */
+  fetchInvoices: (contractId: string) => Promise<Invoice[]>;
+
+  /**
+   * Issues an invoice for a scheduled payment
+   * @param contractId - ID of the contract
+   * @param scheduleIndex - Position of the payment in the schedule (0 is the deposit)
+   * @returns Promise resolving to the issued invoice, or null on failure
+   */
+  createInvoice: (contractId: string, scheduleIndex: number) => Promise<Invoice | null>;
+
+  /**
+   * Marks an issued invoice as paid or void
+   * @param contractId - ID of the contract
+   * @param invoiceId - ID of the invoice
+   * @param status - New status
+   * @returns Promise resolving to the updated invoice, or null on failure
+   */
+  updateInvoiceStatus: (
+    contractId: string,
+    invoiceId: string,
+    status: Exclude<InvoiceStatus, 'issued'>
+  ) => Promise<Invoice | null>;
+}
+
+/**
+ * Combined invoice store interface
+ */
+type InvoiceStore = InvoiceState & InvoiceActions;
+
+/**
+ * Zustand store for invoices issued from signed contracts
+ * Invoices are returned to the caller, which keeps the list for the contract it shows.
+ */
+export const useInvoiceStore = create<InvoiceStore>((set) => ({
+  // Initial state
+  isLoading: false,
+  error: null,
+
+  /**
+   * Fetches the invoices of a contract from the API
+   */
+  fetchInvoices: async (contractId: string): Promise<Invoice[]> => {
+    set({ error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/invoices`);
+      const result: ApiResponse<Invoice[]> = await response.json();
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        set({ error: result.error || 'Failed to fetch invoices' });
+        return [];
+      }
+    } catch (error) {
+      set({ error: 'Network error. Please try again.' });
+      return [];
+    }
+  },
+
+  /**
+   * Issues an invoice via the API
+   */
+  createInvoice: async (contractId: string, scheduleIndex: number): Promise<Invoice | null> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/invoices`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ scheduleIndex })
+      });
+
+      const result: ApiResponse<Invoice> = await response.json();
+
+      if (result.success && result.data) {
+        set({ isLoading: false });
+        return result.data;
+      } else {
+        set({
+          error: result.error || 'Failed to create invoice',
+          isLoading: false
+        });
+        return null;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+      return null;
+    }
+  },
+
+  /**
+   * Changes the status of an invoice via the API
+   */
+  updateInvoiceStatus: async (
+    contractId: string,
+    invoiceId: string,
+    status: Exclude<InvoiceStatus, 'issued'>
+  ): Promise<Invoice | null> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/invoices/${invoiceId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ status })
+      });
+
+      const result: ApiResponse<Invoice> = await response.json();
+
+      if (result.success && result.data) {
+        set({ isLoading: false });
+        return result.data;
+      } else {
+        set({
+          error: result.error || 'Failed to update invoice',
+          isLoading: false
+        });
+        return null;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+      return null;
+    }
+  }
+}));
\ No newline at end of file
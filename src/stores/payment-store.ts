@@ -0,0 +1,187 @@
+import { create } from 'zustand';
+import { ApiResponse, ContractPaymentInput, PaymentLedger, ReceivablesSummary } from '@/types';
+import { API_ENDPOINTS } from '@/lib/constants';
+
+/**
+ * Payment store state interface
+ */
+interface PaymentState {
+  /** What the signed-in vendor is still owed across their signed contracts */
+  receivables: ReceivablesSummary | null;
+  /** Loading state for payment operations */
+  isLoading: boolean;
+  /** Current error message, if any */
+  error: string | null;
+}
+
+/**
+ * Payment store actions interface
+ */
+interface PaymentActions {
+  /**
+   * Fetches the receivables summary shown on the dashboard
+   * @returns Promise that resolves when the summary is loaded
+   */
+  fetchReceivables: () => Promise<void>;
+
+  /**
+   * Fetches the payment ledger of a contract
+   * @param contractId - ID of the contract
+   * @returns Promise resolving to the ledger, or null on failure
+   */
+  fetchLedger: (contractId: string) => Promise<PaymentLedger | null>;
+
+  /**
+   * Records a payment received against a contract
+   * @param contractId - ID of the contract
+   * @param paymentData - Payment details
+   * @returns Promise resolving to the updated ledger, or null on failure
+   */
+  recordPayment: (contractId: string, paymentData: ContractPaymentInput) => Promise<PaymentLedger | null>;
+
+  /**
+   * Deletes a payment recorded by mistake
+   * @param contractId - ID of the contract
+   * @param paymentId - ID of the payment
+   * @returns Promise resolving to the updated ledger, or null on failure
+   */
+  deletePayment: (contractId: string, paymentId: string) => Promise<PaymentLedger | null>;
+
+  /**
+   * Clears any current error message
+   */
+  clearError: () => void;
+}
+
+/**
+ * Combined payment store interface
+ */
+type PaymentStore = PaymentState & PaymentActions;
+
+/**
+ * Zustand store for payments received against contracts
+ * Ledgers are returned to the caller; only the dashboard's receivables summary is kept in the store.
+ */
+export const usePaymentStore = create<PaymentStore>((set) => ({
+  // Initial state
+  receivables: null,
+  isLoading: false,
+  error: null,
+
+  /**
+   * Fetches the receivables summary from the API
+   */
+  fetchReceivables: async (): Promise<void> => {
+    set({ error: null });
+
+    try {
+      const response = await fetch(API_ENDPOINTS.RECEIVABLES);
+      const result: ApiResponse<ReceivablesSummary> = await response.json();
+
+      if (result.success && result.data) {
+        set({ receivables: result.data });
+      } else {
+        set({ error: result.error || 'Failed to fetch receivables' });
+      }
+    } catch (error) {
+      set({ error: 'Network error. Please try again.' });
+    }
+  },
+
+  /**
+   * Fetches the payment ledger of a contract
+   */
+  fetchLedger: async (contractId: string): Promise<PaymentLedger | null> => {
+    set({ error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/payments`);
+      const result: ApiResponse<PaymentLedger> = await response.json();
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        set({ error: result.error || 'Failed to fetch payments' });
+        return null;
+      }
+    } catch (error) {
+      set({ error: 'Network error. Please try again.' });
+      return null;
+    }
+  },
+
+  /**
+   * Records a payment via the API
+   */
+  recordPayment: async (contractId: string, paymentData: ContractPaymentInput): Promise<PaymentLedger | null> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/payments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(paymentData)
+      });
+
+      const result: ApiResponse<PaymentLedger> = await response.json();
+
+      if (result.success && result.data) {
+        set({ isLoading: false });
+        return result.data;
+      } else {
+        set({
+          error: result.error || 'Failed to record payment',
+          isLoading: false
+        });
+        return null;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+      return null;
+    }
+  },
+
+  /**
+   * Deletes a payment via the API
+   */
+  deletePayment: async (contractId: string, paymentId: string): Promise<PaymentLedger | null> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.CONTRACTS}/${contractId}/payments/${paymentId}`, {
+        method: 'DELETE'
+      });
+
+      const result: ApiResponse<PaymentLedger> = await response.json();
+
+      if (result.success && result.data) {
+        set({ isLoading: false });
+        return result.data;
+      } else {
+        set({
+          error: result.error || 'Failed to delete payment',
+          isLoading: false
+        });
+        return null;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+      return null;
+    }
+  },
+
+  /**
+   * Clears the current error message
+   */
+  clearError: (): void => {
+    set({ error: null });
+  }
+}));
\ No newline at end of file
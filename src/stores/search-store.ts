@@ -0,0 +1,100 @@
+import { create } from 'zustand';
+import { ApiResponse, ContractSearchResult } from '@/types';
+import { API_ENDPOINTS } from '@/lib/constants';
+
+/**
+ * Search store state interface
+ */
+interface SearchState {
+  /** Query the current results are for */
+  query: string;
+  /** Contracts matching the query, most relevant first */
+  results: ContractSearchResult[];
+  /** Loading state for the search */
+  isSearching: boolean;
+  /** Current error message, if any */
+  error: string | null;
+}
+
+/**
+ * Search store actions interface
+ */
+interface SearchActions {
+  /**
+   * Searches the text of the signed-in vendor's contracts
+   * @param query - Search query as typed
+   * @returns Promise that resolves when the results are loaded
+   */
+  search: (query: string) => Promise<void>;
+
+  /**
+   * Clears the query and results
+   */
+  clear: () => void;
+}
+
+/**
+ * Combined search store interface
+ */
+type SearchStore = SearchState & SearchActions;
+
+/**
+ * Number of the latest search; responses to earlier searches are dropped
+ */
+let searchRequestId = 0;
+
+/**
+ * Zustand store for full-text contract search
+ */
+export const useSearchStore = create<SearchStore>((set) => ({
+  // Initial state
+  query: '',
+  results: [],
+  isSearching: false,
+  error: null,
+
+  /**
+   * Searches contracts via the API
+   */
+  search: async (query: string): Promise<void> => {
+    const requestId = ++searchRequestId;
+
+    if (!query.trim()) {
+      set({ query, results: [], isSearching: false, error: null });
+      return;
+    }
+
+    set({ query, isSearching: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.SEARCH}?${new URLSearchParams({ q: query.trim() }).toString()}`);
+      const result: ApiResponse<ContractSearchResult[]> = await response.json();
+      if (requestId !== searchRequestId) return;
+
+      if (result.success && result.data) {
+        set({ results: result.data, isSearching: false });
+      } else {
+        set({
+          results: [],
+          error: result.error || 'Failed to search contracts',
+          isSearching: false
+        });
+      }
+    } catch (error) {
+      if (requestId !== searchRequestId) return;
+      set({
+        results: [],
+        error: 'Network error. Please try again.',
+        isSearching: false
+      });
+    }
+  },
+
+  /**
+   * Clears the query and results
+   */
+  clear: (): void => {
+    searchRequestId++;
+    set({ query: '', results: [], isSearching: false, error: null });
+  }
+}));
\ No newline at end of file
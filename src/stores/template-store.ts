@@ -0,0 +1,231 @@
+import { create } from 'zustand';
+import { ApiResponse, ContractTemplate, ContractTemplateInput } from '@/types';
+import { API_ENDPOINTS } from '@/lib/constants';
+
+/**
+ * Template store state interface
+ */
+interface TemplateState {
+  /** Contract templates of the signed-in vendor, sorted by name */
+  templates: ContractTemplate[];
+  /** Loading state for template operations */
+  isLoading: boolean;
+  /** Current error message, if any */
+  error: string | null;
+}
+
+/**
+ * Template store actions interface
+ */
+interface TemplateActions {
+  /**
+   * Fetches the signed-in vendor's templates
+   * @returns Promise that resolves when templates are loaded
+   */
+  fetchTemplates: () => Promise<void>;
+
+  /**
+   * Creates a new template
+   * @param templateData - Template fields
+   * @returns Promise resolving to the new template ID or null on failure
+   */
+  createTemplate: (templateData: ContractTemplateInput) => Promise<string | null>;
+
+  /**
+   * Updates an existing template
+   * @param templateId - ID of the template to update
+   * @param templateData - Template fields to change
+   * @returns Promise resolving to success status
+   */
+  updateTemplate: (templateId: string, templateData: Partial<ContractTemplateInput>) => Promise<boolean>;
+
+  /**
+   * Deletes a template
+   * @param templateId - ID of the template to delete
+   * @returns Promise resolving to success status
+   */
+  deleteTemplate: (templateId: string) => Promise<boolean>;
+
+  /**
+   * Clears the current error
+   */
+  clearError: () => void;
+}
+
+/**
+ * Combined template store interface
+ */
+type TemplateStore = TemplateState & TemplateActions;
+
+/**
+ * Sorts templates by name, matching the order returned by the API
+ */
+const sortTemplates = (templates: ContractTemplate[]): ContractTemplate[] => {
+  return [...templates].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Zustand store for the vendor's reusable contract templates
+ */
+export const useTemplateStore = create<TemplateStore>((set, get) => ({
+  // Initial state
+  templates: [],
+  isLoading: false,
+  error: null,
+
+  /**
+   * Fetches templates from the API
+   */
+  fetchTemplates: async (): Promise<void> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(API_ENDPOINTS.TEMPLATES);
+      const result: ApiResponse<ContractTemplate[]> = await response.json();
+
+      if (result.success && result.data) {
+        set({ templates: result.data, isLoading: false });
+      } else {
+        set({
+          error: result.error || 'Failed to fetch templates',
+          isLoading: false
+        });
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+    }
+  },
+
+  /**
+   * Creates a template via the API
+   */
+  createTemplate: async (templateData: ContractTemplateInput): Promise<string | null> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(API_ENDPOINTS.TEMPLATES, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(templateData)
+      });
+
+      const result: ApiResponse<ContractTemplate> = await response.json();
+
+      if (result.success && result.data) {
+        set({
+          templates: sortTemplates([...get().templates, result.data]),
+          isLoading: false
+        });
+        return result.data.id;
+      } else {
+        set({
+          error: result.error || 'Failed to create template',
+          isLoading: false
+        });
+        return null;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+      return null;
+    }
+  },
+
+  /**
+   * Updates a template via the API
+   */
+  updateTemplate: async (
+    templateId: string,
+    templateData: Partial<ContractTemplateInput>
+  ): Promise<boolean> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.TEMPLATES}/${templateId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          ...templateData,
+          // JSON drops undefined, so send null to clear the standard price
+          ...('amount' in templateData && { amount: templateData.amount ?? null })
+        })
+      });
+
+      const result: ApiResponse<ContractTemplate> = await response.json();
+
+      if (result.success && result.data) {
+        const updatedTemplate = result.data;
+        set({
+          templates: sortTemplates(get().templates.map(template =>
+            template.id === templateId ? updatedTemplate : template
+          )),
+          isLoading: false
+        });
+        return true;
+      } else {
+        set({
+          error: result.error || 'Failed to update template',
+          isLoading: false
+        });
+        return false;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+      return false;
+    }
+  },
+
+  /**
+   * Deletes a template via the API
+   */
+  deleteTemplate: async (templateId: string): Promise<boolean> => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.TEMPLATES}/${templateId}`, {
+        method: 'DELETE'
+      });
+
+      const result: ApiResponse = await response.json();
+
+      if (result.success) {
+        set({
+          templates: get().templates.filter(template => template.id !== templateId),
+          isLoading: false
+        });
+        return true;
+      } else {
+        set({
+          error: result.error || 'Failed to delete template',
+          isLoading: false
+        });
+        return false;
+      }
+    } catch (error) {
+      set({
+        error: 'Network error. Please try again.',
+        isLoading: false
+      });
+      return false;
+    }
+  },
+
+  /**
+   * Clears the current error
+   */
+  clearError: () => {
+    set({ error: null });
+  }
+}));
\ No newline at end of file
@@ -12,6 +12,14 @@ export interface User {
   name: string;
 }
 
+/**
+ * User account as persisted in the user store, including credentials
+ */
+export interface UserRecord extends User {
+  /** Salted scrypt hash of the user's password */
+  passwordHash: string;
+}
+
 /**
  * Represents signature data for digital contract signing
  */
@@ -22,6 +30,208 @@ export interface SignatureData {
   data: string;
   /** ISO timestamp when the signature was created */
   timestamp: string;
+  /** Identity of the person who applied the signature */
+  signedBy?: SignerIdentity;
+}
+
+/**
+ * Lifecycle status of a contract
+ * `signed` means fully executed: every party on the contract has signed. Which statuses a contract
+ * can move to is defined in `contract-lifecycle.ts`.
+ */
+export type ContractStatus =
+  | 'draft'
+  | 'sent'
+  | 'viewed'
+  | 'partially_signed'
+  | 'signed'
+  | 'completed'
+  | 'cancelled'
+  | 'expired'
+  | 'deleted';
+
+/**
+ * Statuses the vendor moves a contract to by hand; the others follow from sending, viewing, signing
+ * and deleting it
+ */
+export type ManualContractStatus = 'cancelled' | 'completed' | 'expired';
+
+/**
+ * Identifies who applied a signature to a contract
+ */
+export interface SignerIdentity {
+  /** Whether the signature was applied by the vendor or by the client */
+  role: 'vendor' | 'client';
+  /** Full name of the signer */
+  name: string;
+  /** Email address of the signer */
+  email: string;
+}
+
+/**
+ * A party who must sign a contract
+ */
+export interface ContractSigner {
+  /** Unique identifier for the signer within the contract */
+  id: string;
+  /** Whether the signer is a client or the vendor countersigning */
+  role: SignerIdentity['role'];
+  /** Full name of the signer */
+  name: string;
+  /** Email address of the signer */
+  email: string;
+  /** Signature, once the signer has signed */
+  signature?: SignatureData;
+}
+
+/**
+ * Client signer details entered on the contract form
+ */
+export interface SignerDraft {
+  /** Full name of the client signer */
+  name: string;
+  /** Email address of the client signer */
+  email: string;
+}
+
+/**
+ * Timestamps captured in the browser while the signer reviewed and agreed to sign
+ */
+export interface SigningConsent {
+  /** ISO timestamp when the signer opened the contract for review */
+  viewedAt: string;
+  /** ISO timestamp when the signer agreed to sign electronically */
+  consentedAt: string;
+}
+
+/**
+ * Evidence recorded by the server for a signing event
+ */
+export interface SigningAudit extends SigningConsent {
+  /** IP address the signature was submitted from */
+  ipAddress: string;
+  /** User agent of the browser that submitted the signature */
+  userAgent: string;
+}
+
+/**
+ * Tamper-evident certificate issued when a party signs a contract
+ */
+export interface SigningCertificate extends SigningAudit {
+  /** Unique identifier for the certificate */
+  id: string;
+  /** ID of the signed contract */
+  contractId: string;
+  /** ID of the signed amendment, for signatures on an amendment rather than the contract itself */
+  amendmentId?: string;
+  /** Hash algorithm used for the document hash */
+  hashAlgorithm: 'SHA-256';
+  /** Hex-encoded hash of the contract content and key fields at signing time */
+  documentHash: string;
+  /** Identity of the person who signed */
+  signer: SignerIdentity;
+  /** ISO timestamp when the signature was applied */
+  signedAt: string;
+}
+
+/**
+ * Result of re-hashing a signed contract against its signing certificates
+ */
+export interface ContractVerification {
+  /** ID of the verified contract */
+  contractId: string;
+  /** Hex-encoded hash of the contract as currently stored */
+  currentHash: string;
+  /** Whether every certificate matches the stored contract */
+  isIntact: boolean;
+  /** Certificates with their individual verification results */
+  certificates: Array<{
+    /** The signing certificate */
+    certificate: SigningCertificate;
+    /** Whether the certificate's hash matches the stored contract */
+    matches: boolean;
+  }>;
+}
+
+/**
+ * Represents a tokenized, expiring link that lets a client sign a contract remotely
+ */
+export interface ShareLink {
+  /** Unique identifier for the share link */
+  id: string;
+  /** Random URL-safe token embedded in the public signing URL */
+  token: string;
+  /** ID of the contract the link grants access to */
+  contractId: string;
+  /** ID of the vendor who created the link */
+  vendorId: string;
+  /** ID of the contract signer the link was issued to */
+  signerId?: string;
+  /** ID of the amendment to sign, for links to an amendment rather than the contract itself */
+  amendmentId?: string;
+  /** ISO timestamp after which the link can no longer be used */
+  expiresAt: string;
+  /** ISO timestamp when the link was created */
+  createdAt: string;
+  /** ISO timestamp when the client first opened the link */
+  viewedAt?: string;
+  /** ISO timestamp when the client signed through this link */
+  usedAt?: string;
+}
+
+/**
+ * ISO 4217 code of a currency contracts can be billed in
+ */
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'INR';
+
+/**
+ * Amount in a specific currency
+ */
+export interface CurrencyAmount {
+  /** Currency of the amount */
+  currency: CurrencyCode;
+  /** Amount in the currency's major unit */
+  amount: number;
+}
+
+/**
+ * Scheduled payment on a contract
+ */
+export interface ScheduledPayment {
+  /** Name of the payment, e.g. "Deposit" or "Final balance" */
+  label: string;
+  /** Amount due in the contract currency */
+  amount: number;
+  /** Date the payment is due (ISO date string) */
+  dueDate: string;
+}
+
+/**
+ * When a contract's amount is paid: a deposit followed by installments that together add up to the amount
+ */
+export interface PaymentSchedule {
+  /** Payment due first, usually on signing */
+  deposit: ScheduledPayment;
+  /** Payments due after the deposit, in due date order */
+  installments: ScheduledPayment[];
+}
+
+/**
+ * Scheduled payment as entered on the contract form
+ */
+export interface ScheduledPaymentDraft {
+  label: string;
+  /** Amount as typed into the form */
+  amount: string;
+  dueDate: string;
+}
+
+/**
+ * Payment schedule as entered on the contract form
+ */
+export interface PaymentScheduleDraft {
+  deposit: ScheduledPaymentDraft;
+  installments: ScheduledPaymentDraft[];
 }
 
 /**
@@ -40,20 +250,441 @@ export interface Contract {
   eventVenue: string;
   /** Description of the service package being provided */
   servicePackage: string;
-  /** Contract amount in dollars */
+  /** Contract amount in the contract currency */
   amount: number;
+  /** Currency the contract is billed in (contracts created before currencies have none and are in USD) */
+  currency?: CurrencyCode;
+  /** When the amount is paid (contracts created before payment schedules have none) */
+  paymentSchedule?: PaymentSchedule;
   /** Rich text content of the contract */
   content: string;
   /** Current status of the contract */
-  status: 'draft' | 'signed' | 'deleted';
-  /** Digital signature data if the contract has been signed */
+  status: ContractStatus;
+  /** Parties who must sign, in signature block order (clients first, vendor countersignature last) */
+  signers?: ContractSigner[];
+  /**
+   * Single signature from before multi-party signing
+   * @deprecated Read signatures through `getContractSigners`
+   */
   signature?: SignatureData;
+  /** Status the contract had before it was moved to the trash, restored on undelete */
+  previousStatus?: Exclude<ContractStatus, 'deleted'>;
+  /** ISO timestamp when the contract was moved to the trash */
+  deletedAt?: string;
   /** ISO timestamp when the contract was created */
   createdAt: string;
   /** ISO timestamp when the contract was last updated */
   updatedAt: string;
 }
 
+/**
+ * Editable contract fields captured in a revision snapshot
+ */
+export type ContractSnapshot = Pick<
+  Contract,
+  'clientName' | 'eventDate' | 'eventVenue' | 'servicePackage' | 'amount' | 'currency' | 'paymentSchedule' | 'content'
+>;
+
+/**
+ * Immutable record of a contract's editable fields at a point in time
+ */
+export interface ContractRevision {
+  /** Unique identifier for the revision */
+  id: string;
+  /** ID of the contract this revision belongs to */
+  contractId: string;
+  /** Sequential revision number, starting at 1 for the original version */
+  revisionNumber: number;
+  /** Contract fields as they were after this revision was saved */
+  snapshot: ContractSnapshot;
+  /** ID of the user who saved the revision */
+  authorId: string;
+  /** Display name of the user who saved the revision */
+  authorName: string;
+  /** ISO timestamp when the revision was saved */
+  createdAt: string;
+  /** Revision number this revision was restored from, if it is a restore */
+  restoredFrom?: number;
+}
+
+/**
+ * Contract fields the contract list can be sorted by
+ */
+export type ContractSortKey = 'createdAt' | 'updatedAt' | 'eventDate' | 'amount' | 'clientName';
+
+/**
+ * Filters, sort order and page of a contract list request
+ * Every filter is optional; ranges are inclusive and either end can be left open.
+ */
+export interface ContractQuery {
+  /** Only contracts with this status */
+  status?: Exclude<ContractStatus, 'deleted'>;
+  /** Free text matched against the client, venue, package and contract text */
+  q?: string;
+  /** Earliest event date (YYYY-MM-DD) */
+  eventDateFrom?: string;
+  /** Latest event date (YYYY-MM-DD) */
+  eventDateTo?: string;
+  /** Smallest contract amount */
+  amountMin?: number;
+  /** Largest contract amount */
+  amountMax?: number;
+  /** Field to sort by */
+  sort: ContractSortKey;
+  /** Sort direction */
+  order: 'asc' | 'desc';
+  /** Opaque cursor returned with the previous page */
+  cursor?: string;
+  /** Maximum number of contracts in the page */
+  limit: number;
+}
+
+/**
+ * Contract counts and signed value across all of a vendor's contracts, whatever the filters
+ */
+export interface ContractSummary {
+  /** Number of contracts */
+  count: number;
+  /** Number of contracts in each status */
+  statusCounts: Partial<Record<ContractStatus, number>>;
+  /** Total amount of fully executed contracts, per currency */
+  signedValue: CurrencyAmount[];
+}
+
+/**
+ * One page of a contract list
+ */
+export interface ContractPage {
+  /** Contracts in the page */
+  items: Contract[];
+  /** Cursor of the next page, or null on the last page */
+  nextCursor: string | null;
+  /** Number of contracts matching the filters across all pages */
+  total: number;
+  /** Counts across all of the vendor's contracts */
+  summary: ContractSummary;
+}
+
+/**
+ * Contracts in a vendor's trash
+ */
+export interface ContractTrash {
+  /** Deleted contracts, most recently deleted first */
+  contracts: Contract[];
+  /** Days a contract stays in the trash before it is permanently deleted */
+  retentionDays: number;
+}
+
+/**
+ * Inverted full-text index over a vendor's contracts, persisted as one record per vendor
+ * Terms are lower-case with accents removed; each contract's weight for a term counts its occurrences,
+ * with words in the client, venue and package fields counting more than words in the contract text.
+ */
+export interface ContractSearchIndex {
+  /** ID of the vendor the index belongs to */
+  id: string;
+  /** Weight of each term in each contract, by term and then contract ID */
+  postings: Record<string, Record<string, number>>;
+  /** `updatedAt` of each indexed contract when it was indexed, by contract ID */
+  documents: Record<string, string>;
+}
+
+/**
+ * Piece of a search snippet
+ */
+export interface SearchSnippetPart {
+  /** Text of the piece */
+  text: string;
+  /** Whether the piece matched the search */
+  highlighted: boolean;
+}
+
+/**
+ * Contract found by a full-text search
+ */
+export interface ContractSearchResult {
+  /** ID of the contract */
+  contractId: string;
+  /** Client the contract is for */
+  clientName: string;
+  /** Status of the contract */
+  status: ContractStatus;
+  /** Event date (YYYY-MM-DD) */
+  eventDate: string;
+  /** Excerpt around the first match, split into highlighted and plain pieces */
+  snippet: SearchSnippetPart[];
+}
+
+/**
+ * How a client paid
+ */
+export type PaymentMethod = 'bank_transfer' | 'card' | 'check' | 'cash' | 'other';
+
+/**
+ * Payment received from a client against a contract
+ */
+export interface ContractPayment {
+  /** Unique identifier for the payment */
+  id: string;
+  /** ID of the contract the payment is for */
+  contractId: string;
+  /** Amount received in the contract currency */
+  amount: number;
+  /** How the payment was made */
+  method: PaymentMethod;
+  /** Date the payment was received (ISO date string) */
+  receivedOn: string;
+  /** Optional reference, e.g. a check number */
+  note?: string;
+  /** ISO timestamp when the payment was recorded */
+  recordedAt: string;
+}
+
+/**
+ * Payment details entered by the vendor
+ */
+export type ContractPaymentInput = Pick<ContractPayment, 'amount' | 'method' | 'receivedOn' | 'note'>;
+
+/**
+ * Progress of one scheduled payment, with received payments applied to the schedule in due order
+ */
+export interface ScheduledPaymentStatus extends ScheduledPayment {
+  /** Part of the amount covered by payments received */
+  paid: number;
+  /** Part of the amount still to be paid */
+  outstanding: number;
+  /** Whether the outstanding part is past its due date */
+  isOverdue: boolean;
+}
+
+/**
+ * Payments received against a contract and what is left to pay
+ */
+export interface PaymentLedger {
+  /** Contract amount with its executed amendments applied */
+  total: number;
+  /** Payments received, oldest first */
+  payments: ContractPayment[];
+  /** Total received */
+  paid: number;
+  /** Amount still to be paid */
+  outstanding: number;
+  /** Scheduled payments with the received payments applied */
+  scheduledPayments: ScheduledPaymentStatus[];
+}
+
+/**
+ * Overdue scheduled payment on one of a vendor's contracts
+ */
+export interface OverdueInstallment {
+  /** ID of the contract */
+  contractId: string;
+  /** Client name of the contract */
+  clientName: string;
+  /** Currency of the contract */
+  currency: CurrencyCode;
+  /** Name of the scheduled payment */
+  label: string;
+  /** Date the payment was due (ISO date string) */
+  dueDate: string;
+  /** Amount still to be paid */
+  outstanding: number;
+}
+
+/**
+ * Lifecycle of an invoice: issued to the client, then paid or voided
+ */
+export type InvoiceStatus = 'issued' | 'paid' | 'void';
+
+/**
+ * Numbered invoice for one scheduled payment of a signed contract
+ */
+export interface Invoice {
+  /** Unique identifier for the invoice */
+  id: string;
+  /** ID of the vendor who issued the invoice */
+  vendorId: string;
+  /** ID of the contract the invoice bills */
+  contractId: string;
+  /** Invoice number shown to the client, sequential per vendor */
+  number: string;
+  /** Position of the billed payment in the schedule (0 is the deposit) */
+  scheduleIndex: number;
+  /** Name of the billed payment, e.g. "Deposit" */
+  description: string;
+  /** Amount billed in the contract currency */
+  amount: number;
+  /** Date the payment is due (ISO date string) */
+  dueDate: string;
+  /** Current status of the invoice */
+  status: InvoiceStatus;
+  /** ISO timestamp when the invoice was issued */
+  issuedAt: string;
+  /** ISO timestamp when the invoice was marked paid */
+  paidAt?: string;
+  /** ISO timestamp when the invoice was voided */
+  voidedAt?: string;
+}
+
+/**
+ * Signing progress of an amendment, which follows the signing statuses of a contract
+ */
+export type AmendmentStatus = Extract<ContractStatus, 'draft' | 'sent' | 'partially_signed' | 'signed'>;
+
+/**
+ * Change to a signed contract, such as a new guest count or extra hours, signed by the same parties
+ * The contract itself stays as it was signed; executed amendments are read on top of it in order.
+ */
+export interface ContractAmendment {
+  /** Unique identifier for the amendment */
+  id: string;
+  /** ID of the amended contract */
+  contractId: string;
+  /** ID of the vendor who owns the contract */
+  vendorId: string;
+  /** Position of the amendment among those of the contract, starting at 1 */
+  number: number;
+  /** Short description of the change, e.g. "Extra hour of coverage" */
+  title: string;
+  /** Rich text content of the amendment */
+  content: string;
+  /** Change to the contract amount in the contract currency; negative for a reduction */
+  amountDelta: number;
+  /** Current signing status of the amendment */
+  status: AmendmentStatus;
+  /** Parties who must sign, copied from the contract when the amendment was created */
+  signers: ContractSigner[];
+  /** ISO timestamp when the last party signed */
+  executedAt?: string;
+  /** ISO timestamp when the amendment was created */
+  createdAt: string;
+  /** ISO timestamp when the amendment was last updated */
+  updatedAt: string;
+}
+
+/**
+ * Amendment details entered by the vendor
+ */
+export type ContractAmendmentInput = Pick<ContractAmendment, 'title' | 'content' | 'amountDelta'>;
+
+/**
+ * Money a vendor is still owed across their signed contracts
+ */
+export interface ReceivablesSummary {
+  /** Total still to be paid on signed contracts, per currency */
+  outstanding: CurrencyAmount[];
+  /** Total of the overdue installments, per currency */
+  overdue: CurrencyAmount[];
+  /** Scheduled payments past their due date, oldest first */
+  overdueInstallments: OverdueInstallment[];
+}
+
+/**
+ * Reusable contract a vendor starts new contracts from
+ * Text fields may contain `{{field}}` merge fields, filled in from the contract details.
+ */
+export interface ContractTemplate {
+  /** Unique identifier for the template */
+  id: string;
+  /** ID of the vendor who owns this template */
+  vendorId: string;
+  /** Name shown in the template picker */
+  name: string;
+  /** Short note on when to use the template */
+  description: string;
+  /** Default service package for contracts created from the template */
+  servicePackage: string;
+  /** Default contract amount in the vendor's currency, if the template has a standard price */
+  amount?: number;
+  /** Rich text content of the template */
+  content: string;
+  /** ISO timestamp when the template was created */
+  createdAt: string;
+  /** ISO timestamp when the template was last updated */
+  updatedAt: string;
+}
+
+/**
+ * Template fields a vendor can edit
+ */
+export type ContractTemplateInput = Pick<
+  ContractTemplate,
+  'name' | 'description' | 'servicePackage' | 'amount' | 'content'
+>;
+
+/**
+ * Subject a library clause covers
+ */
+export type ClauseCategory = 'payment' | 'cancellation' | 'force_majeure' | 'copyright' | 'liability' | 'conduct';
+
+/**
+ * Published wording of a library clause
+ */
+export interface ClauseVersion {
+  /** Version number, starting at 1 */
+  version: number;
+  /** Paragraphs of the clause as plain text */
+  paragraphs: string[];
+  /** ISO date the version was published */
+  publishedAt: string;
+  /** What changed from the previous version */
+  changeNote: string;
+}
+
+/**
+ * Standard clause vendors insert into contracts instead of copying paragraphs between them
+ */
+export interface Clause {
+  /** Unique identifier for the clause */
+  id: string;
+  /** Heading the clause is inserted under */
+  name: string;
+  /** Subject the clause covers */
+  category: ClauseCategory;
+  /** Vendor types the clause is offered to */
+  vendorTypes: User['vendorType'][];
+  /** Published versions, oldest first; the last one is current */
+  versions: ClauseVersion[];
+}
+
+/**
+ * Library clause found in a contract that uses an older version than the current one
+ */
+export interface OutdatedClauseUsage {
+  /** ID of the contract */
+  contractId: string;
+  /** Client name of the contract */
+  clientName: string;
+  /** Status of the contract */
+  contractStatus: ContractStatus;
+  /** ID of the clause */
+  clauseId: string;
+  /** Name of the clause */
+  clauseName: string;
+  /** Version inserted into the contract */
+  usedVersion: number;
+  /** Current version in the library */
+  currentVersion: number;
+}
+
+/**
+ * Contract as presented to a client through a share link
+ */
+export interface SharedContractView {
+  /** The contract being shared */
+  contract: Contract;
+  /** Amendment to the contract the link asks the client to sign, if any */
+  amendment?: ContractAmendment;
+  /** Display name of the vendor who owns the contract */
+  vendorName: string;
+  /** Signer the share link was issued to */
+  signer: ContractSigner;
+  /** Vendor branding applied to the contract PDF, if the vendor has set any */
+  branding: VendorBranding | null;
+  /** ISO timestamp when the share link expires */
+  expiresAt: string;
+}
+
 /**
  * Authentication credentials for login
  */
@@ -64,6 +695,50 @@ export interface LoginCredentials {
   password: string;
 }
 
+/**
+ * Details collected when a vendor registers a new account
+ */
+export interface RegistrationData {
+  /** Business name shown to clients */
+  name: string;
+  /** Email address used for authentication */
+  email: string;
+  /** Account password */
+  password: string;
+  /** Type of wedding vendor */
+  vendorType: User['vendorType'];
+}
+
+/**
+ * Branding a vendor chooses for their contract documents
+ */
+export interface BrandingSettings {
+  /** Business name shown in the letterhead */
+  businessName: string;
+  /** Logo image as a PNG or JPEG data URL */
+  logo?: string;
+  /** Accent colour for headings and rules, as a #rrggbb hex string */
+  accentColor: string;
+  /** Standard PDF font family used for the whole document */
+  fontFamily: 'helvetica' | 'times' | 'courier';
+  /** Postal address shown in the letterhead, one line per address line */
+  businessAddress: string;
+  /** Text shown in the footer of every page */
+  footerText: string;
+  /** Locale amounts and dates are shown in, in the app and on documents (defaults to en-US) */
+  locale?: string;
+}
+
+/**
+ * Stored branding of a vendor
+ */
+export interface VendorBranding extends BrandingSettings {
+  /** ID of the vendor, which is also the record ID */
+  id: string;
+  /** ISO timestamp when the branding was last saved */
+  updatedAt: string;
+}
+
 /**
  * API response wrapper for consistent error handling
  */
@@ -79,18 +754,20 @@ export interface ApiResponse<T = any> {
 /**
  * API validation error response
  */
-export interface ValidationErrorResponse {
+export interface ValidationErrorResponse<TErrors = {
+  clientName?: string;
+  eventDate?: string;
+  eventVenue?: string;
+  servicePackage?: string;
+  amount?: string;
+  content?: string;
+  signers?: string;
+  paymentSchedule?: string;
+}> {
   /** Whether the request was successful (always false for validation errors) */
   success: false;
   /** Error message */
   error: string;
-  /** Field-specific validation errors */
-  data: {
-    clientName?: string;
-    eventDate?: string;
-    eventVenue?: string;
-    servicePackage?: string;
-    amount?: string;
-    content?: string;
-  };
+  /** Field-specific validation errors (contract fields unless another shape is given) */
+  data: TErrors;
 }
\ No newline at end of file